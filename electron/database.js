@@ -19,6 +19,8 @@ const sqlite3 = require('sqlite3').verbose();
 const fs = require('fs');
 const path = require('path');
 const { promisify } = require('util');
+const { getEntity, buildUpsert } = require('./entities');
+const { MIGRATIONS, MigrationError } = require('./migrations');
 
 const readFile = promisify(fs.readFile);
 const writeFile = promisify(fs.writeFile);
@@ -26,185 +28,95 @@ const copyFile = promisify(fs.copyFile);
 const stat = promisify(fs.stat);
 
 class Database {
-  constructor(dbPath) {
+  constructor(dbPath, options = {}) {
     this.dbPath = dbPath;
+    this.backupDir = options.backupDir || null;
     this.db = null;
+    // Writes are chained so a single write can never land inside
+    // another caller's open transaction
+    this.writeQueue = Promise.resolve();
   }
 
   /**
-   * Initialize database and create tables
+   * Initialize database and apply schema migrations
    */
   async initialize() {
-    return new Promise((resolve, reject) => {
+    await new Promise((resolve, reject) => {
       this.db = new sqlite3.Database(this.dbPath, (err) => {
-        if (err) {
-          reject(err);
-          return;
-        }
-
-        console.log('✅ Connected to SQLite database');
-
-        // Enable foreign keys
-        this.db.run('PRAGMA foreign_keys = ON');
-        
-        // Enable WAL mode for better performance
-        this.db.run('PRAGMA journal_mode = WAL');
-        
-        // Create tables
-        this.createTables()
-          .then(() => resolve())
-          .catch((err) => reject(err));
+        if (err) reject(err);
+        else resolve();
       });
     });
+
+    console.log('✅ Connected to SQLite database');
+
+    // Enable foreign keys
+    await this.run('PRAGMA foreign_keys = ON');
+
+    // Enable WAL mode for better performance
+    await this.run('PRAGMA journal_mode = WAL');
+
+    return this.migrate();
   }
 
   /**
-   * Create all necessary tables
+   * Bring the schema up to date by applying pending migrations
+   * A backup is taken first whenever an existing database is about to change
    */
-  async createTables() {
-    const tables = [
-      // Key-value store for app settings
-      `CREATE TABLE IF NOT EXISTS app_data (
-        key TEXT PRIMARY KEY,
-        value TEXT NOT NULL,
-        created_at INTEGER NOT NULL,
-        updated_at INTEGER NOT NULL,
-        size INTEGER NOT NULL
-      )`,
-
-      // Students table
-      `CREATE TABLE IF NOT EXISTS students (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        student_id TEXT UNIQUE NOT NULL,
-        admission_number TEXT UNIQUE NOT NULL,
-        first_name TEXT NOT NULL,
-        last_name TEXT,
-        date_of_birth TEXT,
-        gender TEXT NOT NULL,
-        father_name TEXT NOT NULL,
-        father_phone TEXT,
-        father_email TEXT,
-        mother_name TEXT,
-        mother_phone TEXT,
-        class_id INTEGER NOT NULL,
-        section_id INTEGER,
-        admission_date TEXT NOT NULL,
-        monthly_fee REAL NOT NULL,
-        transport_opted INTEGER DEFAULT 0,
-        transport_fee REAL DEFAULT 0,
-        status TEXT NOT NULL DEFAULT 'active',
-        data TEXT NOT NULL,
-        created_at INTEGER NOT NULL,
-        updated_at INTEGER NOT NULL
-      )`,
-
-      // Teachers table
-      `CREATE TABLE IF NOT EXISTS teachers (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        teacher_id TEXT UNIQUE NOT NULL,
-        first_name TEXT NOT NULL,
-        last_name TEXT,
-        email TEXT,
-        phone TEXT,
-        designation TEXT NOT NULL,
-        salary REAL NOT NULL,
-        joining_date TEXT NOT NULL,
-        status TEXT NOT NULL DEFAULT 'active',
-        data TEXT NOT NULL,
-        created_at INTEGER NOT NULL,
-        updated_at INTEGER NOT NULL
-      )`,
-
-      // Fee records table
-      `CREATE TABLE IF NOT EXISTS fee_records (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        receipt_number TEXT UNIQUE NOT NULL,
-        student_id INTEGER NOT NULL,
-        fee_month INTEGER NOT NULL,
-        fee_year INTEGER NOT NULL,
-        total_fee REAL NOT NULL,
-        late_fee REAL DEFAULT 0,
-        concession_amount REAL DEFAULT 0,
-        amount_paid REAL NOT NULL,
-        balance_due REAL DEFAULT 0,
-        payment_date TEXT NOT NULL,
-        payment_mode TEXT NOT NULL,
-        status TEXT NOT NULL,
-        data TEXT NOT NULL,
-        created_at INTEGER NOT NULL,
-        FOREIGN KEY (student_id) REFERENCES students(id)
-      )`,
-
-      // Salary payments table
-      `CREATE TABLE IF NOT EXISTS salary_payments (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        payment_id TEXT UNIQUE NOT NULL,
-        teacher_id INTEGER NOT NULL,
-        month INTEGER NOT NULL,
-        year INTEGER NOT NULL,
-        basic_salary REAL NOT NULL,
-        allowances REAL DEFAULT 0,
-        deductions REAL DEFAULT 0,
-        net_salary REAL NOT NULL,
-        payment_date TEXT NOT NULL,
-        payment_mode TEXT NOT NULL,
-        status TEXT NOT NULL,
-        data TEXT NOT NULL,
-        created_at INTEGER NOT NULL,
-        FOREIGN KEY (teacher_id) REFERENCES teachers(id)
-      )`,
-
-      // Audit logs table
-      `CREATE TABLE IF NOT EXISTS audit_logs (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        timestamp TEXT NOT NULL,
-        user_id INTEGER,
-        user_name TEXT,
-        action TEXT NOT NULL,
-        entity TEXT NOT NULL,
-        entity_id INTEGER,
-        details TEXT,
-        created_at INTEGER NOT NULL
-      )`
-    ];
-
-    // Create indexes for better performance
-    const indexes = [
-      'CREATE INDEX IF NOT EXISTS idx_students_id ON students(student_id)',
-      'CREATE INDEX IF NOT EXISTS idx_students_class ON students(class_id)',
-      'CREATE INDEX IF NOT EXISTS idx_students_status ON students(status)',
-      'CREATE INDEX IF NOT EXISTS idx_students_name ON students(first_name, last_name)',
-      'CREATE INDEX IF NOT EXISTS idx_teachers_id ON teachers(teacher_id)',
-      'CREATE INDEX IF NOT EXISTS idx_teachers_status ON teachers(status)',
-      'CREATE INDEX IF NOT EXISTS idx_fee_records_student ON fee_records(student_id)',
-      'CREATE INDEX IF NOT EXISTS idx_fee_records_date ON fee_records(payment_date)',
-      'CREATE INDEX IF NOT EXISTS idx_fee_records_month_year ON fee_records(fee_month, fee_year)',
-      'CREATE INDEX IF NOT EXISTS idx_fee_records_receipt ON fee_records(receipt_number)',
-      'CREATE INDEX IF NOT EXISTS idx_salary_payments_teacher ON salary_payments(teacher_id)',
-      'CREATE INDEX IF NOT EXISTS idx_salary_payments_date ON salary_payments(payment_date)',
-      'CREATE INDEX IF NOT EXISTS idx_audit_logs_timestamp ON audit_logs(timestamp)',
-      'CREATE INDEX IF NOT EXISTS idx_audit_logs_entity ON audit_logs(entity, entity_id)'
-    ];
+  async migrate() {
+    await this.run(`CREATE TABLE IF NOT EXISTS schema_version (
+      version INTEGER PRIMARY KEY,
+      description TEXT NOT NULL,
+      applied_at INTEGER NOT NULL
+    )`);
+
+    const [{ version: currentVersion }] = await this.query(
+      'SELECT COALESCE(MAX(version), 0) as version FROM schema_version'
+    );
+    const pending = MIGRATIONS.filter((m) => m.version > currentVersion);
+
+    if (pending.length === 0) {
+      console.log(`✅ Database schema is up to date (v${currentVersion})`);
+      return { from: currentVersion, to: currentVersion, backupPath: null };
+    }
 
-    return new Promise((resolve, reject) => {
-      this.db.serialize(() => {
-        // Create tables
-        tables.forEach((sql) => {
-          this.db.run(sql, (err) => {
-            if (err) console.error('Error creating table:', err);
-          });
-        });
+    // Only back up databases that already hold data (not a fresh install)
+    let backupPath = null;
+    const existing = await this.query(
+      "SELECT COUNT(*) as count FROM sqlite_master WHERE type = 'table' AND name = 'app_data'"
+    );
+    if (existing[0].count > 0 && this.backupDir) {
+      const backup = await this.createBackup(this.backupDir, `pre-migration-v${currentVersion}`);
+      backupPath = backup.filepath;
+    }
 
-        // Create indexes
-        indexes.forEach((sql) => {
-          this.db.run(sql, (err) => {
-            if (err) console.error('Error creating index:', err);
-          });
+    let version = currentVersion;
+    for (const migration of pending) {
+      try {
+        await this.transaction(async () => {
+          await migration.up(this);
+          await this.run(
+            'INSERT INTO schema_version (version, description, applied_at) VALUES (?, ?, ?)',
+            [migration.version, migration.description, Date.now()]
+          );
         });
+        version = migration.version;
+        console.log(`✅ Applied migration ${migration.version}: ${migration.description}`);
+      } catch (error) {
+        console.error(`❌ Migration ${migration.version} failed:`, error);
+        throw new MigrationError(migration, error, version, backupPath);
+      }
+    }
 
-        resolve();
-      });
-    });
+    return { from: currentVersion, to: version, backupPath };
+  }
+
+  /**
+   * Get the current schema version
+   */
+  async getSchemaVersion() {
+    const rows = await this.query('SELECT COALESCE(MAX(version), 0) as version FROM schema_version');
+    return rows[0].version;
   }
 
   /**
@@ -234,37 +146,29 @@ class Database {
    * Set item in app_data table
    */
   async set(key, value) {
+    await this.exclusive(() => this.writeAppData(key, value));
+  }
+
+  /**
+   * Write an app_data row (callers must hold the write queue)
+   */
+  async writeAppData(key, value) {
     const jsonValue = JSON.stringify(value);
     const size = Buffer.byteLength(jsonValue);
     const now = Date.now();
 
-    return new Promise((resolve, reject) => {
-      this.db.run(
-        `INSERT OR REPLACE INTO app_data (key, value, created_at, updated_at, size) 
-         VALUES (?, ?, COALESCE((SELECT created_at FROM app_data WHERE key = ?), ?), ?, ?)`,
-        [key, jsonValue, key, now, now, size],
-        (err) => {
-          if (err) reject(err);
-          else resolve();
-        }
-      );
-    });
+    await this.run(
+      `INSERT OR REPLACE INTO app_data (key, value, created_at, updated_at, size) 
+       VALUES (?, ?, COALESCE((SELECT created_at FROM app_data WHERE key = ?), ?), ?, ?)`,
+      [key, jsonValue, key, now, now, size]
+    );
   }
 
   /**
    * Remove item from app_data table
    */
   async remove(key) {
-    return new Promise((resolve, reject) => {
-      this.db.run(
-        'DELETE FROM app_data WHERE key = ?',
-        [key],
-        (err) => {
-          if (err) reject(err);
-          else resolve();
-        }
-      );
-    });
+    await this.exclusive(() => this.run('DELETE FROM app_data WHERE key = ?', [key]));
   }
 
   /**
@@ -291,6 +195,118 @@ class Database {
     });
   }
 
+  /**
+   * Run a write after every previously queued write has finished
+   */
+  async exclusive(work) {
+    const result = this.writeQueue.then(() => work());
+    this.writeQueue = result.catch(() => {});
+    return result;
+  }
+
+  /**
+   * Run a unit of work inside a transaction
+   * Rolls back and rethrows if the work fails.
+   * The work must use this.run directly - queued writes would deadlock.
+   */
+  async transaction(work) {
+    return this.exclusive(async () => {
+      await this.run('BEGIN TRANSACTION');
+
+      try {
+        const result = await work();
+        await this.run('COMMIT');
+        return result;
+      } catch (error) {
+        await this.run('ROLLBACK');
+        throw error;
+      }
+    });
+  }
+
+  /**
+   * List all records of an entity (students, fee_records, ...)
+   */
+  async listEntities(entityName) {
+    const entity = getEntity(entityName);
+    const limit = entity.limit ? ` LIMIT ${entity.limit}` : '';
+    const rows = await this.query(`SELECT * FROM ${entity.table} ORDER BY ${entity.orderBy}${limit}`);
+    return rows.map(entity.fromRow);
+  }
+
+  /**
+   * Insert or update a single entity record
+   */
+  async saveEntity(entityName, record) {
+    const entity = getEntity(entityName);
+    const { sql, params } = buildUpsert(entity.table, entity.toRow(record));
+    await this.exclusive(() => this.run(sql, params));
+  }
+
+  /**
+   * Insert or update many entity records in one transaction
+   */
+  async saveEntities(entityName, records) {
+    const entity = getEntity(entityName);
+
+    await this.transaction(async () => {
+      for (const record of records) {
+        const { sql, params } = buildUpsert(entity.table, entity.toRow(record));
+        await this.run(sql, params);
+      }
+    });
+  }
+
+  /**
+   * Replace the full contents of several entity tables in one transaction
+   * Used by backup restore: rows missing from `tables` are deleted.
+   * Foreign keys are checked at commit, once every table has been refilled.
+   */
+  async replaceEntities(tables) {
+    const entries = Object.entries(tables).map(([entityName, records]) => [getEntity(entityName), records]);
+
+    await this.transaction(async () => {
+      await this.run('PRAGMA defer_foreign_keys = ON');
+      for (const [entity] of entries) {
+        await this.run(`DELETE FROM ${entity.table}`);
+      }
+      for (const [entity, records] of entries) {
+        for (const record of records) {
+          const { sql, params } = buildUpsert(entity.table, entity.toRow(record));
+          await this.run(sql, params);
+        }
+      }
+    });
+  }
+
+  /**
+   * List students, optionally filtered by status, class or a search term
+   */
+  async listStudents(filter = {}) {
+    const conditions = [];
+    const params = [];
+
+    if (filter.status) {
+      conditions.push('status = ?');
+      params.push(filter.status);
+    }
+    if (filter.classId) {
+      conditions.push('class_id = ?');
+      params.push(filter.classId);
+    }
+    if (filter.search) {
+      const term = `%${filter.search}%`;
+      conditions.push(
+        '(first_name LIKE ? OR last_name LIKE ? OR student_id LIKE ? OR admission_number LIKE ? OR father_phone LIKE ?)'
+      );
+      params.push(term, term, term, term, term);
+    }
+
+    const where = conditions.length > 0 ? ` WHERE ${conditions.join(' AND ')}` : '';
+    const rows = await this.query(`SELECT data FROM students${where} ORDER BY id`, params);
+    return rows.map(row => JSON.parse(row.data));
+  }
+
   /**
    * Get storage information
    */
@@ -319,6 +335,7 @@ class Database {
       const feeRecords = counts[2][0].count;
       const salaryRecords = counts[3][0].count;
       const appData = counts[4][0].count;
+      const schemaVersion = await this.getSchemaVersion();
 
       return {
         dbSizeMB,
@@ -329,6 +346,7 @@ class Database {
         feeRecords,
         salaryRecords,
         appData,
+        schemaVersion,
         unlimited: true,
         dbPath: this.dbPath
       };
@@ -352,12 +370,17 @@ class Database {
   /**
    * Create backup of database
    */
-  async createBackup(directory) {
+  async createBackup(directory, label) {
     try {
       const timestamp = new Date().toISOString().replace(/:/g, '-').split('.')[0];
-      const filename = `SchoolFeeManager_Backup_${timestamp}.db`;
+      const filename = label
+        ? `SchoolFeeManager_Backup_${timestamp}_${label}.db`
+        : `SchoolFeeManager_Backup_${timestamp}.db`;
       const backupPath = path.join(directory, filename);
 
+      // Flush the WAL so the copied file contains every committed write
+      await this.run('PRAGMA wal_checkpoint(TRUNCATE)');
+
       // Copy database file
       await copyFile(this.dbPath, backupPath);
 
@@ -476,32 +499,37 @@ class Database {
         throw new Error('Invalid import format');
       }
 
-      // Begin transaction
-      await this.run('BEGIN TRANSACTION');
-
-      try {
+      await this.transaction(async () => {
         // Import app_data
         if (data.appData) {
           for (const [key, value] of Object.entries(data.appData)) {
-            await this.set(key, value);
+            await this.writeAppData(key, value);
           }
         }
 
-        // Import students, teachers, etc. would go here
-        // For now, just importing app_data
-
-        await this.run('COMMIT');
+        // Import entity tables (parents before children for foreign keys)
+        const entityImports = [
+          ['students', data.students],
+          ['teachers', data.teachers],
+          ['fee_records', data.feeRecords],
+          ['salary_payments', data.salaryPayments]
+        ];
+
+        for (const [entityName, records] of entityImports) {
+          const entity = getEntity(entityName);
+          for (const record of records || []) {
+            const { sql, params } = buildUpsert(entity.table, entity.toRow(record));
+            await this.run(sql, params);
+          }
+        }
+      });
 
-        console.log('✅ Data imported successfully');
+      console.log('✅ Data imported successfully');
 
-        return {
-          success: true,
-          message: 'Data imported successfully'
-        };
-      } catch (error) {
-        await this.run('ROLLBACK');
-        throw error;
-      }
+      return {
+        success: true,
+        message: 'Data imported successfully'
+      };
     } catch (error) {
       console.error('Import failed:', error);
       throw new Error(`Import failed: ${error.message}`);
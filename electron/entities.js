@@ -0,0 +1,187 @@
+// electron/entities.js
+/**
+ * Entity Table Mappings
+ * Maps the renderer's entities onto the normalized SQLite tables
+ *
+ * Every table keeps its indexed columns next to the full JSON document
+ * (the `data` column), so new fields on the TypeScript types never need
+ * a column before they can be stored.
+ *
+ * `channel` is the IPC namespace the entity is exposed under
+ * (students:list, feeRecords:save, ...).
+ *
+ * Version: 3.0
+ * Developer: MWA
+ */
+
+/**
+ * Convert an ISO date string to a millisecond timestamp
+ */
+const toTimestamp = (value) => {
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? Date.now() : time;
+};
+
+const fromData = (row) => JSON.parse(row.data);
+
+const ENTITIES = {
+  students: {
+    table: 'students',
+    channel: 'students',
+    orderBy: 'id',
+    fromRow: fromData,
+    toRow: (s) => ({
+      id: s.id,
+      student_id: s.studentId,
+      admission_number: s.admissionNumber,
+      first_name: s.firstName,
+      last_name: s.lastName || null,
+      date_of_birth: s.dateOfBirth || null,
+      gender: s.gender,
+      father_name: s.fatherName,
+      father_phone: s.fatherPhone || null,
+      father_email: s.fatherEmail || null,
+      mother_name: s.motherName || null,
+      mother_phone: s.motherPhone || null,
+      class_id: s.classId,
+      section_id: s.sectionId || null,
+      admission_date: s.admissionDate,
+      monthly_fee: s.monthlyFee,
+      transport_opted: s.transportOpted ? 1 : 0,
+      transport_fee: s.transportFee || 0,
+      status: s.status,
+      data: JSON.stringify(s),
+      created_at: toTimestamp(s.createdAt),
+      updated_at: toTimestamp(s.updatedAt)
+    })
+  },
+
+  teachers: {
+    table: 'teachers',
+    channel: 'teachers',
+    orderBy: 'id',
+    fromRow: fromData,
+    toRow: (t) => ({
+      id: t.id,
+      teacher_id: t.teacherId,
+      first_name: t.firstName,
+      last_name: t.lastName || null,
+      email: t.email || null,
+      phone: t.phone || null,
+      designation: t.designation,
+      salary: t.salary,
+      joining_date: t.joiningDate,
+      status: t.status,
+      data: JSON.stringify(t),
+      created_at: toTimestamp(t.createdAt),
+      updated_at: toTimestamp(t.updatedAt)
+    })
+  },
+
+  fee_records: {
+    table: 'fee_records',
+    channel: 'feeRecords',
+    orderBy: 'id',
+    fromRow: fromData,
+    toRow: (r) => ({
+      id: r.id,
+      receipt_number: r.receiptNumber || null,   // unpaid invoices have none yet
+      student_id: r.studentId,
+      fee_month: r.feeMonth,
+      fee_year: r.feeYear,
+      total_fee: r.totalFee,
+      late_fee: r.lateFee || 0,
+      concession_amount: r.concessionAmount || 0,
+      amount_paid: r.amountPaid,
+      balance_due: r.balanceDue || 0,
+      payment_date: r.paymentDate,
+      payment_mode: r.paymentMode,
+      status: r.status,
+      data: JSON.stringify(r),
+      created_at: toTimestamp(r.createdAt)
+    })
+  },
+
+  salary_payments: {
+    table: 'salary_payments',
+    channel: 'salaryPayments',
+    orderBy: 'id',
+    fromRow: fromData,
+    toRow: (p) => ({
+      id: p.id,
+      payment_id: p.paymentId,
+      teacher_id: p.teacherId,
+      month: p.month,
+      year: p.year,
+      basic_salary: p.basicSalary,
+      allowances: p.allowances || 0,
+      deductions: p.deductions || 0,
+      net_salary: p.netSalary,
+      payment_date: p.paymentDate,
+      payment_mode: p.paymentMode,
+      status: p.status,
+      data: JSON.stringify(p),
+      created_at: toTimestamp(p.createdAt)
+    })
+  },
+
+  // Audit logs have no JSON column - every field is its own column.
+  // Only the newest entries are loaded; the table keeps the full history.
+  audit_logs: {
+    table: 'audit_logs',
+    channel: 'auditLogs',
+    orderBy: 'id DESC',
+    limit: 1000,
+    fromRow: (row) => ({
+      id: row.id,
+      timestamp: row.timestamp,
+      userId: row.user_id,
+      userName: row.user_name,
+      action: row.action,
+      entity: row.entity,
+      entityId: row.entity_id,
+      details: row.details
+    }),
+    toRow: (log) => ({
+      id: log.id,
+      timestamp: log.timestamp,
+      user_id: log.userId,
+      user_name: log.userName,
+      action: log.action,
+      entity: log.entity,
+      entity_id: log.entityId,
+      details: log.details,
+      created_at: toTimestamp(log.timestamp)
+    })
+  }
+};
+
+/**
+ * Look up an entity mapping, rejecting anything not whitelisted
+ */
+const getEntity = (name) => {
+  if (!Object.prototype.hasOwnProperty.call(ENTITIES, name)) {
+    throw new Error(`Unknown entity: ${name}`);
+  }
+  return ENTITIES[name];
+};
+
+/**
+ * Build an upsert statement for one row
+ */
+const buildUpsert = (table, row) => {
+  const columns = Object.keys(row);
+  const placeholders = columns.map(() => '?').join(', ');
+  const updates = columns
+    .filter((column) => column !== 'id')
+    .map((column) => `${column} = excluded.${column}`)
+    .join(', ');
+
+  return {
+    sql: `INSERT INTO ${table} (${columns.join(', ')}) VALUES (${placeholders}) ` +
+         `ON CONFLICT(id) DO UPDATE SET ${updates}`,
+    params: columns.map((column) => row[column])
+  };
+};
+
+module.exports = { ENTITIES, getEntity, buildUpsert };
@@ -18,6 +18,15 @@ const { app, BrowserWindow, ipcMain, dialog, Menu, Tray, shell } = require('elec
 const path = require('path');
 const fs = require('fs');
 const Database = require('./database');
+const { MigrationError } = require('./migrations');
+const { ENTITIES } = require('./entities');
+const {
+  validateString,
+  validateRecord,
+  validateRecords,
+  validateEntityTables,
+  validateStudentFilter
+} = require('./validation');
 const { autoUpdater } = require('electron-updater');
 
 let mainWindow;
@@ -389,26 +398,65 @@ function createMenu() {
   Menu.setApplicationMenu(menu);
 }
 
+/**
+ * Show the migration failure screen
+ * The failed migration was rolled back, so the database is still usable by
+ * the previous app version; point the user at the pre-migration backup.
+ */
+async function showMigrationError(error) {
+  const { migration, cause, currentVersion, backupPath } = error;
+  const buttons = backupPath ? ['Quit', 'Open Backup Folder'] : ['Quit'];
+
+  const result = await dialog.showMessageBox({
+    type: 'error',
+    title: 'Database Upgrade Failed',
+    message: 'Your school database could not be upgraded to this version of the app.',
+    detail: `Step ${migration.version} (${migration.description}) failed:\n${cause.message}\n\n` +
+            `The failed step was rolled back. Your data remains at schema version ${currentVersion}.\n\n` +
+            (backupPath
+              ? `A backup was taken before the upgrade:\n${backupPath}\n\n`
+              : '') +
+            `Please contact support with this message. The application will now exit.`,
+    buttons,
+    defaultId: 0
+  });
+
+  if (result.response === 1 && backupPath) {
+    shell.showItemInFolder(backupPath);
+  }
+}
+
 /**
  * Initialize database
+ * Returns false if the app cannot start
  */
 async function initializeDatabase() {
   try {
     console.log('📦 Initializing database at:', dbPath);
-    db = new Database(dbPath);
-    await db.initialize();
+    db = new Database(dbPath, { backupDir });
+    const migration = await db.initialize();
     console.log('✅ Database initialized successfully');
+    if (migration.from !== migration.to) {
+      console.log(`🔄 Schema migrated v${migration.from} → v${migration.to}`);
+    }
     
     // Get initial stats
     const info = await db.getStorageInfo();
     console.log('📊 Database stats:', info);
+    return true;
   } catch (error) {
     console.error('❌ Database initialization failed:', error);
-    dialog.showErrorBox(
-      'Database Error',
-      `Failed to initialize database:\n${error.message}\n\nThe application will now exit.`
-    );
+    if (error instanceof MigrationError) {
+      await showMigrationError(error);
+    } else {
+      dialog.showErrorBox(
+        'Database Error',
+        `Failed to initialize database:\n${error.message}\n\nThe application will now exit.`
+      );
+    }
+    app.isQuitting = true;
     app.quit();
+    return false;
   }
 }
 
@@ -450,7 +498,7 @@ function setupIpcHandlers() {
   // Get item
   ipcMain.handle('db:get', async (event, key, defaultValue) => {
     try {
-      return await db.get(key, defaultValue);
+      return await db.get(validateString(key, 'key'), defaultValue);
     } catch (error) {
       console.error('db:get error:', error);
       return defaultValue;
@@ -460,7 +508,7 @@ function setupIpcHandlers() {
   // Set item
   ipcMain.handle('db:set', async (event, key, value) => {
     try {
-      return await db.set(key, value);
+      return await db.set(validateString(key, 'key'), value);
     } catch (error) {
       console.error('db:set error:', error);
       throw error;
@@ -470,23 +518,13 @@ function setupIpcHandlers() {
   // Remove item
   ipcMain.handle('db:remove', async (event, key) => {
     try {
-      return await db.remove(key);
+      return await db.remove(validateString(key, 'key'));
     } catch (error) {
       console.error('db:remove error:', error);
       throw error;
     }
   });
 
-  // Query
-  ipcMain.handle('db:query', async (event, sql, params) => {
-    try {
-      return await db.query(sql, params);
-    } catch (error) {
-      console.error('db:query error:', error);
-      throw error;
-    }
-  });
-
   // Get storage info
   ipcMain.handle('db:getStorageInfo', async () => {
     try {
@@ -521,13 +559,67 @@ function setupIpcHandlers() {
   // Import JSON
   ipcMain.handle('db:import', async (event, jsonData) => {
     try {
-      return await db.importFromJSON(jsonData);
+      return await db.importFromJSON(validateString(jsonData, 'jsonData', Infinity));
     } catch (error) {
       console.error('db:import error:', error);
       throw error;
     }
   });
 
+  // Replace whole entity tables (backup restore)
+  ipcMain.handle('db:replaceEntities', async (event, tables) => {
+    try {
+      return await db.replaceEntities(validateEntityTables(tables));
+    } catch (error) {
+      console.error('db:replaceEntities error:', error);
+      throw error;
+    }
+  });
+
+  // Entity operations - one namespace per table (students:list, feeRecords:save, ...)
+  Object.entries(ENTITIES).forEach(([entityName, entity]) => {
+    const { channel } = entity;
+
+    if (entityName !== 'students') {
+      ipcMain.handle(`${channel}:list`, async () => {
+        try {
+          return await db.listEntities(entityName);
+        } catch (error) {
+          console.error(`${channel}:list error:`, error);
+          throw error;
+        }
+      });
+    }
+
+    ipcMain.handle(`${channel}:save`, async (event, record) => {
+      try {
+        return await db.saveEntity(entityName, validateRecord(record));
+      } catch (error) {
+        console.error(`${channel}:save error:`, error);
+        throw error;
+      }
+    });
+
+    ipcMain.handle(`${channel}:saveMany`, async (event, records) => {
+      try {
+        return await db.saveEntities(entityName, validateRecords(records));
+      } catch (error) {
+        console.error(`${channel}:saveMany error:`, error);
+        throw error;
+      }
+    });
+  });
+
+  // List students with optional filter
+  ipcMain.handle('students:list', async (event, filter) => {
+    try {
+      return await db.listStudents(validateStudentFilter(filter));
+    } catch (error) {
+      console.error('students:list error:', error);
+      throw error;
+    }
+  });
+
   // Get app info
   ipcMain.handle('app:getInfo', async () => {
     return {
@@ -567,7 +659,7 @@ function setupIpcHandlers() {
  * App lifecycle
  */
 app.whenReady().then(async () => {
-  await initializeDatabase();
+  if (!(await initializeDatabase())) return;
   createWindow();
   createTray();
   createMenu();
@@ -0,0 +1,207 @@
+// electron/migrations.js
+/**
+ * Schema Migrations
+ * Ordered, versioned changes to the SQLite schema
+ *
+ * Rules:
+ * - Append new migrations to the end with the next version number
+ * - Never edit a migration that has shipped; add a new one instead
+ * - Each migration runs inside its own transaction together with
+ *   the schema_version insert, so it is applied completely or not at all
+ *
+ * Version: 3.0
+ * Developer: MWA
+ */
+
+/**
+ * Raised when a migration fails; carries what the error screen needs
+ */
+class MigrationError extends Error {
+  constructor(migration, cause, currentVersion, backupPath) {
+    super(`Migration ${migration.version} (${migration.description}) failed: ${cause.message}`);
+    this.name = 'MigrationError';
+    this.migration = migration;
+    this.cause = cause;
+    this.currentVersion = currentVersion;
+    this.backupPath = backupPath;
+  }
+}
+
+const runAll = async (db, statements) => {
+  for (const sql of statements) {
+    await db.run(sql);
+  }
+};
+
+const MIGRATIONS = [
+  {
+    version: 1,
+    description: 'Initial schema',
+    // IF NOT EXISTS keeps this safe for installs created before migrations existed
+    up: (db) => runAll(db, [
+      // Key-value store for app settings
+      `CREATE TABLE IF NOT EXISTS app_data (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL,
+        size INTEGER NOT NULL
+      )`,
+
+      // Students table
+      `CREATE TABLE IF NOT EXISTS students (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        student_id TEXT UNIQUE NOT NULL,
+        admission_number TEXT UNIQUE NOT NULL,
+        first_name TEXT NOT NULL,
+        last_name TEXT,
+        date_of_birth TEXT,
+        gender TEXT NOT NULL,
+        father_name TEXT NOT NULL,
+        father_phone TEXT,
+        father_email TEXT,
+        mother_name TEXT,
+        mother_phone TEXT,
+        class_id INTEGER NOT NULL,
+        section_id INTEGER,
+        admission_date TEXT NOT NULL,
+        monthly_fee REAL NOT NULL,
+        transport_opted INTEGER DEFAULT 0,
+        transport_fee REAL DEFAULT 0,
+        status TEXT NOT NULL DEFAULT 'active',
+        data TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL
+      )`,
+
+      // Teachers table
+      `CREATE TABLE IF NOT EXISTS teachers (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        teacher_id TEXT UNIQUE NOT NULL,
+        first_name TEXT NOT NULL,
+        last_name TEXT,
+        email TEXT,
+        phone TEXT,
+        designation TEXT NOT NULL,
+        salary REAL NOT NULL,
+        joining_date TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'active',
+        data TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL
+      )`,
+
+      // Fee records table
+      `CREATE TABLE IF NOT EXISTS fee_records (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        receipt_number TEXT UNIQUE NOT NULL,
+        student_id INTEGER NOT NULL,
+        fee_month INTEGER NOT NULL,
+        fee_year INTEGER NOT NULL,
+        total_fee REAL NOT NULL,
+        late_fee REAL DEFAULT 0,
+        concession_amount REAL DEFAULT 0,
+        amount_paid REAL NOT NULL,
+        balance_due REAL DEFAULT 0,
+        payment_date TEXT NOT NULL,
+        payment_mode TEXT NOT NULL,
+        status TEXT NOT NULL,
+        data TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        FOREIGN KEY (student_id) REFERENCES students(id)
+      )`,
+
+      // Salary payments table
+      `CREATE TABLE IF NOT EXISTS salary_payments (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        payment_id TEXT UNIQUE NOT NULL,
+        teacher_id INTEGER NOT NULL,
+        month INTEGER NOT NULL,
+        year INTEGER NOT NULL,
+        basic_salary REAL NOT NULL,
+        allowances REAL DEFAULT 0,
+        deductions REAL DEFAULT 0,
+        net_salary REAL NOT NULL,
+        payment_date TEXT NOT NULL,
+        payment_mode TEXT NOT NULL,
+        status TEXT NOT NULL,
+        data TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        FOREIGN KEY (teacher_id) REFERENCES teachers(id)
+      )`,
+
+      // Audit logs table
+      `CREATE TABLE IF NOT EXISTS audit_logs (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        timestamp TEXT NOT NULL,
+        user_id INTEGER,
+        user_name TEXT,
+        action TEXT NOT NULL,
+        entity TEXT NOT NULL,
+        entity_id INTEGER,
+        details TEXT,
+        created_at INTEGER NOT NULL
+      )`,
+
+      // Indexes for better performance
+      'CREATE INDEX IF NOT EXISTS idx_students_id ON students(student_id)',
+      'CREATE INDEX IF NOT EXISTS idx_students_class ON students(class_id)',
+      'CREATE INDEX IF NOT EXISTS idx_students_status ON students(status)',
+      'CREATE INDEX IF NOT EXISTS idx_students_name ON students(first_name, last_name)',
+      'CREATE INDEX IF NOT EXISTS idx_teachers_id ON teachers(teacher_id)',
+      'CREATE INDEX IF NOT EXISTS idx_teachers_status ON teachers(status)',
+      'CREATE INDEX IF NOT EXISTS idx_fee_records_student ON fee_records(student_id)',
+      'CREATE INDEX IF NOT EXISTS idx_fee_records_date ON fee_records(payment_date)',
+      'CREATE INDEX IF NOT EXISTS idx_fee_records_month_year ON fee_records(fee_month, fee_year)',
+      'CREATE INDEX IF NOT EXISTS idx_fee_records_receipt ON fee_records(receipt_number)',
+      'CREATE INDEX IF NOT EXISTS idx_salary_payments_teacher ON salary_payments(teacher_id)',
+      'CREATE INDEX IF NOT EXISTS idx_salary_payments_date ON salary_payments(payment_date)',
+      'CREATE INDEX IF NOT EXISTS idx_audit_logs_timestamp ON audit_logs(timestamp)',
+      'CREATE INDEX IF NOT EXISTS idx_audit_logs_entity ON audit_logs(entity, entity_id)'
+    ])
+  },
+  {
+    version: 2,
+    description: 'Allow shared and missing receipt numbers on fee records',
+    // A receipt or credit note covering several months or children is one
+    // record per month sharing the document number, and unpaid invoices
+    // have no receipt number yet. SQLite cannot drop a constraint, so the
+    // table is rebuilt with a plain index on receipt_number.
+    up: (db) => runAll(db, [
+      `CREATE TABLE fee_records_v2 (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        receipt_number TEXT,
+        student_id INTEGER NOT NULL,
+        fee_month INTEGER NOT NULL,
+        fee_year INTEGER NOT NULL,
+        total_fee REAL NOT NULL,
+        late_fee REAL DEFAULT 0,
+        concession_amount REAL DEFAULT 0,
+        amount_paid REAL NOT NULL,
+        balance_due REAL DEFAULT 0,
+        payment_date TEXT NOT NULL,
+        payment_mode TEXT NOT NULL,
+        status TEXT NOT NULL,
+        data TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        FOREIGN KEY (student_id) REFERENCES students(id)
+      )`,
+      `INSERT INTO fee_records_v2 (
+        id, receipt_number, student_id, fee_month, fee_year, total_fee, late_fee, concession_amount,
+        amount_paid, balance_due, payment_date, payment_mode, status, data, created_at
+      )
+      SELECT
+        id, NULLIF(receipt_number, ''), student_id, fee_month, fee_year, total_fee, late_fee, concession_amount,
+        amount_paid, balance_due, payment_date, payment_mode, status, data, created_at
+      FROM fee_records`,
+      'DROP TABLE fee_records',
+      'ALTER TABLE fee_records_v2 RENAME TO fee_records',
+      'CREATE INDEX idx_fee_records_student ON fee_records(student_id)',
+      'CREATE INDEX idx_fee_records_date ON fee_records(payment_date)',
+      'CREATE INDEX idx_fee_records_month_year ON fee_records(fee_month, fee_year)',
+      'CREATE INDEX idx_fee_records_receipt ON fee_records(receipt_number)'
+    ])
+  }
+];
+
+module.exports = { MIGRATIONS, MigrationError, runAll };
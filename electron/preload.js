@@ -16,11 +16,46 @@ contextBridge.exposeInMainWorld('electronAPI', {
     get: (key, defaultValue) => ipcRenderer.invoke('db:get', key, defaultValue),
     set: (key, value) => ipcRenderer.invoke('db:set', key, value),
     remove: (key) => ipcRenderer.invoke('db:remove', key),
-    query: (sql, params) => ipcRenderer.invoke('db:query', sql, params),
     getStorageInfo: () => ipcRenderer.invoke('db:getStorageInfo'),
     backup: (directory) => ipcRenderer.invoke('db:backup', directory),
     export: () => ipcRenderer.invoke('db:export'),
-    import: (jsonData) => ipcRenderer.invoke('db:import', jsonData)
+    import: (jsonData) => ipcRenderer.invoke('db:import', jsonData),
+    replaceEntities: (tables) => ipcRenderer.invoke('db:replaceEntities', tables)
+  },
+
+  // Students
+  students: {
+    list: (filter) => ipcRenderer.invoke('students:list', filter),
+    save: (record) => ipcRenderer.invoke('students:save', record),
+    saveMany: (records) => ipcRenderer.invoke('students:saveMany', records)
+  },
+
+  // Teachers
+  teachers: {
+    list: () => ipcRenderer.invoke('teachers:list'),
+    save: (record) => ipcRenderer.invoke('teachers:save', record),
+    saveMany: (records) => ipcRenderer.invoke('teachers:saveMany', records)
+  },
+
+  // Fee records
+  feeRecords: {
+    list: () => ipcRenderer.invoke('feeRecords:list'),
+    save: (record) => ipcRenderer.invoke('feeRecords:save', record),
+    saveMany: (records) => ipcRenderer.invoke('feeRecords:saveMany', records)
+  },
+
+  // Salary payments
+  salaryPayments: {
+    list: () => ipcRenderer.invoke('salaryPayments:list'),
+    save: (record) => ipcRenderer.invoke('salaryPayments:save', record),
+    saveMany: (records) => ipcRenderer.invoke('salaryPayments:saveMany', records)
+  },
+
+  // Audit trail
+  auditLogs: {
+    list: () => ipcRenderer.invoke('auditLogs:list'),
+    save: (record) => ipcRenderer.invoke('auditLogs:save', record),
+    saveMany: (records) => ipcRenderer.invoke('auditLogs:saveMany', records)
   },
 
   // App information
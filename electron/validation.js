@@ -0,0 +1,114 @@
+// electron/validation.js
+/**
+ * IPC Argument Validation
+ * Every value arriving from the renderer is checked here before it
+ * reaches the database. Invalid input raises a ValidationError.
+ *
+ * Version: 3.0
+ * Developer: MWA
+ */
+
+class ValidationError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'ValidationError';
+  }
+}
+
+const STUDENT_STATUSES = ['active', 'left', 'passed_out', 'transferred'];
+const MAX_BATCH_SIZE = 50000;
+
+const isPlainObject = (value) =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * Positive integer id (students, fee records, ...)
+ */
+const validateId = (value, name = 'id') => {
+  if (!Number.isSafeInteger(value) || value <= 0) {
+    throw new ValidationError(`${name} must be a positive integer`);
+  }
+  return value;
+};
+
+/**
+ * Non-empty string of bounded length
+ */
+const validateString = (value, name, maxLength = 255) => {
+  if (typeof value !== 'string' || value.length === 0 || value.length > maxLength) {
+    throw new ValidationError(`${name} must be a string of 1-${maxLength} characters`);
+  }
+  return value;
+};
+
+/**
+ * A single entity record - must be an object with a valid id
+ */
+const validateRecord = (record) => {
+  if (!isPlainObject(record)) {
+    throw new ValidationError('record must be an object');
+  }
+  validateId(record.id, 'record.id');
+  return record;
+};
+
+/**
+ * A batch of entity records
+ */
+const validateRecords = (records) => {
+  if (!Array.isArray(records)) {
+    throw new ValidationError('records must be an array');
+  }
+  if (records.length > MAX_BATCH_SIZE) {
+    throw new ValidationError(`records may not contain more than ${MAX_BATCH_SIZE} items`);
+  }
+  records.forEach(validateRecord);
+  return records;
+};
+
+/**
+ * Whole entity tables keyed by entity name - each a batch of records.
+ * The names themselves are checked against the entity whitelist.
+ */
+const validateEntityTables = (tables) => {
+  if (!isPlainObject(tables)) {
+    throw new ValidationError('tables must be an object');
+  }
+  Object.values(tables).forEach(validateRecords);
+  return tables;
+};
+
+/**
+ * Student list filter - every field optional
+ */
+const validateStudentFilter = (filter) => {
+  if (filter === undefined || filter === null) return {};
+  if (!isPlainObject(filter)) {
+    throw new ValidationError('filter must be an object');
+  }
+
+  const result = {};
+  if (filter.status !== undefined) {
+    if (!STUDENT_STATUSES.includes(filter.status)) {
+      throw new ValidationError(`filter.status must be one of: ${STUDENT_STATUSES.join(', ')}`);
+    }
+    result.status = filter.status;
+  }
+  if (filter.classId !== undefined) {
+    result.classId = validateId(filter.classId, 'filter.classId');
+  }
+  if (filter.search !== undefined) {
+    result.search = validateString(filter.search, 'filter.search', 100);
+  }
+  return result;
+};
+
+module.exports = {
+  ValidationError,
+  validateId,
+  validateString,
+  validateRecord,
+  validateRecords,
+  validateEntityTables,
+  validateStudentFilter
+};
@@ -7,20 +7,35 @@ import { MainLayout } from '@/components/layout/MainLayout';
 import { 
   isSetupComplete, 
   getCurrentUser,
-  initializeDemoData 
+  initializeDemoData,
+  initializeStore
 } from '@/store';
 
 type AppScreen = 'splash' | 'setup' | 'login' | 'main';
 
 export function App() {
   const [currentScreen, setCurrentScreen] = useState<AppScreen>('splash');
+  const [splashDone, setSplashDone] = useState(false);
+  const [storeReady, setStoreReady] = useState(false);
+  const [storeError, setStoreError] = useState<string | null>(null);
 
   useEffect(() => {
     // Initialize demo data if needed
     initializeDemoData();
+
+    // Load records from the desktop database before any page reads them
+    initializeStore()
+      .then(() => setStoreReady(true))
+      .catch((error) => {
+        console.error('Failed to load data:', error);
+        setStoreError(error instanceof Error ? error.message : String(error));
+      });
   }, []);
 
-  const handleSplashComplete = () => {
+  // Leave the splash screen only once the store is loaded
+  useEffect(() => {
+    if (!splashDone || !storeReady) return;
+
     if (!isSetupComplete()) {
       setCurrentScreen('setup');
     } else if (!getCurrentUser()) {
@@ -28,6 +43,10 @@ export function App() {
     } else {
       setCurrentScreen('main');
     }
+  }, [splashDone, storeReady]);
+
+  const handleSplashComplete = () => {
+    setSplashDone(true);
   };
 
   const handleSetupComplete = () => {
@@ -42,6 +61,20 @@ export function App() {
     setCurrentScreen('login');
   };
 
+  if (storeError) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50 p-6">
+        <div className="max-w-md text-center">
+          <h1 className="text-xl font-bold text-gray-900 mb-2">Unable to load school data</h1>
+          <p className="text-gray-600 mb-4">
+            The database could not be read. Your data has not been changed.
+          </p>
+          <p className="text-sm font-mono text-red-600 break-words">{storeError}</p>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <ToastProvider>
       {currentScreen === 'splash' && (
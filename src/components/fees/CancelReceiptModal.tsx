@@ -0,0 +1,97 @@
+import { useState } from 'react';
+import { Modal } from '@/components/ui/Modal';
+import { Button } from '@/components/ui/Button';
+import { Textarea } from '@/components/ui/Input';
+import { useToast } from '@/components/ui/Toast';
+import { cancelReceipt, getReceiptRecords, getStudentById, formatCurrency } from '@/store';
+import { generateCreditNote } from '@/utils/pdfGenerator';
+import type { FeeRecord } from '@/types';
+
+const months = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December'
+];
+
+interface CancelReceiptModalProps {
+  record: FeeRecord | null;
+  onClose: () => void;
+}
+
+export function CancelReceiptModal({ record, onClose }: CancelReceiptModalProps) {
+  const { showToast } = useToast();
+  const [reason, setReason] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  // The whole receipt is cancelled, not just the row that was clicked
+  const receiptRecords = record ? getReceiptRecords(record) : [];
+  const refund = receiptRecords.reduce((sum, r) => sum + r.amountPaid, 0);
+
+  const handleClose = () => {
+    setReason('');
+    onClose();
+  };
+
+  const handleConfirm = async () => {
+    if (!record) return;
+
+    setLoading(true);
+    try {
+      const reversals = await cancelReceipt(record.id, reason);
+      showToast('success', `Receipt ${record.receiptNumber} cancelled. Credit note: ${reversals[0].receiptNumber}`);
+      generateCreditNote(reversals);
+      handleClose();
+    } catch (error) {
+      showToast('error', error instanceof Error ? error.message : 'Failed to cancel receipt');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={!!record} onClose={handleClose} title="Cancel Receipt">
+      {record && (
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600">
+            Receipt <span className="font-mono font-semibold">{record.receiptNumber}</span> will be reversed and
+            the amount below refunded. The months fall due again; the original receipt is kept for the record.
+          </p>
+
+          <div className="bg-gray-50 rounded-lg p-4 space-y-2 text-sm">
+            {receiptRecords.map(r => {
+              const student = getStudentById(r.studentId);
+              return (
+                <div key={r.id} className="flex justify-between">
+                  <span className="text-gray-600">
+                    {student?.firstName} {student?.lastName} • {months[r.feeMonth - 1]} {r.feeYear}
+                  </span>
+                  <span className="font-medium">{formatCurrency(r.amountPaid)}</span>
+                </div>
+              );
+            })}
+            <div className="flex justify-between border-t pt-2">
+              <span className="font-semibold text-gray-900">Refund</span>
+              <span className="font-bold text-red-600">{formatCurrency(refund)}</span>
+            </div>
+          </div>
+
+          <Textarea
+            label="Reason *"
+            placeholder="Why is this receipt being cancelled?"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            rows={3}
+          />
+
+          <div className="flex gap-3 pt-2">
+            <Button variant="danger" className="flex-1" onClick={handleConfirm} loading={loading}>
+              Cancel &amp; Refund
+            </Button>
+            <Button variant="secondary" className="flex-1" onClick={handleClose}>
+              Keep Receipt
+            </Button>
+          </div>
+        </div>
+      )}
+    </Modal>
+  );
+}
@@ -1,6 +1,11 @@
-import { Bell, Settings, Moon, Sun, Wifi, WifiOff, LogOut, User as UserIcon } from 'lucide-react';
-import { useState, useEffect, useRef } from 'react';
-import { getTheme, setTheme, getCurrentUser, logout, getStudents, getSalaryPayments, getTeachers } from '@/store';
+import { Bell, ClipboardCheck, Settings, Moon, Sun, Wifi, WifiOff, LogOut, User as UserIcon } from 'lucide-react';
+import { useState, useEffect, useRef, useMemo } from 'react';
+import {
+  getTheme, setTheme, getCurrentUser, logout, SCHOLARSHIP_ALERT_DAYS, formatCurrency,
+  getPendingWaivers, getUsers, hasOtherAdministrator
+} from '@/store';
+import { WAIVER_TYPE_LABELS, getWaiverTotal } from '@/utils/waivers';
+import { useStudents, useTeachers, useStoreQuery, useStudentsDues, useExpiringScholarships } from '@/hooks/useStore';
 import { cn } from '@/utils/cn';
 
 interface HeaderProps {
@@ -15,13 +20,19 @@ export function Header({ title, subtitle, onNavigate, onLogout }: HeaderProps) {
   const [currentTheme, setCurrentTheme] = useState(getTheme());
   const [showNotifications, setShowNotifications] = useState(false);
   const [showUserMenu, setShowUserMenu] = useState(false);
+  const [showApprovals, setShowApprovals] = useState(false);
   const notificationRef = useRef<HTMLDivElement>(null);
+  const approvalsRef = useRef<HTMLDivElement>(null);
   const userMenuRef = useRef<HTMLDivElement>(null);
   
   const currentUser = getCurrentUser();
-  const students = getStudents();
-  const teachers = getTeachers();
-  const salaryPayments = getSalaryPayments();
+  const { data: students } = useStudents();
+  const { data: teachers } = useTeachers();
+  const { data: pendingWaivers } = useStoreQuery(['fee_waivers'], async () => getPendingWaivers(), []);
+  const { data: users } = useStoreQuery(['users'], async () => getUsers(), []);
+  const activeStudents = useMemo(() => students.filter(s => s.status === 'active'), [students]);
+  const { data: dues } = useStudentsDues(activeStudents);
+  const { data: expiring } = useExpiringScholarships();
 
   const [currentDate] = useState(new Date().toLocaleDateString('en-US', {
     weekday: 'long',
@@ -41,6 +52,9 @@ export function Header({ title, subtitle, onNavigate, onLogout }: HeaderProps) {
       if (notificationRef.current && !notificationRef.current.contains(event.target as Node)) {
         setShowNotifications(false);
       }
+      if (approvalsRef.current && !approvalsRef.current.contains(event.target as Node)) {
+        setShowApprovals(false);
+      }
       if (userMenuRef.current && !userMenuRef.current.contains(event.target as Node)) {
         setShowUserMenu(false);
       }
@@ -70,13 +84,25 @@ export function Header({ title, subtitle, onNavigate, onLogout }: HeaderProps) {
     const alerts = [];
     
     // Check for fee defaulters
-    const activeStudents = students.filter(s => s.status === 'active');
-    if (activeStudents.length > 0) {
+    const owing = dues.filter(d => d.totalOutstanding > 0);
+    if (owing.length > 0) {
+      const total = owing.reduce((sum, d) => sum + d.totalOutstanding, 0);
       alerts.push({
         id: 'fees',
-        title: 'Fee Status',
-        message: `Currently tracking ${activeStudents.length} active student accounts.`,
-        type: 'info',
+        title: 'Fee Dues',
+        message: `${owing.length} students owe ${formatCurrency(total)} in fees.`,
+        type: 'warning',
+        time: 'Real-time'
+      });
+    }
+
+    // Check for scholarships about to lapse
+    if (expiring.length > 0) {
+      alerts.push({
+        id: 'scholarships',
+        title: 'Scholarships Expiring',
+        message: `${expiring.length} scholarship award${expiring.length === 1 ? '' : 's'} end within ${SCHOLARSHIP_ALERT_DAYS} days without renewal.`,
+        type: 'warning',
         time: 'Real-time'
       });
     }
@@ -107,6 +133,17 @@ export function Header({ title, subtitle, onNavigate, onLogout }: HeaderProps) {
 
   const notifications = getNotifications();
 
+  // Waivers awaiting an administrator other than the one who raised them,
+  // or any waiver when this is the only administrator
+  const approvals = currentUser?.role === 'admin'
+    ? pendingWaivers.filter(w => w.requestedBy !== currentUser.id || !hasOtherAdministrator(currentUser.id))
+    : [];
+
+  const openApprovals = () => {
+    onNavigate('fees-waivers');
+    setShowApprovals(false);
+  };
+
   return (
     <header className="h-16 bg-white dark:bg-gray-900 border-b border-gray-200 dark:border-gray-800 flex items-center justify-between px-6 sticky top-0 z-30 transition-colors">
       <div className="flex-1 min-w-0">
@@ -141,6 +178,67 @@ export function Header({ title, subtitle, onNavigate, onLogout }: HeaderProps) {
           {currentTheme === 'light' ? <Moon className="w-5 h-5" /> : <Sun className="w-5 h-5" />}
         </button>
 
+        {/* Approvals */}
+        {currentUser?.role === 'admin' && (
+          <div className="relative" ref={approvalsRef}>
+            <button
+              onClick={() => setShowApprovals(!showApprovals)}
+              className={cn(
+                "p-2 text-gray-500 dark:text-gray-400 hover:text-blue-600 dark:hover:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-lg transition-all relative",
+                showApprovals && "bg-blue-50 dark:bg-blue-900/20 text-blue-600"
+              )}
+              title="Pending approvals"
+            >
+              <ClipboardCheck className="w-5 h-5" />
+              {approvals.length > 0 && (
+                <span className="absolute -top-0.5 -right-0.5 min-w-[18px] h-[18px] px-1 bg-red-500 text-white text-[10px] font-bold rounded-full flex items-center justify-center border-2 border-white dark:border-gray-900">
+                  {approvals.length}
+                </span>
+              )}
+            </button>
+
+            {showApprovals && (
+              <div className="absolute right-0 mt-2 w-80 bg-white dark:bg-gray-800 rounded-xl shadow-2xl border border-gray-100 dark:border-gray-700 overflow-hidden animate-in fade-in slide-in-from-top-2 duration-200">
+                <div className="p-4 border-b border-gray-100 dark:border-gray-700 flex justify-between items-center bg-gray-50/50 dark:bg-gray-800/50">
+                  <h3 className="font-bold text-gray-900 dark:text-white">Pending Approvals</h3>
+                  <span className="text-[10px] font-bold bg-amber-100 dark:bg-amber-900/40 text-amber-600 dark:text-amber-400 px-2 py-0.5 rounded-full uppercase tracking-tighter">{approvals.length} waiting</span>
+                </div>
+                <div className="max-h-96 overflow-y-auto divide-y divide-gray-50 dark:divide-gray-700">
+                  {approvals.map(w => {
+                    const student = students.find(s => s.id === w.studentId);
+                    return (
+                      <button
+                        key={w.id}
+                        onClick={openApprovals}
+                        className="w-full text-left p-4 hover:bg-gray-50 dark:hover:bg-gray-700/50 transition-colors"
+                      >
+                        <div className="flex justify-between items-start mb-1">
+                          <p className="text-sm font-bold text-gray-900 dark:text-white">
+                            {WAIVER_TYPE_LABELS[w.waiverType]} - {formatCurrency(getWaiverTotal(w))}
+                          </p>
+                          <span className="text-[10px] text-gray-400">{w.requestedAt.split('T')[0]}</span>
+                        </div>
+                        <p className="text-xs text-gray-600 dark:text-gray-400 line-clamp-2">
+                          {student ? `${student.firstName} ${student.lastName || ''}` : 'Unknown'} • requested by {users.find(u => u.id === w.requestedBy)?.fullName || 'Unknown'}
+                        </p>
+                      </button>
+                    );
+                  })}
+                  {approvals.length === 0 && (
+                    <p className="p-6 text-center text-xs text-gray-500 dark:text-gray-400">Nothing is waiting for your approval.</p>
+                  )}
+                </div>
+                <button
+                  onClick={openApprovals}
+                  className="w-full py-3 text-xs font-bold text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 transition-colors border-t border-gray-100 dark:border-gray-700 uppercase tracking-widest"
+                >
+                  Review All
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Notifications */}
         <div className="relative" ref={notificationRef}>
           <button 
@@ -9,6 +9,13 @@ import { AddTeacher } from '@/pages/teachers/AddTeacher';
 import { PaySalary } from '@/pages/teachers/PaySalary';
 import { SalaryHistory } from '@/pages/teachers/SalaryHistory';
 import { CollectFee } from '@/pages/fees/CollectFee';
+import { FamilyCollect } from '@/pages/fees/FamilyCollect';
+import { InstallmentPlans } from '@/pages/fees/InstallmentPlans';
+import { AdditionalCharges } from '@/pages/fees/AdditionalCharges';
+import { ChequeRegister } from '@/pages/fees/ChequeRegister';
+import { BankReconciliation } from '@/pages/fees/BankReconciliation';
+import { DayClosing } from '@/pages/fees/DayClosing';
+import { FeeWaivers } from '@/pages/fees/FeeWaivers';
 import { PendingFees } from '@/pages/fees/PendingFees';
 import { FeeHistory } from '@/pages/fees/FeeHistory';
 import { InvoicesList } from '@/pages/invoices/InvoicesList';
@@ -16,9 +23,23 @@ import { DailyReport } from '@/pages/reports/DailyReport';
 import { MonthlyReport } from '@/pages/reports/MonthlyReport';
 import { ClassReport } from '@/pages/reports/ClassReport';
 import { DefaultersReport } from '@/pages/reports/DefaultersReport';
+import { ConcessionReport } from '@/pages/reports/ConcessionReport';
+import { TransportReport } from '@/pages/reports/TransportReport';
+import { OccupancyReport } from '@/pages/reports/OccupancyReport';
+import { WaiverRegister } from '@/pages/reports/WaiverRegister';
+import { TransportSetup } from '@/pages/transport/TransportSetup';
+import { TransportAssignments } from '@/pages/transport/TransportAssignments';
+import { HostelSetup } from '@/pages/boarding/HostelSetup';
+import { BedAllocations } from '@/pages/boarding/BedAllocations';
+import { ScholarshipPrograms } from '@/pages/scholarships/ScholarshipPrograms';
+import { ScholarshipAwards } from '@/pages/scholarships/ScholarshipAwards';
+import { SponsorLedger } from '@/pages/scholarships/SponsorLedger';
 import { SchoolSettings } from '@/pages/settings/SchoolSettings';
 import { ClassesSettings } from '@/pages/settings/ClassesSettings';
 import { FeeStructureSettings } from '@/pages/settings/FeeStructureSettings';
+import { FeeRevisions } from '@/pages/settings/FeeRevisions';
+import { NumberingSettings } from '@/pages/settings/NumberingSettings';
+import { ConcessionSettings } from '@/pages/settings/ConcessionSettings';
 import { UsersSettings } from '@/pages/settings/UsersSettings';
 import { GoogleApiSettings } from '@/pages/settings/GoogleApiSettings';
 import { BackupSettings } from '@/pages/settings/BackupSettings';
@@ -40,16 +61,37 @@ const pageTitles: Record<string, { title: string; subtitle?: string }> = {
   'salary-pay': { title: 'Pay Salary', subtitle: 'Process salary payments' },
   'salary-history': { title: 'Salary History', subtitle: 'View all salary payments' },
   'fees-collect': { title: 'Collect Fee', subtitle: 'Process fee payments' },
+  'fees-family': { title: 'Family Collection', subtitle: 'Collect for siblings on one receipt' },
+  'fees-installments': { title: 'Installment Plans', subtitle: 'Charges split into dated installments' },
+  'fees-charges': { title: 'Additional Charges', subtitle: 'Fines and one-off fees for selected students' },
+  'fees-cheques': { title: 'Cheque Register', subtitle: 'Deposit, clearance and bounced cheques' },
+  'fees-bank': { title: 'Bank Reconciliation', subtitle: 'Import statements and post bank credits' },
+  'fees-closing': { title: 'Day Closing', subtitle: 'Count cash and close each collector\'s day' },
+  'fees-waivers': { title: 'Waivers & Write-offs', subtitle: 'Request and approve forgiven dues' },
   'fees-pending': { title: 'Pending Fees', subtitle: 'Students with outstanding fees' },
   'fees-history': { title: 'Fee History', subtitle: 'All fee transactions' },
   'invoices-list': { title: 'Invoices', subtitle: 'All generated invoices' },
+  'transport-routes': { title: 'Routes & Stops', subtitle: 'Vehicles, routes and stop fees' },
+  'transport-students': { title: 'Student Transport', subtitle: 'Assign students to stops' },
+  'boarding-hostels': { title: 'Hostels & Rooms', subtitle: 'Hostels, rooms and boarding fees' },
+  'boarding-allocations': { title: 'Boarders', subtitle: 'Allocate beds and check boarders out' },
+  'scholarships-programs': { title: 'Sponsors & Programs', subtitle: 'Scholarship sponsors and what they cover' },
+  'scholarships-awards': { title: 'Scholarship Awards', subtitle: 'Award, renew and track scholarships' },
+  'scholarships-ledger': { title: 'Sponsor Ledger', subtitle: 'Billed to sponsors and received from them' },
   'reports-daily': { title: 'Daily Report', subtitle: 'Today\'s collection summary' },
   'reports-monthly': { title: 'Monthly Report', subtitle: 'Month-wise collection analysis' },
   'reports-class': { title: 'Class Report', subtitle: 'Class-wise fee status' },
   'reports-defaulters': { title: 'Defaulters Report', subtitle: 'Students with pending fees' },
+  'reports-concessions': { title: 'Concession Report', subtitle: 'Revenue forgone to discounts' },
+  'reports-transport': { title: 'Transport Report', subtitle: 'Route rosters and transport collection' },
+  'reports-occupancy': { title: 'Hostel Occupancy', subtitle: 'Beds occupied and boarding collection' },
+  'reports-waivers': { title: 'Waiver Register', subtitle: 'Waived and written-off dues with approvals' },
   'settings-school': { title: 'School Information', subtitle: 'Manage school details' },
   'settings-classes': { title: 'Classes & Sections', subtitle: 'Manage class structure' },
   'settings-fees': { title: 'Fee Structure', subtitle: 'Configure fee heads and amounts' },
+  'settings-fee-revisions': { title: 'Fee Revisions', subtitle: 'Dated fee changes and bulk increases' },
+  'settings-numbering': { title: 'Document Numbering', subtitle: 'Receipt, invoice, salary slip and credit note numbers' },
+  'settings-concessions': { title: 'Concessions', subtitle: 'Discount rules by category and student' },
   'settings-users': { title: 'User Management', subtitle: 'Manage system users' },
   'settings-google': { title: 'Google API Configuration', subtitle: 'Configure cloud sync' },
   'settings-backup': { title: 'Backup & Restore', subtitle: 'Data backup management' },
@@ -106,12 +148,40 @@ export function MainLayout({ onLogout }: MainLayoutProps) {
         return <SalaryHistory />;
       case 'fees-collect':
         return <CollectFee onNavigate={handleNavigate} />;
+      case 'fees-family':
+        return <FamilyCollect />;
+      case 'fees-installments':
+        return <InstallmentPlans />;
+      case 'fees-charges':
+        return <AdditionalCharges />;
+      case 'fees-cheques':
+        return <ChequeRegister />;
+      case 'fees-bank':
+        return <BankReconciliation />;
+      case 'fees-closing':
+        return <DayClosing />;
+      case 'fees-waivers':
+        return <FeeWaivers />;
       case 'fees-pending':
         return <PendingFees onNavigate={handleNavigate} />;
       case 'fees-history':
         return <FeeHistory />;
       case 'invoices-list':
         return <InvoicesList />;
+      case 'transport-routes':
+        return <TransportSetup />;
+      case 'transport-students':
+        return <TransportAssignments />;
+      case 'boarding-hostels':
+        return <HostelSetup />;
+      case 'boarding-allocations':
+        return <BedAllocations />;
+      case 'scholarships-programs':
+        return <ScholarshipPrograms />;
+      case 'scholarships-awards':
+        return <ScholarshipAwards />;
+      case 'scholarships-ledger':
+        return <SponsorLedger />;
       case 'reports-daily':
         return <DailyReport />;
       case 'reports-monthly':
@@ -120,12 +190,26 @@ export function MainLayout({ onLogout }: MainLayoutProps) {
         return <ClassReport />;
       case 'reports-defaulters':
         return <DefaultersReport onNavigate={handleNavigate} />;
+      case 'reports-concessions':
+        return <ConcessionReport />;
+      case 'reports-transport':
+        return <TransportReport />;
+      case 'reports-occupancy':
+        return <OccupancyReport />;
+      case 'reports-waivers':
+        return <WaiverRegister />;
       case 'settings-school':
         return <SchoolSettings />;
       case 'settings-classes':
         return <ClassesSettings />;
       case 'settings-fees':
         return <FeeStructureSettings />;
+      case 'settings-fee-revisions':
+        return <FeeRevisions />;
+      case 'settings-numbering':
+        return <NumberingSettings />;
+      case 'settings-concessions':
+        return <ConcessionSettings />;
       case 'settings-users':
         return <UsersSettings />;
       case 'settings-google':
@@ -2,7 +2,7 @@ import { cn } from '@/utils/cn';
 import { 
   LayoutDashboard, Users, Wallet, FileText, BarChart3, 
   Settings, LogOut, ChevronDown, ChevronRight, GraduationCap,
-  UserCog
+  UserCog, Bus, BedDouble, Award
 } from 'lucide-react';
 import { useState } from 'react';
 import { getSchoolInfo, getCurrentUser, logout } from '@/store';
@@ -48,6 +48,13 @@ const menuItems: MenuItem[] = [
     icon: Wallet,
     children: [
       { id: 'fees-collect', label: 'Collect Fee' },
+      { id: 'fees-family', label: 'Family Collection' },
+      { id: 'fees-installments', label: 'Installment Plans' },
+      { id: 'fees-charges', label: 'Additional Charges' },
+      { id: 'fees-cheques', label: 'Cheque Register' },
+      { id: 'fees-bank', label: 'Bank Reconciliation' },
+      { id: 'fees-closing', label: 'Day Closing' },
+      { id: 'fees-waivers', label: 'Waivers & Write-offs' },
       { id: 'fees-pending', label: 'Pending Fees' },
       { id: 'fees-history', label: 'Fee History' },
     ]
@@ -60,6 +67,34 @@ const menuItems: MenuItem[] = [
       { id: 'invoices-list', label: 'All Invoices' },
     ]
   },
+  { 
+    id: 'transport', 
+    label: 'Transport', 
+    icon: Bus,
+    children: [
+      { id: 'transport-routes', label: 'Routes & Stops' },
+      { id: 'transport-students', label: 'Student Transport' },
+    ]
+  },
+  { 
+    id: 'boarding', 
+    label: 'Boarding', 
+    icon: BedDouble,
+    children: [
+      { id: 'boarding-hostels', label: 'Hostels & Rooms' },
+      { id: 'boarding-allocations', label: 'Boarders' },
+    ]
+  },
+  { 
+    id: 'scholarships', 
+    label: 'Scholarships', 
+    icon: Award,
+    children: [
+      { id: 'scholarships-programs', label: 'Sponsors & Programs' },
+      { id: 'scholarships-awards', label: 'Awards' },
+      { id: 'scholarships-ledger', label: 'Sponsor Ledger' },
+    ]
+  },
   { 
     id: 'reports', 
     label: 'Reports', 
@@ -69,6 +104,10 @@ const menuItems: MenuItem[] = [
       { id: 'reports-monthly', label: 'Monthly Report' },
       { id: 'reports-class', label: 'Class Report' },
       { id: 'reports-defaulters', label: 'Defaulters' },
+      { id: 'reports-concessions', label: 'Concessions' },
+      { id: 'reports-transport', label: 'Transport' },
+      { id: 'reports-occupancy', label: 'Hostel Occupancy' },
+      { id: 'reports-waivers', label: 'Waiver Register' },
     ]
   },
   { 
@@ -79,6 +118,9 @@ const menuItems: MenuItem[] = [
       { id: 'settings-school', label: 'School Info' },
       { id: 'settings-classes', label: 'Classes' },
       { id: 'settings-fees', label: 'Fee Structure' },
+      { id: 'settings-fee-revisions', label: 'Fee Revisions' },
+      { id: 'settings-numbering', label: 'Document Numbering' },
+      { id: 'settings-concessions', label: 'Concessions' },
       { id: 'settings-users', label: 'Users' },
       { id: 'settings-google', label: 'Google API' },
       { id: 'settings-backup', label: 'Backup' },
@@ -0,0 +1,224 @@
+// Data hooks for School Fee Manager Pro
+// Pages read through these instead of calling getStudents()/getFeeRecords() in render,
+// so they stay correct when storage is async and refresh when another page writes.
+import { useState, useEffect, useRef, useCallback, type DependencyList } from 'react';
+import {
+  subscribe, queryStudents, queryFeeRecords,
+  getTeachers, getClasses, getSalaryPayments, getUsers, getAcademicYears, getFeeHeads, getFeeStructures,
+  getFeeRevisions, getConcessionRules, getInstallmentPlans, getAdditionalCharges, getFamilies, getFeeWaivers,
+  getBankStatementLines, getDayClosings, getVehicles, getTransportRoutes, getTransportStops, getTransportAssignments,
+  getHostels, getHostelRooms, getBedAllocations, getSponsors, getScholarshipPrograms, getScholarshipAwards,
+  getSponsorPayments, getStudentsDues, getExpiringScholarships
+} from '@/store';
+import type {
+  Student, StudentFilter, FeeRecord, FeeRecordQuery,
+  Teacher, ClassInfo, SalaryPayment, User, AcademicYear, FeeHead, FeeStructure, FeeRevision, ConcessionRule,
+  InstallmentPlan, AdditionalCharge, Family, FeeWaiver, BankStatementLine, DayClosing, Vehicle, TransportRoute,
+  TransportStop, TransportAssignment, Hostel, HostelRoom, BedAllocation, Sponsor, ScholarshipProgram,
+  ScholarshipAward, SponsorPayment
+} from '@/types';
+import type { StudentDues } from '@/utils/dues';
+
+export interface QueryResult<T> {
+  data: T;
+  loading: boolean;
+  error: Error | null;
+  refresh: () => void;
+}
+
+/**
+ * Run an async store query and re-run it whenever one of `keys` changes.
+ * `deps` are the query's own inputs (filter values).
+ */
+export function useStoreQuery<T>(
+  keys: string[],
+  query: () => Promise<T>,
+  initialData: T,
+  deps: DependencyList = []
+): QueryResult<T> {
+  const [data, setData] = useState<T>(initialData);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+  const [version, setVersion] = useState(0);
+
+  const queryRef = useRef(query);
+  queryRef.current = query;
+
+  const refresh = useCallback(() => setVersion(v => v + 1), []);
+
+  useEffect(() => {
+    const unsubscribers = keys.map(key => subscribe(key, refresh));
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }, [keys.join('|'), refresh]);
+
+  useEffect(() => {
+    // Ignore results of a query that was superseded before it resolved
+    let cancelled = false;
+    setLoading(true);
+
+    queryRef.current()
+      .then(result => {
+        if (cancelled) return;
+        setData(result);
+        setError(null);
+      })
+      .catch(err => {
+        if (cancelled) return;
+        console.error('Store query failed:', err);
+        setError(err instanceof Error ? err : new Error(String(err)));
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [version, ...deps]);
+
+  return { data, loading, error, refresh };
+}
+
+export function useStudents(filter: StudentFilter = {}): QueryResult<Student[]> {
+  return useStoreQuery(
+    ['students'],
+    () => queryStudents(filter),
+    [],
+    [filter.status, filter.classId, filter.search]
+  );
+}
+
+export function useFeeRecords(query: FeeRecordQuery = {}): QueryResult<FeeRecord[]> {
+  return useStoreQuery(
+    ['fee_records'],
+    () => queryFeeRecords(query),
+    [],
+    [query.studentId, query.feeYear, query.feeMonth, query.status]
+  );
+}
+
+export function useTeachers(): QueryResult<Teacher[]> {
+  return useStoreQuery(['teachers'], async () => getTeachers(), []);
+}
+
+export function useClasses(): QueryResult<ClassInfo[]> {
+  return useStoreQuery(['classes'], async () => getClasses(), []);
+}
+
+export function useSalaryPayments(): QueryResult<SalaryPayment[]> {
+  return useStoreQuery(['salary_payments'], async () => getSalaryPayments(), []);
+}
+
+export function useUsers(): QueryResult<User[]> {
+  return useStoreQuery(['users'], async () => getUsers(), []);
+}
+
+export function useAcademicYears(): QueryResult<AcademicYear[]> {
+  return useStoreQuery(['academic_years'], async () => getAcademicYears(), []);
+}
+
+export function useFeeHeads(): QueryResult<FeeHead[]> {
+  return useStoreQuery(['fee_heads'], async () => getFeeHeads(), []);
+}
+
+export function useFeeStructures(): QueryResult<FeeStructure[]> {
+  return useStoreQuery(['fee_structures'], async () => getFeeStructures(), []);
+}
+
+export function useFeeRevisions(): QueryResult<FeeRevision[]> {
+  return useStoreQuery(['fee_revisions'], async () => getFeeRevisions(), []);
+}
+
+export function useConcessionRules(): QueryResult<ConcessionRule[]> {
+  return useStoreQuery(['concession_rules'], async () => getConcessionRules(), []);
+}
+
+export function useInstallmentPlans(): QueryResult<InstallmentPlan[]> {
+  return useStoreQuery(['installment_plans'], async () => getInstallmentPlans(), []);
+}
+
+export function useAdditionalCharges(): QueryResult<AdditionalCharge[]> {
+  return useStoreQuery(['additional_charges'], async () => getAdditionalCharges(), []);
+}
+
+export function useFamilies(): QueryResult<Family[]> {
+  return useStoreQuery(['families'], async () => getFamilies(), []);
+}
+
+export function useFeeWaivers(): QueryResult<FeeWaiver[]> {
+  return useStoreQuery(['fee_waivers'], async () => getFeeWaivers(), []);
+}
+
+export function useBankStatementLines(): QueryResult<BankStatementLine[]> {
+  return useStoreQuery(['bank_statement_lines'], async () => getBankStatementLines(), []);
+}
+
+export function useDayClosings(): QueryResult<DayClosing[]> {
+  return useStoreQuery(['day_closings'], async () => getDayClosings(), []);
+}
+
+export function useVehicles(): QueryResult<Vehicle[]> {
+  return useStoreQuery(['vehicles'], async () => getVehicles(), []);
+}
+
+export function useTransportRoutes(): QueryResult<TransportRoute[]> {
+  return useStoreQuery(['transport_routes'], async () => getTransportRoutes(), []);
+}
+
+export function useTransportStops(): QueryResult<TransportStop[]> {
+  return useStoreQuery(['transport_stops'], async () => getTransportStops(), []);
+}
+
+export function useTransportAssignments(): QueryResult<TransportAssignment[]> {
+  return useStoreQuery(['transport_assignments'], async () => getTransportAssignments(), []);
+}
+
+export function useHostels(): QueryResult<Hostel[]> {
+  return useStoreQuery(['hostels'], async () => getHostels(), []);
+}
+
+export function useHostelRooms(): QueryResult<HostelRoom[]> {
+  return useStoreQuery(['hostel_rooms'], async () => getHostelRooms(), []);
+}
+
+export function useBedAllocations(): QueryResult<BedAllocation[]> {
+  return useStoreQuery(['bed_allocations'], async () => getBedAllocations(), []);
+}
+
+export function useSponsors(): QueryResult<Sponsor[]> {
+  return useStoreQuery(['sponsors'], async () => getSponsors(), []);
+}
+
+export function useScholarshipPrograms(): QueryResult<ScholarshipProgram[]> {
+  return useStoreQuery(['scholarship_programs'], async () => getScholarshipPrograms(), []);
+}
+
+export function useScholarshipAwards(): QueryResult<ScholarshipAward[]> {
+  return useStoreQuery(['scholarship_awards'], async () => getScholarshipAwards(), []);
+}
+
+export function useSponsorPayments(): QueryResult<SponsorPayment[]> {
+  return useStoreQuery(['sponsor_payments'], async () => getSponsorPayments(), []);
+}
+
+// Awards ending soon without a renewal, for the header alert and the awards page
+export function useExpiringScholarships(): QueryResult<ReturnType<typeof getExpiringScholarships>> {
+  return useStoreQuery(
+    ['scholarship_awards', 'scholarship_programs', 'sponsors', 'students'], async () => getExpiringScholarships(), []
+  );
+}
+
+// Everything a student's dues are worked out from (see getDuesContext)
+export const DUES_KEYS = [
+  'fee_records', 'fee_heads', 'fee_structures', 'fee_revisions', 'academic_years', 'concession_rules',
+  'installment_plans', 'additional_charges', 'transport_stops', 'transport_assignments', 'hostels',
+  'hostel_rooms', 'bed_allocations', 'scholarship_awards', 'scholarship_programs', 'fee_waivers',
+];
+
+/**
+ * Dues of the given students, worked out again only when the students or
+ * anything their dues depend on change; the calculation is heavy.
+ */
+export function useStudentsDues(students: Student[]): QueryResult<StudentDues[]> {
+  return useStoreQuery(DUES_KEYS, async () => getStudentsDues(students), [], [students]);
+}
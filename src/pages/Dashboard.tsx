@@ -1,11 +1,12 @@
 import { 
   Users, Wallet, Clock, Calendar, TrendingUp, 
-  ArrowUpRight, AlertTriangle, UserPlus, CreditCard, BookOpen
+  ArrowUpRight, AlertTriangle, UserPlus, CreditCard, BookOpen, FileCheck
 } from 'lucide-react';
 import { Card, StatCard } from '@/components/ui/Card';
 import { Badge } from '@/components/ui/Badge';
 import { Button } from '@/components/ui/Button';
-import { getStudents, getFeeRecords, getClasses, getTeachers } from '@/store';
+import { useStudents, useFeeRecords, useClasses, useTeachers } from '@/hooks/useStore';
+import { getStudentsDues, getChequeReceipts, getReceiptRecords, getFamilyById } from '@/store';
 import { 
   BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer,
   PieChart, Pie, Cell
@@ -16,15 +17,18 @@ interface DashboardProps {
 }
 
 export function Dashboard({ onNavigate }: DashboardProps) {
-  const students = getStudents();
-  const feeRecords = getFeeRecords();
-  const classes = getClasses();
-  const teachers = getTeachers();
+  const { data: students } = useStudents();
+  const { data: feeRecords } = useFeeRecords();
+  const { data: classes } = useClasses();
+  const { data: teachers } = useTeachers();
 
   // Calculate real stats - NO sample data
   const totalStudents = students.filter(s => s.status === 'active').length;
   const totalCollected = feeRecords.reduce((sum, r) => sum + r.amountPaid, 0);
-  const pendingAmount = feeRecords.filter(r => r.status !== 'paid').reduce((sum, r) => sum + r.balanceDue, 0);
+  // Outstanding dues, including months not collected yet; students who
+  // have left still owe what was due until they left
+  const studentDues = getStudentsDues(students, feeRecords);
+  const pendingAmount = studentDues.reduce((sum, d) => sum + d.totalOutstanding, 0);
   
   const today = new Date().toISOString().split('T')[0];
   const todayRecords = feeRecords.filter(r => r.paymentDate === today);
@@ -80,32 +84,54 @@ export function Dashboard({ onNavigate }: DashboardProps) {
   const monthlyData = getMonthlyData();
   const paymentModeData = getPaymentModeData();
 
-  // Get real recent transactions
-  const recentTransactions = feeRecords.slice(-5).reverse();
+  // Get real recent transactions (unpaid invoices are bills, not transactions)
+  const recentTransactions = feeRecords.filter(r => r.status !== 'unpaid').slice(-5).reverse();
 
   // Get real top defaulters
   const getDefaulters = () => {
-    const studentDues = new Map<number, number>();
-    
-    feeRecords.forEach(record => {
-      if (record.balanceDue > 0) {
-        const current = studentDues.get(record.studentId) || 0;
-        studentDues.set(record.studentId, current + record.balanceDue);
-      }
-    });
-
-    return Array.from(studentDues.entries())
-      .map(([studentId, amount]) => {
-        const student = students.find(s => s.id === studentId);
-        return student ? { student, amount } : null;
-      })
-      .filter(Boolean)
-      .sort((a, b) => (b?.amount || 0) - (a?.amount || 0))
-      .slice(0, 5) as { student: typeof students[0]; amount: number }[];
+    return studentDues
+      .map((dues, index) => ({ student: students[index], amount: dues.totalOutstanding }))
+      .filter(d => d.amount > 0)
+      .sort((a, b) => b.amount - a.amount)
+      .slice(0, 5);
   };
 
   const topDefaulters = getDefaulters();
 
+  // Families (or students without one) whose cheque bounced and who still owe
+  const getBouncedChequeAccounts = () => {
+    const accounts = new Map<string, { name: string; cheques: string[]; amount: number; studentIds: number[] }>();
+    getChequeReceipts()
+      .filter(r => r.chequeStatus === 'bounced')
+      .forEach(receipt => {
+        getReceiptRecords(receipt).forEach(record => {
+          const index = students.findIndex(s => s.id === record.studentId);
+          if (index < 0 || studentDues[index].totalOutstanding <= 0) return;
+
+          const student = students[index];
+          const family = student.familyId ? getFamilyById(student.familyId) : undefined;
+          const key = family ? `family-${family.id}` : `student-${student.id}`;
+          const account = accounts.get(key) || {
+            name: family ? family.familyName : `${student.firstName} ${student.lastName}`,
+            cheques: [],
+            amount: 0,
+            studentIds: [],
+          };
+          if (receipt.chequeNumber && !account.cheques.includes(receipt.chequeNumber)) {
+            account.cheques.push(receipt.chequeNumber);
+          }
+          if (!account.studentIds.includes(student.id)) {
+            account.studentIds.push(student.id);
+            account.amount += studentDues[index].totalOutstanding;
+          }
+          accounts.set(key, account);
+        });
+      });
+    return Array.from(accounts.values()).sort((a, b) => b.amount - a.amount);
+  };
+
+  const bouncedChequeAccounts = getBouncedChequeAccounts();
+
   // Get class-wise collection data
   const getClassWiseData = () => {
     return classes.slice(0, 5).map(c => {
@@ -402,6 +428,33 @@ export function Dashboard({ onNavigate }: DashboardProps) {
         </Card>
       </div>
 
+      {/* Bounced Cheques */}
+      {bouncedChequeAccounts.length > 0 && (
+        <Card>
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+              <FileCheck className="w-5 h-5 text-red-600" />
+              Bounced Cheques - Dues Pending
+            </h2>
+            <Button variant="ghost" size="sm" onClick={() => onNavigate('fees-cheques')}>
+              Cheque Register
+              <ArrowUpRight className="w-4 h-4 ml-2" />
+            </Button>
+          </div>
+          <div className="space-y-3">
+            {bouncedChequeAccounts.map((account, index) => (
+              <div key={index} className="flex items-center justify-between py-2 border-b border-gray-100 last:border-0">
+                <div>
+                  <p className="text-sm font-medium text-gray-900">{account.name}</p>
+                  <p className="text-xs text-gray-500">Cheque {account.cheques.join(', ')} bounced</p>
+                </div>
+                <Badge variant="danger">Rs. {account.amount.toLocaleString()}</Badge>
+              </div>
+            ))}
+          </div>
+        </Card>
+      )}
+
       {/* Class-wise Collection */}
       {classWiseData.length > 0 && (
         <Card>
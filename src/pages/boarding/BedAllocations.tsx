@@ -0,0 +1,331 @@
+import { useState } from 'react';
+import { Search, BedDouble, LogOut } from 'lucide-react';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Input, Select, Textarea } from '@/components/ui/Input';
+import { Badge } from '@/components/ui/Badge';
+import { Modal } from '@/components/ui/Modal';
+import { useToast } from '@/components/ui/Toast';
+import {
+  allocateBed, checkOutBed, getCurrentUser, getLocalDateString, formatCurrency
+} from '@/store';
+import {
+  useAcademicYears, useBedAllocations, useClasses, useHostelRooms, useHostels, useStudents
+} from '@/hooks/useStore';
+import { getAllocationEnd, getBedStatuses, isAllocationActive } from '@/utils/boarding';
+import type { BedAllocation } from '@/types';
+
+const emptyForm = () => ({
+  studentId: '',
+  hostelId: '',
+  roomId: '',
+  bedNumber: '',
+  checkIn: getLocalDateString(),
+  messOpted: true,
+  remarks: '',
+});
+
+export function BedAllocations() {
+  const { showToast } = useToast();
+  const [search, setSearch] = useState('');
+  const [hostelFilter, setHostelFilter] = useState('');
+  const [statusFilter, setStatusFilter] = useState('current');
+  const [showAllocate, setShowAllocate] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+  const [checkingOut, setCheckingOut] = useState<BedAllocation | null>(null);
+  const [checkOutDate, setCheckOutDate] = useState(getLocalDateString());
+
+  const role = getCurrentUser()?.role;
+  const canManage = role === 'admin' || role === 'accountant';
+  const today = getLocalDateString();
+
+  const { data: students } = useStudents();
+  const { data: classes } = useClasses();
+  const { data: hostels } = useHostels();
+  const { data: rooms } = useHostelRooms();
+  const { data: allocations } = useBedAllocations();
+  const { data: academicYears } = useAcademicYears();
+
+  const rows = allocations
+    .map(allocation => {
+      const student = students.find(s => s.id === allocation.studentId);
+      const room = rooms.find(r => r.id === allocation.roomId);
+      const hostel = hostels.find(h => h.id === room?.hostelId);
+      const end = getAllocationEnd(allocation, academicYears);
+      const status = allocation.checkIn > today ? 'upcoming' : end && end < today ? 'left' : 'current';
+      return { allocation, student, room, hostel, end, status };
+    })
+    .filter(({ student, hostel, status }) => {
+      const term = search.toLowerCase();
+      return (!term || (!!student && (
+        `${student.firstName} ${student.lastName || ''}`.toLowerCase().includes(term) ||
+        student.studentId.toLowerCase().includes(term)))) &&
+        (!hostelFilter || hostel?.id === Number(hostelFilter)) &&
+        (!statusFilter || (statusFilter === 'current' ? status !== 'left' : status === statusFilter));
+    })
+    .sort((a, b) => b.allocation.checkIn.localeCompare(a.allocation.checkIn));
+
+  // Students and beds free on the chosen check-in date
+  const boarding = new Set(allocations
+    .filter(a => isAllocationActive(a, form.checkIn, academicYears) || a.checkIn > form.checkIn)
+    .map(a => a.studentId));
+  const selectedHostel = hostels.find(h => h.id === Number(form.hostelId));
+  const studentOptions = students
+    .filter(s => s.status === 'active' && !boarding.has(s.id) &&
+      (!selectedHostel || selectedHostel.gender === 'Mixed' || s.gender === selectedHostel.gender))
+    .map(s => ({ value: String(s.id), label: `${s.firstName} ${s.lastName || ''} (${s.studentId})` }));
+  const freeBeds = getBedStatuses(
+    rooms.filter(r => r.isActive && r.hostelId === Number(form.hostelId)), allocations, form.checkIn, academicYears
+  ).filter(b => !b.allocation);
+  const roomOptions = [...new Map(freeBeds.map(b => [b.room.id, b.room])).values()]
+    .map(r => ({ value: String(r.id), label: `Room ${r.roomNumber} (${freeBeds.filter(b => b.room.id === r.id).length} free)` }));
+  const bedOptions = freeBeds
+    .filter(b => b.room.id === Number(form.roomId))
+    .map(b => ({ value: String(b.bedNumber), label: `Bed ${b.bedNumber}` }));
+
+  const handleAllocate = () => {
+    try {
+      allocateBed({
+        studentId: Number(form.studentId),
+        roomId: Number(form.roomId),
+        bedNumber: Number(form.bedNumber),
+        checkIn: form.checkIn,
+        messOpted: form.messOpted,
+        remarks: form.remarks,
+      });
+      showToast('success', 'Bed allocated');
+      setShowAllocate(false);
+      setForm(emptyForm());
+    } catch (error) {
+      showToast('error', error instanceof Error ? error.message : 'Failed to allocate bed');
+    }
+  };
+
+  const handleCheckOut = () => {
+    if (!checkingOut) return;
+    try {
+      checkOutBed(checkingOut.id, checkOutDate);
+      showToast('success', 'Boarder checked out');
+      setCheckingOut(null);
+    } catch (error) {
+      showToast('error', error instanceof Error ? error.message : 'Failed to check out');
+    }
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      {/* Filters */}
+      <Card>
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="flex-1 min-w-[200px]">
+            <Input
+              label="Search"
+              placeholder="Name or student ID"
+              icon={<Search className="w-4 h-4" />}
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+            />
+          </div>
+          <div className="w-48">
+            <Select
+              label="Hostel"
+              value={hostelFilter}
+              onChange={(e) => setHostelFilter(e.target.value)}
+              options={[{ value: '', label: 'All Hostels' }, ...hostels.map(h => ({ value: String(h.id), label: h.hostelName }))]}
+            />
+          </div>
+          <div className="w-40">
+            <Select
+              label="Status"
+              value={statusFilter}
+              onChange={(e) => setStatusFilter(e.target.value)}
+              options={[
+                { value: 'current', label: 'Boarding' },
+                { value: 'upcoming', label: 'Checking in later' },
+                { value: 'left', label: 'Checked out' },
+                { value: '', label: 'All' },
+              ]}
+            />
+          </div>
+          {canManage && (
+            <Button icon={<BedDouble className="w-4 h-4" />} onClick={() => { setForm(emptyForm()); setShowAllocate(true); }}>
+              Allocate Bed
+            </Button>
+          )}
+        </div>
+      </Card>
+
+      {/* Boarders */}
+      <Card padding="none">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="text-left py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Student</th>
+                <th className="text-left py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Class</th>
+                <th className="text-left py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Hostel / Room / Bed</th>
+                <th className="text-left py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Check-in</th>
+                <th className="text-left py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Check-out</th>
+                <th className="text-right py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Monthly</th>
+                <th className="text-left py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Status</th>
+                {canManage && <th className="text-right py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Actions</th>}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {rows.map(({ allocation, student, room, hostel, end, status }) => (
+                <tr key={allocation.id} className="hover:bg-gray-50">
+                  <td className="py-3 px-4">
+                    <p className="text-sm font-medium text-gray-900">{student ? `${student.firstName} ${student.lastName || ''}` : 'Unknown'}</p>
+                    <p className="text-xs text-gray-500">{student?.studentId}</p>
+                  </td>
+                  <td className="py-3 px-4 text-sm text-gray-600">{classes.find(c => c.id === student?.classId)?.className || 'N/A'}</td>
+                  <td className="py-3 px-4 text-sm text-gray-900">
+                    {hostel?.hostelCode} / {room?.roomNumber} / Bed {allocation.bedNumber}
+                    {allocation.remarks && <span className="block text-xs text-gray-500">{allocation.remarks}</span>}
+                  </td>
+                  <td className="py-3 px-4 text-sm text-gray-600">{allocation.checkIn}</td>
+                  <td className="py-3 px-4 text-sm text-gray-600">
+                    {allocation.checkOut || <span className="text-gray-400">{end ? `${end} (year end)` : '-'}</span>}
+                  </td>
+                  <td className="py-3 px-4 text-right text-sm font-semibold text-gray-900">
+                    {hostel ? formatCurrency(hostel.boardingFee + (allocation.messOpted ? hostel.messFee : 0)) : '-'}
+                    <span className="block text-xs font-normal text-gray-500">{allocation.messOpted ? 'with mess' : 'no mess'}</span>
+                  </td>
+                  <td className="py-3 px-4">
+                    <Badge variant={status === 'current' ? 'success' : status === 'upcoming' ? 'info' : 'default'}>
+                      {status === 'current' ? 'Boarding' : status === 'upcoming' ? 'Upcoming' : 'Checked out'}
+                    </Badge>
+                  </td>
+                  {canManage && (
+                    <td className="py-3 px-4 text-right">
+                      {!allocation.checkOut && (
+                        <Button
+                          size="sm"
+                          variant="secondary"
+                          icon={<LogOut className="w-4 h-4" />}
+                          onClick={() => {
+                            setCheckOutDate(allocation.checkIn > today ? allocation.checkIn : today);
+                            setCheckingOut(allocation);
+                          }}
+                        >
+                          Check Out
+                        </Button>
+                      )}
+                    </td>
+                  )}
+                </tr>
+              ))}
+              {rows.length === 0 && (
+                <tr>
+                  <td colSpan={8} className="py-12 text-center text-gray-500">No boarders found</td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </Card>
+
+      {/* Allocate Modal */}
+      <Modal isOpen={showAllocate} onClose={() => setShowAllocate(false)} title="Allocate Bed">
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <Input
+              label="Check-in Date *"
+              type="date"
+              value={form.checkIn}
+              onChange={(e) => setForm({ ...form, checkIn: e.target.value, studentId: '', roomId: '', bedNumber: '' })}
+            />
+            <Select
+              label="Hostel *"
+              value={form.hostelId}
+              onChange={(e) => setForm({ ...form, hostelId: e.target.value, studentId: '', roomId: '', bedNumber: '' })}
+              options={[
+                { value: '', label: 'Select hostel' },
+                ...hostels.filter(h => h.isActive).map(h => ({ value: String(h.id), label: `${h.hostelName} (${h.gender})` })),
+              ]}
+            />
+          </div>
+          <Select
+            label="Student *"
+            value={form.studentId}
+            onChange={(e) => setForm({ ...form, studentId: e.target.value })}
+            options={[{ value: '', label: 'Select student' }, ...studentOptions]}
+          />
+          <div className="grid grid-cols-2 gap-4">
+            <Select
+              label="Room *"
+              value={form.roomId}
+              onChange={(e) => setForm({ ...form, roomId: e.target.value, bedNumber: '' })}
+              options={[{ value: '', label: form.hostelId ? 'Select room' : 'Select hostel first' }, ...roomOptions]}
+            />
+            <Select
+              label="Bed *"
+              value={form.bedNumber}
+              onChange={(e) => setForm({ ...form, bedNumber: e.target.value })}
+              options={[{ value: '', label: 'Select bed' }, ...bedOptions]}
+            />
+          </div>
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={form.messOpted}
+              onChange={(e) => setForm({ ...form, messOpted: e.target.checked })}
+              className="w-4 h-4 rounded border-gray-300 text-blue-600"
+            />
+            Takes meals in the mess{selectedHostel ? ` (${formatCurrency(selectedHostel.messFee)} / month)` : ''}
+          </label>
+          <Textarea
+            label="Remarks"
+            rows={2}
+            value={form.remarks}
+            onChange={(e) => setForm({ ...form, remarks: e.target.value })}
+          />
+          <p className="text-xs text-gray-500">
+            Boarding{form.messOpted ? ' and mess are' : ' is'} charged from the check-in date; a part month is prorated by days.
+          </p>
+          <div className="flex gap-3 pt-2">
+            <Button
+              className="flex-1"
+              disabled={!form.studentId || !form.roomId || !form.bedNumber || !form.checkIn}
+              onClick={handleAllocate}
+            >
+              Allocate
+            </Button>
+            <Button variant="secondary" className="flex-1" onClick={() => setShowAllocate(false)}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      </Modal>
+
+      {/* Check Out Modal */}
+      <Modal isOpen={!!checkingOut} onClose={() => setCheckingOut(null)} title="Check Out Boarder" size="sm">
+        {checkingOut && (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600">
+              {(() => {
+                const student = students.find(s => s.id === checkingOut.studentId);
+                return `${student?.firstName || ''} ${student?.lastName || ''}`;
+              })()} is charged up to and including the check-out date; the rest of that month is prorated.
+            </p>
+            <Input
+              label="Check-out Date *"
+              type="date"
+              min={checkingOut.checkIn}
+              value={checkOutDate}
+              onChange={(e) => setCheckOutDate(e.target.value)}
+            />
+            <div className="flex gap-3 pt-2">
+              <Button variant="danger" className="flex-1" disabled={!checkOutDate} onClick={handleCheckOut}>
+                Check Out
+              </Button>
+              <Button variant="secondary" className="flex-1" onClick={() => setCheckingOut(null)}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        )}
+      </Modal>
+    </div>
+  );
+}
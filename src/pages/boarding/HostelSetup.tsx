@@ -0,0 +1,299 @@
+import { useState } from 'react';
+import { Plus, Edit2, Building2, DoorOpen, BedDouble } from 'lucide-react';
+import { Card, StatCard } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Input, Select } from '@/components/ui/Input';
+import { Badge } from '@/components/ui/Badge';
+import { Modal } from '@/components/ui/Modal';
+import { useToast } from '@/components/ui/Toast';
+import {
+  saveHostel, saveHostelRoom, getCurrentUser, getLocalDateString, formatCurrency
+} from '@/store';
+import { useAcademicYears, useBedAllocations, useHostelRooms, useHostels } from '@/hooks/useStore';
+import { getBedStatuses } from '@/utils/boarding';
+import type { Hostel, HostelRoom } from '@/types';
+
+const now = () => new Date().toISOString();
+
+export function HostelSetup() {
+  const { showToast } = useToast();
+  const { data: hostels } = useHostels();
+  const { data: rooms } = useHostelRooms();
+  const { data: allocations } = useBedAllocations();
+  const { data: academicYears } = useAcademicYears();
+
+  const [hostelForm, setHostelForm] = useState<Hostel | null>(null);
+  const [roomForm, setRoomForm] = useState<HostelRoom | null>(null);
+  const [feeEffectiveFrom, setFeeEffectiveFrom] = useState(getLocalDateString());
+
+  const role = getCurrentUser()?.role;
+  const canManage = role === 'admin' || role === 'accountant';
+  const beds = getBedStatuses(rooms, allocations, getLocalDateString(), academicYears);
+  const occupiedIn = (roomIds: number[]) => beds.filter(b => roomIds.includes(b.room.id) && b.allocation).length;
+
+  const savedHostel = hostelForm ? hostels.find(h => h.id === hostelForm.id) : undefined;
+  const feeChanged = !!savedHostel &&
+    (savedHostel.boardingFee !== hostelForm?.boardingFee || savedHostel.messFee !== hostelForm?.messFee);
+
+  const handleSaveHostel = () => {
+    if (!hostelForm) return;
+    try {
+      saveHostel(hostelForm, feeEffectiveFrom);
+      setHostelForm(null);
+      showToast('success', 'Hostel saved');
+    } catch (error) {
+      showToast('error', error instanceof Error ? error.message : 'Failed to save hostel');
+    }
+  };
+
+  const handleSaveRoom = () => {
+    if (!roomForm) return;
+    try {
+      saveHostelRoom(roomForm);
+      setRoomForm(null);
+      showToast('success', 'Room saved');
+    } catch (error) {
+      showToast('error', error instanceof Error ? error.message : 'Failed to save room');
+    }
+  };
+
+  const openHostel = (hostel?: Hostel) => {
+    setFeeEffectiveFrom(getLocalDateString());
+    setHostelForm(hostel || {
+      id: 0, hostelCode: '', hostelName: '', gender: 'Male', wardenName: '', wardenPhone: '',
+      boardingFee: 0, messFee: 0, isActive: true, createdAt: now(), updatedAt: now(),
+    });
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      {/* Summary Cards */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <StatCard
+          title="Hostels"
+          value={hostels.filter(h => h.isActive).length.toString()}
+          icon={<Building2 className="w-6 h-6 text-blue-600" />}
+          iconBg="bg-blue-100"
+        />
+        <StatCard
+          title="Rooms"
+          value={rooms.filter(r => r.isActive).length.toString()}
+          icon={<DoorOpen className="w-6 h-6 text-green-600" />}
+          iconBg="bg-green-100"
+        />
+        <StatCard
+          title="Beds Occupied"
+          value={`${beds.filter(b => b.allocation).length}/${beds.filter(b => b.room.isActive).length}`}
+          icon={<BedDouble className="w-6 h-6 text-amber-600" />}
+          iconBg="bg-amber-100"
+        />
+      </div>
+
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-gray-900">Hostels</h3>
+        {canManage && (
+          <Button icon={<Plus className="w-4 h-4" />} onClick={() => openHostel()}>
+            Add Hostel
+          </Button>
+        )}
+      </div>
+
+      {hostels.map(hostel => {
+        const hostelRooms = rooms
+          .filter(r => r.hostelId === hostel.id)
+          .sort((a, b) => a.roomNumber.localeCompare(b.roomNumber, undefined, { numeric: true }));
+        return (
+          <Card key={hostel.id}>
+            <div className="flex items-start justify-between mb-4">
+              <div>
+                <div className="flex items-center gap-2">
+                  <h4 className="text-base font-semibold text-gray-900">{hostel.hostelCode} - {hostel.hostelName}</h4>
+                  <Badge variant="info">{hostel.gender}</Badge>
+                  {!hostel.isActive && <Badge>Inactive</Badge>}
+                </div>
+                <p className="text-sm text-gray-500">
+                  Boarding {formatCurrency(hostel.boardingFee)} • Mess {formatCurrency(hostel.messFee)} per month •{' '}
+                  {occupiedIn(hostelRooms.map(r => r.id))}/{hostelRooms.filter(r => r.isActive).reduce((sum, r) => sum + r.beds, 0)} beds
+                  {hostel.wardenName ? ` • Warden: ${hostel.wardenName}${hostel.wardenPhone ? ` (${hostel.wardenPhone})` : ''}` : ''}
+                </p>
+              </div>
+              {canManage && (
+                <div className="flex gap-2">
+                  <Button size="sm" variant="secondary" icon={<Edit2 className="w-4 h-4" />} onClick={() => openHostel(hostel)}>
+                    Edit
+                  </Button>
+                  <Button
+                    size="sm"
+                    icon={<Plus className="w-4 h-4" />}
+                    onClick={() => setRoomForm({
+                      id: 0, hostelId: hostel.id, roomNumber: '', beds: 2, isActive: true, createdAt: now(), updatedAt: now(),
+                    })}
+                  >
+                    Add Room
+                  </Button>
+                </div>
+              )}
+            </div>
+            <table className="w-full">
+              <thead className="bg-gray-50 border-b border-gray-200">
+                <tr>
+                  <th className="text-left py-2 px-4 text-xs font-semibold text-gray-600 uppercase">Room</th>
+                  <th className="text-right py-2 px-4 text-xs font-semibold text-gray-600 uppercase">Beds</th>
+                  <th className="text-right py-2 px-4 text-xs font-semibold text-gray-600 uppercase">Occupied</th>
+                  <th className="text-right py-2 px-4 text-xs font-semibold text-gray-600 uppercase">Vacant</th>
+                  {canManage && <th className="text-right py-2 px-4 text-xs font-semibold text-gray-600 uppercase">Actions</th>}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {hostelRooms.map(room => {
+                  const occupied = occupiedIn([room.id]);
+                  return (
+                    <tr key={room.id} className={room.isActive ? '' : 'opacity-50'}>
+                      <td className="py-2 px-4 text-sm font-medium text-gray-900">{room.roomNumber}</td>
+                      <td className="py-2 px-4 text-right text-sm text-gray-900">{room.beds}</td>
+                      <td className="py-2 px-4 text-right text-sm text-gray-600">{occupied}</td>
+                      <td className="py-2 px-4 text-right text-sm font-semibold text-green-600">
+                        {room.isActive ? room.beds - occupied : '-'}
+                      </td>
+                      {canManage && (
+                        <td className="py-2 px-4 text-right">
+                          <button onClick={() => setRoomForm(room)} className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg">
+                            <Edit2 className="w-4 h-4" />
+                          </button>
+                        </td>
+                      )}
+                    </tr>
+                  );
+                })}
+                {hostelRooms.length === 0 && (
+                  <tr>
+                    <td colSpan={5} className="py-6 text-center text-gray-500">No rooms in this hostel yet</td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </Card>
+        );
+      })}
+      {hostels.length === 0 && (
+        <Card>
+          <p className="py-6 text-center text-gray-500">No hostels set up yet</p>
+        </Card>
+      )}
+
+      {/* Hostel Modal */}
+      <Modal isOpen={!!hostelForm} onClose={() => setHostelForm(null)} title={hostelForm?.id ? 'Edit Hostel' : 'Add Hostel'}>
+        {hostelForm && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <Input
+                label="Hostel Code *"
+                placeholder="e.g., BH"
+                value={hostelForm.hostelCode}
+                onChange={(e) => setHostelForm({ ...hostelForm, hostelCode: e.target.value.toUpperCase() })}
+              />
+              <Input
+                label="Hostel Name *"
+                placeholder="e.g., Boys Hostel"
+                value={hostelForm.hostelName}
+                onChange={(e) => setHostelForm({ ...hostelForm, hostelName: e.target.value })}
+              />
+              <Select
+                label="For"
+                value={hostelForm.gender}
+                onChange={(e) => setHostelForm({ ...hostelForm, gender: e.target.value as Hostel['gender'] })}
+                options={[
+                  { value: 'Male', label: 'Boys' },
+                  { value: 'Female', label: 'Girls' },
+                  { value: 'Mixed', label: 'Mixed' },
+                ]}
+              />
+              {hostelForm.id > 0 ? (
+                <Select
+                  label="Status"
+                  value={hostelForm.isActive ? 'active' : 'inactive'}
+                  onChange={(e) => setHostelForm({ ...hostelForm, isActive: e.target.value === 'active' })}
+                  options={[{ value: 'active', label: 'Active' }, { value: 'inactive', label: 'Inactive' }]}
+                />
+              ) : <div />}
+              <Input
+                label="Warden Name"
+                value={hostelForm.wardenName || ''}
+                onChange={(e) => setHostelForm({ ...hostelForm, wardenName: e.target.value })}
+              />
+              <Input
+                label="Warden Phone"
+                value={hostelForm.wardenPhone || ''}
+                onChange={(e) => setHostelForm({ ...hostelForm, wardenPhone: e.target.value })}
+              />
+              <Input
+                label="Boarding Fee / Month (Rs.) *"
+                type="number"
+                min="0"
+                value={hostelForm.boardingFee}
+                onChange={(e) => setHostelForm({ ...hostelForm, boardingFee: Number(e.target.value) })}
+              />
+              <Input
+                label="Mess Fee / Month (Rs.) *"
+                type="number"
+                min="0"
+                value={hostelForm.messFee}
+                onChange={(e) => setHostelForm({ ...hostelForm, messFee: Number(e.target.value) })}
+              />
+              {feeChanged && (
+                <Input
+                  label="Fee Change Effective From"
+                  type="date"
+                  value={feeEffectiveFrom}
+                  onChange={(e) => setFeeEffectiveFrom(e.target.value)}
+                />
+              )}
+            </div>
+            {feeChanged && (
+              <p className="text-xs text-amber-700">
+                Months before the effective month stay at boarding {formatCurrency(savedHostel?.boardingFee || 0)} and
+                mess {formatCurrency(savedHostel?.messFee || 0)}.
+              </p>
+            )}
+            <div className="flex gap-3 pt-2">
+              <Button className="flex-1" onClick={handleSaveHostel}>Save Hostel</Button>
+              <Button variant="secondary" className="flex-1" onClick={() => setHostelForm(null)}>Cancel</Button>
+            </div>
+          </div>
+        )}
+      </Modal>
+
+      {/* Room Modal */}
+      <Modal isOpen={!!roomForm} onClose={() => setRoomForm(null)} title={roomForm?.id ? 'Edit Room' : 'Add Room'} size="sm">
+        {roomForm && (
+          <div className="space-y-4">
+            <Input
+              label="Room Number *"
+              value={roomForm.roomNumber}
+              onChange={(e) => setRoomForm({ ...roomForm, roomNumber: e.target.value.toUpperCase() })}
+            />
+            <Input
+              label="Beds *"
+              type="number"
+              min="1"
+              value={roomForm.beds}
+              onChange={(e) => setRoomForm({ ...roomForm, beds: Number(e.target.value) })}
+            />
+            {roomForm.id > 0 && (
+              <Select
+                label="Status"
+                value={roomForm.isActive ? 'active' : 'inactive'}
+                onChange={(e) => setRoomForm({ ...roomForm, isActive: e.target.value === 'active' })}
+                options={[{ value: 'active', label: 'Active' }, { value: 'inactive', label: 'Inactive' }]}
+              />
+            )}
+            <div className="flex gap-3 pt-2">
+              <Button className="flex-1" onClick={handleSaveRoom}>Save Room</Button>
+              <Button variant="secondary" className="flex-1" onClick={() => setRoomForm(null)}>Cancel</Button>
+            </div>
+          </div>
+        )}
+      </Modal>
+    </div>
+  );
+}
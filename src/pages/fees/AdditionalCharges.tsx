@@ -0,0 +1,373 @@
+import { useState, useMemo } from 'react';
+import { Plus, Trash2, Lock, Receipt, Search } from 'lucide-react';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Input, Select, Textarea } from '@/components/ui/Input';
+import { Badge } from '@/components/ui/Badge';
+import { Modal } from '@/components/ui/Modal';
+import { useToast } from '@/components/ui/Toast';
+import {
+  postAdditionalCharges, deleteAdditionalCharge, getLiveFeeRecords, getCurrentUser, getLocalDateString, formatCurrency
+} from '@/store';
+import {
+  useAdditionalCharges, useClasses, useFeeHeads, useStoreQuery, useStudents, useStudentsDues
+} from '@/hooks/useStore';
+import { getChargeStatus, type ChargeStatus } from '@/utils/charges';
+import type { AdditionalCharge } from '@/types';
+
+const months = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December'
+];
+
+const statusVariants: Record<ChargeStatus['status'], 'success' | 'warning' | 'default'> = {
+  paid: 'success',
+  due: 'warning',
+  upcoming: 'default',
+};
+
+export function AdditionalCharges() {
+  const { showToast } = useToast();
+  const [showModal, setShowModal] = useState(false);
+  const [deleteModal, setDeleteModal] = useState<AdditionalCharge | null>(null);
+  const [feeHeadId, setFeeHeadId] = useState('');
+  const [headName, setHeadName] = useState('');
+  const [amount, setAmount] = useState('');
+  const [dueDate, setDueDate] = useState(getLocalDateString());
+  const [reason, setReason] = useState('');
+  const [classFilter, setClassFilter] = useState('');
+  const [searchTerm, setSearchTerm] = useState('');
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+
+  const role = getCurrentUser()?.role;
+  const canPost = role === 'admin' || role === 'accountant';
+  const isAdmin = role === 'admin';
+  const today = getLocalDateString();
+  const { data: charges } = useAdditionalCharges();
+  const { data: students } = useStudents();
+  const { data: classes } = useClasses();
+  const { data: allHeads } = useFeeHeads();
+  const feeHeads = allHeads.filter(h => h.isActive);
+
+  // Payment progress comes from the shared dues calculator
+  const { data: records } = useStoreQuery(['fee_records'], async () => getLiveFeeRecords(), []);
+  const chargedStudents = useMemo(
+    () => students.filter(s => charges.some(c => c.studentId === s.id)), [students, charges]
+  );
+  const { data: dues } = useStudentsDues(chargedStudents);
+  const duesByStudent = new Map(dues.map(d => [d.studentId, d]));
+  const getStatus = (charge: AdditionalCharge): ChargeStatus | null => {
+    const dues = duesByStudent.get(charge.studentId);
+    return dues ? getChargeStatus(charge, records, dues, today) : null;
+  };
+
+  const getStudentName = (id: number) => {
+    const student = students.find(s => s.id === id);
+    return student ? `${student.firstName} ${student.lastName || ''}` : 'Unknown';
+  };
+
+  const candidates = students
+    .filter(s => s.status === 'active')
+    .filter(s => !classFilter || s.classId === parseInt(classFilter))
+    .filter(s => {
+      const term = searchTerm.toLowerCase();
+      return !term ||
+        s.firstName.toLowerCase().includes(term) ||
+        s.lastName?.toLowerCase().includes(term) ||
+        s.studentId.toLowerCase().includes(term);
+    });
+  const allSelected = candidates.length > 0 && candidates.every(s => selectedIds.includes(s.id));
+
+  const openModal = () => {
+    setFeeHeadId('');
+    setHeadName('');
+    setAmount('');
+    setDueDate(today);
+    setReason('');
+    setClassFilter('');
+    setSearchTerm('');
+    setSelectedIds([]);
+    setShowModal(true);
+  };
+
+  const handleFeeHeadChange = (value: string) => {
+    setFeeHeadId(value);
+    const head = feeHeads.find(h => h.id === parseInt(value));
+    if (head) setHeadName(head.headName);
+  };
+
+  const toggleStudent = (id: number) => {
+    setSelectedIds(prev => prev.includes(id) ? prev.filter(s => s !== id) : [...prev, id]);
+  };
+
+  const toggleAll = () => {
+    const ids = candidates.map(s => s.id);
+    setSelectedIds(prev => allSelected
+      ? prev.filter(id => !ids.includes(id))
+      : Array.from(new Set([...prev, ...ids])));
+  };
+
+  const handlePost = () => {
+    try {
+      const posted = postAdditionalCharges(selectedIds, {
+        feeHeadId: feeHeadId ? parseInt(feeHeadId) : null,
+        headName,
+        amount: Number(amount || 0),
+        dueDate,
+        reason,
+      });
+      showToast('success', `${headName} charged to ${posted.length} student${posted.length === 1 ? '' : 's'}`);
+      setShowModal(false);
+    } catch (error) {
+      showToast('error', error instanceof Error ? error.message : 'Failed to post charges');
+    }
+  };
+
+  const handleDelete = () => {
+    if (!deleteModal) return;
+
+    try {
+      deleteAdditionalCharge(deleteModal.id);
+      showToast('success', 'Charge removed');
+    } catch (error) {
+      showToast('error', error instanceof Error ? error.message : 'Failed to remove charge');
+    } finally {
+      setDeleteModal(null);
+    }
+  };
+
+  const sortedCharges = [...charges].sort((a, b) => b.dueDate.localeCompare(a.dueDate) || b.id - a.id);
+
+  return (
+    <div className="p-6 space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Additional Charges</h2>
+          <p className="text-sm text-gray-500">
+            Fines and one-off fees are billed with their due date's month, or the next month not yet billed.
+          </p>
+        </div>
+        {canPost && (
+          <Button icon={<Plus className="w-4 h-4" />} onClick={openModal}>
+            Post Charge
+          </Button>
+        )}
+      </div>
+
+      {/* Charges Table */}
+      <Card padding="none">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="text-left py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Student</th>
+                <th className="text-left py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Charge</th>
+                <th className="text-left py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Due Date</th>
+                <th className="text-left py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Billed With</th>
+                <th className="text-right py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Amount</th>
+                <th className="text-right py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Outstanding</th>
+                <th className="text-left py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Status</th>
+                <th className="text-right py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {sortedCharges.map(charge => {
+                const status = getStatus(charge);
+                return (
+                  <tr key={charge.id} className="hover:bg-gray-50">
+                    <td className="py-3 px-4">
+                      <div className="flex items-center gap-3">
+                        <div className="p-2 bg-blue-100 rounded-lg">
+                          <Receipt className="w-4 h-4 text-blue-600" />
+                        </div>
+                        <span className="font-medium text-gray-900">{getStudentName(charge.studentId)}</span>
+                      </div>
+                    </td>
+                    <td className="py-3 px-4 text-sm text-gray-600">
+                      {charge.headName}
+                      {charge.reason && <span className="block text-xs text-gray-400">{charge.reason}</span>}
+                    </td>
+                    <td className="py-3 px-4 text-sm text-gray-600">{charge.dueDate}</td>
+                    <td className="py-3 px-4 text-sm text-gray-600">
+                      {status?.billedIn
+                        ? `${months[status.billedIn.feeMonth - 1]} ${status.billedIn.feeYear}`
+                        : 'Billed'}
+                    </td>
+                    <td className="py-3 px-4 text-right font-medium text-gray-900">{formatCurrency(charge.amount)}</td>
+                    <td className="py-3 px-4 text-right font-semibold text-red-600">
+                      {formatCurrency(status ? status.outstanding : charge.amount)}
+                    </td>
+                    <td className="py-3 px-4">
+                      {status && (
+                        <Badge variant={statusVariants[status.status]}>{status.status.toUpperCase()}</Badge>
+                      )}
+                    </td>
+                    <td className="py-3 px-4">
+                      <div className="flex items-center justify-end gap-1">
+                        {!status?.billedIn ? (
+                          <span className="p-2 text-gray-400" title="Already on a receipt or invoice">
+                            <Lock className="w-4 h-4" />
+                          </span>
+                        ) : isAdmin && (
+                          <button
+                            onClick={() => setDeleteModal(charge)}
+                            className="p-2 text-gray-500 hover:text-red-600 hover:bg-red-50 rounded-lg"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+              {charges.length === 0 && (
+                <tr>
+                  <td colSpan={8} className="py-12 text-center text-gray-500">
+                    No additional charges posted
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </Card>
+
+      {/* Post Charge Modal */}
+      <Modal
+        isOpen={showModal}
+        onClose={() => setShowModal(false)}
+        title="Post Additional Charge"
+        size="lg"
+      >
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <Select
+              label="Fee Head"
+              value={feeHeadId}
+              onChange={(e) => handleFeeHeadChange(e.target.value)}
+              options={[
+                { value: '', label: 'Other (not a fee head)' },
+                ...feeHeads.map(h => ({ value: h.id, label: h.headName })),
+              ]}
+            />
+            <Input
+              label="Charge Name *"
+              placeholder="e.g., Library Fine"
+              value={headName}
+              onChange={(e) => setHeadName(e.target.value)}
+            />
+            <Input
+              label="Amount (Rs.) *"
+              type="number"
+              min="0"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+            />
+            <Input
+              label="Due Date *"
+              type="date"
+              value={dueDate}
+              onChange={(e) => setDueDate(e.target.value)}
+            />
+          </div>
+          <Textarea
+            label="Reason"
+            placeholder="e.g., Lost library book"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            rows={2}
+          />
+
+          <div className="space-y-2">
+            <label className="block text-sm font-medium text-gray-700">Students *</label>
+            <div className="flex gap-2">
+              <div className="relative flex-1">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+                <input
+                  type="text"
+                  placeholder="Search by name or ID..."
+                  value={searchTerm}
+                  onChange={(e) => setSearchTerm(e.target.value)}
+                  className="w-full pl-9 pr-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+              <div className="w-40">
+                <Select
+                  value={classFilter}
+                  onChange={(e) => setClassFilter(e.target.value)}
+                  options={[
+                    { value: '', label: 'All Classes' },
+                    ...classes.map(c => ({ value: c.id, label: c.className })),
+                  ]}
+                />
+              </div>
+            </div>
+            <div className="border border-gray-200 rounded-lg max-h-56 overflow-y-auto divide-y divide-gray-100">
+              <label className="flex items-center gap-3 px-3 py-2 bg-gray-50 text-sm font-medium text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={allSelected}
+                  onChange={toggleAll}
+                  className="w-4 h-4 rounded border-gray-300 text-blue-600"
+                />
+                Select all ({candidates.length})
+              </label>
+              {candidates.map(s => (
+                <label key={s.id} className="flex items-center gap-3 px-3 py-2 text-sm text-gray-700 hover:bg-gray-50">
+                  <input
+                    type="checkbox"
+                    checked={selectedIds.includes(s.id)}
+                    onChange={() => toggleStudent(s.id)}
+                    className="w-4 h-4 rounded border-gray-300 text-blue-600"
+                  />
+                  {s.firstName} {s.lastName}
+                  <span className="text-gray-400">
+                    {s.studentId} • {classes.find(c => c.id === s.classId)?.className || 'N/A'}
+                  </span>
+                </label>
+              ))}
+            </div>
+            <p className="text-sm text-gray-600">
+              {selectedIds.length} selected
+              {selectedIds.length > 0 && Number(amount) > 0 && ` • ${formatCurrency(selectedIds.length * Number(amount))} in total`}
+            </p>
+          </div>
+
+          <div className="flex gap-3 pt-4">
+            <Button className="flex-1" onClick={handlePost}>
+              Post Charge
+            </Button>
+            <Button variant="secondary" className="flex-1" onClick={() => setShowModal(false)}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      </Modal>
+
+      {/* Delete Confirmation Modal */}
+      <Modal
+        isOpen={!!deleteModal}
+        onClose={() => setDeleteModal(null)}
+        title="Remove Charge"
+        size="sm"
+      >
+        <div className="space-y-4">
+          <p className="text-gray-600">
+            Remove <strong>{deleteModal?.headName}</strong> ({deleteModal ? formatCurrency(deleteModal.amount) : ''}) for{' '}
+            {deleteModal ? getStudentName(deleteModal.studentId) : ''}?
+          </p>
+          <div className="flex gap-3">
+            <Button variant="danger" onClick={handleDelete} className="flex-1">
+              Remove
+            </Button>
+            <Button variant="secondary" onClick={() => setDeleteModal(null)} className="flex-1">
+              Cancel
+            </Button>
+          </div>
+        </div>
+      </Modal>
+    </div>
+  );
+}
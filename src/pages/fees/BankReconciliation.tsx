@@ -0,0 +1,414 @@
+import { useState } from 'react';
+import { Upload, CheckCircle, XCircle, RotateCcw, Landmark } from 'lucide-react';
+import { Card, StatCard } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Select } from '@/components/ui/Input';
+import { Badge } from '@/components/ui/Badge';
+import { useToast } from '@/components/ui/Toast';
+import {
+  getBankColumnMapping, saveBankColumnMapping, importBankStatement,
+  postBankStatementLine, setBankStatementLineIgnored, getCurrentUser, formatCurrency
+} from '@/store';
+import { useBankStatementLines, useStudents } from '@/hooks/useStore';
+import { parseCsv, readStatementCredits } from '@/utils/bankStatement';
+import type { BankColumnMapping, BankStatementLine } from '@/types';
+
+const DEFAULT_MAPPING: BankColumnMapping = {
+  hasHeader: true,
+  dateColumn: 0,
+  dateFormat: 'DD/MM/YYYY',
+  descriptionColumn: 1,
+  referenceColumn: 2,
+  creditColumn: 3,
+};
+
+const matchLabels: Record<NonNullable<BankStatementLine['matchedBy']>, string> = {
+  invoice: 'Challan No.',
+  reference: 'Student ID',
+  amount: 'Amount',
+};
+
+export function BankReconciliation() {
+  const { showToast } = useToast();
+  const [rows, setRows] = useState<string[][]>([]);
+  const [fileName, setFileName] = useState('');
+  const [mapping, setMapping] = useState<BankColumnMapping>(() => getBankColumnMapping() || DEFAULT_MAPPING);
+  const [view, setView] = useState('pending');
+  const [paymentMode, setPaymentMode] = useState<'bank_transfer' | 'online'>('bank_transfer');
+  const [assigned, setAssigned] = useState<Record<number, string>>({});
+  const [loading, setLoading] = useState(false);
+
+  const role = getCurrentUser()?.role;
+  const canReconcile = role === 'admin' || role === 'accountant';
+  const { data: lines } = useBankStatementLines();
+  const { data: students } = useStudents();
+  const activeStudents = students.filter(s => s.status === 'active');
+
+  const credits = rows.length > 0 ? readStatementCredits(rows, mapping) : [];
+  const columnCount = rows.reduce((max, row) => Math.max(max, row.length), 0);
+  const columnOptions = Array.from({ length: columnCount }, (_, index) => ({
+    value: index,
+    label: mapping.hasHeader && rows[0]?.[index] ? rows[0][index] : `Column ${index + 1}`,
+  }));
+
+  const pending = lines.filter(l => l.status === 'pending');
+  const visible = lines
+    .filter(l => l.status === view)
+    .sort((a, b) => b.transactionDate.localeCompare(a.transactionDate) || b.id - a.id);
+
+  const getStudentName = (id?: number) => {
+    const student = students.find(s => s.id === id);
+    return student ? `${student.firstName} ${student.lastName || ''} (${student.studentId})` : '-';
+  };
+
+  // The reviewer's pick, or the importer's suggestion
+  const getAssigned = (line: BankStatementLine) =>
+    assigned[line.id] ?? (line.suggestedStudentId ? String(line.suggestedStudentId) : '');
+
+  const updateMapping = (field: keyof BankColumnMapping, value: string | boolean) => {
+    setMapping(prev => ({
+      ...prev,
+      [field]: typeof value === 'boolean' || field === 'dateFormat'
+        ? value
+        : value === '' ? null : Number(value),
+    }));
+  };
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      setRows(parseCsv(event.target?.result as string));
+      setFileName(file.name);
+    };
+    reader.readAsText(file);
+    e.target.value = '';
+  };
+
+  const handleImport = () => {
+    try {
+      const { imported, duplicates } = importBankStatement(credits);
+      saveBankColumnMapping(mapping);
+      setRows([]);
+      setFileName('');
+      setView('pending');
+      const matched = imported.filter(l => l.suggestedStudentId).length;
+      showToast('success', `${imported.length} credit${imported.length === 1 ? '' : 's'} imported, ${matched} matched` +
+        `${duplicates > 0 ? `; ${duplicates} already imported before` : ''}`);
+    } catch (error) {
+      showToast('error', error instanceof Error ? error.message : 'Failed to import statement');
+    }
+  };
+
+  const handlePost = async (line: BankStatementLine) => {
+    const studentId = parseInt(getAssigned(line));
+    if (!studentId) {
+      showToast('error', 'Select the student this credit is from');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const records = await postBankStatementLine(line.id, studentId, paymentMode);
+      showToast('success', `Posted ${formatCurrency(line.amount)} as receipt ${records[0].receiptNumber}`);
+    } catch (error) {
+      showToast('error', error instanceof Error ? error.message : 'Failed to post payment');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Every pending line with a student picked; stops at the first failure
+  const handlePostAll = async () => {
+    const ready = pending.filter(line => getAssigned(line));
+    setLoading(true);
+    let posted = 0;
+    try {
+      for (const line of ready) {
+        await postBankStatementLine(line.id, parseInt(getAssigned(line)), paymentMode);
+        posted++;
+      }
+      showToast('success', `${posted} credit${posted === 1 ? '' : 's'} posted`);
+    } catch (error) {
+      showToast('error', `${posted} posted; ${error instanceof Error ? error.message : 'failed to post payment'}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleIgnore = (line: BankStatementLine, ignored: boolean) => {
+    try {
+      setBankStatementLineIgnored(line.id, ignored);
+    } catch (error) {
+      showToast('error', error instanceof Error ? error.message : 'Failed to update line');
+    }
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      {/* Summary Cards */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <StatCard
+          title="Awaiting Review"
+          value={pending.length.toString()}
+          icon={<Landmark className="w-6 h-6 text-amber-600" />}
+          iconBg="bg-amber-100"
+        />
+        <StatCard
+          title="Unposted Credits"
+          value={formatCurrency(pending.reduce((sum, l) => sum + l.amount, 0))}
+          icon={<XCircle className="w-6 h-6 text-red-600" />}
+          iconBg="bg-red-100"
+        />
+        <StatCard
+          title="Posted"
+          value={formatCurrency(lines.filter(l => l.status === 'posted').reduce((sum, l) => sum + l.amount, 0))}
+          icon={<CheckCircle className="w-6 h-6 text-emerald-600" />}
+          iconBg="bg-emerald-100"
+        />
+      </div>
+
+      {/* Import */}
+      {canReconcile && (
+        <Card>
+          <div className="flex items-center justify-between mb-4">
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900">Import Statement</h3>
+              <p className="text-sm text-gray-500">
+                CSV export from the bank. Only credits are read; lines imported before are skipped.
+              </p>
+            </div>
+            <div className="relative">
+              <input
+                type="file"
+                accept=".csv,text/csv"
+                onChange={handleFile}
+                className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
+              />
+              <Button variant="secondary" icon={<Upload className="w-4 h-4" />}>
+                {fileName || 'Choose CSV File'}
+              </Button>
+            </div>
+          </div>
+
+          {rows.length > 0 && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+                <Select
+                  label="Date"
+                  value={mapping.dateColumn}
+                  onChange={(e) => updateMapping('dateColumn', e.target.value)}
+                  options={columnOptions}
+                />
+                <Select
+                  label="Date Format"
+                  value={mapping.dateFormat}
+                  onChange={(e) => updateMapping('dateFormat', e.target.value)}
+                  options={[
+                    { value: 'DD/MM/YYYY', label: 'DD/MM/YYYY' },
+                    { value: 'MM/DD/YYYY', label: 'MM/DD/YYYY' },
+                    { value: 'YYYY-MM-DD', label: 'YYYY-MM-DD' },
+                  ]}
+                />
+                <Select
+                  label="Description"
+                  value={mapping.descriptionColumn}
+                  onChange={(e) => updateMapping('descriptionColumn', e.target.value)}
+                  options={columnOptions}
+                />
+                <Select
+                  label="Reference"
+                  value={mapping.referenceColumn ?? ''}
+                  onChange={(e) => updateMapping('referenceColumn', e.target.value)}
+                  options={[{ value: '', label: 'None' }, ...columnOptions]}
+                />
+                <Select
+                  label="Credit Amount"
+                  value={mapping.creditColumn}
+                  onChange={(e) => updateMapping('creditColumn', e.target.value)}
+                  options={columnOptions}
+                />
+              </div>
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={mapping.hasHeader}
+                  onChange={(e) => updateMapping('hasHeader', e.target.checked)}
+                  className="w-4 h-4 rounded border-gray-300 text-blue-600"
+                />
+                First row is a header
+              </label>
+
+              <div className="border border-gray-200 rounded-lg overflow-x-auto max-h-64">
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-50 border-b border-gray-200">
+                    <tr>
+                      <th className="text-left py-2 px-3 text-xs font-semibold text-gray-600 uppercase">Date</th>
+                      <th className="text-left py-2 px-3 text-xs font-semibold text-gray-600 uppercase">Description</th>
+                      <th className="text-left py-2 px-3 text-xs font-semibold text-gray-600 uppercase">Reference</th>
+                      <th className="text-right py-2 px-3 text-xs font-semibold text-gray-600 uppercase">Credit</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {credits.slice(0, 20).map(credit => (
+                      <tr key={credit.lineKey}>
+                        <td className="py-2 px-3 text-gray-900">{credit.transactionDate}</td>
+                        <td className="py-2 px-3 text-gray-600">{credit.description}</td>
+                        <td className="py-2 px-3 text-gray-600">{credit.reference || '-'}</td>
+                        <td className="py-2 px-3 text-right font-medium text-gray-900">{formatCurrency(credit.amount)}</td>
+                      </tr>
+                    ))}
+                    {credits.length === 0 && (
+                      <tr>
+                        <td colSpan={4} className="py-6 text-center text-gray-500">
+                          No credits found with this mapping
+                        </td>
+                      </tr>
+                    )}
+                  </tbody>
+                </table>
+              </div>
+
+              <div className="flex items-center justify-between">
+                <span className="text-sm text-gray-600">
+                  {credits.length} credit{credits.length === 1 ? '' : 's'} • {formatCurrency(credits.reduce((sum, c) => sum + c.amount, 0))}
+                  {credits.length > 20 && ' (first 20 shown)'}
+                </span>
+                <Button icon={<Upload className="w-4 h-4" />} disabled={credits.length === 0} onClick={handleImport}>
+                  Import Credits
+                </Button>
+              </div>
+            </div>
+          )}
+        </Card>
+      )}
+
+      {/* Review */}
+      <Card>
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="w-48">
+            <Select
+              label="Show"
+              value={view}
+              onChange={(e) => setView(e.target.value)}
+              options={[
+                { value: 'pending', label: 'To Review' },
+                { value: 'posted', label: 'Posted' },
+                { value: 'ignored', label: 'Ignored' },
+              ]}
+            />
+          </div>
+          {canReconcile && view === 'pending' && (
+            <>
+              <div className="w-48">
+                <Select
+                  label="Post As"
+                  value={paymentMode}
+                  onChange={(e) => setPaymentMode(e.target.value as 'bank_transfer' | 'online')}
+                  options={[
+                    { value: 'bank_transfer', label: 'Bank Transfer' },
+                    { value: 'online', label: 'Online Deposit' },
+                  ]}
+                />
+              </div>
+              <Button
+                icon={<CheckCircle className="w-4 h-4" />}
+                disabled={!pending.some(line => getAssigned(line))}
+                loading={loading}
+                onClick={handlePostAll}
+              >
+                Post All Matched
+              </Button>
+            </>
+          )}
+        </div>
+      </Card>
+
+      <Card padding="none">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="text-left py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Date</th>
+                <th className="text-left py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Description</th>
+                <th className="text-right py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Amount</th>
+                <th className="text-left py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Student</th>
+                <th className="text-right py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {visible.map(line => (
+                <tr key={line.id} className="hover:bg-gray-50">
+                  <td className="py-3 px-4 text-sm text-gray-900">{line.transactionDate}</td>
+                  <td className="py-3 px-4 text-sm text-gray-600">
+                    {line.description}
+                    {line.reference && <span className="block text-xs font-mono text-gray-400">{line.reference}</span>}
+                  </td>
+                  <td className="py-3 px-4 text-right font-semibold text-gray-900">{formatCurrency(line.amount)}</td>
+                  <td className="py-3 px-4 text-sm">
+                    {line.status === 'pending' && canReconcile ? (
+                      <div className="space-y-1">
+                        <select
+                          value={getAssigned(line)}
+                          onChange={(e) => setAssigned(prev => ({ ...prev, [line.id]: e.target.value }))}
+                          className="w-64 px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500"
+                        >
+                          <option value="">Unmatched - select student</option>
+                          {activeStudents.map(s => (
+                            <option key={s.id} value={s.id}>{s.firstName} {s.lastName} ({s.studentId})</option>
+                          ))}
+                        </select>
+                        {line.matchedBy && getAssigned(line) === String(line.suggestedStudentId) && (
+                          <Badge variant={line.matchedBy === 'amount' ? 'warning' : 'info'}>
+                            Matched by {matchLabels[line.matchedBy]}
+                          </Badge>
+                        )}
+                      </div>
+                    ) : line.status === 'posted' ? (
+                      <span className="text-gray-900">
+                        {getStudentName(line.studentId)}
+                        <span className="block text-xs font-mono text-blue-600">{line.receiptNumber}</span>
+                      </span>
+                    ) : (
+                      <span className="text-gray-400">{getStudentName(line.suggestedStudentId)}</span>
+                    )}
+                  </td>
+                  <td className="py-3 px-4">
+                    {canReconcile && (
+                      <div className="flex items-center justify-end gap-2">
+                        {line.status === 'pending' && (
+                          <>
+                            <Button size="sm" loading={loading} onClick={() => handlePost(line)}>
+                              Post
+                            </Button>
+                            <Button size="sm" variant="secondary" onClick={() => handleIgnore(line, true)}>
+                              Ignore
+                            </Button>
+                          </>
+                        )}
+                        {line.status === 'ignored' && (
+                          <Button size="sm" variant="secondary" icon={<RotateCcw className="w-4 h-4" />} onClick={() => handleIgnore(line, false)}>
+                            Reopen
+                          </Button>
+                        )}
+                      </div>
+                    )}
+                  </td>
+                </tr>
+              ))}
+              {visible.length === 0 && (
+                <tr>
+                  <td colSpan={5} className="py-12 text-center text-gray-500">
+                    {view === 'pending' ? 'No statement lines to review' : `No ${view} lines`}
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </Card>
+    </div>
+  );
+}
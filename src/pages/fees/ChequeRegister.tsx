@@ -0,0 +1,273 @@
+import { useState } from 'react';
+import { FileCheck, Landmark, CheckCircle, AlertTriangle } from 'lucide-react';
+import { Card, StatCard } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Input, Select, Textarea } from '@/components/ui/Input';
+import { Badge } from '@/components/ui/Badge';
+import { Modal } from '@/components/ui/Modal';
+import { useToast } from '@/components/ui/Toast';
+import {
+  getChequeReceipts, getReceiptRecords, getChequeSettings, updateChequeStatus, bounceCheque,
+  getStudentById, getCurrentUser, getLocalDateString, formatCurrency
+} from '@/store';
+import { useStoreQuery } from '@/hooks/useStore';
+import type { FeeRecord } from '@/types';
+
+const statusVariants: Record<NonNullable<FeeRecord['chequeStatus']>, 'info' | 'warning' | 'success' | 'danger'> = {
+  received: 'info',
+  deposited: 'warning',
+  cleared: 'success',
+  bounced: 'danger',
+};
+
+export function ChequeRegister() {
+  const { showToast } = useToast();
+  const [view, setView] = useState('pending');
+  const [selected, setSelected] = useState<number[]>([]);
+  const [actionDate, setActionDate] = useState(getLocalDateString());
+  const [bounceRecord, setBounceRecord] = useState<FeeRecord | null>(null);
+  const [bounceReason, setBounceReason] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const role = getCurrentUser()?.role;
+  const canManage = role === 'admin' || role === 'accountant';
+  const { data: { bouncePenalty } } = useStoreQuery(['cheque_settings'], async () => getChequeSettings(), { bouncePenalty: 0 });
+
+  // One row per cheque; a cheque can pay for several months or children
+  const { data: cheques } = useStoreQuery(['fee_records', 'students'], async () => getChequeReceipts().map(record => {
+    const records = getReceiptRecords(record);
+    return {
+      record,
+      amount: records.reduce((sum, r) => sum + r.amountPaid, 0),
+      students: Array.from(new Set(records.map(r => r.studentId)))
+        .map(id => getStudentById(id))
+        .map(s => s ? `${s.firstName} ${s.lastName || ''}`.trim() : 'Unknown'),
+    };
+  }), []);
+  const pending = cheques.filter(c => c.record.chequeStatus === 'received' || c.record.chequeStatus === 'deposited');
+  const visible = cheques
+    .filter(c => view === 'pending'
+      ? c.record.chequeStatus === 'received' || c.record.chequeStatus === 'deposited'
+      : c.record.chequeStatus === view)
+    .sort((a, b) => b.record.createdAt.localeCompare(a.record.createdAt));
+
+  const selectedCheques = pending.filter(c => selected.includes(c.record.id));
+  const pendingTotal = pending.reduce((sum, c) => sum + c.amount, 0);
+  const depositedTotal = pending
+    .filter(c => c.record.chequeStatus === 'deposited')
+    .reduce((sum, c) => sum + c.amount, 0);
+
+  const toggleSelected = (id: number) => {
+    setSelected(prev => prev.includes(id) ? prev.filter(s => s !== id) : [...prev, id]);
+  };
+
+  const handleBulkUpdate = async (status: 'deposited' | 'cleared') => {
+    setLoading(true);
+    try {
+      const count = await updateChequeStatus(selected, status, actionDate);
+      showToast('success', `${count} cheque${count === 1 ? '' : 's'} marked ${status}`);
+      setSelected([]);
+    } catch (error) {
+      showToast('error', error instanceof Error ? error.message : 'Failed to update cheques');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleBounce = async () => {
+    if (!bounceRecord) return;
+
+    setLoading(true);
+    try {
+      await bounceCheque(bounceRecord.id, bounceReason);
+      showToast('success', `Cheque ${bounceRecord.chequeNumber} marked bounced; the payment has been reversed`);
+      setBounceRecord(null);
+      setBounceReason('');
+      setSelected([]);
+    } catch (error) {
+      showToast('error', error instanceof Error ? error.message : 'Failed to record bounced cheque');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      {/* Summary Cards */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <StatCard
+          title="Cheques in Hand"
+          value={pending.filter(c => c.record.chequeStatus === 'received').length.toString()}
+          icon={<FileCheck className="w-6 h-6 text-blue-600" />}
+          iconBg="bg-blue-100"
+        />
+        <StatCard
+          title="Awaiting Clearance"
+          value={formatCurrency(depositedTotal)}
+          icon={<Landmark className="w-6 h-6 text-amber-600" />}
+          iconBg="bg-amber-100"
+        />
+        <StatCard
+          title="Total Uncleared"
+          value={formatCurrency(pendingTotal)}
+          icon={<AlertTriangle className="w-6 h-6 text-red-600" />}
+          iconBg="bg-red-100"
+        />
+      </div>
+
+      {/* Filters and Bulk Actions */}
+      <Card>
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="w-48">
+            <Select
+              label="Show"
+              value={view}
+              onChange={(e) => { setView(e.target.value); setSelected([]); }}
+              options={[
+                { value: 'pending', label: 'Pending' },
+                { value: 'cleared', label: 'Cleared' },
+                { value: 'bounced', label: 'Bounced' },
+              ]}
+            />
+          </div>
+          {canManage && view === 'pending' && (
+            <>
+              <div className="w-44">
+                <Input
+                  label="Date"
+                  type="date"
+                  value={actionDate}
+                  onChange={(e) => setActionDate(e.target.value)}
+                />
+              </div>
+              <Button
+                variant="secondary"
+                disabled={selectedCheques.length === 0 || selectedCheques.some(c => c.record.chequeStatus !== 'received')}
+                loading={loading}
+                onClick={() => handleBulkUpdate('deposited')}
+              >
+                Mark Deposited
+              </Button>
+              <Button
+                icon={<CheckCircle className="w-4 h-4" />}
+                disabled={selectedCheques.length === 0 || selectedCheques.some(c => c.record.chequeStatus !== 'deposited')}
+                loading={loading}
+                onClick={() => handleBulkUpdate('cleared')}
+              >
+                Mark Cleared
+              </Button>
+              {selectedCheques.length > 0 && (
+                <span className="text-sm text-gray-600">
+                  {selectedCheques.length} selected • {formatCurrency(selectedCheques.reduce((sum, c) => sum + c.amount, 0))}
+                </span>
+              )}
+            </>
+          )}
+        </div>
+      </Card>
+
+      {/* Register */}
+      <Card padding="none">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                {canManage && view === 'pending' && <th className="py-3 px-4 w-10"></th>}
+                <th className="text-left py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Cheque No.</th>
+                <th className="text-left py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Bank</th>
+                <th className="text-left py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Student</th>
+                <th className="text-left py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Receipt No.</th>
+                <th className="text-left py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Received</th>
+                <th className="text-right py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Amount</th>
+                <th className="text-left py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Status</th>
+                {canManage && view === 'pending' && (
+                  <th className="text-right py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Actions</th>
+                )}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {visible.map(({ record, amount, students }) => (
+                <tr key={record.id} className="hover:bg-gray-50">
+                  {canManage && view === 'pending' && (
+                    <td className="py-3 px-4">
+                      <input
+                        type="checkbox"
+                        checked={selected.includes(record.id)}
+                        onChange={() => toggleSelected(record.id)}
+                        className="w-4 h-4 rounded border-gray-300 text-blue-600"
+                      />
+                    </td>
+                  )}
+                  <td className="py-3 px-4 font-mono text-sm text-gray-900">
+                    {record.chequeNumber || '-'}
+                    {record.chequeDate && <span className="block text-xs text-gray-400">Dated {record.chequeDate}</span>}
+                  </td>
+                  <td className="py-3 px-4 text-sm text-gray-600">{record.bankName || '-'}</td>
+                  <td className="py-3 px-4 text-sm font-medium text-gray-900">{students.join(', ')}</td>
+                  <td className="py-3 px-4 font-mono text-sm text-blue-600">{record.receiptNumber}</td>
+                  <td className="py-3 px-4 text-sm text-gray-600">{record.paymentDate}</td>
+                  <td className="py-3 px-4 text-right font-semibold text-gray-900">{formatCurrency(amount)}</td>
+                  <td className="py-3 px-4">
+                    <Badge variant={statusVariants[record.chequeStatus || 'cleared']}>
+                      {(record.chequeStatus || 'cleared').toUpperCase()}
+                    </Badge>
+                    {record.chequeStatusDate && (
+                      <span className="block text-xs text-gray-400 mt-1">{record.chequeStatusDate}</span>
+                    )}
+                  </td>
+                  {canManage && view === 'pending' && (
+                    <td className="py-3 px-4 text-right">
+                      <Button size="sm" variant="danger" onClick={() => setBounceRecord(record)}>
+                        Bounced
+                      </Button>
+                    </td>
+                  )}
+                </tr>
+              ))}
+              {visible.length === 0 && (
+                <tr>
+                  <td colSpan={9} className="py-12 text-center text-gray-500">
+                    No {view} cheques
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </Card>
+
+      {/* Bounce Modal */}
+      <Modal
+        isOpen={!!bounceRecord}
+        onClose={() => { setBounceRecord(null); setBounceReason(''); }}
+        title="Record Bounced Cheque"
+      >
+        {bounceRecord && (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600">
+              Cheque <span className="font-mono font-semibold">{bounceRecord.chequeNumber}</span> ({bounceRecord.bankName}) on
+              receipt <span className="font-mono">{bounceRecord.receiptNumber}</span> will be reversed and the months it
+              paid for fall due again.
+              {bouncePenalty > 0 && <> A bounce penalty of <strong>{formatCurrency(bouncePenalty)}</strong> will be charged.</>}
+            </p>
+            <Textarea
+              label="Reason *"
+              placeholder="e.g., Insufficient funds"
+              value={bounceReason}
+              onChange={(e) => setBounceReason(e.target.value)}
+              rows={3}
+            />
+            <div className="flex gap-3 pt-2">
+              <Button variant="danger" className="flex-1" onClick={handleBounce} loading={loading}>
+                Mark Bounced
+              </Button>
+              <Button variant="secondary" className="flex-1" onClick={() => { setBounceRecord(null); setBounceReason(''); }}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        )}
+      </Modal>
+    </div>
+  );
+}
@@ -1,12 +1,24 @@
 import { useState } from 'react';
-import { Search, Receipt, CreditCard, Banknote, Smartphone, Building2 } from 'lucide-react';
+import { Search, Receipt, CreditCard, Banknote, Smartphone, FileCheck, Building2 } from 'lucide-react';
 import { Card } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
 import { Input, Textarea } from '@/components/ui/Input';
 import { Badge } from '@/components/ui/Badge';
 import { useToast } from '@/components/ui/Toast';
-import { getStudents, getClasses, saveFeeRecord, generateReceiptNumber, getFeeRecords, getCurrentUser } from '@/store';
-import type { Student } from '@/types';
+import {
+  getStudents, getClasses, collectFees, getFeeContext, getLateFee, getCurrentUser,
+  getStudentBalance, getMonthBill, getOpenInvoice, getStudentInstallmentPlans, getStudentsDues,
+  getStudentAdditionalCharges, getLiveFeeRecords, getStudentBedAllocation, getLocalDateString
+} from '@/store';
+import {
+  getMonthlyTotal, resolveStudentFees, groupLinesByHead, sumLines
+} from '@/utils/feeCalculator';
+import { sumConcessions } from '@/utils/concessions';
+import { sumSponsored } from '@/utils/scholarships';
+import { sumWaived } from '@/utils/waivers';
+import { getInstallmentStatus } from '@/utils/installments';
+import { getChargeStatus } from '@/utils/charges';
+import type { Student, FeeRecord } from '@/types';
 
 interface CollectFeeProps {
   onNavigate?: (page: string) => void;
@@ -24,10 +36,19 @@ export function CollectFee({ onNavigate: _onNavigate }: CollectFeeProps) {
   const [selectedMonths, setSelectedMonths] = useState<number[]>([]);
   const [paymentMode, setPaymentMode] = useState('cash');
   const [paymentReference, setPaymentReference] = useState('');
+  const [chequeNumber, setChequeNumber] = useState('');
+  const [bankName, setBankName] = useState('');
+  const [chequeDate, setChequeDate] = useState('');
   const [remarks, setRemarks] = useState('');
   const [loading, setLoading] = useState(false);
   const [showReceipt, setShowReceipt] = useState(false);
-  const [lastReceipt, setLastReceipt] = useState<string>('');
+  const [lastRecords, setLastRecords] = useState<FeeRecord[]>([]);
+  const [overrideLateFee, setOverrideLateFee] = useState(false);
+  const [lateFeeOverride, setLateFeeOverride] = useState('');
+  const [lateFeeReason, setLateFeeReason] = useState('');
+  const [amountReceived, setAmountReceived] = useState('');
+
+  const isAdmin = getCurrentUser()?.role === 'admin';
 
   const students = getStudents().filter(s => s.status === 'active');
   const classes = getClasses();
@@ -49,6 +70,14 @@ export function CollectFee({ onNavigate: _onNavigate }: CollectFeeProps) {
     setSelectedStudent(student);
     setSearchTerm('');
     setSelectedMonths([]);
+    setAmountReceived('');
+    resetLateFeeOverride();
+  };
+
+  const resetLateFeeOverride = () => {
+    setOverrideLateFee(false);
+    setLateFeeOverride('');
+    setLateFeeReason('');
   };
 
   const handleMonthToggle = (month: number) => {
@@ -59,11 +88,67 @@ export function CollectFee({ onNavigate: _onNavigate }: CollectFeeProps) {
     );
   };
 
-  const totalMonthlyFee = selectedStudent 
-    ? selectedStudent.monthlyFee + (selectedStudent.transportOpted ? selectedStudent.transportFee : 0)
+  const feeContext = getFeeContext();
+  const feeYear = new Date().getFullYear();
+
+  const studentDues = selectedStudent ? getStudentsDues([selectedStudent])[0] : null;
+
+  // Installments are billed with the month they fall due in
+  const installmentPlans = selectedStudent && studentDues
+    ? getStudentInstallmentPlans(selectedStudent.id).map(plan => ({
+        plan,
+        status: getInstallmentStatus(plan, studentDues, getLocalDateString()),
+      }))
+    : [];
+
+  // Fines and one-off charges still owed, with the month each is billed in
+  const pendingCharges = selectedStudent && studentDues
+    ? getStudentAdditionalCharges(selectedStudent.id)
+        .map(charge => ({ charge, ...getChargeStatus(charge, getLiveFeeRecords(), studentDues, getLocalDateString()) }))
+        .filter(c => c.status !== 'paid')
+    : [];
+
+  // Per-head charges for every selected month: the issued invoice, or the
+  // class fee structure with the student's concessions applied
+  const monthCharges = selectedStudent
+    ? selectedMonths.map(month => ({
+        month,
+        items: getMonthBill(selectedStudent, month, feeYear),
+      }))
+    : [];
+
+  const totalMonthlyFee = selectedStudent ? getMonthlyTotal(selectedStudent, feeContext) : 0;
+
+  const summaryLines = selectedMonths.length > 0
+    ? groupLinesByHead(monthCharges.flatMap(m => m.items))
+    : selectedStudent
+      ? resolveStudentFees(selectedStudent, feeContext).filter(line => line.frequency === 'monthly')
+      : [];
+
+  const totalAmount = sumLines(monthCharges.flatMap(m => m.items));
+  const concessionTotal = sumConcessions(monthCharges.flatMap(m => m.items));
+  const sponsoredTotal = sumSponsored(monthCharges.flatMap(m => m.items));
+  const waivedTotal = sumWaived(monthCharges.flatMap(m => m.items));
+
+  // Fine for each selected month if paid today
+  const lateFees = selectedStudent
+    ? selectedMonths.map(month => ({ month, ...getLateFee(selectedStudent, month, feeYear) }))
+    : [];
+  const computedLateFee = lateFees.reduce((sum, fee) => sum + fee.amount, 0);
+  const lateFeeTotal = overrideLateFee ? Number(lateFeeOverride || 0) : computedLateFee;
+
+  // Ledger balance: arrears carried forward, or advance credit from an overpayment
+  const balance = selectedStudent
+    ? getStudentBalance(selectedStudent.id, selectedMonths.map(month => ({ feeMonth: month, feeYear })))
     : 0;
+  const previousDue = Math.max(balance, 0);
+  const advanceCredit = Math.max(-balance, 0);
+  const totalPayable = Math.max(0,
+    totalAmount - concessionTotal - sponsoredTotal - waivedTotal + lateFeeTotal + previousDue - advanceCredit);
 
-  const totalAmount = totalMonthlyFee * selectedMonths.length;
+  // Left empty, the collector is taking exactly what is payable
+  const received = amountReceived === '' ? totalPayable : Number(amountReceived);
+  const balanceAfter = totalAmount - concessionTotal - sponsoredTotal - waivedTotal + lateFeeTotal + balance - received;
 
   const handleCollectFee = async () => {
     if (!selectedStudent || selectedMonths.length === 0) {
@@ -72,42 +157,37 @@ export function CollectFee({ onNavigate: _onNavigate }: CollectFeeProps) {
     }
 
     setLoading(true);
-    await new Promise(resolve => setTimeout(resolve, 1000));
-
-    const currentUser = getCurrentUser();
-    const feeRecords = getFeeRecords();
-    const receiptNumber = generateReceiptNumber();
 
-    selectedMonths.forEach((month, index) => {
-      const record = {
-        id: feeRecords.length + index + 1,
-        receiptNumber: index === 0 ? receiptNumber : `${receiptNumber}-${index + 1}`,
+    try {
+      const records = await collectFees({
         studentId: selectedStudent.id,
-        academicYearId: 1,
-        feeMonth: month,
-        feeYear: new Date().getFullYear(),
-        totalFee: totalMonthlyFee,
-        concessionAmount: 0,
-        lateFee: 0,
-        previousDue: 0,
-        netPayable: totalMonthlyFee,
-        amountPaid: totalMonthlyFee,
-        balanceDue: 0,
-        paymentDate: new Date().toISOString().split('T')[0],
-        paymentMode: paymentMode as 'cash' | 'cheque' | 'upi' | 'card' | 'bank_transfer',
+        months: monthCharges.map(({ month, items }) => ({
+          feeMonth: month,
+          feeYear,
+          amount: sumLines(items),
+          items,
+        })),
+        paymentMode: paymentMode as FeeRecord['paymentMode'],
+        amountReceived: received,
         paymentReference,
-        status: 'paid' as const,
+        chequeNumber,
+        bankName,
+        chequeDate,
         remarks,
-        collectedBy: currentUser?.id || 1,
-        createdAt: new Date().toISOString(),
-      };
-      saveFeeRecord(record);
-    });
-
-    setLastReceipt(receiptNumber);
-    setShowReceipt(true);
-    setLoading(false);
-    showToast('success', `Fee collected successfully! Receipt: ${receiptNumber}`);
+        lateFeeOverride: overrideLateFee
+          ? { amount: Number(lateFeeOverride || 0), reason: lateFeeReason }
+          : undefined,
+      });
+
+      const receiptNumber = records[0].receiptNumber;
+      setLastRecords(records);
+      setShowReceipt(true);
+      showToast('success', `Fee collected successfully! Receipt: ${receiptNumber}`);
+    } catch (error) {
+      showToast('error', error instanceof Error ? error.message : 'Failed to collect fee');
+    } finally {
+      setLoading(false);
+    }
   };
 
   const handleNewCollection = () => {
@@ -115,7 +195,12 @@ export function CollectFee({ onNavigate: _onNavigate }: CollectFeeProps) {
     setSelectedMonths([]);
     setPaymentMode('cash');
     setPaymentReference('');
+    setChequeNumber('');
+    setBankName('');
+    setChequeDate('');
     setRemarks('');
+    setAmountReceived('');
+    resetLateFeeOverride();
     setShowReceipt(false);
   };
 
@@ -128,7 +213,7 @@ export function CollectFee({ onNavigate: _onNavigate }: CollectFeeProps) {
               <Receipt className="w-8 h-8 text-emerald-600" />
             </div>
             <h2 className="text-2xl font-bold text-gray-900">Payment Successful!</h2>
-            <p className="text-gray-600 mt-1">Receipt Number: <span className="font-semibold">{lastReceipt}</span></p>
+            <p className="text-gray-600 mt-1">Receipt Number: <span className="font-semibold">{lastRecords[0]?.receiptNumber}</span></p>
           </div>
 
           <div className="bg-gray-50 rounded-lg p-6 mb-6">
@@ -149,9 +234,57 @@ export function CollectFee({ onNavigate: _onNavigate }: CollectFeeProps) {
                 <p className="text-gray-500">Payment Mode</p>
                 <p className="font-medium capitalize">{paymentMode}</p>
               </div>
+              <div className="col-span-2 space-y-1">
+                {summaryLines.map(line => (
+                  <div key={`${line.feeHeadId}-${line.headName}`} className="flex justify-between">
+                    <span className="text-gray-600">{line.headName}</span>
+                    <span className="font-medium">Rs. {line.amount.toLocaleString()}</span>
+                  </div>
+                ))}
+                {lastRecords.some(r => r.concessionAmount > 0) && (
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Concession</span>
+                    <span className="font-medium text-emerald-600">
+                      - Rs. {lastRecords.reduce((sum, r) => sum + r.concessionAmount, 0).toLocaleString()}
+                    </span>
+                  </div>
+                )}
+                {lastRecords.some(r => (r.sponsoredAmount || 0) > 0) && (
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Paid by Sponsor</span>
+                    <span className="font-medium text-emerald-600">
+                      - Rs. {lastRecords.reduce((sum, r) => sum + (r.sponsoredAmount || 0), 0).toLocaleString()}
+                    </span>
+                  </div>
+                )}
+                {lastRecords.some(r => (r.waivedAmount || 0) > 0) && (
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Waived</span>
+                    <span className="font-medium text-emerald-600">
+                      - Rs. {lastRecords.reduce((sum, r) => sum + (r.waivedAmount || 0), 0).toLocaleString()}
+                    </span>
+                  </div>
+                )}
+                {lastRecords.some(r => r.lateFee > 0) && (
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Late Fee</span>
+                    <span className="font-medium text-red-600">
+                      Rs. {lastRecords.reduce((sum, r) => sum + r.lateFee, 0).toLocaleString()}
+                    </span>
+                  </div>
+                )}
+              </div>
               <div className="col-span-2">
                 <p className="text-gray-500">Total Amount Paid</p>
-                <p className="text-2xl font-bold text-emerald-600">Rs. {totalAmount.toLocaleString()}</p>
+                <p className="text-2xl font-bold text-emerald-600">
+                  Rs. {lastRecords.reduce((sum, r) => sum + r.amountPaid, 0).toLocaleString()}
+                </p>
+                {balance > 0 && (
+                  <p className="text-sm text-amber-600 mt-1">Balance due: Rs. {balance.toLocaleString()}</p>
+                )}
+                {balance < 0 && (
+                  <p className="text-sm text-emerald-600 mt-1">Advance credit: Rs. {(-balance).toLocaleString()}</p>
+                )}
               </div>
             </div>
           </div>
@@ -220,6 +353,14 @@ export function CollectFee({ onNavigate: _onNavigate }: CollectFeeProps) {
                         {selectedStudent.firstName} {selectedStudent.lastName}
                       </h3>
                       <p className="text-gray-500">{selectedStudent.studentId}</p>
+                      {(() => {
+                        const bed = getStudentBedAllocation(selectedStudent.id);
+                        return bed && (
+                          <Badge variant="info">
+                            Boarder • {bed.hostel.hostelCode} room {bed.room.roomNumber}{bed.allocation.messOpted ? ' • mess' : ''}
+                          </Badge>
+                        );
+                      })()}
                     </div>
                   </div>
                   <Button variant="ghost" size="sm" onClick={() => setSelectedStudent(null)}>
@@ -242,28 +383,85 @@ export function CollectFee({ onNavigate: _onNavigate }: CollectFeeProps) {
                   </div>
                   <div>
                     <p className="text-gray-500">Monthly Fee</p>
-                    <p className="font-medium text-emerald-600">Rs. {selectedStudent.monthlyFee.toLocaleString()}</p>
+                    <p className="font-medium text-emerald-600">Rs. {totalMonthlyFee.toLocaleString()}</p>
                   </div>
                 </div>
               </Card>
 
+              {/* Installment Plans */}
+              {installmentPlans.length > 0 && (
+                <Card>
+                  <h3 className="text-lg font-semibold text-gray-900 mb-4">Installment Plans</h3>
+                  <div className="space-y-3">
+                    {installmentPlans.map(({ plan, status }) => (
+                      <div key={plan.id}>
+                        <p className="text-sm font-medium text-gray-700 mb-2">
+                          {plan.headName} <span className="text-gray-400">• {months[plan.feeMonth - 1]} {plan.feeYear}</span>
+                        </p>
+                        <div className="flex flex-wrap gap-2">
+                          {status.map(s => (
+                            <Badge
+                              key={s.installmentNo}
+                              variant={s.status === 'paid' ? 'success' : s.status === 'overdue' ? 'danger' : s.status === 'due' ? 'warning' : 'default'}
+                            >
+                              #{s.installmentNo} {s.dueDate} • Rs. {s.amount.toLocaleString()} • {s.status}
+                            </Badge>
+                          ))}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </Card>
+              )}
+
+              {/* Additional Charges */}
+              {pendingCharges.length > 0 && (
+                <Card>
+                  <h3 className="text-lg font-semibold text-gray-900 mb-4">Additional Charges</h3>
+                  <div className="flex flex-wrap gap-2">
+                    {pendingCharges.map(({ charge, billedIn, outstanding, status }) => (
+                      <Badge key={charge.id} variant={status === 'due' ? 'warning' : 'default'}>
+                        {charge.headName} • Rs. {outstanding.toLocaleString()} • due {charge.dueDate}
+                        {billedIn ? ` • with ${months[billedIn.feeMonth - 1].slice(0, 3)} ${billedIn.feeYear}` : ' • billed'}
+                      </Badge>
+                    ))}
+                  </div>
+                </Card>
+              )}
+
               {/* Month Selection */}
               <Card>
                 <h3 className="text-lg font-semibold text-gray-900 mb-4">Select Months to Pay</h3>
                 <div className="grid grid-cols-3 md:grid-cols-4 lg:grid-cols-6 gap-3">
-                  {months.map((month, index) => (
-                    <button
-                      key={month}
-                      onClick={() => handleMonthToggle(index + 1)}
-                      className={`p-3 rounded-lg border-2 text-sm font-medium transition-all ${
-                        selectedMonths.includes(index + 1)
-                          ? 'border-blue-600 bg-blue-50 text-blue-700'
-                          : 'border-gray-200 hover:border-gray-300 text-gray-600'
-                      }`}
-                    >
-                      {month.slice(0, 3)}
-                    </button>
-                  ))}
+                  {months.map((month, index) => {
+                    const invoice = getOpenInvoice(selectedStudent.id, index + 1, feeYear);
+                    // Quarterly, annual and one-time heads scheduled for this month
+                    const extras = getMonthBill(selectedStudent, index + 1, feeYear)
+                      .filter(line => line.frequency !== 'monthly')
+                      .map(line => line.headName);
+                    return (
+                      <button
+                        key={month}
+                        onClick={() => handleMonthToggle(index + 1)}
+                        title={[
+                          invoice ? `Invoice ${invoice.invoiceNumber}` : '',
+                          extras.length > 0 ? `Also due: ${extras.join(', ')}` : '',
+                        ].filter(Boolean).join('\n') || undefined}
+                        className={`p-3 rounded-lg border-2 text-sm font-medium transition-all ${
+                          selectedMonths.includes(index + 1)
+                            ? 'border-blue-600 bg-blue-50 text-blue-700'
+                            : invoice
+                              ? 'border-amber-300 bg-amber-50 text-amber-700'
+                              : 'border-gray-200 hover:border-gray-300 text-gray-600'
+                        }`}
+                      >
+                        {month.slice(0, 3)}
+                        {extras.length > 0 && (
+                          <span className="block text-[10px] font-normal truncate opacity-75">+ {extras.join(', ')}</span>
+                        )}
+                      </button>
+                    );
+                  })}
                 </div>
                 {selectedMonths.length > 0 && (
                   <p className="mt-4 text-sm text-gray-600">
@@ -284,6 +482,7 @@ export function CollectFee({ onNavigate: _onNavigate }: CollectFeeProps) {
                         { id: 'upi', label: 'UPI', icon: Smartphone },
                         { id: 'card', label: 'Card', icon: CreditCard },
                         { id: 'bank_transfer', label: 'Bank', icon: Building2 },
+                        { id: 'cheque', label: 'Cheque', icon: FileCheck },
                       ].map(mode => (
                         <button
                           key={mode.id}
@@ -301,12 +500,33 @@ export function CollectFee({ onNavigate: _onNavigate }: CollectFeeProps) {
                     </div>
                   </div>
                   <div>
-                    <Input
-                      label="Reference / Transaction ID"
-                      placeholder="Enter reference number"
-                      value={paymentReference}
-                      onChange={(e) => setPaymentReference(e.target.value)}
-                    />
+                    {paymentMode === 'cheque' ? (
+                      <div className="space-y-3">
+                        <Input
+                          label="Cheque Number *"
+                          value={chequeNumber}
+                          onChange={(e) => setChequeNumber(e.target.value)}
+                        />
+                        <Input
+                          label="Bank Name *"
+                          value={bankName}
+                          onChange={(e) => setBankName(e.target.value)}
+                        />
+                        <Input
+                          label="Cheque Date"
+                          type="date"
+                          value={chequeDate}
+                          onChange={(e) => setChequeDate(e.target.value)}
+                        />
+                      </div>
+                    ) : (
+                      <Input
+                        label="Reference / Transaction ID"
+                        placeholder="Enter reference number"
+                        value={paymentReference}
+                        onChange={(e) => setPaymentReference(e.target.value)}
+                      />
+                    )}
                   </div>
                 </div>
                 <Textarea
@@ -329,16 +549,17 @@ export function CollectFee({ onNavigate: _onNavigate }: CollectFeeProps) {
             {selectedStudent ? (
               <div className="space-y-4">
                 <div className="space-y-3 text-sm">
-                  <div className="flex justify-between">
-                    <span className="text-gray-600">Tuition Fee</span>
-                    <span className="font-medium">Rs. {selectedStudent.monthlyFee.toLocaleString()}</span>
-                  </div>
-                  {selectedStudent.transportOpted && (
-                    <div className="flex justify-between">
-                      <span className="text-gray-600">Transport Fee</span>
-                      <span className="font-medium">Rs. {selectedStudent.transportFee.toLocaleString()}</span>
+                  {summaryLines.map(line => (
+                    <div key={`${line.feeHeadId}-${line.headName}`} className="flex justify-between">
+                      <span className="text-gray-600">
+                        {line.headName}
+                        {line.frequency !== 'monthly' && (
+                          <span className="ml-1 text-xs text-gray-400">({line.frequency})</span>
+                        )}
+                      </span>
+                      <span className="font-medium">Rs. {line.amount.toLocaleString()}</span>
                     </div>
-                  )}
+                  ))}
                   <div className="flex justify-between border-t pt-2">
                     <span className="font-medium text-gray-700">Monthly Total</span>
                     <span className="font-semibold">Rs. {totalMonthlyFee.toLocaleString()}</span>
@@ -350,12 +571,110 @@ export function CollectFee({ onNavigate: _onNavigate }: CollectFeeProps) {
                     <span className="text-gray-600">Months Selected</span>
                     <Badge variant="info">{selectedMonths.length}</Badge>
                   </div>
+                  <div className="flex justify-between items-center mb-2 text-sm">
+                    <span className="text-gray-600">Fee Charges</span>
+                    <span className="font-medium">Rs. {totalAmount.toLocaleString()}</span>
+                  </div>
+                  {concessionTotal > 0 && (
+                    <div className="flex justify-between items-center mb-2 text-sm">
+                      <span className="text-gray-600">Concession</span>
+                      <span className="font-medium text-emerald-600">- Rs. {concessionTotal.toLocaleString()}</span>
+                    </div>
+                  )}
+                  {sponsoredTotal > 0 && (
+                    <div className="flex justify-between items-center mb-2 text-sm">
+                      <span className="text-gray-600">Paid by Sponsor</span>
+                      <span className="font-medium text-emerald-600">- Rs. {sponsoredTotal.toLocaleString()}</span>
+                    </div>
+                  )}
+                  {waivedTotal > 0 && (
+                    <div className="flex justify-between items-center mb-2 text-sm">
+                      <span className="text-gray-600">Waived</span>
+                      <span className="font-medium text-emerald-600">- Rs. {waivedTotal.toLocaleString()}</span>
+                    </div>
+                  )}
+                  {(computedLateFee > 0 || overrideLateFee) && (
+                    <div className="mb-2 text-sm">
+                      <div className="flex justify-between items-center">
+                        <span className="text-gray-600">Late Fee</span>
+                        <span className="font-medium text-red-600">Rs. {lateFeeTotal.toLocaleString()}</span>
+                      </div>
+                      {lateFees.filter(fee => fee.amount > 0).map(fee => (
+                        <p key={fee.month} className="text-xs text-gray-400">
+                          {months[fee.month - 1]}: due {fee.dueDate}, {fee.chargeableDays} day{fee.chargeableDays === 1 ? '' : 's'} late
+                        </p>
+                      ))}
+                    </div>
+                  )}
+                  {isAdmin && computedLateFee > 0 && (
+                    <div className="mb-2">
+                      {overrideLateFee ? (
+                        <div className="space-y-2">
+                          <Input
+                            label="Late Fee to Charge"
+                            type="number"
+                            min="0"
+                            value={lateFeeOverride}
+                            onChange={(e) => setLateFeeOverride(e.target.value)}
+                          />
+                          <Input
+                            label="Reason *"
+                            placeholder="Why is the late fee changed?"
+                            value={lateFeeReason}
+                            onChange={(e) => setLateFeeReason(e.target.value)}
+                          />
+                          <button
+                            onClick={resetLateFeeOverride}
+                            className="text-xs text-gray-500 hover:text-gray-700"
+                          >
+                            Use computed late fee
+                          </button>
+                        </div>
+                      ) : (
+                        <button
+                          onClick={() => { setOverrideLateFee(true); setLateFeeOverride(String(computedLateFee)); }}
+                          className="text-xs text-blue-600 hover:text-blue-700"
+                        >
+                          Override late fee
+                        </button>
+                      )}
+                    </div>
+                  )}
+                  {previousDue > 0 && (
+                    <div className="flex justify-between items-center mb-2 text-sm">
+                      <span className="text-gray-600">Previous Due</span>
+                      <span className="font-medium text-red-600">Rs. {previousDue.toLocaleString()}</span>
+                    </div>
+                  )}
+                  {advanceCredit > 0 && (
+                    <div className="flex justify-between items-center mb-2 text-sm">
+                      <span className="text-gray-600">Advance Credit</span>
+                      <span className="font-medium text-emerald-600">- Rs. {advanceCredit.toLocaleString()}</span>
+                    </div>
+                  )}
                   <div className="flex justify-between items-center">
                     <span className="text-lg font-semibold text-gray-900">Total Payable</span>
-                    <span className="text-2xl font-bold text-blue-600">Rs. {totalAmount.toLocaleString()}</span>
+                    <span className="text-2xl font-bold text-blue-600">Rs. {totalPayable.toLocaleString()}</span>
                   </div>
                 </div>
 
+                <div className="border-t pt-4 space-y-2">
+                  <Input
+                    label="Amount Received"
+                    type="number"
+                    min="0"
+                    placeholder={String(totalPayable)}
+                    value={amountReceived}
+                    onChange={(e) => setAmountReceived(e.target.value)}
+                  />
+                  {selectedMonths.length > 0 && balanceAfter > 0 && (
+                    <p className="text-sm text-amber-600">Rs. {balanceAfter.toLocaleString()} will be carried forward as due</p>
+                  )}
+                  {selectedMonths.length > 0 && balanceAfter < 0 && (
+                    <p className="text-sm text-emerald-600">Rs. {(-balanceAfter).toLocaleString()} will be held as advance credit</p>
+                  )}
+                </div>
+
                 <Button 
                   className="w-full" 
                   size="lg"
@@ -0,0 +1,281 @@
+import { useState } from 'react';
+import { Banknote, Lock, Printer, Receipt } from 'lucide-react';
+import { Card, StatCard } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Input, Textarea } from '@/components/ui/Input';
+import { Badge } from '@/components/ui/Badge';
+import { Modal } from '@/components/ui/Modal';
+import { useToast } from '@/components/ui/Toast';
+import {
+  CASH_DENOMINATIONS, getDayCollectors, getDayClosing, getCollectorDayRecords, getExpectedCash, closeDay,
+  getCurrentUser, getLocalDateString, formatCurrency
+} from '@/store';
+import { useStoreQuery, useUsers } from '@/hooks/useStore';
+import { generateDayClosingSheet } from '@/utils/pdfGenerator';
+import { getDocumentKey } from '@/utils/numbering';
+
+const emptyCounts = (): Record<number, string> => {
+  return Object.fromEntries(CASH_DENOMINATIONS.map(value => [value, '']));
+};
+
+export function DayClosing() {
+  const { showToast } = useToast();
+  const [date, setDate] = useState(getLocalDateString());
+  const [collectorId, setCollectorId] = useState<number | null>(null);
+  const [counts, setCounts] = useState<Record<number, string>>(emptyCounts());
+  const [remarks, setRemarks] = useState('');
+  const [showConfirm, setShowConfirm] = useState(false);
+
+  const currentUser = getCurrentUser();
+  const canCloseForOthers = currentUser?.role === 'admin' || currentUser?.role === 'accountant';
+  const { data: users } = useUsers();
+
+  // Collectors close their own day; administrators and accountants see everyone's
+  const { data: collectorRows } = useStoreQuery(['fee_records', 'day_closings'], async () => {
+    const collectorIds = canCloseForOthers
+      ? Array.from(new Set([...getDayCollectors(date), ...(currentUser ? [currentUser.id] : [])]))
+      : currentUser ? [currentUser.id] : [];
+    return collectorIds.map(id => {
+      const records = getCollectorDayRecords(date, id);
+      return {
+        id,
+        receipts: new Set(records.map(r => getDocumentKey(r.receiptNumber))).size,
+        total: records.reduce((sum, r) => sum + r.amountPaid, 0),
+        expectedCash: getExpectedCash(date, id),
+        closing: getDayClosing(date, id),
+      };
+    });
+  }, [], [date, canCloseForOthers, currentUser?.id]);
+  const rows = collectorRows.map(row => ({ ...row, name: users.find(u => u.id === row.id)?.fullName || `User #${row.id}` }));
+
+  const selected = rows.find(r => r.id === collectorId && !r.closing);
+  const denominations = CASH_DENOMINATIONS.map(value => ({ value, count: Number(counts[value]) || 0 }));
+  const declaredCash = denominations.reduce((sum, d) => sum + d.value * d.count, 0);
+  const difference = selected ? declaredCash - selected.expectedCash : 0;
+  const openRows = rows.filter(r => !r.closing);
+
+  const resetForm = () => {
+    setCollectorId(null);
+    setCounts(emptyCounts());
+    setRemarks('');
+  };
+
+  const handleDateChange = (value: string) => {
+    setDate(value);
+    resetForm();
+  };
+
+  const handleClose = () => {
+    if (!selected) return;
+
+    try {
+      closeDay(date, selected.id, denominations, remarks);
+      showToast('success', `${date} closed for ${selected.name}`);
+      setShowConfirm(false);
+      resetForm();
+    } catch (error) {
+      setShowConfirm(false);
+      showToast('error', error instanceof Error ? error.message : 'Failed to close the day');
+    }
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      {/* Summary Cards */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <StatCard
+          title="Receipts"
+          value={rows.reduce((sum, r) => sum + r.receipts, 0).toString()}
+          icon={<Receipt className="w-6 h-6 text-blue-600" />}
+          iconBg="bg-blue-100"
+        />
+        <StatCard
+          title="Cash Expected"
+          value={formatCurrency(rows.reduce((sum, r) => sum + r.expectedCash, 0))}
+          icon={<Banknote className="w-6 h-6 text-green-600" />}
+          iconBg="bg-green-100"
+        />
+        <StatCard
+          title="Collectors Open"
+          value={`${openRows.length} of ${rows.length}`}
+          icon={<Lock className="w-6 h-6 text-amber-600" />}
+          iconBg="bg-amber-100"
+        />
+      </div>
+
+      {/* Collectors */}
+      <Card>
+        <div className="flex items-end gap-4 mb-4">
+          <div className="w-48">
+            <Input
+              label="Date"
+              type="date"
+              value={date}
+              max={getLocalDateString()}
+              onChange={(e) => handleDateChange(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="text-left py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Collector</th>
+                <th className="text-right py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Receipts</th>
+                <th className="text-right py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Collected</th>
+                <th className="text-right py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Cash Expected</th>
+                <th className="text-right py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Cash Declared</th>
+                <th className="text-left py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Status</th>
+                <th className="text-right py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {rows.map(row => (
+                <tr key={row.id} className={`hover:bg-gray-50 ${row.id === collectorId ? 'bg-blue-50' : ''}`}>
+                  <td className="py-3 px-4 text-sm font-medium text-gray-900">{row.name}</td>
+                  <td className="py-3 px-4 text-right text-sm text-gray-600">{row.receipts}</td>
+                  <td className="py-3 px-4 text-right text-sm text-gray-600">{formatCurrency(row.total)}</td>
+                  <td className="py-3 px-4 text-right font-semibold text-gray-900">{formatCurrency(row.expectedCash)}</td>
+                  <td className="py-3 px-4 text-right text-sm text-gray-900">
+                    {row.closing ? formatCurrency(row.closing.declaredCash) : '-'}
+                    {row.closing && row.closing.difference !== 0 && (
+                      <span className={`block text-xs ${row.closing.difference < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                        {row.closing.difference < 0 ? 'Short' : 'Excess'} {formatCurrency(Math.abs(row.closing.difference))}
+                      </span>
+                    )}
+                  </td>
+                  <td className="py-3 px-4">
+                    <Badge variant={row.closing ? 'success' : 'warning'}>
+                      {row.closing ? 'CLOSED' : 'OPEN'}
+                    </Badge>
+                  </td>
+                  <td className="py-3 px-4 text-right">
+                    {row.closing ? (
+                      <Button
+                        size="sm"
+                        variant="secondary"
+                        icon={<Printer className="w-4 h-4" />}
+                        onClick={() => row.closing && generateDayClosingSheet(row.closing)}
+                      >
+                        Closing Sheet
+                      </Button>
+                    ) : (
+                      <Button size="sm" onClick={() => setCollectorId(row.id)}>
+                        Count Cash
+                      </Button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+              {rows.length === 0 && (
+                <tr>
+                  <td colSpan={7} className="py-12 text-center text-gray-500">
+                    No collections on this date
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </Card>
+
+      {/* Denomination Count */}
+      {selected && (
+        <Card>
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">
+            Cash Count - {selected.name}
+          </h3>
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <table className="w-full">
+              <thead className="bg-gray-50 border-b border-gray-200">
+                <tr>
+                  <th className="text-left py-2 px-4 text-xs font-semibold text-gray-600 uppercase">Denomination</th>
+                  <th className="text-left py-2 px-4 text-xs font-semibold text-gray-600 uppercase">Count</th>
+                  <th className="text-right py-2 px-4 text-xs font-semibold text-gray-600 uppercase">Amount</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {denominations.map(d => (
+                  <tr key={d.value}>
+                    <td className="py-2 px-4 text-sm font-medium text-gray-900">Rs. {d.value.toLocaleString()}</td>
+                    <td className="py-2 px-4 w-32">
+                      <input
+                        type="number"
+                        min="0"
+                        step="1"
+                        value={counts[d.value]}
+                        onChange={(e) => setCounts(prev => ({ ...prev, [d.value]: e.target.value }))}
+                        className="w-full px-2 py-1 border border-gray-300 rounded-lg text-sm"
+                      />
+                    </td>
+                    <td className="py-2 px-4 text-right text-sm text-gray-900">{formatCurrency(d.value * d.count)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            <div className="space-y-4">
+              <div className="bg-gray-50 rounded-lg p-4 space-y-2">
+                <div className="flex justify-between text-sm">
+                  <span className="text-gray-600">Cash Expected</span>
+                  <span className="font-semibold text-gray-900">{formatCurrency(selected.expectedCash)}</span>
+                </div>
+                <div className="flex justify-between text-sm">
+                  <span className="text-gray-600">Cash Declared</span>
+                  <span className="font-semibold text-gray-900">{formatCurrency(declaredCash)}</span>
+                </div>
+                <div className={`flex justify-between text-sm font-bold pt-2 border-t border-gray-200 ${
+                  difference < 0 ? 'text-red-600' : difference > 0 ? 'text-green-600' : 'text-gray-900'
+                }`}>
+                  <span>{difference < 0 ? 'Shortage' : difference > 0 ? 'Excess' : 'Difference'}</span>
+                  <span>{formatCurrency(Math.abs(difference))}</span>
+                </div>
+              </div>
+              <Textarea
+                label={difference !== 0 ? 'Remarks (explain the difference)' : 'Remarks'}
+                value={remarks}
+                onChange={(e) => setRemarks(e.target.value)}
+                rows={3}
+              />
+              <div className="flex gap-3">
+                <Button className="flex-1" icon={<Lock className="w-4 h-4" />} onClick={() => setShowConfirm(true)}>
+                  Close Day
+                </Button>
+                <Button variant="secondary" className="flex-1" onClick={resetForm}>
+                  Cancel
+                </Button>
+              </div>
+            </div>
+          </div>
+        </Card>
+      )}
+
+      {/* Confirm Modal */}
+      <Modal
+        isOpen={showConfirm}
+        onClose={() => setShowConfirm(false)}
+        title="Close Day"
+        size="sm"
+      >
+        {selected && (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600">
+              Close {date} for <strong>{selected.name}</strong> with {formatCurrency(declaredCash)} declared
+              {difference !== 0 && <> ({difference < 0 ? 'short' : 'excess'} {formatCurrency(Math.abs(difference))})</>}?
+              No cash receipts can be recorded or cancelled in their name for this date afterwards.
+            </p>
+            <div className="flex gap-3 pt-2">
+              <Button className="flex-1" onClick={handleClose}>
+                Close Day
+              </Button>
+              <Button variant="secondary" className="flex-1" onClick={() => setShowConfirm(false)}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        )}
+      </Modal>
+    </div>
+  );
+}
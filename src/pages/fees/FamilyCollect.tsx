@@ -0,0 +1,464 @@
+import { useState } from 'react';
+import { Search, Receipt, Users, FileText, Banknote, Smartphone, FileCheck, CreditCard, Building2 } from 'lucide-react';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Input, Textarea } from '@/components/ui/Input';
+import { Badge } from '@/components/ui/Badge';
+import { useToast } from '@/components/ui/Toast';
+import {
+  getFamilyMembers, getFeeRecords, getLateFee, getStudentBalance, getMonthBill, collectFamilyFees
+} from '@/store';
+import { DUES_KEYS, useClasses, useFamilies, useStoreQuery, useStudents } from '@/hooks/useStore';
+import { sumLines } from '@/utils/feeCalculator';
+import { sumConcessions } from '@/utils/concessions';
+import { sumSponsored } from '@/utils/scholarships';
+import { sumWaived } from '@/utils/waivers';
+import { generateFamilyStatement } from '@/utils/pdfGenerator';
+import type { Family, FeeRecord } from '@/types';
+
+const months = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December'
+];
+
+export function FamilyCollect() {
+  const { showToast } = useToast();
+  const [searchTerm, setSearchTerm] = useState('');
+  const [selectedFamily, setSelectedFamily] = useState<Family | null>(null);
+  const [selectedMonths, setSelectedMonths] = useState<Record<number, number[]>>({});
+  const [paymentMode, setPaymentMode] = useState('cash');
+  const [paymentReference, setPaymentReference] = useState('');
+  const [chequeNumber, setChequeNumber] = useState('');
+  const [bankName, setBankName] = useState('');
+  const [chequeDate, setChequeDate] = useState('');
+  const [remarks, setRemarks] = useState('');
+  const [amountReceived, setAmountReceived] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [lastRecords, setLastRecords] = useState<FeeRecord[]>([]);
+
+  const { data: classes } = useClasses();
+  const { data: families } = useFamilies();
+  const { data: students } = useStudents();
+  const membersOf = (familyId: number) => students.filter(s => s.familyId === familyId);
+
+  const term = searchTerm.toLowerCase();
+  const filteredFamilies = searchTerm.length >= 2
+    ? families.filter(f =>
+        f.familyName.toLowerCase().includes(term) ||
+        f.familyCode.toLowerCase().includes(term) ||
+        f.primaryPhone?.includes(searchTerm) ||
+        membersOf(f.id).some(s =>
+          s.firstName.toLowerCase().includes(term) || s.studentId.toLowerCase().includes(term)
+        )
+      )
+    : [];
+
+  const getClassName = (classId: number) => {
+    return classes.find(c => c.id === classId)?.className || 'N/A';
+  };
+
+  const handleSelectFamily = (family: Family) => {
+    setSelectedFamily(family);
+    setSearchTerm('');
+    setSelectedMonths({});
+    setAmountReceived('');
+  };
+
+  const handleMonthToggle = (studentId: number, month: number) => {
+    setSelectedMonths(prev => {
+      const current = prev[studentId] || [];
+      return {
+        ...prev,
+        [studentId]: current.includes(month)
+          ? current.filter(m => m !== month)
+          : [...current, month].sort((a, b) => a - b),
+      };
+    });
+  };
+
+  const feeYear = new Date().getFullYear();
+
+  // Each child is billed exactly as on the single-student screen; arrears
+  // and credit only come in for children with at least one month selected
+  const { data: children } = useStoreQuery([...DUES_KEYS, 'late_fee_settings'], async () => selectedFamily
+    ? membersOf(selectedFamily.id)
+        .filter(s => s.status === 'active')
+        .map(student => {
+          const childMonths = selectedMonths[student.id] || [];
+          const charges = childMonths.map(month => ({
+            month,
+            items: getMonthBill(student, month, feeYear),
+          }));
+          const items = charges.flatMap(c => c.items);
+          const lateFee = childMonths.reduce((sum, month) => sum + getLateFee(student, month, feeYear).amount, 0);
+          const balance = getStudentBalance(student.id, childMonths.map(month => ({ feeMonth: month, feeYear })));
+          const net = sumLines(items) - sumConcessions(items) - sumSponsored(items) - sumWaived(items) + lateFee;
+          return {
+            student,
+            months: childMonths,
+            charges,
+            feeTotal: sumLines(items),
+            concession: sumConcessions(items),
+            sponsored: sumSponsored(items),
+            waived: sumWaived(items),
+            lateFee,
+            balance,
+            payable: childMonths.length > 0 ? Math.max(0, net + balance) : 0,
+          };
+        })
+    : [], [], [selectedFamily?.id, selectedMonths, students]);
+
+  const billed = children.filter(c => c.months.length > 0);
+  const totalPayable = billed.reduce((sum, c) => sum + c.payable, 0);
+  const received = amountReceived === '' ? totalPayable : Number(amountReceived);
+
+  const handleCollect = async () => {
+    if (!selectedFamily || billed.length === 0) {
+      showToast('error', 'Please select at least one month for a child');
+      return;
+    }
+
+    setLoading(true);
+
+    try {
+      const records = await collectFamilyFees({
+        familyId: selectedFamily.id,
+        students: billed.map(c => ({
+          studentId: c.student.id,
+          months: c.charges.map(({ month, items }) => ({
+            feeMonth: month,
+            feeYear,
+            amount: sumLines(items),
+            items,
+          })),
+        })),
+        paymentMode: paymentMode as FeeRecord['paymentMode'],
+        amountReceived: received,
+        paymentReference,
+        chequeNumber,
+        bankName,
+        chequeDate,
+        remarks,
+      });
+
+      setLastRecords(records);
+      showToast('success', `Family fee collected! Receipt: ${records[0].receiptNumber}`);
+    } catch (error) {
+      showToast('error', error instanceof Error ? error.message : 'Failed to collect fee');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleStatement = () => {
+    if (!selectedFamily) return;
+    generateFamilyStatement(selectedFamily, getFamilyMembers(selectedFamily.id), getFeeRecords());
+  };
+
+  const handleNewCollection = () => {
+    setSelectedFamily(null);
+    setSelectedMonths({});
+    setPaymentMode('cash');
+    setPaymentReference('');
+    setChequeNumber('');
+    setBankName('');
+    setChequeDate('');
+    setRemarks('');
+    setAmountReceived('');
+    setLastRecords([]);
+  };
+
+  if (lastRecords.length > 0 && selectedFamily) {
+    return (
+      <div className="p-6">
+        <Card className="max-w-2xl mx-auto">
+          <div className="text-center mb-6">
+            <div className="w-16 h-16 bg-emerald-100 rounded-full flex items-center justify-center mx-auto mb-4">
+              <Receipt className="w-8 h-8 text-emerald-600" />
+            </div>
+            <h2 className="text-2xl font-bold text-gray-900">Payment Successful!</h2>
+            <p className="text-gray-600 mt-1">Receipt Number: <span className="font-semibold">{lastRecords[0].receiptNumber}</span></p>
+          </div>
+
+          <div className="bg-gray-50 rounded-lg p-6 mb-6 space-y-3 text-sm">
+            <div className="flex justify-between">
+              <span className="text-gray-500">Family</span>
+              <span className="font-medium">{selectedFamily.familyName} ({selectedFamily.familyCode})</span>
+            </div>
+            {billed.map(c => (
+              <div key={c.student.id} className="flex justify-between">
+                <span className="text-gray-600">
+                  {c.student.firstName} • {c.months.map(m => months[m - 1].slice(0, 3)).join(', ')}
+                </span>
+                <span className="font-medium">
+                  Rs. {lastRecords.filter(r => r.studentId === c.student.id).reduce((sum, r) => sum + r.amountPaid, 0).toLocaleString()}
+                </span>
+              </div>
+            ))}
+            <div className="border-t pt-3">
+              <p className="text-gray-500">Total Amount Paid</p>
+              <p className="text-2xl font-bold text-emerald-600">
+                Rs. {lastRecords.reduce((sum, r) => sum + r.amountPaid, 0).toLocaleString()}
+              </p>
+            </div>
+          </div>
+
+          <div className="flex gap-3">
+            <Button variant="secondary" className="flex-1" onClick={() => window.print()}>
+              Print Receipt
+            </Button>
+            <Button variant="secondary" className="flex-1" onClick={handleStatement}>
+              Family Statement
+            </Button>
+            <Button className="flex-1" onClick={handleNewCollection}>
+              Collect Another Fee
+            </Button>
+          </div>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Left Panel - Family & Children */}
+        <div className="lg:col-span-2 space-y-6">
+          <Card>
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">Search Family</h3>
+            <div className="relative">
+              <Input
+                placeholder="Search by family name, code, phone or child's name..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                icon={<Search className="w-5 h-5" />}
+              />
+              {filteredFamilies.length > 0 && (
+                <div className="absolute z-10 w-full mt-2 bg-white border border-gray-200 rounded-lg shadow-lg max-h-64 overflow-y-auto">
+                  {filteredFamilies.map(family => (
+                    <button
+                      key={family.id}
+                      onClick={() => handleSelectFamily(family)}
+                      className="w-full flex items-center gap-3 p-3 hover:bg-gray-50 transition-colors text-left"
+                    >
+                      <div className="w-10 h-10 bg-purple-100 rounded-full flex items-center justify-center text-purple-600">
+                        <Users className="w-5 h-5" />
+                      </div>
+                      <div>
+                        <p className="font-medium text-gray-900">{family.familyName}</p>
+                        <p className="text-xs text-gray-500">
+                          {family.familyCode} • {membersOf(family.id).map(s => s.firstName).join(', ')}
+                        </p>
+                      </div>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          </Card>
+
+          {selectedFamily && (
+            <>
+              <Card>
+                <div className="flex items-start justify-between">
+                  <div>
+                    <h3 className="text-lg font-semibold text-gray-900">{selectedFamily.familyName}</h3>
+                    <p className="text-gray-500">{selectedFamily.familyCode} • {selectedFamily.primaryPhone || 'No phone'}</p>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button variant="secondary" size="sm" icon={<FileText className="w-4 h-4" />} onClick={handleStatement}>
+                      Statement
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => setSelectedFamily(null)}>
+                      Change Family
+                    </Button>
+                  </div>
+                </div>
+              </Card>
+
+              {children.map(child => (
+                <Card key={child.student.id}>
+                  <div className="flex items-center justify-between mb-4">
+                    <div>
+                      <h3 className="font-semibold text-gray-900">
+                        {child.student.firstName} {child.student.lastName}
+                      </h3>
+                      <p className="text-sm text-gray-500">
+                        {child.student.studentId} • {getClassName(child.student.classId)}
+                      </p>
+                    </div>
+                    {child.balance > 0 && <Badge variant="danger">Due Rs. {child.balance.toLocaleString()}</Badge>}
+                    {child.balance < 0 && <Badge variant="success">Credit Rs. {(-child.balance).toLocaleString()}</Badge>}
+                  </div>
+                  <div className="grid grid-cols-4 md:grid-cols-6 lg:grid-cols-12 gap-2">
+                    {months.map((month, index) => (
+                      <button
+                        key={month}
+                        onClick={() => handleMonthToggle(child.student.id, index + 1)}
+                        className={`p-2 rounded-lg border-2 text-xs font-medium transition-all ${
+                          child.months.includes(index + 1)
+                            ? 'border-blue-600 bg-blue-50 text-blue-700'
+                            : 'border-gray-200 hover:border-gray-300 text-gray-600'
+                        }`}
+                      >
+                        {month.slice(0, 3)}
+                      </button>
+                    ))}
+                  </div>
+                </Card>
+              ))}
+              {children.length === 0 && (
+                <Card>
+                  <p className="text-center text-gray-500 py-4">No active students in this family</p>
+                </Card>
+              )}
+
+              <Card>
+                <h3 className="text-lg font-semibold text-gray-900 mb-4">Payment Details</h3>
+                <div className="grid grid-cols-2 gap-4 mb-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Payment Mode</label>
+                    <div className="grid grid-cols-2 gap-2">
+                      {[
+                        { id: 'cash', label: 'Cash', icon: Banknote },
+                        { id: 'upi', label: 'UPI', icon: Smartphone },
+                        { id: 'card', label: 'Card', icon: CreditCard },
+                        { id: 'bank_transfer', label: 'Bank', icon: Building2 },
+                        { id: 'cheque', label: 'Cheque', icon: FileCheck },
+                      ].map(mode => (
+                        <button
+                          key={mode.id}
+                          onClick={() => setPaymentMode(mode.id)}
+                          className={`flex items-center gap-2 p-3 rounded-lg border-2 text-sm font-medium transition-all ${
+                            paymentMode === mode.id
+                              ? 'border-blue-600 bg-blue-50 text-blue-700'
+                              : 'border-gray-200 hover:border-gray-300 text-gray-600'
+                          }`}
+                        >
+                          <mode.icon className="w-4 h-4" />
+                          {mode.label}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                  <div>
+                    {paymentMode === 'cheque' ? (
+                      <div className="space-y-3">
+                        <Input
+                          label="Cheque Number *"
+                          value={chequeNumber}
+                          onChange={(e) => setChequeNumber(e.target.value)}
+                        />
+                        <Input
+                          label="Bank Name *"
+                          value={bankName}
+                          onChange={(e) => setBankName(e.target.value)}
+                        />
+                        <Input
+                          label="Cheque Date"
+                          type="date"
+                          value={chequeDate}
+                          onChange={(e) => setChequeDate(e.target.value)}
+                        />
+                      </div>
+                    ) : (
+                      <Input
+                        label="Reference / Transaction ID"
+                        placeholder="Enter reference number"
+                        value={paymentReference}
+                        onChange={(e) => setPaymentReference(e.target.value)}
+                      />
+                    )}
+                  </div>
+                </div>
+                <Textarea
+                  label="Remarks (Optional)"
+                  placeholder="Any additional notes..."
+                  value={remarks}
+                  onChange={(e) => setRemarks(e.target.value)}
+                  rows={2}
+                />
+              </Card>
+            </>
+          )}
+        </div>
+
+        {/* Right Panel - Family Summary */}
+        <div>
+          <Card className="sticky top-6">
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">Family Summary</h3>
+
+            {selectedFamily ? (
+              <div className="space-y-4">
+                <div className="space-y-3 text-sm">
+                  {billed.map(c => (
+                    <div key={c.student.id}>
+                      <div className="flex justify-between">
+                        <span className="font-medium text-gray-700">{c.student.firstName}</span>
+                        <span className="font-semibold">Rs. {c.payable.toLocaleString()}</span>
+                      </div>
+                      <p className="text-xs text-gray-400">
+                        Fees Rs. {c.feeTotal.toLocaleString()}
+                        {c.concession > 0 && ` • Concession - Rs. ${c.concession.toLocaleString()}`}
+                        {c.sponsored > 0 && ` • Sponsor - Rs. ${c.sponsored.toLocaleString()}`}
+                        {c.waived > 0 && ` • Waived - Rs. ${c.waived.toLocaleString()}`}
+                        {c.lateFee > 0 && ` • Late Fee Rs. ${c.lateFee.toLocaleString()}`}
+                        {c.balance > 0 && ` • Previous Due Rs. ${c.balance.toLocaleString()}`}
+                        {c.balance < 0 && ` • Credit - Rs. ${(-c.balance).toLocaleString()}`}
+                      </p>
+                    </div>
+                  ))}
+                  {billed.length === 0 && (
+                    <p className="text-gray-500">Select months for one or more children</p>
+                  )}
+                </div>
+
+                <div className="border-t pt-4 flex justify-between items-center">
+                  <span className="text-lg font-semibold text-gray-900">Total Payable</span>
+                  <span className="text-2xl font-bold text-blue-600">Rs. {totalPayable.toLocaleString()}</span>
+                </div>
+
+                <div className="border-t pt-4 space-y-2">
+                  <Input
+                    label="Amount Received"
+                    type="number"
+                    min="0"
+                    placeholder={String(totalPayable)}
+                    value={amountReceived}
+                    onChange={(e) => setAmountReceived(e.target.value)}
+                  />
+                  {billed.length > 0 && received < totalPayable && (
+                    <p className="text-sm text-amber-600">
+                      Rs. {(totalPayable - received).toLocaleString()} will be carried forward as due
+                    </p>
+                  )}
+                  {billed.length > 0 && received > totalPayable && (
+                    <p className="text-sm text-emerald-600">
+                      Rs. {(received - totalPayable).toLocaleString()} will be held as advance credit
+                    </p>
+                  )}
+                </div>
+
+                <Button
+                  className="w-full"
+                  size="lg"
+                  onClick={handleCollect}
+                  loading={loading}
+                  disabled={billed.length === 0}
+                  icon={<Receipt className="w-5 h-5" />}
+                >
+                  Collect on One Receipt
+                </Button>
+              </div>
+            ) : (
+              <div className="text-center py-8 text-gray-500">
+                <Users className="w-12 h-12 mx-auto mb-3 text-gray-300" />
+                <p>Search and select a family to collect fees</p>
+              </div>
+            )}
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
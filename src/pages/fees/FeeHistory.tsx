@@ -1,10 +1,13 @@
 import { useState } from 'react';
-import { Search, Download, Calendar, Filter } from 'lucide-react';
+import { Search, Download, Calendar, Filter, Ban } from 'lucide-react';
 import { Card } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
 import { Input, Select } from '@/components/ui/Input';
 import { Badge } from '@/components/ui/Badge';
-import { getFeeRecords, getStudents, getClasses } from '@/store';
+import { CancelReceiptModal } from '@/components/fees/CancelReceiptModal';
+import { getFeeRecords, getStudents, getClasses, getCurrentUser } from '@/store';
+import { getReversedIds } from '@/utils/allocation';
+import type { FeeRecord } from '@/types';
 
 const months = [
   'January', 'February', 'March', 'April', 'May', 'June',
@@ -15,8 +18,13 @@ export function FeeHistory() {
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState('');
   const [paymentModeFilter, setPaymentModeFilter] = useState('');
+  const [cancelRecord, setCancelRecord] = useState<FeeRecord | null>(null);
 
-  const feeRecords = getFeeRecords();
+  const isAdmin = getCurrentUser()?.role === 'admin';
+
+  // Invoices from the billing run show up here once they are paid
+  const feeRecords = getFeeRecords().filter(r => r.status !== 'unpaid');
+  const reversedIds = getReversedIds(feeRecords);
   const students = getStudents();
   const classes = getClasses();
 
@@ -142,6 +150,7 @@ export function FeeHistory() {
                 <th className="text-left py-3 px-4 text-xs font-semibold text-gray-600 uppercase tracking-wider">Mode</th>
                 <th className="text-left py-3 px-4 text-xs font-semibold text-gray-600 uppercase tracking-wider">Status</th>
                 <th className="text-left py-3 px-4 text-xs font-semibold text-gray-600 uppercase tracking-wider">Date</th>
+                {isAdmin && <th className="py-3 px-4"></th>}
               </tr>
             </thead>
             <tbody className="divide-y divide-gray-100">
@@ -161,13 +170,28 @@ export function FeeHistory() {
                   <td className="py-3 px-4">
                     <span className="text-sm text-gray-600 capitalize">{record.paymentMode.replace('_', ' ')}</span>
                   </td>
-                  <td className="py-3 px-4">{getStatusBadge(record.status)}</td>
+                  <td className="py-3 px-4">
+                    {reversedIds.has(record.id) ? <Badge variant="danger">Reversed</Badge> : getStatusBadge(record.status)}
+                  </td>
                   <td className="py-3 px-4 text-sm text-gray-600">{record.paymentDate}</td>
+                  {isAdmin && (
+                    <td className="py-3 px-4 text-right">
+                      {record.status !== 'cancelled' && !reversedIds.has(record.id) && (
+                        <button
+                          onClick={() => setCancelRecord(record)}
+                          className="p-2 text-gray-500 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                          title="Cancel / Refund"
+                        >
+                          <Ban className="w-4 h-4" />
+                        </button>
+                      )}
+                    </td>
+                  )}
                 </tr>
               ))}
               {filteredRecords.length === 0 && (
                 <tr>
-                  <td colSpan={8} className="py-12 text-center text-gray-500">
+                  <td colSpan={isAdmin ? 9 : 8} className="py-12 text-center text-gray-500">
                     <Filter className="w-12 h-12 mx-auto mb-3 text-gray-300" />
                     <p>No fee records found</p>
                   </td>
@@ -177,6 +201,8 @@ export function FeeHistory() {
           </table>
         </div>
       </Card>
+
+      <CancelReceiptModal record={cancelRecord} onClose={() => setCancelRecord(null)} />
     </div>
   );
 }
@@ -0,0 +1,428 @@
+import { useState, useMemo } from 'react';
+import { Search, Plus, Check, X, Clock } from 'lucide-react';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Input, Select, Textarea } from '@/components/ui/Input';
+import { Badge } from '@/components/ui/Badge';
+import { Modal } from '@/components/ui/Modal';
+import { useToast } from '@/components/ui/Toast';
+import {
+  requestFeeWaiver, approveFeeWaiver, rejectFeeWaiver, getCurrentUser, hasOtherAdministrator, formatCurrency
+} from '@/store';
+import { useStudents, useClasses, useUsers, useFeeWaivers, useStudentsDues } from '@/hooks/useStore';
+import { WAIVER_TYPE_LABELS, getWaiverTotal, isSameHead } from '@/utils/waivers';
+import type { FeeWaiver, WaiverLine } from '@/types';
+import type { HeadDue } from '@/utils/dues';
+
+const months = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December'
+];
+
+const headKey = (feeMonth: number, feeYear: number, head: Pick<HeadDue, 'feeHeadId' | 'headName' | 'installmentPlanId' | 'installmentNo' | 'chargeId'>) =>
+  [feeYear, feeMonth, head.feeHeadId, head.headName, head.installmentPlanId, head.installmentNo, head.chargeId].join('|');
+
+const statusVariant: Record<FeeWaiver['status'], 'warning' | 'success' | 'danger'> = {
+  pending: 'warning',
+  approved: 'success',
+  rejected: 'danger',
+};
+
+const emptyForm = () => ({
+  studentId: '',
+  waiverType: 'waiver' as FeeWaiver['waiverType'],
+  reason: '',
+  amounts: {} as Record<string, string>,
+});
+
+export function FeeWaivers() {
+  const { showToast } = useToast();
+  const [search, setSearch] = useState('');
+  const [statusFilter, setStatusFilter] = useState('pending');
+  const [form, setForm] = useState<ReturnType<typeof emptyForm> | null>(null);
+  const [reviewing, setReviewing] = useState<{ waiver: FeeWaiver; action: 'approve' | 'reject' } | null>(null);
+  const [remarks, setRemarks] = useState('');
+
+  const currentUser = getCurrentUser();
+  const canRequest = !!currentUser && currentUser.role !== 'viewer';
+  const isAdmin = currentUser?.role === 'admin';
+  // A sole administrator reviews their own requests
+  const canReview = (waiver: FeeWaiver) => waiver.requestedBy !== currentUser?.id || !hasOtherAdministrator(currentUser?.id);
+
+  const { data: students } = useStudents();
+  const { data: classes } = useClasses();
+  const { data: users } = useUsers();
+  const { data: waivers } = useFeeWaivers();
+  const userName = (userId?: number) => users.find(u => u.id === userId)?.fullName || '-';
+
+  const rows = waivers
+    .filter(waiver => {
+      const student = students.find(s => s.id === waiver.studentId);
+      const term = search.toLowerCase();
+      return (!term || (!!student && (
+        `${student.firstName} ${student.lastName || ''}`.toLowerCase().includes(term) ||
+        student.studentId.toLowerCase().includes(term)))) &&
+        (!statusFilter || waiver.status === statusFilter);
+    })
+    .sort((a, b) => b.requestedAt.localeCompare(a.requestedAt));
+
+  // Heads still owed by the student chosen in the request form
+  const formStudents = useMemo(
+    () => students.filter(s => s.id === Number(form?.studentId)), [students, form?.studentId]
+  );
+  const { data: formDues } = useStudentsDues(formStudents);
+  const formStudent = formStudents[0];
+  const openHeads = formStudent && formDues[0]?.studentId === formStudent.id
+    ? formDues[0].dueMonths.flatMap(month => month.heads
+      .filter(head => head.outstanding > 0)
+      .map(head => ({ feeMonth: month.feeMonth, feeYear: month.feeYear, head, key: headKey(month.feeMonth, month.feeYear, head) })))
+    : [];
+  const pendingFor = (feeMonth: number, feeYear: number, head: HeadDue) => waivers.some(w =>
+    w.studentId === formStudent?.id && w.status === 'pending' &&
+    w.lines.some(line => line.feeMonth === feeMonth && line.feeYear === feeYear && isSameHead(line, head)));
+  const selectedLines: WaiverLine[] = form
+    ? openHeads
+      .filter(({ key }) => form.amounts[key] !== undefined)
+      .map(({ feeMonth, feeYear, head, key }) => ({
+        feeMonth,
+        feeYear,
+        feeHeadId: head.feeHeadId,
+        headName: head.headName,
+        installmentPlanId: head.installmentPlanId,
+        installmentNo: head.installmentNo,
+        chargeId: head.chargeId,
+        amount: Number(form.amounts[key]),
+      }))
+    : [];
+  const selectedTotal = selectedLines.reduce((sum, line) => sum + (line.amount || 0), 0);
+
+  const describeLines = (lines: WaiverLine[]) => lines
+    .map(line => `${line.headName} - ${months[line.feeMonth - 1].slice(0, 3)} ${line.feeYear}`)
+    .join(', ');
+
+  const toggleHead = (key: string, outstanding: number) => {
+    if (!form) return;
+    const amounts = { ...form.amounts };
+    if (amounts[key] !== undefined) {
+      delete amounts[key];
+    } else {
+      amounts[key] = String(outstanding);
+    }
+    setForm({ ...form, amounts });
+  };
+
+  const handleRequest = () => {
+    if (!form) return;
+    try {
+      requestFeeWaiver({
+        studentId: Number(form.studentId),
+        waiverType: form.waiverType,
+        lines: selectedLines,
+        reason: form.reason,
+      });
+      showToast('success', 'Request sent for approval');
+      setForm(null);
+      setStatusFilter('pending');
+    } catch (error) {
+      showToast('error', error instanceof Error ? error.message : 'Failed to submit request');
+    }
+  };
+
+  const handleReview = async () => {
+    if (!reviewing) return;
+    try {
+      if (reviewing.action === 'approve') {
+        await approveFeeWaiver(reviewing.waiver.id, remarks);
+        showToast('success', 'Waiver approved; dues adjusted');
+      } else {
+        rejectFeeWaiver(reviewing.waiver.id, remarks);
+        showToast('success', 'Waiver rejected');
+      }
+      setReviewing(null);
+    } catch (error) {
+      showToast('error', error instanceof Error ? error.message : 'Failed to review request');
+    }
+  };
+
+  const reviewStudent = reviewing ? students.find(s => s.id === reviewing.waiver.studentId) : undefined;
+  const selfReview = reviewing?.waiver.requestedBy === currentUser?.id;
+
+  return (
+    <div className="p-6 space-y-6">
+      {/* Filters */}
+      <Card>
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="flex-1 min-w-[200px]">
+            <Input
+              label="Search"
+              placeholder="Name or student ID"
+              icon={<Search className="w-4 h-4" />}
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+            />
+          </div>
+          <div className="w-44">
+            <Select
+              label="Status"
+              value={statusFilter}
+              onChange={(e) => setStatusFilter(e.target.value)}
+              options={[
+                { value: 'pending', label: 'Awaiting approval' },
+                { value: 'approved', label: 'Approved' },
+                { value: 'rejected', label: 'Rejected' },
+                { value: '', label: 'All' },
+              ]}
+            />
+          </div>
+          {canRequest && (
+            <Button icon={<Plus className="w-4 h-4" />} onClick={() => setForm(emptyForm())}>
+              Request Waiver
+            </Button>
+          )}
+        </div>
+      </Card>
+
+      {/* Requests */}
+      <Card padding="none">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="text-left py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Student</th>
+                <th className="text-left py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Type</th>
+                <th className="text-left py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Months & Heads</th>
+                <th className="text-right py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Amount</th>
+                <th className="text-left py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Requested</th>
+                <th className="text-left py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Status</th>
+                {isAdmin && <th className="text-right py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Actions</th>}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {rows.map(waiver => {
+                const student = students.find(s => s.id === waiver.studentId);
+                return (
+                  <tr key={waiver.id} className="hover:bg-gray-50 align-top">
+                    <td className="py-3 px-4">
+                      <p className="text-sm font-medium text-gray-900">{student ? `${student.firstName} ${student.lastName || ''}` : 'Unknown'}</p>
+                      <p className="text-xs text-gray-500">
+                        {student?.studentId} • {classes.find(c => c.id === student?.classId)?.className || 'N/A'}
+                      </p>
+                    </td>
+                    <td className="py-3 px-4 text-sm text-gray-900">{WAIVER_TYPE_LABELS[waiver.waiverType]}</td>
+                    <td className="py-3 px-4 text-sm text-gray-600 max-w-xs">
+                      {describeLines(waiver.lines)}
+                      <span className="block text-xs text-gray-500 mt-1">{waiver.reason}</span>
+                    </td>
+                    <td className="py-3 px-4 text-right text-sm font-semibold text-gray-900">{formatCurrency(getWaiverTotal(waiver))}</td>
+                    <td className="py-3 px-4 text-sm text-gray-600">
+                      {userName(waiver.requestedBy)}
+                      <span className="block text-xs text-gray-500">{waiver.requestedAt.split('T')[0]}</span>
+                    </td>
+                    <td className="py-3 px-4">
+                      <Badge variant={statusVariant[waiver.status]}>
+                        {waiver.status === 'pending' ? 'Pending' : waiver.status === 'approved' ? 'Approved' : 'Rejected'}
+                      </Badge>
+                      {waiver.reviewedBy && (
+                        <span className="block text-xs text-gray-500 mt-1">
+                          {userName(waiver.reviewedBy)}{waiver.selfReviewed ? ' (own request)' : ''}
+                          {waiver.reviewRemarks ? `: ${waiver.reviewRemarks}` : ''}
+                        </span>
+                      )}
+                    </td>
+                    {isAdmin && (
+                      <td className="py-3 px-4 text-right">
+                        {waiver.status === 'pending' && canReview(waiver) && (
+                          <div className="flex items-center justify-end gap-1">
+                            <button
+                              onClick={() => { setRemarks(''); setReviewing({ waiver, action: 'approve' }); }}
+                              className="p-2 text-green-600 hover:bg-green-50 rounded-lg"
+                              title="Approve"
+                            >
+                              <Check className="w-4 h-4" />
+                            </button>
+                            <button
+                              onClick={() => { setRemarks(''); setReviewing({ waiver, action: 'reject' }); }}
+                              className="p-2 text-red-600 hover:bg-red-50 rounded-lg"
+                              title="Reject"
+                            >
+                              <X className="w-4 h-4" />
+                            </button>
+                          </div>
+                        )}
+                      </td>
+                    )}
+                  </tr>
+                );
+              })}
+              {rows.length === 0 && (
+                <tr>
+                  <td colSpan={7} className="py-12 text-center text-gray-500">No waiver requests found</td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </Card>
+
+      {/* Request Modal */}
+      <Modal isOpen={!!form} onClose={() => setForm(null)} title="Request Waiver or Write-off" size="lg">
+        {form && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <Select
+                label="Student *"
+                value={form.studentId}
+                onChange={(e) => setForm({ ...form, studentId: e.target.value, amounts: {} })}
+                options={[
+                  { value: '', label: 'Select student' },
+                  ...students.map(s => ({
+                    value: String(s.id),
+                    label: `${s.firstName} ${s.lastName || ''} (${s.studentId})${s.status !== 'active' ? ' - left' : ''}`,
+                  })),
+                ]}
+              />
+              <Select
+                label="Type"
+                value={form.waiverType}
+                onChange={(e) => setForm({ ...form, waiverType: e.target.value as FeeWaiver['waiverType'] })}
+                options={[
+                  { value: 'waiver', label: 'Waiver - forgive the fee' },
+                  { value: 'write_off', label: 'Write-off - arrears cannot be collected' },
+                ]}
+              />
+            </div>
+
+            {formStudent && (
+              <div className="border border-gray-200 rounded-lg overflow-hidden">
+                <table className="w-full">
+                  <thead className="bg-gray-50 border-b border-gray-200">
+                    <tr>
+                      <th className="w-10 py-2 px-3" />
+                      <th className="text-left py-2 px-3 text-xs font-semibold text-gray-600 uppercase">Month</th>
+                      <th className="text-left py-2 px-3 text-xs font-semibold text-gray-600 uppercase">Head</th>
+                      <th className="text-right py-2 px-3 text-xs font-semibold text-gray-600 uppercase">Outstanding</th>
+                      <th className="text-right py-2 px-3 text-xs font-semibold text-gray-600 uppercase">Waive</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {openHeads.map(({ feeMonth, feeYear, head, key }) => {
+                      const pending = pendingFor(feeMonth, feeYear, head);
+                      const selected = form.amounts[key] !== undefined;
+                      return (
+                        <tr key={key} className={pending ? 'bg-gray-50' : ''}>
+                          <td className="py-2 px-3">
+                            <input
+                              type="checkbox"
+                              checked={selected}
+                              disabled={pending}
+                              onChange={() => toggleHead(key, head.outstanding)}
+                              className="w-4 h-4 rounded border-gray-300 text-blue-600"
+                            />
+                          </td>
+                          <td className="py-2 px-3 text-sm text-gray-900">{months[feeMonth - 1]} {feeYear}</td>
+                          <td className="py-2 px-3 text-sm text-gray-900">
+                            {head.headName}
+                            {pending && <span className="block text-xs text-amber-600">Awaiting approval</span>}
+                          </td>
+                          <td className="py-2 px-3 text-right text-sm text-gray-900">{formatCurrency(head.outstanding)}</td>
+                          <td className="py-2 px-3 w-36">
+                            {selected && (
+                              <Input
+                                type="number"
+                                min="0"
+                                max={head.outstanding}
+                                value={form.amounts[key]}
+                                onChange={(e) => setForm({ ...form, amounts: { ...form.amounts, [key]: e.target.value } })}
+                              />
+                            )}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                    {openHeads.length === 0 && (
+                      <tr>
+                        <td colSpan={5} className="py-6 text-center text-sm text-gray-500">Nothing is outstanding for this student</td>
+                      </tr>
+                    )}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            <Textarea
+              label="Justification *"
+              rows={3}
+              placeholder="Why should these dues be forgiven?"
+              value={form.reason}
+              onChange={(e) => setForm({ ...form, reason: e.target.value })}
+            />
+            <div className="flex items-center gap-2 text-xs text-gray-500">
+              <Clock className="w-4 h-4" />
+              Dues are adjusted only once an administrator approves the request.
+            </div>
+            <div className="flex gap-3 pt-2">
+              <Button
+                className="flex-1"
+                disabled={selectedLines.length === 0 || !form.reason.trim()}
+                onClick={handleRequest}
+              >
+                Submit {selectedTotal > 0 ? formatCurrency(selectedTotal) : ''} for Approval
+              </Button>
+              <Button variant="secondary" className="flex-1" onClick={() => setForm(null)}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        )}
+      </Modal>
+
+      {/* Review Modal */}
+      <Modal
+        isOpen={!!reviewing}
+        onClose={() => setReviewing(null)}
+        title={reviewing?.action === 'approve' ? 'Approve Waiver' : 'Reject Waiver'}
+        size="sm"
+      >
+        {reviewing && (
+          <div className="space-y-4">
+            <div className="p-3 bg-gray-50 rounded-lg text-sm space-y-1">
+              <p className="font-medium text-gray-900">
+                {WAIVER_TYPE_LABELS[reviewing.waiver.waiverType]} of {formatCurrency(getWaiverTotal(reviewing.waiver))}
+              </p>
+              <p className="text-gray-600">
+                {reviewStudent ? `${reviewStudent.firstName} ${reviewStudent.lastName || ''} (${reviewStudent.studentId})` : ''}
+              </p>
+              <p className="text-gray-600">{describeLines(reviewing.waiver.lines)}</p>
+              <p className="text-gray-500 italic">{reviewing.waiver.reason}</p>
+              <p className="text-xs text-gray-500">Requested by {userName(reviewing.waiver.requestedBy)}</p>
+            </div>
+            {selfReview && (
+              <p className="text-sm text-amber-600">
+                You raised this request and are the only administrator; the review will be recorded as your own.
+              </p>
+            )}
+            <Textarea
+              label={reviewing.action === 'reject' ? 'Reason for Rejecting *' : selfReview ? 'Remarks *' : 'Remarks'}
+              rows={2}
+              value={remarks}
+              onChange={(e) => setRemarks(e.target.value)}
+            />
+            <div className="flex gap-3 pt-2">
+              <Button
+                variant={reviewing.action === 'approve' ? 'success' : 'danger'}
+                className="flex-1"
+                disabled={(reviewing.action === 'reject' || selfReview) && !remarks.trim()}
+                onClick={handleReview}
+              >
+                {reviewing.action === 'approve' ? 'Approve' : 'Reject'}
+              </Button>
+              <Button variant="secondary" className="flex-1" onClick={() => setReviewing(null)}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        )}
+      </Modal>
+    </div>
+  );
+}
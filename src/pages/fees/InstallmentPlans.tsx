@@ -0,0 +1,388 @@
+import { useState, useMemo } from 'react';
+import { Plus, Edit2, Trash2, Lock, CalendarClock } from 'lucide-react';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Input, Select } from '@/components/ui/Input';
+import { Badge } from '@/components/ui/Badge';
+import { Modal } from '@/components/ui/Modal';
+import { useToast } from '@/components/ui/Toast';
+import {
+  saveInstallmentPlan, deleteInstallmentPlan, isInstallmentPlanLocked,
+  getSplittableCharges, getCurrentUser, getLocalDateString, formatCurrency
+} from '@/store';
+import { DUES_KEYS, useInstallmentPlans, useStoreQuery, useStudents, useStudentsDues } from '@/hooks/useStore';
+import { getInstallmentStatus, type InstallmentStatus } from '@/utils/installments';
+import type { FeeLineItem, Installment, InstallmentPlan } from '@/types';
+
+const months = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December'
+];
+
+const statusVariants: Record<InstallmentStatus['status'], 'success' | 'danger' | 'warning' | 'default'> = {
+  paid: 'success',
+  overdue: 'danger',
+  due: 'warning',
+  upcoming: 'default',
+};
+
+interface InstallmentRow {
+  dueDate: string;
+  amount: string;
+}
+
+interface SplittableCharge {
+  feeMonth: number;
+  feeYear: number;
+  line: FeeLineItem;
+}
+
+const chargeKey = (charge: { feeMonth: number; feeYear: number; feeHeadId: number | null; headName: string }) =>
+  `${charge.feeYear}-${charge.feeMonth}:${charge.feeHeadId ?? ''}:${charge.headName}`;
+
+// Even split, one installment a month from the charge's own month; the
+// remainder goes on the first installment
+const splitEvenly = (charge: SplittableCharge, count: number): InstallmentRow[] => {
+  const net = charge.line.amount - (charge.line.concession || 0);
+  const share = Math.floor(net / count);
+  return Array.from({ length: count }, (_, index) => {
+    const month = ((charge.feeMonth - 1 + index) % 12) + 1;
+    const year = charge.feeYear + Math.floor((charge.feeMonth - 1 + index) / 12);
+    return {
+      dueDate: `${year}-${String(month).padStart(2, '0')}-10`,
+      amount: String(index === 0 ? net - share * (count - 1) : share),
+    };
+  });
+};
+
+export function InstallmentPlans() {
+  const { showToast } = useToast();
+  const [modalPlan, setModalPlan] = useState<InstallmentPlan | null>(null);
+  const [deleteModal, setDeleteModal] = useState<InstallmentPlan | null>(null);
+  const [studentId, setStudentId] = useState('');
+  const [charge, setCharge] = useState('');
+  const [rows, setRows] = useState<InstallmentRow[]>([]);
+
+  const isAdmin = getCurrentUser()?.role === 'admin';
+  const today = getLocalDateString();
+  const { data: plans } = useInstallmentPlans();
+  const { data: students } = useStudents();
+  const activeStudents = students.filter(s => s.status === 'active');
+
+  // Installment progress comes from the shared dues calculator
+  const planStudents = useMemo(() => students.filter(s => plans.some(p => p.studentId === s.id)), [students, plans]);
+  const { data: dues } = useStudentsDues(planStudents);
+  const duesByStudent = new Map(dues.map(d => [d.studentId, d]));
+  const { data: lockedIds } = useStoreQuery(
+    ['fee_records'], async () => new Set(plans.filter(isInstallmentPlanLocked).map(p => p.id)), new Set<number>(), [plans]
+  );
+  const getStatus = (plan: InstallmentPlan): InstallmentStatus[] => {
+    const dues = duesByStudent.get(plan.studentId);
+    return dues ? getInstallmentStatus(plan, dues, today) : [];
+  };
+
+  const getStudentName = (id: number) => {
+    const student = students.find(s => s.id === id);
+    return student ? `${student.firstName} ${student.lastName || ''}` : 'Unknown';
+  };
+
+  const selectedStudent = activeStudents.find(s => s.id === parseInt(studentId));
+  const { data: splittable } = useStoreQuery(
+    DUES_KEYS, async () => selectedStudent ? getSplittableCharges(selectedStudent) : [], [], [selectedStudent]
+  );
+  // The charge being edited is already off its month's bill
+  const charges: SplittableCharge[] = modalPlan?.id
+    ? [{
+        feeMonth: modalPlan.feeMonth,
+        feeYear: modalPlan.feeYear,
+        line: { feeHeadId: modalPlan.feeHeadId, headName: modalPlan.headName, frequency: 'one-time', amount: modalPlan.totalAmount },
+      }, ...splittable]
+    : splittable;
+  const selectedCharge = charges.find(c => chargeKey({ ...c, ...c.line }) === charge);
+  const chargeTotal = selectedCharge ? selectedCharge.line.amount - (selectedCharge.line.concession || 0) : 0;
+  const rowsTotal = rows.reduce((sum, row) => sum + Number(row.amount || 0), 0);
+
+  const openModal = (plan?: InstallmentPlan) => {
+    setStudentId(plan ? String(plan.studentId) : '');
+    setCharge(plan ? chargeKey(plan) : '');
+    setRows(plan ? plan.installments.map(i => ({ dueDate: i.dueDate, amount: String(i.amount) })) : []);
+    setModalPlan(plan || {
+      id: 0,
+      studentId: 0,
+      feeHeadId: null,
+      headName: '',
+      feeMonth: 0,
+      feeYear: 0,
+      totalAmount: 0,
+      installments: [],
+      createdAt: '',
+      updatedAt: '',
+    });
+  };
+
+  const handleChargeChange = (key: string) => {
+    setCharge(key);
+    const picked = charges.find(c => chargeKey({ ...c, ...c.line }) === key);
+    setRows(picked ? splitEvenly(picked, 2) : []);
+  };
+
+  const updateRow = (index: number, field: keyof InstallmentRow, value: string) => {
+    setRows(prev => prev.map((row, i) => i === index ? { ...row, [field]: value } : row));
+  };
+
+  const handleSave = () => {
+    if (!modalPlan) return;
+    if (!selectedStudent || !selectedCharge) {
+      showToast('error', 'Select a student and the charge to split');
+      return;
+    }
+
+    try {
+      const installments: Installment[] = rows.map(row => ({ dueDate: row.dueDate, amount: Number(row.amount || 0) }));
+      saveInstallmentPlan({
+        ...modalPlan,
+        studentId: selectedStudent.id,
+        feeHeadId: selectedCharge.line.feeHeadId,
+        headName: selectedCharge.line.headName,
+        feeMonth: selectedCharge.feeMonth,
+        feeYear: selectedCharge.feeYear,
+        totalAmount: chargeTotal,
+        installments,
+      });
+      showToast('success', 'Installment plan saved successfully!');
+      setModalPlan(null);
+    } catch (error) {
+      showToast('error', error instanceof Error ? error.message : 'Failed to save installment plan');
+    }
+  };
+
+  const handleDelete = () => {
+    if (!deleteModal) return;
+
+    try {
+      deleteInstallmentPlan(deleteModal.id);
+      showToast('success', 'Installment plan removed');
+    } catch (error) {
+      showToast('error', error instanceof Error ? error.message : 'Failed to remove installment plan');
+    } finally {
+      setDeleteModal(null);
+    }
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Installment Plans</h2>
+          <p className="text-sm text-gray-500">
+            A split charge leaves its own month's bill; each installment is billed in the month it falls due.
+          </p>
+        </div>
+        {isAdmin && (
+          <Button icon={<Plus className="w-4 h-4" />} onClick={() => openModal()}>
+            New Plan
+          </Button>
+        )}
+      </div>
+
+      {/* Plans Table */}
+      <Card padding="none">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="text-left py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Student</th>
+                <th className="text-left py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Charge</th>
+                <th className="text-right py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Amount</th>
+                <th className="text-left py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Installments</th>
+                <th className="text-right py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Outstanding</th>
+                <th className="text-right py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {plans.map(plan => {
+                const status = getStatus(plan);
+                const locked = lockedIds.has(plan.id);
+                return (
+                  <tr key={plan.id} className="hover:bg-gray-50">
+                    <td className="py-3 px-4">
+                      <div className="flex items-center gap-3">
+                        <div className="p-2 bg-blue-100 rounded-lg">
+                          <CalendarClock className="w-4 h-4 text-blue-600" />
+                        </div>
+                        <span className="font-medium text-gray-900">{getStudentName(plan.studentId)}</span>
+                      </div>
+                    </td>
+                    <td className="py-3 px-4 text-sm text-gray-600">
+                      {plan.headName}
+                      <span className="block text-xs text-gray-400">{months[plan.feeMonth - 1]} {plan.feeYear}</span>
+                    </td>
+                    <td className="py-3 px-4 text-right font-medium text-gray-900">{formatCurrency(plan.totalAmount)}</td>
+                    <td className="py-3 px-4">
+                      <div className="flex flex-wrap gap-1">
+                        {status.map(s => (
+                          <Badge key={s.installmentNo} variant={statusVariants[s.status]}>
+                            {s.dueDate} • {formatCurrency(s.amount)}
+                          </Badge>
+                        ))}
+                      </div>
+                    </td>
+                    <td className="py-3 px-4 text-right font-semibold text-red-600">
+                      {formatCurrency(status.reduce((sum, s) => sum + s.outstanding, 0))}
+                    </td>
+                    <td className="py-3 px-4">
+                      <div className="flex items-center justify-end gap-1">
+                        {locked ? (
+                          <span className="p-2 text-gray-400" title="A payment has been received; the plan can no longer change">
+                            <Lock className="w-4 h-4" />
+                          </span>
+                        ) : isAdmin && (
+                          <>
+                            <button
+                              onClick={() => openModal(plan)}
+                              className="p-2 text-gray-500 hover:text-blue-600 hover:bg-blue-50 rounded-lg"
+                            >
+                              <Edit2 className="w-4 h-4" />
+                            </button>
+                            <button
+                              onClick={() => setDeleteModal(plan)}
+                              className="p-2 text-gray-500 hover:text-red-600 hover:bg-red-50 rounded-lg"
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </button>
+                          </>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+              {plans.length === 0 && (
+                <tr>
+                  <td colSpan={6} className="py-12 text-center text-gray-500">
+                    No installment plans set up
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </Card>
+
+      {/* Add / Edit Modal */}
+      <Modal
+        isOpen={!!modalPlan}
+        onClose={() => setModalPlan(null)}
+        title={modalPlan?.id ? 'Edit Installment Plan' : 'New Installment Plan'}
+      >
+        <div className="space-y-4">
+          <Select
+            label="Student *"
+            value={studentId}
+            disabled={!!modalPlan?.id}
+            onChange={(e) => { setStudentId(e.target.value); setCharge(''); setRows([]); }}
+            options={[
+              { value: '', label: 'Select student' },
+              ...activeStudents.map(s => ({ value: s.id, label: `${s.firstName} ${s.lastName || ''} (${s.studentId})` })),
+            ]}
+          />
+          <Select
+            label="Charge to Split *"
+            value={charge}
+            disabled={!!modalPlan?.id}
+            onChange={(e) => handleChargeChange(e.target.value)}
+            options={[
+              { value: '', label: selectedStudent && charges.length === 0 ? 'No unbilled charges this session' : 'Select charge' },
+              ...charges.map(c => ({
+                value: chargeKey({ ...c, ...c.line }),
+                label: `${c.line.headName} • ${months[c.feeMonth - 1]} ${c.feeYear} • ${formatCurrency(c.line.amount - (c.line.concession || 0))}`,
+              })),
+            ]}
+          />
+
+          {selectedCharge && (
+            <div className="space-y-2">
+              <label className="block text-sm font-medium text-gray-700">Installments</label>
+              {rows.map((row, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <span className="w-6 text-sm text-gray-500">{index + 1}.</span>
+                  <Input
+                    type="date"
+                    value={row.dueDate}
+                    onChange={(e) => updateRow(index, 'dueDate', e.target.value)}
+                  />
+                  <Input
+                    type="number"
+                    min="0"
+                    value={row.amount}
+                    onChange={(e) => updateRow(index, 'amount', e.target.value)}
+                  />
+                  <button
+                    onClick={() => setRows(prev => prev.filter((_, i) => i !== index))}
+                    className="p-2 text-gray-500 hover:text-red-600 hover:bg-red-50 rounded-lg"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+              <div className="flex items-center justify-between">
+                <div className="flex gap-2">
+                  <Button
+                    variant="secondary"
+                    size="sm"
+                    onClick={() => setRows(prev => [...prev, { dueDate: '', amount: '' }])}
+                  >
+                    Add Installment
+                  </Button>
+                  <Button
+                    variant="secondary"
+                    size="sm"
+                    onClick={() => setRows(splitEvenly(selectedCharge, Math.max(rows.length, 2)))}
+                  >
+                    Split Evenly
+                  </Button>
+                </div>
+                <span className={`text-sm font-medium ${rowsTotal === chargeTotal ? 'text-emerald-600' : 'text-red-600'}`}>
+                  {formatCurrency(rowsTotal)} of {formatCurrency(chargeTotal)}
+                </span>
+              </div>
+            </div>
+          )}
+
+          <div className="flex gap-3 pt-4">
+            <Button className="flex-1" onClick={handleSave}>
+              Save Plan
+            </Button>
+            <Button variant="secondary" className="flex-1" onClick={() => setModalPlan(null)}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      </Modal>
+
+      {/* Delete Confirmation Modal */}
+      <Modal
+        isOpen={!!deleteModal}
+        onClose={() => setDeleteModal(null)}
+        title="Remove Installment Plan"
+        size="sm"
+      >
+        <div className="space-y-4">
+          <p className="text-gray-600">
+            Remove the plan for <strong>{deleteModal?.headName}</strong>? The full charge goes back
+            on the {deleteModal ? `${months[deleteModal.feeMonth - 1]} ${deleteModal.feeYear}` : ''} bill.
+          </p>
+          <div className="flex gap-3">
+            <Button variant="danger" onClick={handleDelete} className="flex-1">
+              Remove
+            </Button>
+            <Button variant="secondary" onClick={() => setDeleteModal(null)} className="flex-1">
+              Cancel
+            </Button>
+          </div>
+        </div>
+      </Modal>
+    </div>
+  );
+}
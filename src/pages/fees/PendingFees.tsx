@@ -4,8 +4,10 @@ import { Card } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
 import { Input, Select } from '@/components/ui/Input';
 import { Badge } from '@/components/ui/Badge';
-import { getStudents, getClasses, getFeeRecords, formatCurrency } from '@/store';
-import type { Student, FeeRecord } from '@/types';
+import { formatCurrency, getStudentsDues, getFeeContext } from '@/store';
+import { useStudents, useClasses, useFeeRecords } from '@/hooks/useStore';
+import { getMonthlyTotal } from '@/utils/feeCalculator';
+import type { Student } from '@/types';
 
 interface PendingFeesProps {
   onNavigate: (page: string) => void;
@@ -17,96 +19,33 @@ interface StudentWithPending extends Student {
   monthsPending: number;
   monthlyTotal: number;
   lastPaymentDate: string | null;
-  paidMonths: number[];
-  unpaidMonths: number[];
+  unpaidMonths: { feeMonth: number; feeYear: number }[];
 }
 
 export function PendingFees({ onNavigate }: PendingFeesProps) {
   const [searchTerm, setSearchTerm] = useState('');
   const [classFilter, setClassFilter] = useState('');
 
-  const students = getStudents().filter(s => s.status === 'active');
-  const classes = getClasses();
-  const feeRecords = getFeeRecords();
+  const { data: students } = useStudents({ status: 'active' });
+  const { data: classes } = useClasses();
+  const { data: feeRecords } = useFeeRecords();
 
-  // Get current month and year
-  const currentDate = new Date();
-  const currentMonth = currentDate.getMonth() + 1; // 1-12
-  const currentYear = currentDate.getFullYear();
-
-  // Calculate pending for each student using useMemo for performance
+  // Outstanding dues from the shared calculator, across academic years
   const studentsWithPending = useMemo(() => {
-    return students.map((student): StudentWithPending => {
-      // Get all fee records for this student
-      const studentRecords: FeeRecord[] = feeRecords.filter(
-        (r: FeeRecord) => r.studentId === student.id && r.feeYear === currentYear
-      );
-      
-      // Get admission date
-      const admissionDate = new Date(student.admissionDate);
-      const admissionYear = admissionDate.getFullYear();
-      const admissionMonth = admissionDate.getMonth() + 1; // 1-12
-      
-      // Determine which months should be paid based on admission date
-      let startMonth: number;
-      if (admissionYear < currentYear) {
-        // Student was admitted in a previous year, so they should have paid from January
-        startMonth = 1;
-      } else if (admissionYear === currentYear) {
-        // Student was admitted this year, start from admission month
-        startMonth = admissionMonth;
-      } else {
-        // Student admitted in future - shouldn't have any pending
-        startMonth = currentMonth + 1;
-      }
-      
-      // Get list of months that have been paid (status = 'paid')
-      const paidMonths: number[] = studentRecords
-        .filter((r: FeeRecord) => r.status === 'paid')
-        .map((r: FeeRecord) => r.feeMonth);
-      
-      // Determine which months should have been paid (from start month to current month)
-      const shouldHavePaidMonths: number[] = [];
-      for (let month = startMonth; month <= currentMonth; month++) {
-        shouldHavePaidMonths.push(month);
-      }
-      
-      // Find unpaid months
-      const unpaidMonths = shouldHavePaidMonths.filter(month => !paidMonths.includes(month));
-      
-      // Calculate monthly fee including transport
-      const monthlyTotal = (student.monthlyFee || 0) + (student.transportOpted ? (student.transportFee || 0) : 0);
-      
-      // Calculate pending amount for unpaid months
-      const pendingFromMonths = unpaidMonths.length * monthlyTotal;
-      
-      // Get any partial payments balance
-      const partialRecords = studentRecords.filter((r: FeeRecord) => r.status === 'partial');
-      const totalPartialDue = partialRecords.reduce((sum: number, r: FeeRecord) => sum + (r.balanceDue || 0), 0);
-      
-      // Final pending amount
-      const totalPending = pendingFromMonths + totalPartialDue;
-      
-      // Get last payment date
-      const paidRecords = studentRecords.filter((r: FeeRecord) => r.status === 'paid' || r.status === 'partial');
-      const lastPaymentDate = paidRecords.length > 0 
-        ? paidRecords.sort((a: FeeRecord, b: FeeRecord) => 
-            new Date(b.paymentDate).getTime() - new Date(a.paymentDate).getTime()
-          )[0].paymentDate
-        : null;
-      
+    const feeContext = getFeeContext();
+    return getStudentsDues(students, feeRecords).map((dues, index): StudentWithPending => {
+      const student = students[index];
       return {
         ...student,
-        pendingAmount: totalPending,
-        monthsPaid: paidMonths.length,
-        monthsPending: unpaidMonths.length,
-        monthlyTotal,
-        lastPaymentDate,
-        paidMonths,
-        unpaidMonths
+        pendingAmount: dues.totalOutstanding,
+        monthsPaid: dues.months.length - dues.dueMonths.length,
+        monthsPending: dues.dueMonths.length,
+        monthlyTotal: getMonthlyTotal(student, feeContext),
+        lastPaymentDate: dues.lastPaymentDate,
+        unpaidMonths: dues.dueMonths.map(m => ({ feeMonth: m.feeMonth, feeYear: m.feeYear })),
       };
     }).filter((s: StudentWithPending) => s.pendingAmount > 0); // ONLY show students with ACTUAL pending > 0
-  }, [students, feeRecords, currentMonth, currentYear]);
+  }, [students, feeRecords]);
 
   // Apply search and class filters
   const filteredStudents = useMemo(() => {
@@ -129,6 +68,7 @@ export function PendingFees({ onNavigate }: PendingFeesProps) {
 
   const totalPending = filteredStudents.reduce((sum: number, s: StudentWithPending) => sum + s.pendingAmount, 0);
 
+  const currentYear = new Date().getFullYear();
   const monthNames = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
 
   // If no students exist at all
@@ -255,9 +195,9 @@ export function PendingFees({ onNavigate }: PendingFeesProps) {
                   <td className="py-3 px-4">
                     <div className="flex flex-wrap gap-1">
                       {student.unpaidMonths.length > 0 ? (
-                        student.unpaidMonths.slice(0, 4).map(month => (
-                          <Badge key={month} variant="danger" size="sm">
-                            {monthNames[month - 1]}
+                        student.unpaidMonths.slice(0, 4).map(({ feeMonth, feeYear }) => (
+                          <Badge key={`${feeYear}-${feeMonth}`} variant="danger" size="sm">
+                            {monthNames[feeMonth - 1]}{feeYear !== currentYear && ` ${String(feeYear).slice(2)}`}
                           </Badge>
                         ))
                       ) : (
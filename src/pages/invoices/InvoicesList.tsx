@@ -1,13 +1,18 @@
 import { useState } from 'react';
-import { Search, Download, Printer, Eye, FileText } from 'lucide-react';
+import { Search, Download, Printer, Eye, FileText, CalendarPlus, Ban } from 'lucide-react';
 import { Card } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
 import { Input, Select } from '@/components/ui/Input';
 import { Badge } from '@/components/ui/Badge';
 import { Modal } from '@/components/ui/Modal';
 import { useToast } from '@/components/ui/Toast';
-import { getFeeRecords, getStudents, getClasses, getSchoolInfo, formatCurrency } from '@/store';
-import { generateFeeReceipt, downloadInvoicesAsCSV } from '@/utils/pdfGenerator';
+import { CancelReceiptModal } from '@/components/fees/CancelReceiptModal';
+import {
+  getFeeRecords, getStudents, getClasses, getSchoolInfo, formatCurrency, runMonthlyBilling, getCurrentUser
+} from '@/store';
+import { getReversedIds } from '@/utils/allocation';
+import { getDocumentKey } from '@/utils/numbering';
+import { generateFeeReceipt, generateCreditNote, downloadInvoicesAsCSV } from '@/utils/pdfGenerator';
 
 const months = [
   'January', 'February', 'March', 'April', 'May', 'June',
@@ -20,8 +25,15 @@ export function InvoicesList() {
   const [statusFilter, setStatusFilter] = useState('');
   const [viewInvoice, setViewInvoice] = useState<typeof feeRecords[0] | null>(null);
   const [downloading, setDownloading] = useState(false);
+  const [billingMonth, setBillingMonth] = useState((new Date().getMonth() + 1).toString());
+  const [billingYear, setBillingYear] = useState(new Date().getFullYear().toString());
+  const [billing, setBilling] = useState(false);
+  const [cancelRecord, setCancelRecord] = useState<typeof feeRecords[0] | null>(null);
+
+  const isAdmin = getCurrentUser()?.role === 'admin';
 
   const feeRecords = getFeeRecords();
+  const reversedIds = getReversedIds(feeRecords);
   const students = getStudents();
   const classes = getClasses();
   const schoolInfo = getSchoolInfo();
@@ -30,6 +42,7 @@ export function InvoicesList() {
     const student = students.find(s => s.id === record.studentId);
     const matchesSearch = 
       record.receiptNumber.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      record.invoiceNumber?.toLowerCase().includes(searchTerm.toLowerCase()) ||
       student?.firstName.toLowerCase().includes(searchTerm.toLowerCase());
     
     const matchesStatus = !statusFilter || record.status === statusFilter;
@@ -53,17 +66,53 @@ export function InvoicesList() {
         return <Badge variant="success">Paid</Badge>;
       case 'partial':
         return <Badge variant="warning">Partial</Badge>;
+      case 'unpaid':
+        return <Badge variant="danger">Unpaid</Badge>;
+      case 'cancelled':
+        return <Badge variant="default">Credit Note</Badge>;
       default:
         return <Badge>{status}</Badge>;
     }
   };
 
+  // Unpaid invoices have no receipt yet
+  const getDocumentNumber = (record: typeof feeRecords[0]) => {
+    return record.status === 'unpaid' ? record.invoiceNumber || '' : record.receiptNumber;
+  };
+
+  const handleBillingRun = async () => {
+    setBilling(true);
+    try {
+      const invoices = await runMonthlyBilling(parseInt(billingMonth), parseInt(billingYear));
+      showToast(
+        invoices.length > 0 ? 'success' : 'info',
+        invoices.length > 0
+          ? `${invoices.length} invoice${invoices.length === 1 ? '' : 's'} issued for ${months[parseInt(billingMonth) - 1]} ${billingYear}`
+          : 'Every active student is already billed for this month'
+      );
+    } catch (error) {
+      showToast('error', error instanceof Error ? error.message : 'Billing run failed');
+    } finally {
+      setBilling(false);
+    }
+  };
+
+  // Reversal entries print as one credit note for the whole cancelled receipt
+  const openDocument = (record: typeof feeRecords[0]) => {
+    if (record.reversalOf !== undefined) {
+      const documentKey = getDocumentKey(record.receiptNumber);
+      generateCreditNote(feeRecords.filter(r => r.reversalOf !== undefined && getDocumentKey(r.receiptNumber) === documentKey));
+    } else {
+      generateFeeReceipt(record);
+    }
+  };
+
   // Generate and download PDF invoice using the PDF generator
   const handleDownloadInvoice = (record: typeof feeRecords[0]) => {
     setDownloading(true);
     try {
-      generateFeeReceipt(record);
-      showToast('success', `Invoice ${record.receiptNumber} opened for printing!`);
+      openDocument(record);
+      showToast('success', `Invoice ${getDocumentNumber(record)} opened for printing!`);
     } catch (error) {
       showToast('error', 'Failed to generate invoice');
     } finally {
@@ -83,19 +132,48 @@ export function InvoicesList() {
 
   const handlePrint = (record: typeof feeRecords[0]) => {
     try {
-      generateFeeReceipt(record);
+      openDocument(record);
     } catch (error) {
       showToast('error', 'Please allow pop-ups to print invoice');
     }
   };
 
+  const billingCard = (
+    <Card>
+      <div className="flex flex-wrap items-end gap-4">
+        <div className="flex-1 min-w-[200px]">
+          <h3 className="font-semibold text-gray-900">Monthly Billing Run</h3>
+          <p className="text-sm text-gray-500">Issue unpaid invoices to all active students from their fee structure</p>
+        </div>
+        <div className="w-40">
+          <Select
+            value={billingMonth}
+            onChange={(e) => setBillingMonth(e.target.value)}
+            options={months.map((m, i) => ({ value: i + 1, label: m }))}
+          />
+        </div>
+        <div className="w-28">
+          <Input
+            type="number"
+            value={billingYear}
+            onChange={(e) => setBillingYear(e.target.value)}
+          />
+        </div>
+        <Button icon={<CalendarPlus className="w-4 h-4" />} onClick={handleBillingRun} loading={billing}>
+          Generate Invoices
+        </Button>
+      </div>
+    </Card>
+  );
+
   if (feeRecords.length === 0) {
     return (
-      <div className="p-6">
+      <div className="p-6 space-y-6">
+        {billingCard}
         <Card className="text-center py-16">
           <FileText className="w-16 h-16 mx-auto text-gray-300 mb-4" />
           <h3 className="text-lg font-semibold text-gray-900 mb-2">No Invoices Found</h3>
-          <p className="text-gray-600">Invoices will appear here after fee collection</p>
+          <p className="text-gray-600">Invoices will appear here after a billing run or fee collection</p>
         </Card>
       </div>
     );
@@ -103,6 +181,8 @@ export function InvoicesList() {
 
   return (
     <div className="p-6 space-y-6">
+      {billingCard}
+
       {/* Filters */}
       <Card>
         <div className="flex flex-wrap gap-4">
@@ -122,6 +202,8 @@ export function InvoicesList() {
                 { value: '', label: 'All Status' },
                 { value: 'paid', label: 'Paid' },
                 { value: 'partial', label: 'Partial' },
+                { value: 'unpaid', label: 'Unpaid' },
+                { value: 'cancelled', label: 'Credit Notes' },
               ]}
             />
           </div>
@@ -139,10 +221,14 @@ export function InvoicesList() {
             <Card key={record.id} className="hover:shadow-md transition-shadow">
               <div className="flex items-start justify-between mb-4">
                 <div>
-                  <p className="font-mono text-sm font-semibold text-blue-600">{record.receiptNumber}</p>
-                  <p className="text-xs text-gray-500 mt-1">{new Date(record.paymentDate).toLocaleDateString('en-PK')}</p>
+                  <p className="font-mono text-sm font-semibold text-blue-600">{getDocumentNumber(record)}</p>
+                  <p className="text-xs text-gray-500 mt-1">
+                    {record.status === 'unpaid'
+                      ? `Due ${new Date(record.dueDate || '').toLocaleDateString('en-PK')}`
+                      : new Date(record.paymentDate).toLocaleDateString('en-PK')}
+                  </p>
                 </div>
-                {getStatusBadge(record.status)}
+                {reversedIds.has(record.id) ? <Badge variant="danger">Reversed</Badge> : getStatusBadge(record.status)}
               </div>
               
               <div className="space-y-2 mb-4">
@@ -154,7 +240,9 @@ export function InvoicesList() {
               </div>
               
               <div className="flex items-center justify-between pt-4 border-t border-gray-100">
-                <span className="text-lg font-bold text-gray-900">{formatCurrency(record.amountPaid)}</span>
+                <span className="text-lg font-bold text-gray-900">
+                  {formatCurrency(record.status === 'unpaid' ? record.balanceDue : record.amountPaid)}
+                </span>
                 <div className="flex gap-1">
                   <button 
                     onClick={() => setViewInvoice(record)}
@@ -178,6 +266,15 @@ export function InvoicesList() {
                   >
                     <Download className="w-4 h-4" />
                   </button>
+                  {isAdmin && (record.status === 'paid' || record.status === 'partial') && !reversedIds.has(record.id) && (
+                    <button
+                      onClick={() => setCancelRecord(record)}
+                      className="p-2 text-gray-500 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                      title="Cancel / Refund"
+                    >
+                      <Ban className="w-4 h-4" />
+                    </button>
+                  )}
                 </div>
               </div>
             </Card>
@@ -210,12 +307,14 @@ export function InvoicesList() {
 
             <div className="flex justify-between">
               <div>
-                <p className="text-sm text-gray-500">Receipt No.</p>
-                <p className="font-mono font-semibold">{viewInvoice.receiptNumber}</p>
+                <p className="text-sm text-gray-500">{viewInvoice.status === 'unpaid' ? 'Invoice No.' : 'Receipt No.'}</p>
+                <p className="font-mono font-semibold">{getDocumentNumber(viewInvoice)}</p>
               </div>
               <div className="text-right">
-                <p className="text-sm text-gray-500">Date</p>
-                <p className="font-semibold">{new Date(viewInvoice.paymentDate).toLocaleDateString('en-PK')}</p>
+                <p className="text-sm text-gray-500">{viewInvoice.status === 'unpaid' ? 'Due Date' : 'Date'}</p>
+                <p className="font-semibold">
+                  {new Date((viewInvoice.status === 'unpaid' ? viewInvoice.dueDate : viewInvoice.paymentDate) || '').toLocaleDateString('en-PK')}
+                </p>
               </div>
             </div>
 
@@ -243,6 +342,18 @@ export function InvoicesList() {
                     <td className="py-2 px-3 text-right text-red-600">-{formatCurrency(viewInvoice.concessionAmount)}</td>
                   </tr>
                 )}
+                {(viewInvoice.sponsoredAmount || 0) > 0 && (
+                  <tr className="border-b">
+                    <td className="py-2 px-3">Paid by Sponsor</td>
+                    <td className="py-2 px-3 text-right text-red-600">-{formatCurrency(viewInvoice.sponsoredAmount || 0)}</td>
+                  </tr>
+                )}
+                {(viewInvoice.waivedAmount || 0) > 0 && (
+                  <tr className="border-b">
+                    <td className="py-2 px-3">Waived</td>
+                    <td className="py-2 px-3 text-right text-red-600">-{formatCurrency(viewInvoice.waivedAmount || 0)}</td>
+                  </tr>
+                )}
                 {viewInvoice.lateFee > 0 && (
                   <tr className="border-b">
                     <td className="py-2 px-3">Late Fee</td>
@@ -252,18 +363,20 @@ export function InvoicesList() {
               </tbody>
               <tfoot className="bg-blue-50">
                 <tr>
-                  <td className="py-3 px-3 font-bold">Total Paid</td>
-                  <td className="py-3 px-3 text-right font-bold text-blue-600">{formatCurrency(viewInvoice.amountPaid)}</td>
+                  <td className="py-3 px-3 font-bold">{viewInvoice.status === 'unpaid' ? 'Amount Due' : 'Total Paid'}</td>
+                  <td className="py-3 px-3 text-right font-bold text-blue-600">
+                    {formatCurrency(viewInvoice.status === 'unpaid' ? viewInvoice.balanceDue : viewInvoice.amountPaid)}
+                  </td>
                 </tr>
               </tfoot>
             </table>
 
-            <div className="text-sm text-gray-500">
+            {viewInvoice.status !== 'unpaid' && <div className="text-sm text-gray-500">
               <p><strong>Payment Mode:</strong> {viewInvoice.paymentMode.replace('_', ' ').toUpperCase()}</p>
               {viewInvoice.paymentReference && (
                 <p><strong>Reference:</strong> {viewInvoice.paymentReference}</p>
               )}
-            </div>
+            </div>}
 
             <div className="flex gap-3 pt-4 border-t">
               <Button variant="secondary" className="flex-1" icon={<Printer className="w-4 h-4" />} onClick={() => {
@@ -282,6 +395,8 @@ export function InvoicesList() {
           </div>
         )}
       </Modal>
+
+      <CancelReceiptModal record={cancelRecord} onClose={() => setCancelRecord(null)} />
     </div>
   );
 }
@@ -4,7 +4,7 @@ import { Card } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
 import { Select } from '@/components/ui/Input';
 import { Badge } from '@/components/ui/Badge';
-import { getStudents, getClasses, getFeeRecords, formatCurrency } from '@/store';
+import { getStudents, getClasses, getLiveFeeRecords, formatCurrency } from '@/store';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
 
 export function ClassReport() {
@@ -12,7 +12,7 @@ export function ClassReport() {
 
   const students = getStudents().filter(s => s.status === 'active');
   const classes = getClasses();
-  const feeRecords = getFeeRecords();
+  const feeRecords = getLiveFeeRecords();
 
   // Calculate class-wise data
   const classWiseData = classes.map(cls => {
@@ -21,7 +21,7 @@ export function ClassReport() {
     
     const classRecords = feeRecords.filter(r => {
       const student = students.find(s => s.id === r.studentId);
-      return student?.classId === cls.id && r.status === 'paid';
+      return student?.classId === cls.id;
     });
     const collectedFee = classRecords.reduce((sum, r) => sum + r.amountPaid, 0);
     
@@ -0,0 +1,206 @@
+import { useState } from 'react';
+import { Percent, Users, TrendingDown } from 'lucide-react';
+import { Card, StatCard } from '@/components/ui/Card';
+import { Select } from '@/components/ui/Input';
+import { Badge } from '@/components/ui/Badge';
+import { getLiveFeeRecords } from '@/store';
+import { useClasses, useStoreQuery, useStudents } from '@/hooks/useStore';
+import type { Student } from '@/types';
+
+const months = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December'
+];
+
+const categoryLabels: Record<Student['feeCategory'], string> = {
+  regular: 'Regular',
+  sibling: 'Sibling',
+  scholarship: 'Scholarship',
+  staff: 'Staff Child',
+};
+
+export function ConcessionReport() {
+  const currentDate = new Date();
+  const [selectedMonth, setSelectedMonth] = useState('all');
+  const [selectedYear, setSelectedYear] = useState(currentDate.getFullYear().toString());
+
+  const { data: feeRecords } = useStoreQuery(['fee_records'], async () => getLiveFeeRecords(), []);
+  const { data: students } = useStudents();
+  const { data: classes } = useClasses();
+
+  const years = Array.from(new Set([currentDate.getFullYear(), ...feeRecords.map(r => r.feeYear)]))
+    .sort((a, b) => b - a);
+
+  // Revenue forgone is reported by fee month, not payment date
+  const periodRecords = feeRecords.filter(r =>
+    r.feeYear === parseInt(selectedYear) &&
+    (selectedMonth === 'all' || r.feeMonth === parseInt(selectedMonth))
+  );
+  const concessionRecords = periodRecords.filter(r => r.concessionAmount > 0);
+
+  const totalConcession = concessionRecords.reduce((sum, r) => sum + r.concessionAmount, 0);
+  const grossFees = periodRecords.reduce((sum, r) => sum + r.totalFee, 0);
+  const beneficiaries = new Set(concessionRecords.map(r => r.studentId)).size;
+  const forgonePercent = grossFees > 0 ? ((totalConcession / grossFees) * 100).toFixed(1) : '0';
+
+  const getStudent = (studentId: number) => students.find(s => s.id === studentId);
+
+  const byCategory = concessionRecords.reduce((acc, r) => {
+    const category = getStudent(r.studentId)?.feeCategory || 'regular';
+    acc[category] = (acc[category] || 0) + r.concessionAmount;
+    return acc;
+  }, {} as Record<string, number>);
+
+  // Older receipts have no per-head lines; their concession is shown unallocated
+  const byHead = concessionRecords.reduce((acc, r) => {
+    const allocated = (r.items || []).reduce((sum, item) => {
+      if (item.concession) {
+        acc[item.headName] = (acc[item.headName] || 0) + item.concession;
+      }
+      return sum + (item.concession || 0);
+    }, 0);
+    if (allocated < r.concessionAmount) {
+      acc['Unallocated'] = (acc['Unallocated'] || 0) + r.concessionAmount - allocated;
+    }
+    return acc;
+  }, {} as Record<string, number>);
+
+  const getClassName = (classId?: number) => {
+    return classes.find(c => c.id === classId)?.className || 'N/A';
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      {/* Period Selector */}
+      <Card>
+        <div className="flex items-center gap-4">
+          <div className="w-40">
+            <Select
+              value={selectedMonth}
+              onChange={(e) => setSelectedMonth(e.target.value)}
+              options={[{ value: 'all', label: 'All Months' }, ...months.map((m, i) => ({ value: i + 1, label: m }))]}
+            />
+          </div>
+          <div className="w-32">
+            <Select
+              value={selectedYear}
+              onChange={(e) => setSelectedYear(e.target.value)}
+              options={years.map(y => ({ value: y, label: y.toString() }))}
+            />
+          </div>
+        </div>
+      </Card>
+
+      {/* Summary Cards */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <StatCard
+          title="Revenue Forgone"
+          value={`Rs. ${totalConcession.toLocaleString()}`}
+          icon={<TrendingDown className="w-6 h-6 text-amber-600" />}
+          iconBg="bg-amber-100"
+        />
+        <StatCard
+          title="Students Benefiting"
+          value={beneficiaries.toString()}
+          icon={<Users className="w-6 h-6 text-blue-600" />}
+          iconBg="bg-blue-100"
+        />
+        <StatCard
+          title="Share of Gross Fees"
+          value={`${forgonePercent}%`}
+          icon={<Percent className="w-6 h-6 text-purple-600" />}
+          iconBg="bg-purple-100"
+        />
+      </div>
+
+      {/* Breakdowns */}
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card>
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">By Fee Category</h3>
+          <div className="space-y-3">
+            {Object.entries(byCategory).map(([category, amount]) => (
+              <div key={category} className="flex justify-between text-sm">
+                <span className="text-gray-600">{categoryLabels[category as Student['feeCategory']] || category}</span>
+                <span className="font-medium">Rs. {amount.toLocaleString()}</span>
+              </div>
+            ))}
+            {Object.keys(byCategory).length === 0 && (
+              <p className="text-center text-gray-500 py-4">No concessions in this period</p>
+            )}
+          </div>
+        </Card>
+        <Card>
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">By Fee Head</h3>
+          <div className="space-y-3">
+            {Object.entries(byHead).map(([head, amount]) => (
+              <div key={head} className="flex justify-between text-sm">
+                <span className="text-gray-600">{head}</span>
+                <span className="font-medium">Rs. {amount.toLocaleString()}</span>
+              </div>
+            ))}
+            {Object.keys(byHead).length === 0 && (
+              <p className="text-center text-gray-500 py-4">No concessions in this period</p>
+            )}
+          </div>
+        </Card>
+      </div>
+
+      {/* Records Table */}
+      <Card padding="none">
+        <div className="p-4 border-b border-gray-200">
+          <h3 className="text-lg font-semibold text-gray-900">Concessions Granted</h3>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="text-left py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Receipt No.</th>
+                <th className="text-left py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Student</th>
+                <th className="text-left py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Class</th>
+                <th className="text-left py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Category</th>
+                <th className="text-left py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Month</th>
+                <th className="text-right py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Gross Fee</th>
+                <th className="text-right py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Concession</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {concessionRecords.map(record => {
+                const student = getStudent(record.studentId);
+                return (
+                  <tr key={record.id} className="hover:bg-gray-50">
+                    <td className="py-3 px-4 font-mono text-sm text-blue-600">{record.receiptNumber || record.invoiceNumber}</td>
+                    <td className="py-3 px-4 font-medium text-gray-900">
+                      {student ? `${student.firstName} ${student.lastName || ''}` : 'Unknown'}
+                    </td>
+                    <td className="py-3 px-4 text-sm text-gray-600">{getClassName(student?.classId)}</td>
+                    <td className="py-3 px-4">
+                      <Badge variant="warning">{student ? categoryLabels[student.feeCategory] : '-'}</Badge>
+                    </td>
+                    <td className="py-3 px-4 text-sm text-gray-600">{months[record.feeMonth - 1]} {record.feeYear}</td>
+                    <td className="py-3 px-4 text-right text-sm text-gray-600">Rs. {record.totalFee.toLocaleString()}</td>
+                    <td className="py-3 px-4 text-right font-semibold text-amber-600">Rs. {record.concessionAmount.toLocaleString()}</td>
+                  </tr>
+                );
+              })}
+              {concessionRecords.length === 0 && (
+                <tr>
+                  <td colSpan={7} className="py-12 text-center text-gray-500">
+                    No concessions granted in this period
+                  </td>
+                </tr>
+              )}
+            </tbody>
+            {concessionRecords.length > 0 && (
+              <tfoot className="bg-gray-50">
+                <tr>
+                  <td colSpan={6} className="py-3 px-4 font-bold text-gray-900">Total</td>
+                  <td className="py-3 px-4 text-right font-bold text-amber-600 text-lg">Rs. {totalConcession.toLocaleString()}</td>
+                </tr>
+              </tfoot>
+            )}
+          </table>
+        </div>
+      </Card>
+    </div>
+  );
+}
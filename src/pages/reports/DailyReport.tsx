@@ -20,6 +20,7 @@ export function DailyReport() {
   const dailyRecords = feeRecords.filter(r => r.paymentDate === selectedDate);
   
   const totalCollection = dailyRecords.reduce((sum, r) => sum + r.amountPaid, 0);
+  const totalLateFees = dailyRecords.reduce((sum, r) => sum + (r.lateFee || 0), 0);
   
   const modeWiseCollection = dailyRecords.reduce((acc, r) => {
     acc[r.paymentMode] = (acc[r.paymentMode] || 0) + r.amountPaid;
@@ -57,7 +58,7 @@ export function DailyReport() {
       </Card>
 
       {/* Summary Cards */}
-      <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+      <div className="grid grid-cols-1 md:grid-cols-5 gap-6">
         <StatCard
           title="Total Collection"
           value={`Rs. ${totalCollection.toLocaleString()}`}
@@ -68,6 +69,10 @@ export function DailyReport() {
           <p className="text-gray-500 text-sm">Total Receipts</p>
           <p className="text-3xl font-bold text-gray-900 mt-1">{dailyRecords.length}</p>
         </Card>
+        <Card>
+          <p className="text-gray-500 text-sm">Late Fees</p>
+          <p className="text-3xl font-bold text-gray-900 mt-1">Rs. {totalLateFees.toLocaleString()}</p>
+        </Card>
         <Card>
           <p className="text-gray-500 text-sm">Cash Collection</p>
           <p className="text-3xl font-bold text-gray-900 mt-1">Rs. {(modeWiseCollection['cash'] || 0).toLocaleString()}</p>
@@ -110,6 +115,7 @@ export function DailyReport() {
                 <th className="text-left py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Student</th>
                 <th className="text-left py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Month</th>
                 <th className="text-left py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Mode</th>
+                <th className="text-right py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Late Fee</th>
                 <th className="text-right py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Amount</th>
               </tr>
             </thead>
@@ -123,12 +129,15 @@ export function DailyReport() {
                   <td className="py-3 px-4">
                     <Badge variant="info">{record.paymentMode.replace('_', ' ')}</Badge>
                   </td>
+                  <td className="py-3 px-4 text-right text-sm text-gray-600">
+                    {record.lateFee > 0 ? `Rs. ${record.lateFee.toLocaleString()}` : '-'}
+                  </td>
                   <td className="py-3 px-4 text-right font-semibold text-gray-900">Rs. {record.amountPaid.toLocaleString()}</td>
                 </tr>
               ))}
               {dailyRecords.length === 0 && (
                 <tr>
-                  <td colSpan={6} className="py-12 text-center text-gray-500">
+                  <td colSpan={7} className="py-12 text-center text-gray-500">
                     No transactions found for this date
                   </td>
                 </tr>
@@ -138,6 +147,7 @@ export function DailyReport() {
               <tfoot className="bg-gray-50">
                 <tr>
                   <td colSpan={5} className="py-3 px-4 font-bold text-gray-900">Total</td>
+                  <td className="py-3 px-4 text-right font-semibold text-gray-900">Rs. {totalLateFees.toLocaleString()}</td>
                   <td className="py-3 px-4 text-right font-bold text-emerald-600 text-lg">Rs. {totalCollection.toLocaleString()}</td>
                 </tr>
               </tfoot>
@@ -4,7 +4,7 @@ import { Card } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
 import { Input, Select } from '@/components/ui/Input';
 import { Badge } from '@/components/ui/Badge';
-import { getStudents, getClasses, getFeeRecords, formatCurrency } from '@/store';
+import { getStudents, getClasses, getStudentsDues, formatCurrency } from '@/store';
 
 interface DefaultersReportProps {
   onNavigate: (page: string) => void;
@@ -17,57 +17,17 @@ export function DefaultersReport({ onNavigate }: DefaultersReportProps) {
 
   const students = getStudents().filter(s => s.status === 'active');
   const classes = getClasses();
-  const feeRecords = getFeeRecords();
 
-  // Get current date info
-  const currentDate = new Date();
-  const currentMonth = currentDate.getMonth() + 1;
-  const currentYear = currentDate.getFullYear();
-
-  // Calculate defaulters with proper logic
-  const defaulters = students.map(student => {
-    const studentRecords = feeRecords.filter(r => r.studentId === student.id && r.feeYear === currentYear);
-    
-    // Get admission info
-    const admissionDate = new Date(student.admissionDate);
-    const admissionYear = admissionDate.getFullYear();
-    const admissionMonth = admissionDate.getMonth() + 1;
-    
-    // Determine start month
-    let startMonth: number;
-    if (admissionYear < currentYear) {
-      startMonth = 1;
-    } else if (admissionYear === currentYear) {
-      startMonth = admissionMonth;
-    } else {
-      startMonth = currentMonth + 1; // Future admission
-    }
-    
-    // Get paid months
-    const paidMonths = studentRecords.filter(r => r.status === 'paid').map(r => r.feeMonth);
-    
-    // Calculate pending months
-    const shouldHavePaid: number[] = [];
-    for (let month = startMonth; month <= currentMonth; month++) {
-      shouldHavePaid.push(month);
-    }
-    
-    const unpaidMonths = shouldHavePaid.filter(m => !paidMonths.includes(m));
-    const monthlyTotal = student.monthlyFee + (student.transportOpted ? student.transportFee : 0);
-    const pendingAmount = unpaidMonths.length * monthlyTotal;
-    
-    // Add partial payment balance
-    const partialDue = studentRecords
-      .filter(r => r.status === 'partial')
-      .reduce((sum, r) => sum + r.balanceDue, 0);
-    
-    const totalPending = pendingAmount + partialDue;
-    
+  // Dues across academic years, so December arrears still show in January
+  const defaulters = getStudentsDues(students).map((dues, index) => {
+    const student = students[index];
     return {
       ...student,
-      pendingAmount: totalPending,
-      monthsPending: unpaidMonths.length,
-      monthsPaid: paidMonths.length,
+      pendingAmount: dues.totalOutstanding,
+      monthsPending: dues.dueMonths.length,
+      monthsPaid: dues.months.length - dues.dueMonths.length,
+      overdueInstallments: dues.overdueInstallments.length,
+      unpaidCharges: dues.months.flatMap(m => m.heads).filter(h => h.chargeId !== undefined && h.outstanding > 0).length,
       className: classes.find(c => c.id === student.classId)?.className || 'N/A',
     };
   }).filter(s => s.pendingAmount > 0);
@@ -214,6 +174,16 @@ export function DefaultersReport({ onNavigate }: DefaultersReportProps) {
                     <Badge variant={defaulter.monthsPending > 3 ? 'danger' : 'warning'}>
                       {defaulter.monthsPending} months
                     </Badge>
+                    {defaulter.overdueInstallments > 0 && (
+                      <span className="block mt-1 text-xs font-medium text-red-600">
+                        {defaulter.overdueInstallments} installment{defaulter.overdueInstallments === 1 ? '' : 's'} overdue
+                      </span>
+                    )}
+                    {defaulter.unpaidCharges > 0 && (
+                      <span className="block mt-1 text-xs font-medium text-amber-600">
+                        {defaulter.unpaidCharges} additional charge{defaulter.unpaidCharges === 1 ? '' : 's'} unpaid
+                      </span>
+                    )}
                   </td>
                   <td className="py-3 px-4">
                     <span className="text-lg font-bold text-red-600">{formatCurrency(defaulter.pendingAmount)}</span>
@@ -25,6 +25,7 @@ export function MonthlyReport() {
   });
 
   const totalCollection = monthlyRecords.reduce((sum, r) => sum + r.amountPaid, 0);
+  const totalLateFees = monthlyRecords.reduce((sum, r) => sum + (r.lateFee || 0), 0);
   const totalReceipts = monthlyRecords.length;
   const avgPerReceipt = totalReceipts > 0 ? Math.round(totalCollection / totalReceipts) : 0;
 
@@ -94,7 +95,7 @@ export function MonthlyReport() {
       </Card>
 
       {/* Summary Cards */}
-      <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+      <div className="grid grid-cols-1 md:grid-cols-5 gap-6">
         <StatCard
           title="Total Collection"
           value={`Rs. ${totalCollection.toLocaleString()}`}
@@ -106,6 +107,10 @@ export function MonthlyReport() {
           <p className="text-gray-500 text-sm">Total Receipts</p>
           <p className="text-3xl font-bold text-gray-900 mt-1">{totalReceipts}</p>
         </Card>
+        <Card>
+          <p className="text-gray-500 text-sm">Late Fees</p>
+          <p className="text-3xl font-bold text-gray-900 mt-1">Rs. {totalLateFees.toLocaleString()}</p>
+        </Card>
         <Card>
           <p className="text-gray-500 text-sm">Average per Receipt</p>
           <p className="text-3xl font-bold text-gray-900 mt-1">Rs. {avgPerReceipt.toLocaleString()}</p>
@@ -0,0 +1,239 @@
+import { useState, useMemo } from 'react';
+import { BedDouble, Users, Wallet, AlertTriangle } from 'lucide-react';
+import { Card, StatCard } from '@/components/ui/Card';
+import { Input, Select } from '@/components/ui/Input';
+import { Badge } from '@/components/ui/Badge';
+import { getLocalDateString, formatCurrency } from '@/store';
+import {
+  useAcademicYears, useBedAllocations, useClasses, useHostelRooms, useHostels, useStudents, useStudentsDues
+} from '@/hooks/useStore';
+import { getBedStatuses } from '@/utils/boarding';
+
+const months = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December'
+];
+
+export function OccupancyReport() {
+  const [date, setDate] = useState(getLocalDateString());
+  const [selectedHostel, setSelectedHostel] = useState('');
+
+  const month = Number(date.slice(5, 7));
+  const year = Number(date.slice(0, 4));
+  const { data: hostels } = useHostels();
+  const { data: allRooms } = useHostelRooms();
+  const { data: allocations } = useBedAllocations();
+  const { data: academicYears } = useAcademicYears();
+  const { data: students } = useStudents();
+  const { data: classes } = useClasses();
+  const rooms = useMemo(() => allRooms.filter(r => r.isActive), [allRooms]);
+  const beds = useMemo(
+    () => getBedStatuses(rooms, allocations, date, academicYears), [rooms, allocations, date, academicYears]
+  );
+
+  // Boarding and mess charged and paid for the month, per boarder, from their dues
+  const boarders = useMemo(
+    () => students.filter(s => beds.some(b => b.allocation?.studentId === s.id)), [students, beds]
+  );
+  const { data: dues } = useStudentsDues(boarders);
+  const boardingDues = new Map(dues.map(dues => {
+    const heads = dues.months
+      .find(m => m.feeMonth === month && m.feeYear === year)?.heads
+      .filter(h => h.feeHeadId === null && (h.headName === 'Boarding Fee' || h.headName === 'Mess Fee')) || [];
+    return [dues.studentId, {
+      charged: heads.reduce((sum, h) => sum + h.charged, 0),
+      paid: heads.reduce((sum, h) => sum + h.paid, 0),
+      outstanding: heads.reduce((sum, h) => sum + h.outstanding, 0),
+    }] as const;
+  }));
+
+  const summary = hostels.map(hostel => {
+    const hostelBeds = beds.filter(b => b.room.hostelId === hostel.id);
+    const occupied = hostelBeds.filter(b => b.allocation);
+    const dues = occupied.map(b => boardingDues.get(b.allocation!.studentId));
+    return {
+      hostel,
+      rooms: rooms.filter(r => r.hostelId === hostel.id).length,
+      beds: hostelBeds.length,
+      occupied: occupied.length,
+      paid: dues.reduce((sum, d) => sum + (d?.paid || 0), 0),
+      outstanding: dues.reduce((sum, d) => sum + (d?.outstanding || 0), 0),
+    };
+  });
+  const totals = summary.reduce((acc, s) => ({
+    beds: acc.beds + s.beds,
+    occupied: acc.occupied + s.occupied,
+    paid: acc.paid + s.paid,
+    outstanding: acc.outstanding + s.outstanding,
+  }), { beds: 0, occupied: 0, paid: 0, outstanding: 0 });
+  const percent = (occupied: number, total: number) => total > 0 ? `${Math.round(occupied / total * 100)}%` : '-';
+
+  const hostelBeds = beds.filter(b => b.room.hostelId === Number(selectedHostel));
+
+  return (
+    <div className="p-6 space-y-6">
+      {/* Filters */}
+      <Card>
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="w-48">
+            <Input label="As on" type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+          </div>
+          <div className="w-56">
+            <Select
+              label="Bed Register"
+              value={selectedHostel}
+              onChange={(e) => setSelectedHostel(e.target.value)}
+              options={[{ value: '', label: 'Select hostel' }, ...hostels.map(h => ({ value: String(h.id), label: h.hostelName }))]}
+            />
+          </div>
+        </div>
+      </Card>
+
+      {/* Summary Cards */}
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+        <StatCard
+          title="Beds Occupied"
+          value={`${totals.occupied}/${totals.beds}`}
+          icon={<BedDouble className="w-6 h-6 text-blue-600" />}
+          iconBg="bg-blue-100"
+        />
+        <StatCard
+          title="Vacant Beds"
+          value={(totals.beds - totals.occupied).toString()}
+          icon={<Users className="w-6 h-6 text-amber-600" />}
+          iconBg="bg-amber-100"
+        />
+        <StatCard
+          title={`Collected - ${months[month - 1]}`}
+          value={formatCurrency(totals.paid)}
+          icon={<Wallet className="w-6 h-6 text-green-600" />}
+          iconBg="bg-green-100"
+        />
+        <StatCard
+          title={`Outstanding - ${months[month - 1]}`}
+          value={formatCurrency(totals.outstanding)}
+          icon={<AlertTriangle className="w-6 h-6 text-red-600" />}
+          iconBg="bg-red-100"
+        />
+      </div>
+
+      {/* Hostel Summary */}
+      <Card padding="none">
+        <div className="p-4 border-b border-gray-200">
+          <h3 className="font-semibold text-gray-900">Hostel Occupancy - {date}</h3>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="text-left py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Hostel</th>
+                <th className="text-right py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Rooms</th>
+                <th className="text-right py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Beds</th>
+                <th className="text-right py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Occupied</th>
+                <th className="text-right py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Vacant</th>
+                <th className="text-right py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Occupancy</th>
+                <th className="text-right py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Collected</th>
+                <th className="text-right py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Outstanding</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {summary.map(s => (
+                <tr
+                  key={s.hostel.id}
+                  className={`cursor-pointer hover:bg-gray-50 ${String(s.hostel.id) === selectedHostel ? 'bg-blue-50' : ''}`}
+                  onClick={() => setSelectedHostel(String(s.hostel.id))}
+                >
+                  <td className="py-3 px-4 text-sm font-medium text-gray-900">{s.hostel.hostelCode} - {s.hostel.hostelName}</td>
+                  <td className="py-3 px-4 text-right text-sm text-gray-600">{s.rooms}</td>
+                  <td className="py-3 px-4 text-right text-sm text-gray-900">{s.beds}</td>
+                  <td className="py-3 px-4 text-right text-sm text-gray-900">{s.occupied}</td>
+                  <td className="py-3 px-4 text-right text-sm text-gray-900">{s.beds - s.occupied}</td>
+                  <td className="py-3 px-4 text-right text-sm font-semibold text-blue-600">{percent(s.occupied, s.beds)}</td>
+                  <td className="py-3 px-4 text-right text-sm font-semibold text-green-600">{formatCurrency(s.paid)}</td>
+                  <td className="py-3 px-4 text-right text-sm font-semibold text-red-600">{formatCurrency(s.outstanding)}</td>
+                </tr>
+              ))}
+              {summary.length === 0 && (
+                <tr>
+                  <td colSpan={8} className="py-12 text-center text-gray-500">No hostels set up yet</td>
+                </tr>
+              )}
+            </tbody>
+            {summary.length > 0 && (
+              <tfoot className="bg-gray-50 border-t border-gray-200">
+                <tr>
+                  <td colSpan={2} className="py-3 px-4 text-sm font-semibold text-gray-900">Total</td>
+                  <td className="py-3 px-4 text-right text-sm font-semibold text-gray-900">{totals.beds}</td>
+                  <td className="py-3 px-4 text-right text-sm font-semibold text-gray-900">{totals.occupied}</td>
+                  <td className="py-3 px-4 text-right text-sm font-semibold text-gray-900">{totals.beds - totals.occupied}</td>
+                  <td className="py-3 px-4 text-right text-sm font-semibold text-blue-600">{percent(totals.occupied, totals.beds)}</td>
+                  <td className="py-3 px-4 text-right text-sm font-semibold text-green-600">{formatCurrency(totals.paid)}</td>
+                  <td className="py-3 px-4 text-right text-sm font-semibold text-red-600">{formatCurrency(totals.outstanding)}</td>
+                </tr>
+              </tfoot>
+            )}
+          </table>
+        </div>
+      </Card>
+
+      {/* Bed Register */}
+      {selectedHostel && (
+        <Card padding="none">
+          <div className="p-4 border-b border-gray-200">
+            <h3 className="font-semibold text-gray-900">
+              Bed Register - {hostels.find(h => h.id === Number(selectedHostel))?.hostelName}
+            </h3>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50 border-b border-gray-200">
+                <tr>
+                  <th className="text-left py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Room</th>
+                  <th className="text-left py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Bed</th>
+                  <th className="text-left py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Boarder</th>
+                  <th className="text-left py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Class</th>
+                  <th className="text-left py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Since</th>
+                  <th className="text-right py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Charged</th>
+                  <th className="text-right py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Outstanding</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {hostelBeds.map(({ room, bedNumber, allocation }) => {
+                  const student = students.find(s => s.id === allocation?.studentId);
+                  const dues = allocation ? boardingDues.get(allocation.studentId) : undefined;
+                  return (
+                    <tr key={`${room.id}-${bedNumber}`} className="hover:bg-gray-50">
+                      <td className="py-3 px-4 text-sm text-gray-900">{room.roomNumber}</td>
+                      <td className="py-3 px-4 text-sm text-gray-600">{bedNumber}</td>
+                      <td className="py-3 px-4">
+                        {student ? (
+                          <>
+                            <p className="text-sm font-medium text-gray-900">{student.firstName} {student.lastName}</p>
+                            <p className="text-xs text-gray-500">{student.studentId}</p>
+                          </>
+                        ) : <Badge variant="success">Vacant</Badge>}
+                      </td>
+                      <td className="py-3 px-4 text-sm text-gray-600">
+                        {student ? classes.find(c => c.id === student.classId)?.className || 'N/A' : '-'}
+                      </td>
+                      <td className="py-3 px-4 text-sm text-gray-600">{allocation?.checkIn || '-'}</td>
+                      <td className="py-3 px-4 text-right text-sm text-gray-900">{dues ? formatCurrency(dues.charged) : '-'}</td>
+                      <td className={`py-3 px-4 text-right text-sm font-semibold ${dues && dues.outstanding > 0 ? 'text-red-600' : 'text-gray-900'}`}>
+                        {dues ? formatCurrency(dues.outstanding) : '-'}
+                      </td>
+                    </tr>
+                  );
+                })}
+                {hostelBeds.length === 0 && (
+                  <tr>
+                    <td colSpan={7} className="py-12 text-center text-gray-500">No active rooms in this hostel</td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,236 @@
+import { useState, useMemo } from 'react';
+import { Printer, Users, Wallet, AlertTriangle } from 'lucide-react';
+import { Card, StatCard } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Select } from '@/components/ui/Input';
+import { formatCurrency } from '@/store';
+import {
+  useClasses, useStudents, useStudentsDues, useTransportAssignments, useTransportRoutes, useTransportStops, useVehicles
+} from '@/hooks/useStore';
+import { getRouteRoster } from '@/utils/transport';
+import { generateRouteRoster } from '@/utils/pdfGenerator';
+
+const months = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December'
+];
+
+export function TransportReport() {
+  const currentDate = new Date();
+  const [selectedMonth, setSelectedMonth] = useState((currentDate.getMonth() + 1).toString());
+  const [selectedYear, setSelectedYear] = useState(currentDate.getFullYear().toString());
+  const [pickedRoute, setPickedRoute] = useState('');
+
+  const month = Number(selectedMonth);
+  const year = Number(selectedYear);
+  const { data: routes } = useTransportRoutes();
+  const { data: students } = useStudents();
+  const { data: stops } = useTransportStops();
+  const { data: assignments } = useTransportAssignments();
+  const { data: vehicles } = useVehicles();
+  const { data: classes } = useClasses();
+  // The first active route until another is picked
+  const selectedRoute = pickedRoute || String(routes.find(r => r.isActive)?.id || '');
+
+  // Transport charged and paid for the month, per rider, from their dues
+  const rosters = useMemo(() => routes.map(route => ({
+    route,
+    roster: getRouteRoster(route.id, stops, students, assignments, month, year),
+  })), [routes, stops, students, assignments, month, year]);
+  const riders = useMemo(() => rosters.flatMap(r => r.roster.map(entry => entry.student)), [rosters]);
+  const { data: dues } = useStudentsDues(riders);
+  const transportDues = new Map(dues.map(dues => {
+    const head = dues.months
+      .find(m => m.feeMonth === month && m.feeYear === year)?.heads
+      .find(h => h.feeHeadId === null && h.headName === 'Transport Fee');
+    return [dues.studentId, head] as const;
+  }));
+
+  const summary = rosters.map(({ route, roster }) => {
+    const heads = roster.map(entry => transportDues.get(entry.student.id));
+    return {
+      route,
+      vehicle: vehicles.find(v => v.id === route.vehicleId),
+      riders: roster.length,
+      charged: heads.reduce((sum, h) => sum + (h?.charged || 0), 0),
+      paid: heads.reduce((sum, h) => sum + (h?.paid || 0), 0),
+      outstanding: heads.reduce((sum, h) => sum + (h?.outstanding || 0), 0),
+    };
+  });
+  const totals = summary.reduce((acc, s) => ({
+    riders: acc.riders + s.riders,
+    charged: acc.charged + s.charged,
+    paid: acc.paid + s.paid,
+    outstanding: acc.outstanding + s.outstanding,
+  }), { riders: 0, charged: 0, paid: 0, outstanding: 0 });
+
+  const selected = rosters.find(r => r.route.id === Number(selectedRoute));
+
+  return (
+    <div className="p-6 space-y-6">
+      {/* Filters */}
+      <Card>
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="w-40">
+            <Select
+              label="Month"
+              value={selectedMonth}
+              onChange={(e) => setSelectedMonth(e.target.value)}
+              options={months.map((m, i) => ({ value: (i + 1).toString(), label: m }))}
+            />
+          </div>
+          <div className="w-32">
+            <Select
+              label="Year"
+              value={selectedYear}
+              onChange={(e) => setSelectedYear(e.target.value)}
+              options={[-1, 0, 1].map(offset => {
+                const y = (currentDate.getFullYear() + offset).toString();
+                return { value: y, label: y };
+              })}
+            />
+          </div>
+        </div>
+      </Card>
+
+      {/* Summary Cards */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <StatCard
+          title="Students on Transport"
+          value={totals.riders.toString()}
+          icon={<Users className="w-6 h-6 text-blue-600" />}
+          iconBg="bg-blue-100"
+        />
+        <StatCard
+          title="Transport Collected"
+          value={formatCurrency(totals.paid)}
+          icon={<Wallet className="w-6 h-6 text-green-600" />}
+          iconBg="bg-green-100"
+        />
+        <StatCard
+          title="Transport Outstanding"
+          value={formatCurrency(totals.outstanding)}
+          icon={<AlertTriangle className="w-6 h-6 text-red-600" />}
+          iconBg="bg-red-100"
+        />
+      </div>
+
+      {/* Route Summary */}
+      <Card padding="none">
+        <div className="p-4 border-b border-gray-200">
+          <h3 className="font-semibold text-gray-900">Route-wise Collection - {months[month - 1]} {year}</h3>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="text-left py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Route</th>
+                <th className="text-left py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Vehicle</th>
+                <th className="text-right py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Students</th>
+                <th className="text-right py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Charged</th>
+                <th className="text-right py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Collected</th>
+                <th className="text-right py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Outstanding</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {summary.map(s => (
+                <tr
+                  key={s.route.id}
+                  className={`cursor-pointer hover:bg-gray-50 ${String(s.route.id) === selectedRoute ? 'bg-blue-50' : ''}`}
+                  onClick={() => setPickedRoute(String(s.route.id))}
+                >
+                  <td className="py-3 px-4 text-sm font-medium text-gray-900">{s.route.routeCode} - {s.route.routeName}</td>
+                  <td className="py-3 px-4 text-sm text-gray-600">
+                    {s.vehicle ? `${s.vehicle.registrationNumber} • ${s.vehicle.driverName}` : '-'}
+                  </td>
+                  <td className="py-3 px-4 text-right text-sm text-gray-900">
+                    {s.riders}{s.vehicle ? `/${s.vehicle.capacity}` : ''}
+                  </td>
+                  <td className="py-3 px-4 text-right text-sm text-gray-900">{formatCurrency(s.charged)}</td>
+                  <td className="py-3 px-4 text-right text-sm font-semibold text-green-600">{formatCurrency(s.paid)}</td>
+                  <td className="py-3 px-4 text-right text-sm font-semibold text-red-600">{formatCurrency(s.outstanding)}</td>
+                </tr>
+              ))}
+              {summary.length === 0 && (
+                <tr>
+                  <td colSpan={6} className="py-12 text-center text-gray-500">No routes set up yet</td>
+                </tr>
+              )}
+            </tbody>
+            {summary.length > 0 && (
+              <tfoot className="bg-gray-50 border-t border-gray-200">
+                <tr>
+                  <td colSpan={2} className="py-3 px-4 text-sm font-semibold text-gray-900">Total</td>
+                  <td className="py-3 px-4 text-right text-sm font-semibold text-gray-900">{totals.riders}</td>
+                  <td className="py-3 px-4 text-right text-sm font-semibold text-gray-900">{formatCurrency(totals.charged)}</td>
+                  <td className="py-3 px-4 text-right text-sm font-semibold text-green-600">{formatCurrency(totals.paid)}</td>
+                  <td className="py-3 px-4 text-right text-sm font-semibold text-red-600">{formatCurrency(totals.outstanding)}</td>
+                </tr>
+              </tfoot>
+            )}
+          </table>
+        </div>
+      </Card>
+
+      {/* Route Roster */}
+      {selected && (
+        <Card padding="none">
+          <div className="p-4 border-b border-gray-200 flex items-center justify-between">
+            <h3 className="font-semibold text-gray-900">
+              Roster - {selected.route.routeCode} {selected.route.routeName}
+            </h3>
+            <Button
+              size="sm"
+              variant="secondary"
+              icon={<Printer className="w-4 h-4" />}
+              onClick={() => generateRouteRoster(selected.route, month, year)}
+            >
+              Print Roster
+            </Button>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50 border-b border-gray-200">
+                <tr>
+                  <th className="text-left py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Stop</th>
+                  <th className="text-left py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Pickup</th>
+                  <th className="text-left py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Student</th>
+                  <th className="text-left py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Class</th>
+                  <th className="text-left py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Contact</th>
+                  <th className="text-right py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Charged</th>
+                  <th className="text-right py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Outstanding</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {selected.roster.map(({ student, stop }) => {
+                  const head = transportDues.get(student.id);
+                  return (
+                    <tr key={student.id} className="hover:bg-gray-50">
+                      <td className="py-3 px-4 text-sm text-gray-900">{stop.stopName}</td>
+                      <td className="py-3 px-4 text-sm text-gray-600">{stop.pickupTime || '-'}</td>
+                      <td className="py-3 px-4">
+                        <p className="text-sm font-medium text-gray-900">{student.firstName} {student.lastName}</p>
+                        <p className="text-xs text-gray-500">{student.studentId}</p>
+                      </td>
+                      <td className="py-3 px-4 text-sm text-gray-600">{classes.find(c => c.id === student.classId)?.className || 'N/A'}</td>
+                      <td className="py-3 px-4 text-sm text-gray-600">{student.fatherPhone || student.guardianPhone || '-'}</td>
+                      <td className="py-3 px-4 text-right text-sm text-gray-900">{head ? formatCurrency(head.charged) : '-'}</td>
+                      <td className={`py-3 px-4 text-right text-sm font-semibold ${head && head.outstanding > 0 ? 'text-red-600' : 'text-gray-900'}`}>
+                        {head ? formatCurrency(head.outstanding) : '-'}
+                      </td>
+                    </tr>
+                  );
+                })}
+                {selected.roster.length === 0 && (
+                  <tr>
+                    <td colSpan={7} className="py-12 text-center text-gray-500">No students on this route for the month</td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,195 @@
+import { useState } from 'react';
+import { Download, HandCoins, FileX, Clock, XCircle } from 'lucide-react';
+import { Card, StatCard } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Input, Select } from '@/components/ui/Input';
+import { Badge } from '@/components/ui/Badge';
+import { useClasses, useFeeWaivers, useStudents, useUsers } from '@/hooks/useStore';
+import { downloadWaiverRegisterAsCSV } from '@/utils/pdfGenerator';
+import { WAIVER_TYPE_LABELS, getWaiverTotal } from '@/utils/waivers';
+import type { FeeWaiver } from '@/types';
+
+const months = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December'
+];
+
+const statusVariant: Record<FeeWaiver['status'], 'warning' | 'success' | 'danger'> = {
+  pending: 'warning',
+  approved: 'success',
+  rejected: 'danger',
+};
+
+export function WaiverRegister() {
+  const currentDate = new Date();
+  const [fromDate, setFromDate] = useState(`${currentDate.getFullYear()}-01-01`);
+  const [toDate, setToDate] = useState(currentDate.toISOString().split('T')[0]);
+  const [typeFilter, setTypeFilter] = useState('');
+  const [statusFilter, setStatusFilter] = useState('');
+
+  const { data: students } = useStudents();
+  const { data: classes } = useClasses();
+  const { data: users } = useUsers();
+  const { data: allWaivers } = useFeeWaivers();
+
+  // Requests are registered by the day they were raised
+  const waivers = allWaivers
+    .filter(w => {
+      const requested = w.requestedAt.split('T')[0];
+      return requested >= fromDate && requested <= toDate &&
+        (!typeFilter || w.waiverType === typeFilter) &&
+        (!statusFilter || w.status === statusFilter);
+    })
+    .sort((a, b) => b.requestedAt.localeCompare(a.requestedAt));
+
+  const approved = waivers.filter(w => w.status === 'approved');
+  const totalWaived = approved.filter(w => w.waiverType === 'waiver').reduce((sum, w) => sum + getWaiverTotal(w), 0);
+  const totalWrittenOff = approved.filter(w => w.waiverType === 'write_off').reduce((sum, w) => sum + getWaiverTotal(w), 0);
+  const pending = waivers.filter(w => w.status === 'pending');
+  const rejected = waivers.filter(w => w.status === 'rejected');
+
+  const getStudent = (studentId: number) => students.find(s => s.id === studentId);
+  const getClassName = (classId?: number) => classes.find(c => c.id === classId)?.className || 'N/A';
+  const userName = (userId?: number) => users.find(u => u.id === userId)?.fullName || '-';
+
+  return (
+    <div className="p-6 space-y-6">
+      {/* Filters */}
+      <Card>
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="w-44">
+            <Input label="From" type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} />
+          </div>
+          <div className="w-44">
+            <Input label="To" type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} />
+          </div>
+          <div className="w-40">
+            <Select
+              label="Type"
+              value={typeFilter}
+              onChange={(e) => setTypeFilter(e.target.value)}
+              options={[
+                { value: '', label: 'All Types' },
+                { value: 'waiver', label: 'Waivers' },
+                { value: 'write_off', label: 'Write-offs' },
+              ]}
+            />
+          </div>
+          <div className="w-40">
+            <Select
+              label="Status"
+              value={statusFilter}
+              onChange={(e) => setStatusFilter(e.target.value)}
+              options={[
+                { value: '', label: 'All' },
+                { value: 'pending', label: 'Pending' },
+                { value: 'approved', label: 'Approved' },
+                { value: 'rejected', label: 'Rejected' },
+              ]}
+            />
+          </div>
+          <div className="ml-auto">
+            <Button
+              variant="secondary"
+              icon={<Download className="w-4 h-4" />}
+              disabled={waivers.length === 0}
+              onClick={() => downloadWaiverRegisterAsCSV(waivers)}
+            >
+              Export CSV
+            </Button>
+          </div>
+        </div>
+      </Card>
+
+      {/* Summary Cards */}
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+        <StatCard
+          title="Waived"
+          value={`Rs. ${totalWaived.toLocaleString()}`}
+          icon={<HandCoins className="w-6 h-6 text-emerald-600" />}
+          iconBg="bg-emerald-100"
+        />
+        <StatCard
+          title="Written Off"
+          value={`Rs. ${totalWrittenOff.toLocaleString()}`}
+          icon={<FileX className="w-6 h-6 text-amber-600" />}
+          iconBg="bg-amber-100"
+        />
+        <StatCard
+          title="Awaiting Approval"
+          value={`${pending.length} (Rs. ${pending.reduce((sum, w) => sum + getWaiverTotal(w), 0).toLocaleString()})`}
+          icon={<Clock className="w-6 h-6 text-blue-600" />}
+          iconBg="bg-blue-100"
+        />
+        <StatCard
+          title="Rejected"
+          value={rejected.length.toString()}
+          icon={<XCircle className="w-6 h-6 text-red-600" />}
+          iconBg="bg-red-100"
+        />
+      </div>
+
+      {/* Register */}
+      <Card padding="none">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="text-left py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Requested</th>
+                <th className="text-left py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Student</th>
+                <th className="text-left py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Type</th>
+                <th className="text-left py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Month / Head</th>
+                <th className="text-right py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Amount</th>
+                <th className="text-left py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Reason</th>
+                <th className="text-left py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Status</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {waivers.map(waiver => {
+                const student = getStudent(waiver.studentId);
+                return (
+                  <tr key={waiver.id} className="hover:bg-gray-50 align-top">
+                    <td className="py-3 px-4 text-sm text-gray-600">
+                      {waiver.requestedAt.split('T')[0]}
+                      <span className="block text-xs text-gray-500">{userName(waiver.requestedBy)}</span>
+                    </td>
+                    <td className="py-3 px-4">
+                      <p className="text-sm font-medium text-gray-900">{student ? `${student.firstName} ${student.lastName || ''}` : 'Unknown'}</p>
+                      <p className="text-xs text-gray-500">{student?.studentId} • {getClassName(student?.classId)}</p>
+                    </td>
+                    <td className="py-3 px-4 text-sm text-gray-900">{WAIVER_TYPE_LABELS[waiver.waiverType]}</td>
+                    <td className="py-3 px-4 text-sm text-gray-600">
+                      {waiver.lines.map((line, i) => (
+                        <div key={i} className="flex justify-between gap-4">
+                          <span>{months[line.feeMonth - 1].slice(0, 3)} {line.feeYear} - {line.headName}</span>
+                          <span>Rs. {line.amount.toLocaleString()}</span>
+                        </div>
+                      ))}
+                    </td>
+                    <td className="py-3 px-4 text-right text-sm font-semibold text-gray-900">Rs. {getWaiverTotal(waiver).toLocaleString()}</td>
+                    <td className="py-3 px-4 text-sm text-gray-600 max-w-xs">{waiver.reason}</td>
+                    <td className="py-3 px-4">
+                      <Badge variant={statusVariant[waiver.status]}>
+                        {waiver.status === 'pending' ? 'Pending' : waiver.status === 'approved' ? 'Approved' : 'Rejected'}
+                      </Badge>
+                      {waiver.reviewedBy && (
+                        <span className="block text-xs text-gray-500 mt-1">
+                          {userName(waiver.reviewedBy)}{waiver.selfReviewed ? ' (own request)' : ''} • {waiver.reviewedAt?.split('T')[0]}
+                        </span>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+              {waivers.length === 0 && (
+                <tr>
+                  <td colSpan={7} className="py-12 text-center text-gray-500">No waivers or write-offs in this period</td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </Card>
+    </div>
+  );
+}
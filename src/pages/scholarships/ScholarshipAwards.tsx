@@ -0,0 +1,397 @@
+import { useState } from 'react';
+import { Search, Award, RefreshCw, Edit2, Mail, AlertTriangle } from 'lucide-react';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Input, Select, Textarea } from '@/components/ui/Input';
+import { Badge } from '@/components/ui/Badge';
+import { Modal } from '@/components/ui/Modal';
+import { useToast } from '@/components/ui/Toast';
+import {
+  saveScholarshipAward, renewScholarshipAward, getCurrentUser, getLocalDateString, formatCurrency
+} from '@/store';
+import {
+  useClasses, useExpiringScholarships, useScholarshipAwards, useScholarshipPrograms, useSponsors, useStudents
+} from '@/hooks/useStore';
+import { getAwardEndDate } from '@/utils/scholarships';
+import type { ScholarshipAward } from '@/types';
+
+const months = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December'
+];
+
+const formatMonth = (date: string) => `${months[Number(date.slice(5, 7)) - 1]} ${date.slice(0, 4)}`;
+
+const emptyForm = () => ({
+  id: 0,
+  studentId: '',
+  programId: '',
+  awardFrom: getLocalDateString().slice(0, 7),
+  awardTo: '',
+  remarks: '',
+});
+
+export function ScholarshipAwards() {
+  const { showToast } = useToast();
+  const [search, setSearch] = useState('');
+  const [programFilter, setProgramFilter] = useState('');
+  const [statusFilter, setStatusFilter] = useState('current');
+  const [form, setForm] = useState<ReturnType<typeof emptyForm> | null>(null);
+  const [renewing, setRenewing] = useState<ScholarshipAward | null>(null);
+  const [renewTo, setRenewTo] = useState('');
+  const [renewRemarks, setRenewRemarks] = useState('');
+
+  const role = getCurrentUser()?.role;
+  const canManage = role === 'admin' || role === 'accountant';
+  const thisMonth = getLocalDateString().slice(0, 7);
+
+  const { data: students } = useStudents();
+  const { data: classes } = useClasses();
+  const { data: sponsors } = useSponsors();
+  const { data: programs } = useScholarshipPrograms();
+  const { data: awards } = useScholarshipAwards();
+  const { data: expiring } = useExpiringScholarships();
+
+  const describeProgram = (programId: number) => {
+    const program = programs.find(p => p.id === programId);
+    if (!program) return { name: 'Unknown', sponsor: '-', coverage: '-' };
+    return {
+      name: program.name,
+      sponsor: sponsors.find(s => s.id === program.sponsorId)?.name || '-',
+      coverage: program.coverageType === 'percentage' ? `${program.value}%` : `${formatCurrency(program.value)} / month`,
+    };
+  };
+
+  const rows = awards
+    .map(award => {
+      const student = students.find(s => s.id === award.studentId);
+      const status = award.awardFrom.slice(0, 7) > thisMonth ? 'upcoming'
+        : award.awardTo.slice(0, 7) < thisMonth ? 'ended' : 'current';
+      const renewed = awards.some(a => a.renewedFrom === award.id);
+      return { award, student, status, renewed };
+    })
+    .filter(({ award, student, status }) => {
+      const term = search.toLowerCase();
+      return (!term || (!!student && (
+        `${student.firstName} ${student.lastName || ''}`.toLowerCase().includes(term) ||
+        student.studentId.toLowerCase().includes(term)))) &&
+        (!programFilter || award.programId === Number(programFilter)) &&
+        (!statusFilter || (statusFilter === 'current' ? status !== 'ended' : status === statusFilter));
+    })
+    .sort((a, b) => b.award.awardFrom.localeCompare(a.award.awardFrom));
+
+  const studentOptions = students
+    .filter(s => s.status === 'active' || s.id === Number(form?.studentId))
+    .map(s => ({ value: String(s.id), label: `${s.firstName} ${s.lastName || ''} (${s.studentId})` }));
+  const programOptions = programs
+    .filter(p => p.isActive || p.id === Number(form?.programId))
+    .map(p => ({ value: String(p.id), label: `${p.name} - ${describeProgram(p.id).sponsor}` }));
+  const renewingProgram = programs.find(p => p.id === renewing?.programId);
+
+  const handleSave = () => {
+    if (!form) return;
+    const existing = awards.find(a => a.id === form.id);
+    try {
+      saveScholarshipAward({
+        ...(existing || { createdAt: '', updatedAt: '' }),
+        id: form.id,
+        studentId: Number(form.studentId),
+        programId: Number(form.programId),
+        awardFrom: form.awardFrom,
+        awardTo: form.awardTo,
+        remarks: form.remarks,
+      });
+      showToast('success', existing ? 'Award updated' : 'Scholarship awarded');
+      setForm(null);
+    } catch (error) {
+      showToast('error', error instanceof Error ? error.message : 'Failed to save award');
+    }
+  };
+
+  const handleRenew = () => {
+    if (!renewing) return;
+    try {
+      renewScholarshipAward(renewing.id, renewTo, renewRemarks);
+      showToast('success', 'Scholarship renewed');
+      setRenewing(null);
+    } catch (error) {
+      showToast('error', error instanceof Error ? error.message : 'Failed to renew award');
+    }
+  };
+
+  const openRenew = (award: ScholarshipAward) => {
+    const to = new Date(Number(award.awardTo.slice(0, 4)) + 1, Number(award.awardTo.slice(5, 7)) - 1, 1);
+    setRenewTo(`${to.getFullYear()}-${String(to.getMonth() + 1).padStart(2, '0')}`);
+    setRenewRemarks('');
+    setRenewing(award);
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      {/* Expiring Awards */}
+      {expiring.length > 0 && (
+        <Card padding="none">
+          <div className="p-4 border-b border-gray-200 flex items-center gap-2">
+            <AlertTriangle className="w-5 h-5 text-amber-500" />
+            <h3 className="font-semibold text-gray-900">Expiring Soon ({expiring.length})</h3>
+          </div>
+          <div className="divide-y divide-gray-100">
+            {expiring.map(({ award, student, program, sponsor }) => {
+              const subject = `Scholarship renewal - ${student.firstName} ${student.lastName || ''}`;
+              const body = `${program.name} for ${student.firstName} ${student.lastName || ''} (${student.studentId}) ` +
+                `ends on ${getAwardEndDate(award)}.` +
+                (program.renewalCriteria ? ` Renewal criteria: ${program.renewalCriteria}.` : '');
+              const mailto = (to: string) => `mailto:${to}?subject=${encodeURIComponent(subject)}&body=${encodeURIComponent(body)}`;
+              return (
+                <div key={award.id} className="p-4 flex flex-wrap items-center justify-between gap-3">
+                  <div>
+                    <p className="text-sm font-medium text-gray-900">
+                      {student.firstName} {student.lastName} <span className="text-gray-500">({student.studentId})</span>
+                    </p>
+                    <p className="text-xs text-gray-500">{program.name} - {sponsor.name} • ends {getAwardEndDate(award)}</p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {sponsor.email && (
+                      <a href={mailto(sponsor.email)} className="inline-flex items-center gap-1 text-sm text-blue-600 hover:underline">
+                        <Mail className="w-4 h-4" /> Sponsor
+                      </a>
+                    )}
+                    {student.fatherEmail && (
+                      <a href={mailto(student.fatherEmail)} className="inline-flex items-center gap-1 text-sm text-blue-600 hover:underline">
+                        <Mail className="w-4 h-4" /> Parent
+                      </a>
+                    )}
+                    {canManage && (
+                      <Button size="sm" variant="secondary" icon={<RefreshCw className="w-4 h-4" />} onClick={() => openRenew(award)}>
+                        Renew
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </Card>
+      )}
+
+      {/* Filters */}
+      <Card>
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="flex-1 min-w-[200px]">
+            <Input
+              label="Search"
+              placeholder="Name or student ID"
+              icon={<Search className="w-4 h-4" />}
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+            />
+          </div>
+          <div className="w-56">
+            <Select
+              label="Program"
+              value={programFilter}
+              onChange={(e) => setProgramFilter(e.target.value)}
+              options={[{ value: '', label: 'All Programs' }, ...programs.map(p => ({ value: String(p.id), label: p.name }))]}
+            />
+          </div>
+          <div className="w-40">
+            <Select
+              label="Status"
+              value={statusFilter}
+              onChange={(e) => setStatusFilter(e.target.value)}
+              options={[
+                { value: 'current', label: 'Current' },
+                { value: 'upcoming', label: 'Starting later' },
+                { value: 'ended', label: 'Ended' },
+                { value: '', label: 'All' },
+              ]}
+            />
+          </div>
+          {canManage && (
+            <Button
+              icon={<Award className="w-4 h-4" />}
+              disabled={!programs.some(p => p.isActive)}
+              onClick={() => setForm(emptyForm())}
+            >
+              Award Scholarship
+            </Button>
+          )}
+        </div>
+      </Card>
+
+      {/* Awards */}
+      <Card padding="none">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="text-left py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Student</th>
+                <th className="text-left py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Class</th>
+                <th className="text-left py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Program</th>
+                <th className="text-left py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Covers</th>
+                <th className="text-left py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Period</th>
+                <th className="text-left py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Status</th>
+                {canManage && <th className="text-right py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Actions</th>}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {rows.map(({ award, student, status, renewed }) => {
+                const program = describeProgram(award.programId);
+                return (
+                  <tr key={award.id} className="hover:bg-gray-50">
+                    <td className="py-3 px-4">
+                      <p className="text-sm font-medium text-gray-900">{student ? `${student.firstName} ${student.lastName || ''}` : 'Unknown'}</p>
+                      <p className="text-xs text-gray-500">{student?.studentId}</p>
+                    </td>
+                    <td className="py-3 px-4 text-sm text-gray-600">{classes.find(c => c.id === student?.classId)?.className || 'N/A'}</td>
+                    <td className="py-3 px-4 text-sm text-gray-900">
+                      {program.name}
+                      <span className="block text-xs text-gray-500">{program.sponsor}</span>
+                    </td>
+                    <td className="py-3 px-4 text-sm text-gray-900">{program.coverage}</td>
+                    <td className="py-3 px-4 text-sm text-gray-600">
+                      {formatMonth(award.awardFrom)} - {formatMonth(award.awardTo)}
+                      {award.remarks && <span className="block text-xs text-gray-500">{award.remarks}</span>}
+                    </td>
+                    <td className="py-3 px-4">
+                      <Badge variant={status === 'current' ? 'success' : status === 'upcoming' ? 'info' : 'default'}>
+                        {status === 'current' ? 'Current' : status === 'upcoming' ? 'Upcoming' : 'Ended'}
+                      </Badge>
+                      {award.renewedFrom && <span className="ml-1"><Badge variant="info">Renewal</Badge></span>}
+                    </td>
+                    {canManage && (
+                      <td className="py-3 px-4 text-right">
+                        <div className="flex items-center justify-end gap-1">
+                          <button
+                            onClick={() => setForm({
+                              id: award.id,
+                              studentId: String(award.studentId),
+                              programId: String(award.programId),
+                              awardFrom: award.awardFrom.slice(0, 7),
+                              awardTo: award.awardTo.slice(0, 7),
+                              remarks: award.remarks || '',
+                            })}
+                            className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg"
+                            title="Edit"
+                          >
+                            <Edit2 className="w-4 h-4" />
+                          </button>
+                          {!renewed && (
+                            <button onClick={() => openRenew(award)} className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg" title="Renew">
+                              <RefreshCw className="w-4 h-4" />
+                            </button>
+                          )}
+                        </div>
+                      </td>
+                    )}
+                  </tr>
+                );
+              })}
+              {rows.length === 0 && (
+                <tr>
+                  <td colSpan={7} className="py-12 text-center text-gray-500">No scholarship awards found</td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </Card>
+
+      {/* Award Modal */}
+      <Modal isOpen={!!form} onClose={() => setForm(null)} title={form?.id ? 'Edit Award' : 'Award Scholarship'}>
+        {form && (
+          <div className="space-y-4">
+            <Select
+              label="Student *"
+              value={form.studentId}
+              disabled={form.id > 0}
+              onChange={(e) => setForm({ ...form, studentId: e.target.value })}
+              options={[{ value: '', label: 'Select student' }, ...studentOptions]}
+            />
+            <Select
+              label="Program *"
+              value={form.programId}
+              onChange={(e) => setForm({ ...form, programId: e.target.value })}
+              options={[{ value: '', label: 'Select program' }, ...programOptions]}
+            />
+            <div className="grid grid-cols-2 gap-4">
+              <Input
+                label="From Month *"
+                type="month"
+                value={form.awardFrom}
+                onChange={(e) => setForm({ ...form, awardFrom: e.target.value })}
+              />
+              <Input
+                label="To Month *"
+                type="month"
+                min={form.awardFrom}
+                value={form.awardTo}
+                onChange={(e) => setForm({ ...form, awardTo: e.target.value })}
+              />
+            </div>
+            <Textarea
+              label="Remarks"
+              rows={2}
+              value={form.remarks}
+              onChange={(e) => setForm({ ...form, remarks: e.target.value })}
+            />
+            <p className="text-xs text-gray-500">
+              Every fee month in the period is billed to the sponsor; months already invoiced keep their bill.
+            </p>
+            <div className="flex gap-3 pt-2">
+              <Button
+                className="flex-1"
+                disabled={!form.studentId || !form.programId || !form.awardFrom || !form.awardTo}
+                onClick={handleSave}
+              >
+                {form.id ? 'Save Changes' : 'Award'}
+              </Button>
+              <Button variant="secondary" className="flex-1" onClick={() => setForm(null)}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        )}
+      </Modal>
+
+      {/* Renew Modal */}
+      <Modal isOpen={!!renewing} onClose={() => setRenewing(null)} title="Renew Scholarship" size="sm">
+        {renewing && (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600">
+              {(() => {
+                const student = students.find(s => s.id === renewing.studentId);
+                return `${student?.firstName || ''} ${student?.lastName || ''}`;
+              })()} continues on {renewingProgram?.name} from the month after {formatMonth(renewing.awardTo)}.
+            </p>
+            {renewingProgram?.renewalCriteria && (
+              <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800">
+                <span className="font-medium">Renewal criteria:</span> {renewingProgram.renewalCriteria}
+              </div>
+            )}
+            <Input
+              label="Renew Until *"
+              type="month"
+              value={renewTo}
+              onChange={(e) => setRenewTo(e.target.value)}
+            />
+            <Textarea
+              label={renewingProgram?.renewalCriteria ? 'How the criteria were met *' : 'Remarks'}
+              rows={2}
+              value={renewRemarks}
+              onChange={(e) => setRenewRemarks(e.target.value)}
+            />
+            <div className="flex gap-3 pt-2">
+              <Button className="flex-1" disabled={!renewTo} onClick={handleRenew}>
+                Renew
+              </Button>
+              <Button variant="secondary" className="flex-1" onClick={() => setRenewing(null)}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        )}
+      </Modal>
+    </div>
+  );
+}
@@ -0,0 +1,338 @@
+import { useState } from 'react';
+import { Plus, Edit2, HeartHandshake, Award, Users } from 'lucide-react';
+import { Card, StatCard } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Input, Select, Textarea } from '@/components/ui/Input';
+import { Badge } from '@/components/ui/Badge';
+import { Modal } from '@/components/ui/Modal';
+import { useToast } from '@/components/ui/Toast';
+import {
+  saveSponsor, saveScholarshipProgram, getCurrentUser, getLocalDateString, formatCurrency
+} from '@/store';
+import { useFeeHeads, useScholarshipAwards, useScholarshipPrograms, useSponsors } from '@/hooks/useStore';
+import { SPONSOR_TYPE_LABELS, isAwardInForce } from '@/utils/scholarships';
+import type { Sponsor, ScholarshipProgram } from '@/types';
+
+const now = () => new Date().toISOString();
+
+export function ScholarshipPrograms() {
+  const { showToast } = useToast();
+  const { data: sponsors } = useSponsors();
+  const { data: programs } = useScholarshipPrograms();
+  const { data: feeHeads } = useFeeHeads();
+  const { data: awards } = useScholarshipAwards();
+  const [sponsorForm, setSponsorForm] = useState<Sponsor | null>(null);
+  const [programForm, setProgramForm] = useState<ScholarshipProgram | null>(null);
+
+  const role = getCurrentUser()?.role;
+  const canManage = role === 'admin' || role === 'accountant';
+  const today = getLocalDateString();
+  const current = awards
+    .filter(a => isAwardInForce(a, Number(today.slice(5, 7)), Number(today.slice(0, 4))));
+  const beneficiariesOf = (programIds: number[]) => current.filter(a => programIds.includes(a.programId)).length;
+
+  const describeCoverage = (program: ScholarshipProgram) => {
+    const amount = program.coverageType === 'percentage' ? `${program.value}%` : `${formatCurrency(program.value)} / month`;
+    const head = program.feeHeadId === null ? 'all fees' : feeHeads.find(h => h.id === program.feeHeadId)?.headName || 'Unknown head';
+    return `${amount} of ${head}`;
+  };
+
+  const handleSaveSponsor = () => {
+    if (!sponsorForm) return;
+    try {
+      saveSponsor(sponsorForm);
+      setSponsorForm(null);
+      showToast('success', 'Sponsor saved');
+    } catch (error) {
+      showToast('error', error instanceof Error ? error.message : 'Failed to save sponsor');
+    }
+  };
+
+  const handleSaveProgram = () => {
+    if (!programForm) return;
+    try {
+      saveScholarshipProgram(programForm);
+      setProgramForm(null);
+      showToast('success', 'Program saved');
+    } catch (error) {
+      showToast('error', error instanceof Error ? error.message : 'Failed to save program');
+    }
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      {/* Summary Cards */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <StatCard
+          title="Sponsors"
+          value={sponsors.filter(s => s.isActive).length.toString()}
+          icon={<HeartHandshake className="w-6 h-6 text-blue-600" />}
+          iconBg="bg-blue-100"
+        />
+        <StatCard
+          title="Programs"
+          value={programs.filter(p => p.isActive).length.toString()}
+          icon={<Award className="w-6 h-6 text-amber-600" />}
+          iconBg="bg-amber-100"
+        />
+        <StatCard
+          title="Current Beneficiaries"
+          value={current.length.toString()}
+          icon={<Users className="w-6 h-6 text-green-600" />}
+          iconBg="bg-green-100"
+        />
+      </div>
+
+      {/* Sponsors */}
+      <Card>
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold text-gray-900">Sponsors</h3>
+          {canManage && (
+            <Button
+              size="sm"
+              icon={<Plus className="w-4 h-4" />}
+              onClick={() => setSponsorForm({
+                id: 0, name: '', sponsorType: 'trust', contactPerson: '', phone: '', email: '', address: '',
+                isActive: true, createdAt: now(), updatedAt: now(),
+              })}
+            >
+              Add Sponsor
+            </Button>
+          )}
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="text-left py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Sponsor</th>
+                <th className="text-left py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Type</th>
+                <th className="text-left py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Contact</th>
+                <th className="text-right py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Beneficiaries</th>
+                <th className="text-left py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Status</th>
+                {canManage && <th className="text-right py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Actions</th>}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {sponsors.map(sponsor => (
+                <tr key={sponsor.id} className="hover:bg-gray-50">
+                  <td className="py-3 px-4 text-sm font-medium text-gray-900">{sponsor.name}</td>
+                  <td className="py-3 px-4 text-sm text-gray-600">{SPONSOR_TYPE_LABELS[sponsor.sponsorType]}</td>
+                  <td className="py-3 px-4 text-sm text-gray-900">
+                    {sponsor.contactPerson || '-'}
+                    {(sponsor.phone || sponsor.email) && (
+                      <span className="block text-xs text-gray-500">{[sponsor.phone, sponsor.email].filter(Boolean).join(' • ')}</span>
+                    )}
+                  </td>
+                  <td className="py-3 px-4 text-right text-sm text-gray-900">
+                    {beneficiariesOf(programs.filter(p => p.sponsorId === sponsor.id).map(p => p.id))}
+                  </td>
+                  <td className="py-3 px-4">
+                    <Badge variant={sponsor.isActive ? 'success' : 'default'}>{sponsor.isActive ? 'Active' : 'Inactive'}</Badge>
+                  </td>
+                  {canManage && (
+                    <td className="py-3 px-4 text-right">
+                      <button onClick={() => setSponsorForm(sponsor)} className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg">
+                        <Edit2 className="w-4 h-4" />
+                      </button>
+                    </td>
+                  )}
+                </tr>
+              ))}
+              {sponsors.length === 0 && (
+                <tr>
+                  <td colSpan={6} className="py-8 text-center text-gray-500">No sponsors added yet</td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </Card>
+
+      {/* Programs */}
+      <Card>
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold text-gray-900">Scholarship Programs</h3>
+          {canManage && (
+            <Button
+              size="sm"
+              icon={<Plus className="w-4 h-4" />}
+              disabled={!sponsors.some(s => s.isActive)}
+              onClick={() => setProgramForm({
+                id: 0, name: '', sponsorId: sponsors.find(s => s.isActive)?.id || 0, coverageType: 'percentage', value: 100,
+                feeHeadId: null, renewalCriteria: '', isActive: true, createdAt: now(), updatedAt: now(),
+              })}
+            >
+              Add Program
+            </Button>
+          )}
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="text-left py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Program</th>
+                <th className="text-left py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Sponsor</th>
+                <th className="text-left py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Covers</th>
+                <th className="text-left py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Renewal Criteria</th>
+                <th className="text-right py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Beneficiaries</th>
+                <th className="text-left py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Status</th>
+                {canManage && <th className="text-right py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Actions</th>}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {programs.map(program => (
+                <tr key={program.id} className="hover:bg-gray-50">
+                  <td className="py-3 px-4 text-sm font-medium text-gray-900">{program.name}</td>
+                  <td className="py-3 px-4 text-sm text-gray-600">{sponsors.find(s => s.id === program.sponsorId)?.name || '-'}</td>
+                  <td className="py-3 px-4 text-sm text-gray-900">{describeCoverage(program)}</td>
+                  <td className="py-3 px-4 text-sm text-gray-600 max-w-xs">{program.renewalCriteria || '-'}</td>
+                  <td className="py-3 px-4 text-right text-sm text-gray-900">{beneficiariesOf([program.id])}</td>
+                  <td className="py-3 px-4">
+                    <Badge variant={program.isActive ? 'success' : 'default'}>{program.isActive ? 'Active' : 'Inactive'}</Badge>
+                  </td>
+                  {canManage && (
+                    <td className="py-3 px-4 text-right">
+                      <button onClick={() => setProgramForm(program)} className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg">
+                        <Edit2 className="w-4 h-4" />
+                      </button>
+                    </td>
+                  )}
+                </tr>
+              ))}
+              {programs.length === 0 && (
+                <tr>
+                  <td colSpan={7} className="py-8 text-center text-gray-500">No scholarship programs set up yet</td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </Card>
+
+      {/* Sponsor Modal */}
+      <Modal isOpen={!!sponsorForm} onClose={() => setSponsorForm(null)} title={sponsorForm?.id ? 'Edit Sponsor' : 'Add Sponsor'}>
+        {sponsorForm && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <Input
+                label="Sponsor Name *"
+                value={sponsorForm.name}
+                onChange={(e) => setSponsorForm({ ...sponsorForm, name: e.target.value })}
+              />
+              <Select
+                label="Type"
+                value={sponsorForm.sponsorType}
+                onChange={(e) => setSponsorForm({ ...sponsorForm, sponsorType: e.target.value as Sponsor['sponsorType'] })}
+                options={(Object.keys(SPONSOR_TYPE_LABELS) as Sponsor['sponsorType'][])
+                  .map(type => ({ value: type, label: SPONSOR_TYPE_LABELS[type] }))}
+              />
+              <Input
+                label="Contact Person"
+                value={sponsorForm.contactPerson || ''}
+                onChange={(e) => setSponsorForm({ ...sponsorForm, contactPerson: e.target.value })}
+              />
+              <Input
+                label="Phone"
+                value={sponsorForm.phone || ''}
+                onChange={(e) => setSponsorForm({ ...sponsorForm, phone: e.target.value })}
+              />
+              <Input
+                label="Email"
+                type="email"
+                value={sponsorForm.email || ''}
+                onChange={(e) => setSponsorForm({ ...sponsorForm, email: e.target.value })}
+              />
+              {sponsorForm.id > 0 && (
+                <Select
+                  label="Status"
+                  value={sponsorForm.isActive ? 'active' : 'inactive'}
+                  onChange={(e) => setSponsorForm({ ...sponsorForm, isActive: e.target.value === 'active' })}
+                  options={[{ value: 'active', label: 'Active' }, { value: 'inactive', label: 'Inactive' }]}
+                />
+              )}
+            </div>
+            <Textarea
+              label="Address"
+              rows={2}
+              value={sponsorForm.address || ''}
+              onChange={(e) => setSponsorForm({ ...sponsorForm, address: e.target.value })}
+            />
+            <div className="flex gap-3 pt-2">
+              <Button className="flex-1" onClick={handleSaveSponsor}>Save Sponsor</Button>
+              <Button variant="secondary" className="flex-1" onClick={() => setSponsorForm(null)}>Cancel</Button>
+            </div>
+          </div>
+        )}
+      </Modal>
+
+      {/* Program Modal */}
+      <Modal isOpen={!!programForm} onClose={() => setProgramForm(null)} title={programForm?.id ? 'Edit Program' : 'Add Program'}>
+        {programForm && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <Input
+                label="Program Name *"
+                placeholder="e.g., Merit Scholarship"
+                value={programForm.name}
+                onChange={(e) => setProgramForm({ ...programForm, name: e.target.value })}
+              />
+              <Select
+                label="Sponsor *"
+                value={String(programForm.sponsorId)}
+                onChange={(e) => setProgramForm({ ...programForm, sponsorId: Number(e.target.value) })}
+                options={sponsors
+                  .filter(s => s.isActive || s.id === programForm.sponsorId)
+                  .map(s => ({ value: String(s.id), label: s.name }))}
+              />
+              <Select
+                label="Coverage"
+                value={programForm.coverageType}
+                onChange={(e) => setProgramForm({ ...programForm, coverageType: e.target.value as ScholarshipProgram['coverageType'] })}
+                options={[
+                  { value: 'percentage', label: 'Percentage of fee' },
+                  { value: 'fixed', label: 'Fixed amount per month' },
+                ]}
+              />
+              <Input
+                label={programForm.coverageType === 'percentage' ? 'Percentage *' : 'Amount per Month (Rs.) *'}
+                type="number"
+                min="0"
+                max={programForm.coverageType === 'percentage' ? '100' : undefined}
+                value={programForm.value}
+                onChange={(e) => setProgramForm({ ...programForm, value: Number(e.target.value) })}
+              />
+              <Select
+                label="Fee Head"
+                value={programForm.feeHeadId !== null ? String(programForm.feeHeadId) : ''}
+                onChange={(e) => setProgramForm({ ...programForm, feeHeadId: e.target.value ? Number(e.target.value) : null })}
+                options={[{ value: '', label: 'All fee heads' }, ...feeHeads.map(h => ({ value: String(h.id), label: h.headName }))]}
+              />
+              {programForm.id > 0 && (
+                <Select
+                  label="Status"
+                  value={programForm.isActive ? 'active' : 'inactive'}
+                  onChange={(e) => setProgramForm({ ...programForm, isActive: e.target.value === 'active' })}
+                  options={[{ value: 'active', label: 'Active' }, { value: 'inactive', label: 'Inactive' }]}
+                />
+              )}
+            </div>
+            <Textarea
+              label="Renewal Criteria"
+              rows={2}
+              placeholder="e.g., 75% marks in the annual exam and 85% attendance"
+              value={programForm.renewalCriteria || ''}
+              onChange={(e) => setProgramForm({ ...programForm, renewalCriteria: e.target.value })}
+            />
+            <p className="text-xs text-gray-500">
+              The covered share is billed to the sponsor after any concession; the parent pays the rest.
+            </p>
+            <div className="flex gap-3 pt-2">
+              <Button className="flex-1" onClick={handleSaveProgram}>Save Program</Button>
+              <Button variant="secondary" className="flex-1" onClick={() => setProgramForm(null)}>Cancel</Button>
+            </div>
+          </div>
+        )}
+      </Modal>
+    </div>
+  );
+}
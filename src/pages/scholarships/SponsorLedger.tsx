@@ -0,0 +1,318 @@
+import { useState } from 'react';
+import { Wallet, HandCoins, AlertTriangle, Users, Printer, Plus } from 'lucide-react';
+import { Card, StatCard } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Input, Select, Textarea } from '@/components/ui/Input';
+import { Modal } from '@/components/ui/Modal';
+import { useToast } from '@/components/ui/Toast';
+import {
+  getSponsorCharges, recordSponsorPayment, getCurrentUser, getLocalDateString, formatCurrency
+} from '@/store';
+import {
+  DUES_KEYS, useClasses, useScholarshipAwards, useScholarshipPrograms, useSponsorPayments, useSponsors, useStoreQuery,
+  useStudents
+} from '@/hooks/useStore';
+import { getSponsorLedger, type SponsorCharge } from '@/utils/scholarships';
+import { generateSponsorStatement } from '@/utils/pdfGenerator';
+import type { SponsorPayment } from '@/types';
+
+const months = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December'
+];
+
+const paymentModes = [
+  { value: 'bank_transfer', label: 'Bank Transfer' },
+  { value: 'cheque', label: 'Cheque' },
+  { value: 'cash', label: 'Cash' },
+];
+
+const emptyPayment = () => ({
+  amount: '',
+  paymentDate: getLocalDateString(),
+  paymentMode: 'bank_transfer',
+  reference: '',
+  remarks: '',
+});
+
+export function SponsorLedger() {
+  const { showToast } = useToast();
+  const { data: sponsors } = useSponsors();
+  const [pickedSponsor, setPickedSponsor] = useState<string | null>(null);
+  const [fromDate, setFromDate] = useState(`${getLocalDateString().slice(0, 4)}-01-01`);
+  const [toDate, setToDate] = useState(getLocalDateString());
+  const [payment, setPayment] = useState<ReturnType<typeof emptyPayment> | null>(null);
+
+  const role = getCurrentUser()?.role;
+  const canManage = role === 'admin' || role === 'accountant';
+
+  // The first sponsor until one is picked
+  const selectedSponsor = pickedSponsor ?? (sponsors[0] ? String(sponsors[0].id) : '');
+  const sponsor = sponsors.find(s => s.id === Number(selectedSponsor));
+  const { data: students } = useStudents();
+  const { data: classes } = useClasses();
+  const { data: programs } = useScholarshipPrograms();
+  const { data: awards } = useScholarshipAwards();
+  const { data: payments } = useSponsorPayments();
+  const { data: charges } = useStoreQuery(
+    [...DUES_KEYS, 'students'], async () => sponsor ? getSponsorCharges(sponsor.id, toDate) : [], [], [sponsor?.id, toDate]
+  );
+
+  const describeStudent = (studentId: number) => {
+    const student = students.find(s => s.id === studentId);
+    return student ? `${student.firstName} ${student.lastName || ''}` : 'Unknown student';
+  };
+  const ledger = getSponsorLedger(
+    charges,
+    payments.filter(p => p.sponsorId === sponsor?.id && p.paymentDate <= toDate),
+    charge => `${describeStudent(charge.studentId)} - ${months[charge.feeMonth - 1]} ${charge.feeYear}`
+  );
+  const opening = ledger.filter(e => e.date < fromDate).pop()?.balance || 0;
+  const entries = ledger.filter(e => e.date >= fromDate);
+  const billed = entries.reduce((sum, e) => sum + e.debit, 0);
+  const received = entries.reduce((sum, e) => sum + e.credit, 0);
+  const balance = opening + billed - received;
+
+  // Billed per beneficiary over the period
+  const beneficiaries = [...entries.reduce((map, { charge }) => {
+    if (!charge) return map;
+    const row = map.get(charge.awardId) || { charge, months: 0, amount: 0 };
+    return map.set(charge.awardId, { ...row, months: row.months + 1, amount: row.amount + charge.amount });
+  }, new Map<number, { charge: SponsorCharge; months: number; amount: number }>()).values()];
+
+  const handleRecordPayment = () => {
+    if (!payment || !sponsor) return;
+    try {
+      recordSponsorPayment({
+        id: 0,
+        sponsorId: sponsor.id,
+        amount: Number(payment.amount),
+        paymentDate: payment.paymentDate,
+        paymentMode: payment.paymentMode as SponsorPayment['paymentMode'],
+        reference: payment.reference,
+        remarks: payment.remarks,
+        receivedBy: 0,
+        createdAt: '',
+      });
+      showToast('success', 'Sponsor payment recorded');
+      setPayment(null);
+    } catch (error) {
+      showToast('error', error instanceof Error ? error.message : 'Failed to record payment');
+    }
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      {/* Filters */}
+      <Card>
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="w-64">
+            <Select
+              label="Sponsor"
+              value={selectedSponsor}
+              onChange={(e) => setPickedSponsor(e.target.value)}
+              options={[{ value: '', label: 'Select sponsor' }, ...sponsors.map(s => ({ value: String(s.id), label: s.name }))]}
+            />
+          </div>
+          <div className="w-44">
+            <Input label="From" type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} />
+          </div>
+          <div className="w-44">
+            <Input label="To" type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} />
+          </div>
+          {sponsor && (
+            <div className="flex gap-2">
+              <Button
+                variant="secondary"
+                icon={<Printer className="w-4 h-4" />}
+                onClick={() => generateSponsorStatement(sponsor, fromDate, toDate)}
+              >
+                Print Statement
+              </Button>
+              {canManage && (
+                <Button icon={<Plus className="w-4 h-4" />} onClick={() => setPayment(emptyPayment())}>
+                  Record Payment
+                </Button>
+              )}
+            </div>
+          )}
+        </div>
+      </Card>
+
+      {!sponsor ? (
+        <Card>
+          <div className="py-12 text-center text-gray-500">Select a sponsor to view their ledger</div>
+        </Card>
+      ) : (
+        <>
+          {/* Summary Cards */}
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+            <StatCard
+              title="Beneficiaries"
+              value={beneficiaries.length.toString()}
+              icon={<Users className="w-6 h-6 text-blue-600" />}
+              iconBg="bg-blue-100"
+            />
+            <StatCard
+              title="Billed"
+              value={formatCurrency(billed)}
+              icon={<Wallet className="w-6 h-6 text-amber-600" />}
+              iconBg="bg-amber-100"
+            />
+            <StatCard
+              title="Received"
+              value={formatCurrency(received)}
+              icon={<HandCoins className="w-6 h-6 text-green-600" />}
+              iconBg="bg-green-100"
+            />
+            <StatCard
+              title={balance >= 0 ? 'Balance Due' : 'Paid in Advance'}
+              value={formatCurrency(Math.abs(balance))}
+              icon={<AlertTriangle className="w-6 h-6 text-red-600" />}
+              iconBg="bg-red-100"
+            />
+          </div>
+
+          {/* Beneficiaries */}
+          <Card padding="none">
+            <div className="p-4 border-b border-gray-200">
+              <h3 className="font-semibold text-gray-900">Beneficiaries</h3>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead className="bg-gray-50 border-b border-gray-200">
+                  <tr>
+                    <th className="text-left py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Student</th>
+                    <th className="text-left py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Class</th>
+                    <th className="text-left py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Program</th>
+                    <th className="text-right py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Months</th>
+                    <th className="text-right py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Billed</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {beneficiaries.map(({ charge, months: count, amount }) => {
+                    const student = students.find(s => s.id === charge.studentId);
+                    const program = programs.find(p => p.id === awards.find(a => a.id === charge.awardId)?.programId);
+                    return (
+                      <tr key={charge.awardId} className="hover:bg-gray-50">
+                        <td className="py-3 px-4">
+                          <p className="text-sm font-medium text-gray-900">{describeStudent(charge.studentId)}</p>
+                          <p className="text-xs text-gray-500">{student?.studentId}</p>
+                        </td>
+                        <td className="py-3 px-4 text-sm text-gray-600">{classes.find(c => c.id === student?.classId)?.className || 'N/A'}</td>
+                        <td className="py-3 px-4 text-sm text-gray-900">{program?.name || '-'}</td>
+                        <td className="py-3 px-4 text-right text-sm text-gray-900">{count}</td>
+                        <td className="py-3 px-4 text-right text-sm font-semibold text-gray-900">{formatCurrency(amount)}</td>
+                      </tr>
+                    );
+                  })}
+                  {beneficiaries.length === 0 && (
+                    <tr>
+                      <td colSpan={5} className="py-8 text-center text-gray-500">Nothing billed to this sponsor in the period</td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </Card>
+
+          {/* Ledger */}
+          <Card padding="none">
+            <div className="p-4 border-b border-gray-200">
+              <h3 className="font-semibold text-gray-900">Ledger - {sponsor.name}</h3>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead className="bg-gray-50 border-b border-gray-200">
+                  <tr>
+                    <th className="text-left py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Date</th>
+                    <th className="text-left py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Description</th>
+                    <th className="text-right py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Billed</th>
+                    <th className="text-right py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Received</th>
+                    <th className="text-right py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Balance</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  <tr className="bg-gray-50">
+                    <td className="py-3 px-4 text-sm text-gray-600">{fromDate}</td>
+                    <td className="py-3 px-4 text-sm font-medium text-gray-900">Opening balance</td>
+                    <td className="py-3 px-4" />
+                    <td className="py-3 px-4" />
+                    <td className="py-3 px-4 text-right text-sm font-semibold text-gray-900">{formatCurrency(opening)}</td>
+                  </tr>
+                  {entries.map((entry, index) => (
+                    <tr key={index} className="hover:bg-gray-50">
+                      <td className="py-3 px-4 text-sm text-gray-600">{entry.date}</td>
+                      <td className="py-3 px-4 text-sm text-gray-900">
+                        {entry.description}
+                        {entry.payment?.remarks && <span className="block text-xs text-gray-500">{entry.payment.remarks}</span>}
+                      </td>
+                      <td className="py-3 px-4 text-right text-sm text-gray-900">{entry.debit ? formatCurrency(entry.debit) : '-'}</td>
+                      <td className="py-3 px-4 text-right text-sm text-green-600">{entry.credit ? formatCurrency(entry.credit) : '-'}</td>
+                      <td className={`py-3 px-4 text-right text-sm font-semibold ${entry.balance > 0 ? 'text-red-600' : 'text-gray-900'}`}>
+                        {formatCurrency(entry.balance)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </Card>
+        </>
+      )}
+
+      {/* Payment Modal */}
+      <Modal isOpen={!!payment} onClose={() => setPayment(null)} title={`Record Payment - ${sponsor?.name || ''}`} size="sm">
+        {payment && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <Input
+                label="Amount (Rs.) *"
+                type="number"
+                min="0"
+                value={payment.amount}
+                onChange={(e) => setPayment({ ...payment, amount: e.target.value })}
+              />
+              <Input
+                label="Payment Date *"
+                type="date"
+                max={getLocalDateString()}
+                value={payment.paymentDate}
+                onChange={(e) => setPayment({ ...payment, paymentDate: e.target.value })}
+              />
+              <Select
+                label="Mode"
+                value={payment.paymentMode}
+                onChange={(e) => setPayment({ ...payment, paymentMode: e.target.value })}
+                options={paymentModes}
+              />
+              <Input
+                label="Reference"
+                placeholder="Cheque or transfer no."
+                value={payment.reference}
+                onChange={(e) => setPayment({ ...payment, reference: e.target.value })}
+              />
+            </div>
+            <Textarea
+              label="Remarks"
+              rows={2}
+              value={payment.remarks}
+              onChange={(e) => setPayment({ ...payment, remarks: e.target.value })}
+            />
+            {balance > 0 && (
+              <p className="text-xs text-gray-500">Balance due from this sponsor: {formatCurrency(balance)}</p>
+            )}
+            <div className="flex gap-3 pt-2">
+              <Button className="flex-1" disabled={!payment.amount || !payment.paymentDate} onClick={handleRecordPayment}>
+                Record Payment
+              </Button>
+              <Button variant="secondary" className="flex-1" onClick={() => setPayment(null)}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        )}
+      </Modal>
+    </div>
+  );
+}
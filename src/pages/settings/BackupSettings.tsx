@@ -43,9 +43,9 @@ export function BackupSettings() {
     if (!file) return;
 
     const reader = new FileReader();
-    reader.onload = (event) => {
+    reader.onload = async (event) => {
       const content = event.target?.result as string;
-      const result = importAllData(content);
+      const result = await importAllData(content);
       if (result.success) {
         setSuccess('Data imported successfully!');
         window.location.reload();
@@ -0,0 +1,286 @@
+import { useState } from 'react';
+import { Plus, Edit2, Percent, Power } from 'lucide-react';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Input, Select } from '@/components/ui/Input';
+import { Badge } from '@/components/ui/Badge';
+import { Modal } from '@/components/ui/Modal';
+import { useToast } from '@/components/ui/Toast';
+import {
+  saveConcessionRule, getLocalDateString
+} from '@/store';
+import { useConcessionRules, useFeeHeads, useStudents } from '@/hooks/useStore';
+import type { ConcessionRule, Student } from '@/types';
+
+const categoryLabels: Record<Student['feeCategory'], string> = {
+  regular: 'Regular',
+  sibling: 'Sibling',
+  scholarship: 'Scholarship',
+  staff: 'Staff Child',
+};
+
+export function ConcessionSettings() {
+  const { showToast } = useToast();
+  const { data: rules } = useConcessionRules();
+  const [modalRule, setModalRule] = useState<ConcessionRule | null>(null);
+
+  const [name, setName] = useState('');
+  const [appliesTo, setAppliesTo] = useState<'category' | 'student'>('category');
+  const [feeCategory, setFeeCategory] = useState<Student['feeCategory']>('sibling');
+  const [studentId, setStudentId] = useState('');
+  const [feeHeadId, setFeeHeadId] = useState('');
+  const [type, setType] = useState<ConcessionRule['type']>('percentage');
+  const [value, setValue] = useState('');
+  const [effectiveFrom, setEffectiveFrom] = useState(getLocalDateString());
+  const [effectiveTo, setEffectiveTo] = useState('');
+
+  const { data: allHeads } = useFeeHeads();
+  const feeHeads = allHeads.filter(h => h.isActive);
+  const { data: students } = useStudents({ status: 'active' });
+
+  const getTargetLabel = (rule: ConcessionRule) => {
+    if (rule.studentId !== undefined) {
+      const student = students.find(s => s.id === rule.studentId);
+      return student ? `${student.firstName} ${student.lastName || ''} (${student.studentId})` : 'Unknown student';
+    }
+    return rule.feeCategory ? categoryLabels[rule.feeCategory] : '-';
+  };
+
+  const getHeadLabel = (rule: ConcessionRule) => {
+    if (rule.feeHeadId === null) return 'All heads';
+    return feeHeads.find(h => h.id === rule.feeHeadId)?.headName || 'Unknown head';
+  };
+
+  const openModal = (rule?: ConcessionRule) => {
+    setName(rule?.name || '');
+    setAppliesTo(rule?.studentId !== undefined ? 'student' : 'category');
+    setFeeCategory(rule?.feeCategory || 'sibling');
+    setStudentId(rule?.studentId !== undefined ? String(rule.studentId) : '');
+    setFeeHeadId(rule?.feeHeadId ? String(rule.feeHeadId) : '');
+    setType(rule?.type || 'percentage');
+    setValue(rule ? String(rule.value) : '');
+    setEffectiveFrom(rule?.effectiveFrom || getLocalDateString());
+    setEffectiveTo(rule?.effectiveTo || '');
+    setModalRule(rule || {
+      id: 0,
+      name: '',
+      feeHeadId: null,
+      type: 'percentage',
+      value: 0,
+      effectiveFrom: getLocalDateString(),
+      isActive: true,
+      createdAt: new Date().toISOString(),
+    });
+  };
+
+  const handleSave = () => {
+    if (!modalRule) return;
+
+    try {
+      saveConcessionRule({
+        ...modalRule,
+        name: name.trim(),
+        feeCategory: appliesTo === 'category' ? feeCategory : undefined,
+        studentId: appliesTo === 'student' && studentId ? parseInt(studentId) : undefined,
+        feeHeadId: feeHeadId ? parseInt(feeHeadId) : null,
+        type,
+        value: Number(value),
+        effectiveFrom,
+        effectiveTo: effectiveTo || undefined,
+      });
+      showToast('success', 'Concession rule saved successfully!');
+      setModalRule(null);
+    } catch (error) {
+      showToast('error', error instanceof Error ? error.message : 'Failed to save concession rule');
+    }
+  };
+
+  const handleToggle = (rule: ConcessionRule) => {
+    saveConcessionRule({ ...rule, isActive: !rule.isActive });
+    showToast('success', `Concession ${rule.isActive ? 'disabled' : 'enabled'}`);
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Concession Rules</h2>
+          <p className="text-sm text-gray-500">
+            Applied automatically when fees are collected. Rules for a student replace their category rules.
+          </p>
+        </div>
+        <Button icon={<Plus className="w-4 h-4" />} onClick={() => openModal()}>
+          Add Rule
+        </Button>
+      </div>
+
+      {/* Rules Table */}
+      <Card padding="none">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="text-left py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Rule</th>
+                <th className="text-left py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Applies To</th>
+                <th className="text-left py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Fee Head</th>
+                <th className="text-right py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Discount</th>
+                <th className="text-left py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Effective</th>
+                <th className="text-left py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Status</th>
+                <th className="text-right py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {rules.map(rule => (
+                <tr key={rule.id} className="hover:bg-gray-50">
+                  <td className="py-3 px-4">
+                    <div className="flex items-center gap-3">
+                      <div className="p-2 bg-amber-100 rounded-lg">
+                        <Percent className="w-4 h-4 text-amber-600" />
+                      </div>
+                      <span className="font-medium text-gray-900">{rule.name}</span>
+                    </div>
+                  </td>
+                  <td className="py-3 px-4 text-sm text-gray-600">
+                    <Badge variant={rule.studentId !== undefined ? 'info' : 'default'}>
+                      {rule.studentId !== undefined ? 'Student' : 'Category'}
+                    </Badge>
+                    <span className="ml-2">{getTargetLabel(rule)}</span>
+                  </td>
+                  <td className="py-3 px-4 text-sm text-gray-600">{getHeadLabel(rule)}</td>
+                  <td className="py-3 px-4 text-right font-medium text-gray-900">
+                    {rule.type === 'percentage' ? `${rule.value}%` : `Rs. ${rule.value.toLocaleString()}`}
+                  </td>
+                  <td className="py-3 px-4 text-sm text-gray-600">
+                    {rule.effectiveFrom} → {rule.effectiveTo || 'ongoing'}
+                  </td>
+                  <td className="py-3 px-4">
+                    <Badge variant={rule.isActive ? 'success' : 'default'}>
+                      {rule.isActive ? 'Active' : 'Inactive'}
+                    </Badge>
+                  </td>
+                  <td className="py-3 px-4">
+                    <div className="flex items-center justify-end gap-1">
+                      <button
+                        onClick={() => openModal(rule)}
+                        className="p-2 text-gray-500 hover:text-blue-600 hover:bg-blue-50 rounded-lg"
+                      >
+                        <Edit2 className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => handleToggle(rule)}
+                        className="p-2 text-gray-500 hover:text-amber-600 hover:bg-amber-50 rounded-lg"
+                        title={rule.isActive ? 'Disable' : 'Enable'}
+                      >
+                        <Power className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+              {rules.length === 0 && (
+                <tr>
+                  <td colSpan={7} className="py-12 text-center text-gray-500">
+                    No concession rules configured
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </Card>
+
+      {/* Add / Edit Modal */}
+      <Modal
+        isOpen={!!modalRule}
+        onClose={() => setModalRule(null)}
+        title={modalRule?.id ? 'Edit Concession Rule' : 'Add Concession Rule'}
+      >
+        <div className="space-y-4">
+          <Input
+            label="Rule Name *"
+            placeholder="e.g., Second child discount"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+          />
+          <Select
+            label="Applies To"
+            value={appliesTo}
+            onChange={(e) => setAppliesTo(e.target.value as typeof appliesTo)}
+            options={[
+              { value: 'category', label: 'Fee category' },
+              { value: 'student', label: 'One student' },
+            ]}
+          />
+          {appliesTo === 'category' ? (
+            <Select
+              label="Fee Category"
+              value={feeCategory}
+              onChange={(e) => setFeeCategory(e.target.value as Student['feeCategory'])}
+              options={Object.entries(categoryLabels).map(([value, label]) => ({ value, label }))}
+            />
+          ) : (
+            <Select
+              label="Student"
+              value={studentId}
+              onChange={(e) => setStudentId(e.target.value)}
+              options={[
+                { value: '', label: 'Select student' },
+                ...students.map(s => ({ value: s.id, label: `${s.firstName} ${s.lastName || ''} (${s.studentId})` })),
+              ]}
+            />
+          )}
+          <Select
+            label="Fee Head"
+            value={feeHeadId}
+            onChange={(e) => setFeeHeadId(e.target.value)}
+            options={[
+              { value: '', label: 'All heads' },
+              ...feeHeads.map(h => ({ value: h.id, label: h.headName })),
+            ]}
+          />
+          <div className="grid grid-cols-2 gap-4">
+            <Select
+              label="Discount Type"
+              value={type}
+              onChange={(e) => setType(e.target.value as ConcessionRule['type'])}
+              options={[
+                { value: 'percentage', label: 'Percentage' },
+                { value: 'fixed', label: 'Fixed amount' },
+              ]}
+            />
+            <Input
+              label={type === 'percentage' ? 'Percent *' : 'Amount (Rs.) *'}
+              type="number"
+              min="0"
+              value={value}
+              onChange={(e) => setValue(e.target.value)}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <Input
+              label="Effective From *"
+              type="date"
+              value={effectiveFrom}
+              onChange={(e) => setEffectiveFrom(e.target.value)}
+            />
+            <Input
+              label="Effective To"
+              type="date"
+              value={effectiveTo}
+              onChange={(e) => setEffectiveTo(e.target.value)}
+            />
+          </div>
+          <div className="flex gap-3 pt-4">
+            <Button className="flex-1" onClick={handleSave}>
+              Save Rule
+            </Button>
+            <Button variant="secondary" className="flex-1" onClick={() => setModalRule(null)}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      </Modal>
+    </div>
+  );
+}
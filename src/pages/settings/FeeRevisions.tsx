@@ -0,0 +1,360 @@
+import { useState } from 'react';
+import { TrendingUp, Eye } from 'lucide-react';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Input, Select, Textarea } from '@/components/ui/Input';
+import { Modal } from '@/components/ui/Modal';
+import { useToast } from '@/components/ui/Toast';
+import {
+  previewFeeIncrease, applyFeeIncrease, getCurrentUser, getCurrentAcademicYear, getLocalDateString, formatCurrency,
+  type FeeIncreaseOptions, type FeeIncreaseRow
+} from '@/store';
+import {
+  useClasses, useFeeHeads, useFeeRevisions, useFeeStructures, useHostels, useStudents, useTransportRoutes,
+  useTransportStops, useUsers
+} from '@/hooks/useStore';
+import type { FeeRevision } from '@/types';
+
+export function FeeRevisions() {
+  const { showToast } = useToast();
+  const { data: revisions } = useFeeRevisions();
+  const [classIds, setClassIds] = useState<number[]>([]);
+  const [feeHeadIds, setFeeHeadIds] = useState<number[]>([]);
+  const [includeStudentFees, setIncludeStudentFees] = useState(true);
+  const [increaseType, setIncreaseType] = useState<'percent' | 'flat'>('percent');
+  const [value, setValue] = useState('');
+  const [roundTo, setRoundTo] = useState('1');
+  const [effectiveFrom, setEffectiveFrom] = useState(getLocalDateString());
+  const [reason, setReason] = useState('');
+  const [preview, setPreview] = useState<FeeIncreaseRow[] | null>(null);
+  const [confirmModal, setConfirmModal] = useState(false);
+  const [loading, setLoading] = useState(false);
+
+  const isAdmin = getCurrentUser()?.role === 'admin';
+  const academicYear = getCurrentAcademicYear();
+  const { data: allClasses } = useClasses();
+  const { data: allHeads } = useFeeHeads();
+  const { data: structures } = useFeeStructures();
+  const { data: students } = useStudents();
+  const { data: stops } = useTransportStops();
+  const { data: routes } = useTransportRoutes();
+  const { data: hostels } = useHostels();
+  const { data: users } = useUsers();
+  const classes = allClasses
+    .filter(c => c.isActive)
+    .sort((a, b) => a.displayOrder - b.displayOrder);
+  const feeHeads = allHeads
+    .filter(h => h.isActive)
+    .sort((a, b) => a.displayOrder - b.displayOrder);
+
+  const options: FeeIncreaseOptions = {
+    classIds,
+    feeHeadIds,
+    includeStudentFees,
+    increase: { type: increaseType, value: Number(value || 0), roundTo: Number(roundTo) },
+    effectiveFrom,
+  };
+
+  // Any change to the form invalidates the preview
+  const update = <T,>(setter: (value: T) => void) => (value: T) => {
+    setter(value);
+    setPreview(null);
+  };
+
+  const toggle = (list: number[], id: number) =>
+    list.includes(id) ? list.filter(i => i !== id) : [...list, id];
+
+  const getClassName = (classId: number) => classes.find(c => c.id === classId)?.className || 'N/A';
+
+  // What a revision changed, for the history table
+  const describeTarget = (revision: FeeRevision) => {
+    if (revision.feeStructureId !== undefined) {
+      const structure = structures.find(s => s.id === revision.feeStructureId);
+      return {
+        owner: structure ? getClassName(structure.classId) : 'Unknown class',
+        fee: feeHeads.find(h => h.id === structure?.feeHeadId)?.headName || 'Fee',
+      };
+    }
+    if (revision.stopId !== undefined) {
+      const stop = stops.find(s => s.id === revision.stopId);
+      return {
+        owner: routes.find(r => r.id === stop?.routeId)?.routeName || 'Unknown route',
+        fee: `Transport - ${stop?.stopName || 'stop'}`,
+      };
+    }
+    if (revision.hostelId !== undefined) {
+      return {
+        owner: hostels.find(h => h.id === revision.hostelId)?.hostelName || 'Unknown hostel',
+        fee: revision.field === 'messFee' ? 'Mess Fee' : 'Boarding Fee',
+      };
+    }
+    const student = students.find(s => s.id === revision.studentId);
+    return {
+      owner: student ? `${student.firstName} ${student.lastName || ''}` : 'Unknown student',
+      fee: revision.field === 'transportFee' ? 'Transport Fee' : 'Monthly Fee',
+    };
+  };
+
+  const handlePreview = () => {
+    if (classIds.length === 0) {
+      showToast('error', 'Select at least one class');
+      return;
+    }
+    setPreview(previewFeeIncrease(options));
+  };
+
+  const handleApply = async () => {
+    setLoading(true);
+    try {
+      const applied = await applyFeeIncrease(options, reason);
+      setPreview(null);
+      showToast('success', `${applied.length} fee amount${applied.length === 1 ? '' : 's'} revised from ${effectiveFrom}`);
+    } catch (error) {
+      showToast('error', error instanceof Error ? error.message : 'Failed to apply revision');
+    } finally {
+      setLoading(false);
+      setConfirmModal(false);
+    }
+  };
+
+  const previewTotal = (preview || []).reduce((sum, row) => sum + row.newAmount - row.currentAmount, 0);
+  const sortedRevisions = [...revisions].sort((a, b) =>
+    b.effectiveFrom.localeCompare(a.effectiveFrom) || b.id - a.id);
+
+  return (
+    <div className="p-6 space-y-6">
+      {/* Bulk Revision */}
+      <Card>
+        <div className="mb-4">
+          <h3 className="text-lg font-semibold text-gray-900">Bulk Fee Revision</h3>
+          <p className="text-sm text-gray-500">
+            Raise or lower fees for several classes at once{academicYear ? ` in ${academicYear.yearName}` : ''}.
+            Months before the effective date keep their old amounts.
+          </p>
+        </div>
+
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Classes *</label>
+            <div className="flex flex-wrap gap-2">
+              {classes.map(cls => (
+                <button
+                  key={cls.id}
+                  type="button"
+                  onClick={() => update(setClassIds)(toggle(classIds, cls.id))}
+                  className={`px-3 py-1.5 rounded-lg border text-sm font-medium transition-all ${
+                    classIds.includes(cls.id)
+                      ? 'border-blue-600 bg-blue-50 text-blue-700'
+                      : 'border-gray-200 text-gray-600 hover:border-gray-300'
+                  }`}
+                >
+                  {cls.className}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Fee Heads</label>
+            <div className="flex flex-wrap gap-4">
+              {feeHeads.map(head => (
+                <label key={head.id} className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={feeHeadIds.includes(head.id)}
+                    onChange={() => update(setFeeHeadIds)(toggle(feeHeadIds, head.id))}
+                    className="w-4 h-4 rounded border-gray-300 text-blue-600"
+                  />
+                  {head.headName}
+                </label>
+              ))}
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={includeStudentFees}
+                  onChange={(e) => update(setIncludeStudentFees)(e.target.checked)}
+                  className="w-4 h-4 rounded border-gray-300 text-blue-600"
+                />
+                Students' own monthly fee (classes without a fee structure)
+              </label>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <Select
+              label="Change By"
+              value={increaseType}
+              onChange={(e) => update(setIncreaseType)(e.target.value as 'percent' | 'flat')}
+              options={[
+                { value: 'percent', label: 'Percentage (%)' },
+                { value: 'flat', label: 'Fixed Amount (Rs.)' },
+              ]}
+            />
+            <Input
+              label={increaseType === 'percent' ? 'Increase (%) *' : 'Increase (Rs.) *'}
+              type="number"
+              placeholder="Negative to reduce"
+              value={value}
+              onChange={(e) => update(setValue)(e.target.value)}
+            />
+            <Select
+              label="Round To"
+              value={roundTo}
+              onChange={(e) => update(setRoundTo)(e.target.value)}
+              options={[
+                { value: '1', label: 'Nearest Rs. 1' },
+                { value: '10', label: 'Nearest Rs. 10' },
+                { value: '50', label: 'Nearest Rs. 50' },
+                { value: '100', label: 'Nearest Rs. 100' },
+              ]}
+            />
+            <Input
+              label="Effective From *"
+              type="date"
+              value={effectiveFrom}
+              onChange={(e) => update(setEffectiveFrom)(e.target.value)}
+            />
+          </div>
+
+          <Textarea
+            label="Reason"
+            placeholder="e.g., Annual fee increase"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            rows={2}
+          />
+
+          <div className="flex gap-3">
+            <Button variant="secondary" icon={<Eye className="w-4 h-4" />} onClick={handlePreview}>
+              Preview
+            </Button>
+            {isAdmin && (
+              <Button
+                icon={<TrendingUp className="w-4 h-4" />}
+                disabled={!preview || preview.length === 0}
+                onClick={() => setConfirmModal(true)}
+              >
+                Apply Revision
+              </Button>
+            )}
+          </div>
+        </div>
+      </Card>
+
+      {/* Preview */}
+      {preview && (
+        <Card padding="none">
+          <div className="px-4 py-3 border-b border-gray-200 flex items-center justify-between">
+            <h3 className="font-semibold text-gray-900">Preview • {preview.length} amount{preview.length === 1 ? '' : 's'} change</h3>
+            <span className="text-sm text-gray-600">
+              Net change per billing: <span className="font-semibold">{formatCurrency(previewTotal)}</span>
+            </span>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50 border-b border-gray-200">
+                <tr>
+                  <th className="text-left py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Class</th>
+                  <th className="text-left py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Fee</th>
+                  <th className="text-right py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Current</th>
+                  <th className="text-right py-3 px-4 text-xs font-semibold text-gray-600 uppercase">New</th>
+                  <th className="text-right py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Change</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {preview.map((row, index) => (
+                  <tr key={index} className="hover:bg-gray-50">
+                    <td className="py-3 px-4 text-sm font-medium text-gray-900">{getClassName(row.classId)}</td>
+                    <td className="py-3 px-4 text-sm text-gray-600">{row.label}</td>
+                    <td className="py-3 px-4 text-right text-sm text-gray-600">{formatCurrency(row.currentAmount)}</td>
+                    <td className="py-3 px-4 text-right text-sm font-semibold text-gray-900">{formatCurrency(row.newAmount)}</td>
+                    <td className={`py-3 px-4 text-right text-sm font-medium ${row.newAmount > row.currentAmount ? 'text-emerald-600' : 'text-red-600'}`}>
+                      {row.newAmount > row.currentAmount ? '+' : ''}{formatCurrency(row.newAmount - row.currentAmount)}
+                    </td>
+                  </tr>
+                ))}
+                {preview.length === 0 && (
+                  <tr>
+                    <td colSpan={5} className="py-12 text-center text-gray-500">
+                      No fee amounts would change
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </Card>
+      )}
+
+      {/* History */}
+      <Card padding="none">
+        <div className="px-4 py-3 border-b border-gray-200">
+          <h3 className="font-semibold text-gray-900">Revision History</h3>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="text-left py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Effective From</th>
+                <th className="text-left py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Class / Student</th>
+                <th className="text-left py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Fee</th>
+                <th className="text-right py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Previous</th>
+                <th className="text-right py-3 px-4 text-xs font-semibold text-gray-600 uppercase">New</th>
+                <th className="text-left py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Reason</th>
+                <th className="text-left py-3 px-4 text-xs font-semibold text-gray-600 uppercase">By</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {sortedRevisions.map(revision => {
+                const { owner, fee } = describeTarget(revision);
+                return (
+                  <tr key={revision.id} className="hover:bg-gray-50">
+                    <td className="py-3 px-4 text-sm text-gray-900">{revision.effectiveFrom}</td>
+                    <td className="py-3 px-4 text-sm font-medium text-gray-900">{owner}</td>
+                    <td className="py-3 px-4 text-sm text-gray-600">{fee}</td>
+                    <td className="py-3 px-4 text-right text-sm text-gray-600">{formatCurrency(revision.previousAmount)}</td>
+                    <td className="py-3 px-4 text-right text-sm font-semibold text-gray-900">{formatCurrency(revision.amount)}</td>
+                    <td className="py-3 px-4 text-sm text-gray-600">{revision.reason || '-'}</td>
+                    <td className="py-3 px-4 text-sm text-gray-600">
+                      {users.find(u => u.id === revision.createdBy)?.fullName || '-'}
+                    </td>
+                  </tr>
+                );
+              })}
+              {revisions.length === 0 && (
+                <tr>
+                  <td colSpan={7} className="py-12 text-center text-gray-500">
+                    No fee revisions yet
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </Card>
+
+      {/* Confirm Modal */}
+      <Modal
+        isOpen={confirmModal}
+        onClose={() => setConfirmModal(false)}
+        title="Apply Fee Revision"
+        size="sm"
+      >
+        <div className="space-y-4">
+          <p className="text-gray-600">
+            Revise <strong>{preview?.length || 0}</strong> fee amount{preview?.length === 1 ? '' : 's'} from{' '}
+            <strong>{effectiveFrom}</strong>? Months already billed are not changed.
+          </p>
+          <div className="flex gap-3">
+            <Button onClick={handleApply} loading={loading} className="flex-1">
+              Apply
+            </Button>
+            <Button variant="secondary" onClick={() => setConfirmModal(false)} className="flex-1">
+              Cancel
+            </Button>
+          </div>
+        </div>
+      </Modal>
+    </div>
+  );
+}
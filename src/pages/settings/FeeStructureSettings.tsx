@@ -1,13 +1,48 @@
 import { useState } from 'react';
-import { Plus, Edit2, Trash2, DollarSign } from 'lucide-react';
+import { Plus, Edit2, Trash2, DollarSign, Save, X } from 'lucide-react';
 import { Card } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
 import { Input, Select, Textarea } from '@/components/ui/Input';
 import { Badge } from '@/components/ui/Badge';
 import { Modal } from '@/components/ui/Modal';
 import { useToast } from '@/components/ui/Toast';
-import { getFeeHeads, saveFeeHead } from '@/store';
-import type { FeeHead } from '@/types';
+import {
+  getFeeHeads, saveFeeHead, getClasses, getCurrentAcademicYear,
+  getFeeStructures, saveFeeStructures, getLateFeeSettings, saveLateFeeSettings,
+  getChequeSettings, saveChequeSettings, getLocalDateString
+} from '@/store';
+import { getHeadDueMonths, getSessionStartMonth } from '@/utils/feeCalculator';
+import type { FeeHead, FeeStructure } from '@/types';
+
+const monthNames = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+// Due date / late fee terms are edited per class and applied to all of its heads
+interface ClassTerms {
+  dueDay: string;
+  lateFeePerDay: string;
+  maxLateFee: string;
+}
+
+const DEFAULT_TERMS: ClassTerms = { dueDay: '10', lateFeePerDay: '0', maxLateFee: '0' };
+
+const cellKey = (classId: number, feeHeadId: number) => `${classId}:${feeHeadId}`;
+
+// Matrix form state from the saved structure rows of one academic year
+const loadMatrix = (academicYearId?: number) => {
+  const amounts: Record<string, string> = {};
+  const terms: Record<number, ClassTerms> = {};
+  getFeeStructures()
+    .filter(s => s.academicYearId === academicYearId && s.isActive)
+    .forEach(s => {
+      amounts[cellKey(s.classId, s.feeHeadId)] = String(s.amount);
+      terms[s.classId] = {
+        dueDay: String(s.dueDay),
+        lateFeePerDay: String(s.lateFeePerDay),
+        maxLateFee: String(s.maxLateFee),
+      };
+    });
+  return { amounts, terms };
+};
 
 export function FeeStructureSettings() {
   const { showToast } = useToast();
@@ -18,9 +53,68 @@ export function FeeStructureSettings() {
   const [headCode, setHeadCode] = useState('');
   const [description, setDescription] = useState('');
   const [frequency, setFrequency] = useState<'monthly' | 'quarterly' | 'annually' | 'one-time'>('monthly');
+  const [dueMonths, setDueMonths] = useState<number[]>([]);
   const [isMandatory, setIsMandatory] = useState(true);
 
   const feeHeads = getFeeHeads();
+  const academicYear = getCurrentAcademicYear();
+  const sessionStartMonth = getSessionStartMonth(academicYear);
+  const classes = getClasses()
+    .filter(c => c.isActive)
+    .sort((a, b) => a.displayOrder - b.displayOrder);
+  const matrixHeads = feeHeads
+    .filter(h => h.isActive)
+    .sort((a, b) => a.displayOrder - b.displayOrder);
+
+  const [amounts, setAmounts] = useState<Record<string, string>>(() => loadMatrix(academicYear?.id).amounts);
+  const [terms, setTerms] = useState<Record<number, ClassTerms>>(() => loadMatrix(academicYear?.id).terms);
+  const [effectiveFrom, setEffectiveFrom] = useState(getLocalDateString());
+
+  const [lateFeeRules] = useState(getLateFeeSettings);
+  const [graceDays, setGraceDays] = useState(String(lateFeeRules.graceDays));
+  const [holidays, setHolidays] = useState<string[]>(lateFeeRules.holidays);
+  const [excludeSundays, setExcludeSundays] = useState(lateFeeRules.excludeSundays);
+  const [newHoliday, setNewHoliday] = useState('');
+  const [bouncePenalty, setBouncePenalty] = useState(() => String(getChequeSettings().bouncePenalty));
+
+  const setClassTerm = (classId: number, field: keyof ClassTerms, value: string) => {
+    setTerms(prev => ({ ...prev, [classId]: { ...(prev[classId] || DEFAULT_TERMS), [field]: value } }));
+  };
+
+  const handleSaveMatrix = () => {
+    if (!academicYear) return;
+
+    const existing = getFeeStructures().filter(s => s.academicYearId === academicYear.id);
+    const changes: FeeStructure[] = [];
+
+    classes.forEach(cls => {
+      const classTerms = terms[cls.id] || DEFAULT_TERMS;
+      matrixHeads.forEach(head => {
+        const amount = Number(amounts[cellKey(cls.id, head.id)] || 0);
+        const current = existing.find(s => s.classId === cls.id && s.feeHeadId === head.id);
+        if (!current && amount <= 0) return;
+
+        changes.push({
+          id: current?.id || 0,
+          academicYearId: academicYear.id,
+          classId: cls.id,
+          feeHeadId: head.id,
+          amount,
+          dueDay: Number(classTerms.dueDay),
+          lateFeePerDay: Number(classTerms.lateFeePerDay || 0),
+          maxLateFee: Number(classTerms.maxLateFee || 0),
+          isActive: amount > 0,
+        });
+      });
+    });
+
+    try {
+      saveFeeStructures(changes, effectiveFrom);
+      showToast('success', 'Fee structure saved successfully!');
+    } catch (error) {
+      showToast('error', error instanceof Error ? error.message : 'Failed to save fee structure');
+    }
+  };
 
   const handleAdd = () => {
     if (!headName.trim()) {
@@ -35,6 +129,7 @@ export function FeeStructureSettings() {
       description: description.trim(),
       isRecurring: frequency !== 'one-time',
       frequency,
+      dueMonths: getScheduledMonths(),
       isMandatory,
       displayOrder: feeHeads.length + 1,
       isActive: true,
@@ -55,6 +150,7 @@ export function FeeStructureSettings() {
       headCode: headCode.trim(),
       description: description.trim(),
       frequency,
+      dueMonths: getScheduledMonths(),
       isRecurring: frequency !== 'one-time',
       isMandatory,
     };
@@ -65,11 +161,36 @@ export function FeeStructureSettings() {
     resetForm();
   };
 
+  const handleAddHoliday = () => {
+    if (!newHoliday || holidays.includes(newHoliday)) return;
+    setHolidays(prev => [...prev, newHoliday].sort());
+    setNewHoliday('');
+  };
+
+  const handleSaveLateFeeRules = () => {
+    try {
+      saveLateFeeSettings({ graceDays: Number(graceDays || 0), holidays, excludeSundays });
+      showToast('success', 'Late fee rules saved successfully!');
+    } catch (error) {
+      showToast('error', error instanceof Error ? error.message : 'Failed to save late fee rules');
+    }
+  };
+
+  const handleSaveChequeSettings = () => {
+    try {
+      saveChequeSettings({ bouncePenalty: Number(bouncePenalty || 0) });
+      showToast('success', 'Cheque settings saved successfully!');
+    } catch (error) {
+      showToast('error', error instanceof Error ? error.message : 'Failed to save cheque settings');
+    }
+  };
+
   const openEditModal = (head: FeeHead) => {
     setHeadName(head.headName);
     setHeadCode(head.headCode);
     setDescription(head.description || '');
     setFrequency(head.frequency);
+    setDueMonths(head.dueMonths || []);
     setIsMandatory(head.isMandatory);
     setEditModal(head);
   };
@@ -79,9 +200,47 @@ export function FeeStructureSettings() {
     setHeadCode('');
     setDescription('');
     setFrequency('monthly');
+    setDueMonths([]);
     setIsMandatory(true);
   };
 
+  // Only quarterly and annual heads are scheduled; none ticked follows the session
+  const getScheduledMonths = (): number[] | undefined => {
+    return (frequency === 'quarterly' || frequency === 'annually') && dueMonths.length > 0
+      ? [...dueMonths].sort((a, b) => a - b)
+      : undefined;
+  };
+
+  const toggleDueMonth = (month: number) => {
+    setDueMonths(prev => prev.includes(month) ? prev.filter(m => m !== month) : [...prev, month]);
+  };
+
+  const dueMonthsPicker = (frequency === 'quarterly' || frequency === 'annually') && (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-2">Due Months</label>
+      <div className="grid grid-cols-6 gap-2">
+        {monthNames.map((name, index) => (
+          <button
+            key={name}
+            type="button"
+            onClick={() => toggleDueMonth(index + 1)}
+            className={`py-1.5 rounded-lg border-2 text-xs font-medium transition-all ${
+              dueMonths.includes(index + 1)
+                ? 'border-blue-600 bg-blue-50 text-blue-700'
+                : 'border-gray-200 hover:border-gray-300 text-gray-600'
+            }`}
+          >
+            {name}
+          </button>
+        ))}
+      </div>
+      <p className="mt-1 text-xs text-gray-500">
+        Leave empty to bill {frequency === 'quarterly' ? 'at the start of each quarter' : 'at the start'} of the session
+        ({getHeadDueMonths(frequency, sessionStartMonth).map(m => monthNames[m - 1]).join(', ')}).
+      </p>
+    </div>
+  );
+
   const getFrequencyBadge = (freq: string) => {
     switch (freq) {
       case 'monthly':
@@ -140,7 +299,17 @@ export function FeeStructureSettings() {
                     <code className="px-2 py-1 bg-gray-100 rounded text-sm">{head.headCode}</code>
                   </td>
                   <td className="py-3 px-4 text-sm text-gray-600">{head.description || '-'}</td>
-                  <td className="py-3 px-4">{getFrequencyBadge(head.frequency)}</td>
+                  <td className="py-3 px-4">
+                    {getFrequencyBadge(head.frequency)}
+                    {(head.frequency === 'quarterly' || head.frequency === 'annually') && (
+                      <span className="block mt-1 text-xs text-gray-500">
+                        {getHeadDueMonths(head.frequency, sessionStartMonth, head.dueMonths).map(m => monthNames[m - 1]).join(', ')}
+                      </span>
+                    )}
+                    {head.frequency === 'one-time' && (
+                      <span className="block mt-1 text-xs text-gray-500">At admission</span>
+                    )}
+                  </td>
                   <td className="py-3 px-4">
                     {head.isMandatory ? (
                       <Badge variant="danger">Required</Badge>
@@ -173,6 +342,200 @@ export function FeeStructureSettings() {
         </div>
       </Card>
 
+      {/* Fee Structure Matrix */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Class Fee Amounts</h2>
+          <p className="text-sm text-gray-500">
+            {academicYear
+              ? `Amount of each fee head per class for ${academicYear.yearName}. Leave a cell empty if the head is not charged to that class; classes with no amounts keep using each student's monthly fee.`
+              : 'Set a current academic year to configure class fee amounts.'}
+          </p>
+        </div>
+        {academicYear && (
+          <div className="flex items-end gap-3">
+            <div className="w-44">
+              <Input
+                label="Changes effective from"
+                type="date"
+                value={effectiveFrom}
+                onChange={(e) => setEffectiveFrom(e.target.value)}
+              />
+            </div>
+            <Button icon={<Save className="w-4 h-4" />} onClick={handleSaveMatrix}>
+              Save Amounts
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {academicYear && (
+        <Card padding="none">
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50 border-b border-gray-200">
+                <tr>
+                  <th className="text-left py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Class</th>
+                  {matrixHeads.map(head => (
+                    <th key={head.id} className="text-right py-3 px-4 text-xs font-semibold text-gray-600 uppercase">
+                      {head.headName}
+                      <span className="block font-normal normal-case text-gray-400">{head.frequency}</span>
+                    </th>
+                  ))}
+                  <th className="text-right py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Due Day</th>
+                  <th className="text-right py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Late Fee / Day</th>
+                  <th className="text-right py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Max Late Fee</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {classes.map(cls => {
+                  const classTerms = terms[cls.id] || DEFAULT_TERMS;
+                  return (
+                    <tr key={cls.id} className="hover:bg-gray-50">
+                      <td className="py-2 px-4 font-medium text-gray-900 whitespace-nowrap">{cls.className}</td>
+                      {matrixHeads.map(head => (
+                        <td key={head.id} className="py-2 px-4 text-right">
+                          <input
+                            type="number"
+                            min="0"
+                            value={amounts[cellKey(cls.id, head.id)] || ''}
+                            onChange={(e) => setAmounts(prev => ({ ...prev, [cellKey(cls.id, head.id)]: e.target.value }))}
+                            className="w-24 px-2 py-1 border border-gray-300 rounded text-sm text-right focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            placeholder="-"
+                          />
+                        </td>
+                      ))}
+                      <td className="py-2 px-4 text-right">
+                        <input
+                          type="number"
+                          min="1"
+                          max="28"
+                          value={classTerms.dueDay}
+                          onChange={(e) => setClassTerm(cls.id, 'dueDay', e.target.value)}
+                          className="w-16 px-2 py-1 border border-gray-300 rounded text-sm text-right focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                      </td>
+                      <td className="py-2 px-4 text-right">
+                        <input
+                          type="number"
+                          min="0"
+                          value={classTerms.lateFeePerDay}
+                          onChange={(e) => setClassTerm(cls.id, 'lateFeePerDay', e.target.value)}
+                          className="w-20 px-2 py-1 border border-gray-300 rounded text-sm text-right focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                      </td>
+                      <td className="py-2 px-4 text-right">
+                        <input
+                          type="number"
+                          min="0"
+                          value={classTerms.maxLateFee}
+                          onChange={(e) => setClassTerm(cls.id, 'maxLateFee', e.target.value)}
+                          className="w-24 px-2 py-1 border border-gray-300 rounded text-sm text-right focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                      </td>
+                    </tr>
+                  );
+                })}
+                {classes.length === 0 && (
+                  <tr>
+                    <td colSpan={matrixHeads.length + 4} className="py-8 text-center text-gray-500">
+                      No active classes configured
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </Card>
+      )}
+
+      {/* Late Fee Rules */}
+      <Card>
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Late Fee Rules</h3>
+            <p className="text-sm text-gray-500">
+              Per-day rates and caps are set per class above. Holidays never count as late days.
+            </p>
+          </div>
+          <Button icon={<Save className="w-4 h-4" />} onClick={handleSaveLateFeeRules}>
+            Save Rules
+          </Button>
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div className="space-y-4">
+            <Input
+              label="Grace Days"
+              type="number"
+              min="0"
+              value={graceDays}
+              onChange={(e) => setGraceDays(e.target.value)}
+            />
+            <div className="flex items-center gap-3">
+              <input
+                type="checkbox"
+                id="excludeSundays"
+                checked={excludeSundays}
+                onChange={(e) => setExcludeSundays(e.target.checked)}
+                className="w-4 h-4 rounded border-gray-300 text-blue-600"
+              />
+              <label htmlFor="excludeSundays" className="text-sm text-gray-700">Don't count Sundays as late days</label>
+            </div>
+          </div>
+          <div>
+            <div className="flex items-end gap-2">
+              <div className="flex-1">
+                <Input
+                  label="Holidays"
+                  type="date"
+                  value={newHoliday}
+                  onChange={(e) => setNewHoliday(e.target.value)}
+                />
+              </div>
+              <Button variant="secondary" onClick={handleAddHoliday}>Add</Button>
+            </div>
+            <div className="flex flex-wrap gap-2 mt-3">
+              {holidays.map(date => (
+                <span key={date} className="inline-flex items-center gap-1 px-2 py-1 bg-gray-100 rounded text-sm text-gray-700">
+                  {date}
+                  <button
+                    onClick={() => setHolidays(prev => prev.filter(d => d !== date))}
+                    className="text-gray-400 hover:text-red-600"
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                </span>
+              ))}
+              {holidays.length === 0 && <p className="text-sm text-gray-500">No holidays added</p>}
+            </div>
+          </div>
+        </div>
+      </Card>
+
+      {/* Cheque Bounce Penalty */}
+      <Card>
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Cheque Bounce Penalty</h3>
+            <p className="text-sm text-gray-500">
+              Charged to the student when a cheque bounces, with the first month it had paid for. Zero charges nothing.
+            </p>
+          </div>
+          <Button icon={<Save className="w-4 h-4" />} onClick={handleSaveChequeSettings}>
+            Save
+          </Button>
+        </div>
+        <div className="w-48">
+          <Input
+            label="Penalty (Rs.)"
+            type="number"
+            min="0"
+            value={bouncePenalty}
+            onChange={(e) => setBouncePenalty(e.target.value)}
+          />
+        </div>
+      </Card>
+
       {/* Add Modal */}
       <Modal
         isOpen={addModal}
@@ -210,6 +573,7 @@ export function FeeStructureSettings() {
               { value: 'one-time', label: 'One-time' },
             ]}
           />
+          {dueMonthsPicker}
           <div className="flex items-center gap-3">
             <input
               type="checkbox"
@@ -265,6 +629,7 @@ export function FeeStructureSettings() {
               { value: 'one-time', label: 'One-time' },
             ]}
           />
+          {dueMonthsPicker}
           <div className="flex items-center gap-3">
             <input
               type="checkbox"
@@ -0,0 +1,174 @@
+import { useState } from 'react';
+import { Save, Hash, AlertTriangle, CheckCircle } from 'lucide-react';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Input, Select } from '@/components/ui/Input';
+import { useToast } from '@/components/ui/Toast';
+import {
+  getNumberingSettings, saveNumberingSettings, getNextDocumentNumber, getDuplicateDocumentNumbers,
+  getCurrentUser, getLocalDateString
+} from '@/store';
+import { useAcademicYears, useStoreQuery } from '@/hooks/useStore';
+import { DOCUMENT_LABELS, getNumberBase, formatDocumentNumber } from '@/utils/numbering';
+import type { DocumentType, NumberingScheme, NumberingSettings as Settings } from '@/types';
+
+const documentTypes = Object.keys(DOCUMENT_LABELS) as DocumentType[];
+const noDuplicates = Object.fromEntries(documentTypes.map(type => [type, [] as string[]])) as Record<DocumentType, string[]>;
+
+export function NumberingSettings() {
+  const { showToast } = useToast();
+  const [settings, setSettings] = useState<Settings>(getNumberingSettings);
+
+  const isAdmin = getCurrentUser()?.role === 'admin';
+  const today = getLocalDateString();
+  const { data: academicYears } = useAcademicYears();
+  const { data: duplicates } = useStoreQuery(
+    ['fee_records', 'salary_payments'], async () => getDuplicateDocumentNumbers(), noDuplicates
+  );
+  const { data: nextNumbers } = useStoreQuery(
+    ['numbering_settings', 'document_counters', 'academic_years', 'fee_records', 'salary_payments'],
+    async () => Object.fromEntries(documentTypes.map(type => [type, getNextDocumentNumber(type)])) as Partial<Record<DocumentType, string>>,
+    {}
+  );
+  const duplicateTypes = documentTypes.filter(type => duplicates[type].length > 0);
+
+  const updateScheme = (type: DocumentType, changes: Partial<NumberingScheme>) => {
+    setSettings(prev => ({ ...prev, [type]: { ...prev[type], ...changes } }));
+  };
+
+  const handleSave = () => {
+    try {
+      saveNumberingSettings(settings);
+      showToast('success', 'Document numbering saved');
+    } catch (error) {
+      showToast('error', error instanceof Error ? error.message : 'Failed to save numbering');
+    }
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      {/* Schemes */}
+      <Card>
+        <div className="flex items-center gap-3 mb-6">
+          <div className="p-2 bg-blue-100 rounded-lg">
+            <Hash className="w-5 h-5 text-blue-600" />
+          </div>
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Numbering Schemes</h3>
+            <p className="text-sm text-gray-500">
+              Numbers run without gaps and continue from the highest number already issued
+            </p>
+          </div>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="text-left py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Document</th>
+                <th className="text-left py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Prefix</th>
+                <th className="text-left py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Year</th>
+                <th className="text-left py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Digits</th>
+                <th className="text-left py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Restart</th>
+                <th className="text-left py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Format</th>
+                <th className="text-left py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Next Number</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {documentTypes.map(type => {
+                const scheme = settings[type];
+                return (
+                  <tr key={type}>
+                    <td className="py-3 px-4 text-sm font-medium text-gray-900">{DOCUMENT_LABELS[type]}</td>
+                    <td className="py-3 px-4 w-32">
+                      <Input
+                        value={scheme.prefix}
+                        onChange={(e) => updateScheme(type, { prefix: e.target.value.toUpperCase() })}
+                        disabled={!isAdmin}
+                      />
+                    </td>
+                    <td className="py-3 px-4 w-44">
+                      <Select
+                        value={scheme.yearToken}
+                        onChange={(e) => updateScheme(type, { yearToken: e.target.value as NumberingScheme['yearToken'] })}
+                        options={[
+                          { value: 'none', label: 'None' },
+                          { value: 'year', label: 'Calendar year' },
+                          { value: 'academic_year', label: 'Academic year' },
+                        ]}
+                        disabled={!isAdmin}
+                      />
+                    </td>
+                    <td className="py-3 px-4 w-24">
+                      <Input
+                        type="number"
+                        min="1"
+                        max="8"
+                        value={scheme.padding}
+                        onChange={(e) => updateScheme(type, { padding: Number(e.target.value) })}
+                        disabled={!isAdmin}
+                      />
+                    </td>
+                    <td className="py-3 px-4 w-40">
+                      <Select
+                        value={scheme.reset}
+                        onChange={(e) => updateScheme(type, { reset: e.target.value as NumberingScheme['reset'] })}
+                        options={[
+                          { value: 'never', label: 'Never' },
+                          { value: 'yearly', label: 'Every year' },
+                        ]}
+                        disabled={!isAdmin}
+                      />
+                    </td>
+                    <td className="py-3 px-4 font-mono text-sm text-gray-600">
+                      {formatDocumentNumber(getNumberBase(scheme, today, academicYears), 1, scheme.padding)}
+                    </td>
+                    <td className="py-3 px-4 font-mono text-sm text-blue-600">{nextNumbers[type]}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        <p className="text-xs text-gray-500 mt-4">
+          A yearly restart follows the year in the number: the academic year when it shows the academic year,
+          otherwise the calendar year. Changes apply to documents issued from now on.
+        </p>
+
+        {isAdmin && (
+          <div className="flex justify-end mt-4">
+            <Button icon={<Save className="w-4 h-4" />} onClick={handleSave}>
+              Save Numbering
+            </Button>
+          </div>
+        )}
+      </Card>
+
+      {/* Duplicate Check */}
+      <Card>
+        <h3 className="text-lg font-semibold text-gray-900 mb-4">Duplicate Check</h3>
+        {duplicateTypes.length === 0 ? (
+          <div className="flex items-center gap-3 text-green-700">
+            <CheckCircle className="w-5 h-5" />
+            <p className="text-sm">Every document number is in use by one document only.</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {duplicateTypes.map(type => (
+              <div key={type} className="bg-red-50 border-l-4 border-red-500 p-4 flex items-start gap-3">
+                <AlertTriangle className="w-5 h-5 text-red-500 flex-shrink-0" />
+                <div>
+                  <p className="text-sm font-medium text-red-700">
+                    {duplicates[type].length} {DOCUMENT_LABELS[type].toLowerCase()} number{duplicates[type].length === 1 ? '' : 's'} used more than once
+                  </p>
+                  <p className="text-xs font-mono text-red-600 mt-1">{duplicates[type].join(', ')}</p>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+}
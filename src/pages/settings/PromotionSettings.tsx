@@ -87,7 +87,7 @@ export function PromotionSettings() {
         action: promotionActions[id]
       }));
       
-      const result = promoteStudents(data);
+      const result = await promoteStudents(data);
       showToast('success', `Successfully processed ${result.total} students!`);
       setShowConfirmModal(false);
       // Reset state or could refresh data
@@ -1,9 +1,13 @@
 import { useState, useEffect, useRef } from 'react';
-import { ArrowLeft, Save, User, UserCheck } from 'lucide-react';
+import { ArrowLeft, Save, User, UserCheck, Users } from 'lucide-react';
 import { Card } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
 import { useToast } from '@/components/ui/Toast';
-import { saveStudent, getClasses, generateStudentId, getStudentById } from '@/store';
+import {
+  saveStudent, getClasses, generateStudentId, getStudentById,
+  getSiblingSuggestions, getFamilyById, getFamilyMembers, linkSiblings, unlinkFromFamily,
+  getTransportAssignments, getStudentTransport, getLocalDateString
+} from '@/store';
 import type { Student } from '@/types';
 
 interface AddStudentProps {
@@ -17,6 +21,13 @@ export function AddStudent({ onNavigate, studentId }: AddStudentProps) {
   const [isEditMode, setIsEditMode] = useState(false);
   const existingStudentRef = useRef<Student | null>(null);
   const classes = getClasses();
+  const [familyId, setFamilyId] = useState<number | undefined>();
+  const [linkSiblingIds, setLinkSiblingIds] = useState<number[]>([]);
+  // Months before this keep the old fee when an existing student's fee changes
+  const [feeEffectiveFrom, setFeeEffectiveFrom] = useState(getLocalDateString());
+  // Once a student has been assigned to a stop, transport is charged from the stop
+  const onRoutes = studentId !== undefined && getTransportAssignments().some(a => a.studentId === studentId);
+  const transport = onRoutes && studentId !== undefined ? getStudentTransport(studentId) : null;
 
   const [formData, setFormData] = useState({
     firstName: '',
@@ -32,6 +43,7 @@ export function AddStudent({ onNavigate, studentId }: AddStudentProps) {
     motherName: '',
     motherPhone: '',
     monthlyFee: '5000',
+    feeCategory: 'regular',
     transportOpted: false,
     transportFee: '0',
     admissionDate: new Date().toISOString().split('T')[0],
@@ -52,6 +64,7 @@ export function AddStudent({ onNavigate, studentId }: AddStudentProps) {
       if (student) {
         setIsEditMode(true);
         existingStudentRef.current = student;
+        setFamilyId(student.familyId);
         // Populate all form fields with student data
         setFormData({
           firstName: student.firstName || '',
@@ -67,6 +80,7 @@ export function AddStudent({ onNavigate, studentId }: AddStudentProps) {
           motherName: student.motherName || '',
           motherPhone: student.motherPhone || '',
           monthlyFee: student.monthlyFee?.toString() || '5000',
+          feeCategory: student.feeCategory || 'regular',
           transportOpted: student.transportOpted || false,
           transportFee: student.transportFee?.toString() || '0',
           admissionDate: student.admissionDate || '',
@@ -132,6 +146,7 @@ export function AddStudent({ onNavigate, studentId }: AddStudentProps) {
           classId: parseInt(formData.classId),
           admissionDate: formData.admissionDate,
           monthlyFee: parseFloat(formData.monthlyFee),
+          feeCategory: formData.feeCategory as Student['feeCategory'],
           transportOpted: formData.transportOpted,
           transportFee: parseFloat(formData.transportFee) || 0,
           address: formData.address,
@@ -143,7 +158,10 @@ export function AddStudent({ onNavigate, studentId }: AddStudentProps) {
           updatedAt: new Date().toISOString(),
         };
 
-        saveStudent(updatedStudent);
+        await saveStudent(updatedStudent, feeEffectiveFrom);
+        if (linkSiblingIds.length > 0) {
+          await linkSiblings([updatedStudent.id, ...linkSiblingIds]);
+        }
         showToast('success', 'Student updated successfully!');
       } else {
         const newStudent: Student = {
@@ -164,7 +182,7 @@ export function AddStudent({ onNavigate, studentId }: AddStudentProps) {
           classId: parseInt(formData.classId),
           admissionDate: formData.admissionDate,
           monthlyFee: parseFloat(formData.monthlyFee),
-          feeCategory: 'regular',
+          feeCategory: formData.feeCategory as Student['feeCategory'],
           transportOpted: formData.transportOpted,
           transportFee: parseFloat(formData.transportFee) || 0,
           address: formData.address,
@@ -177,7 +195,10 @@ export function AddStudent({ onNavigate, studentId }: AddStudentProps) {
           updatedAt: new Date().toISOString(),
         };
 
-        saveStudent(newStudent);
+        await saveStudent(newStudent);
+        if (linkSiblingIds.length > 0) {
+          await linkSiblings([newStudent.id, ...linkSiblingIds]);
+        }
         showToast('success', 'Student registered successfully!');
       }
       onNavigate('students-list');
@@ -188,8 +209,39 @@ export function AddStudent({ onNavigate, studentId }: AddStudentProps) {
     }
   };
 
+  // Suggest siblings from the parent details typed so far
+  const siblingMatches = getSiblingSuggestions({
+    id: studentId,
+    fatherName: formData.fatherName,
+    fatherPhone: formData.fatherPhone,
+    motherName: formData.motherName,
+    motherPhone: formData.motherPhone,
+    address: formData.address,
+  }).filter(match => !familyId || match.student.familyId !== familyId);
+  const family = familyId ? getFamilyById(familyId) : undefined;
+  const familyMembers = familyId ? getFamilyMembers(familyId).filter(s => s.id !== studentId) : [];
+
+  const toggleSiblingLink = (id: number) => {
+    setLinkSiblingIds(prev => prev.includes(id) ? prev.filter(i => i !== id) : [...prev, id]);
+  };
+
+  const handleUnlinkFamily = async () => {
+    if (!studentId) return;
+    try {
+      await unlinkFromFamily(studentId);
+      existingStudentRef.current = getStudentById(studentId) || existingStudentRef.current;
+      setFamilyId(undefined);
+      showToast('success', 'Student removed from family');
+    } catch (error) {
+      showToast('error', error instanceof Error ? error.message : 'Failed to update family');
+    }
+  };
+
   const inputClass = "w-full h-11 px-4 border border-gray-300 rounded-lg text-gray-900 placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200";
   const labelClass = "block text-sm font-medium text-gray-700 mb-1.5";
+  const transportAmount = onRoutes
+    ? transport?.stop.monthlyFee || 0
+    : formData.transportOpted ? parseFloat(formData.transportFee) || 0 : 0;
 
   return (
     <div className="p-6 space-y-6">
@@ -428,6 +480,57 @@ export function AddStudent({ onNavigate, studentId }: AddStudentProps) {
 
         {/* Sidebar - Fee Information */}
         <div className="space-y-6">
+          {(family || siblingMatches.length > 0) && (
+            <Card>
+              <h3 className="text-md font-semibold text-gray-900 mb-4 flex items-center gap-2">
+                <Users className="w-4 h-4 text-purple-600" />
+                Family
+              </h3>
+              {family && (
+                <div className="mb-4 p-3 bg-purple-50 rounded-lg text-sm">
+                  <div className="flex items-center justify-between">
+                    <span className="font-medium text-purple-900">{family.familyName}</span>
+                    <code className="text-xs text-purple-700">{family.familyCode}</code>
+                  </div>
+                  <p className="text-purple-700 mt-1">
+                    {familyMembers.map(s => s.firstName).join(', ') || 'No other members'}
+                  </p>
+                  <button
+                    type="button"
+                    onClick={handleUnlinkFamily}
+                    className="mt-2 text-xs text-red-600 hover:text-red-700"
+                  >
+                    Remove from family
+                  </button>
+                </div>
+              )}
+              {siblingMatches.length > 0 && (
+                <div className="space-y-2">
+                  <p className="text-sm text-gray-600">Possible siblings already enrolled:</p>
+                  {siblingMatches.map(({ student, reasons }) => (
+                    <label key={student.id} className="flex items-start gap-3 p-2 rounded-lg hover:bg-gray-50 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={linkSiblingIds.includes(student.id)}
+                        onChange={() => toggleSiblingLink(student.id)}
+                        className="mt-1 w-4 h-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                      />
+                      <div className="text-sm">
+                        <p className="font-medium text-gray-900">
+                          {student.firstName} {student.lastName} <span className="text-gray-500">({student.studentId})</span>
+                        </p>
+                        <p className="text-xs text-gray-500">
+                          {classes.find(c => c.id === student.classId)?.className || 'N/A'} • {reasons.join(', ')}
+                        </p>
+                      </div>
+                    </label>
+                  ))}
+                  <p className="text-xs text-gray-500">Ticked students are linked as one family when you save.</p>
+                </div>
+              )}
+            </Card>
+          )}
+
           <Card>
             <h3 className="text-md font-semibold text-gray-900 mb-4">Fee Information</h3>
             <div className="space-y-4">
@@ -443,18 +546,42 @@ export function AddStudent({ onNavigate, studentId }: AddStudentProps) {
                 />
                 {errors.monthlyFee && <p className="text-red-500 text-xs mt-1">{errors.monthlyFee}</p>}
               </div>
-              <div className="flex items-center gap-3">
-                <input
-                  type="checkbox"
-                  id="transportOpted"
-                  name="transportOpted"
-                  checked={formData.transportOpted}
+              <div>
+                <label className={labelClass}>Fee Category</label>
+                <select
+                  name="feeCategory"
+                  value={formData.feeCategory}
                   onChange={handleChange}
-                  className="w-4 h-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-                />
-                <label htmlFor="transportOpted" className="text-sm text-gray-700 font-medium">Transport Required</label>
+                  className={inputClass}
+                >
+                  <option value="regular">Regular</option>
+                  <option value="sibling">Sibling</option>
+                  <option value="scholarship">Scholarship</option>
+                  <option value="staff">Staff Child</option>
+                </select>
               </div>
-              {formData.transportOpted && (
+              {onRoutes ? (
+                <div>
+                  <label className={labelClass}>Transport</label>
+                  <p className="text-sm text-gray-900">
+                    {transport ? `${transport.route.routeCode} / ${transport.stop.stopName} - Rs. ${transport.stop.monthlyFee}` : 'No transport'}
+                  </p>
+                  <p className="text-xs text-gray-500 mt-1">Change the stop under Transport &gt; Student Transport.</p>
+                </div>
+              ) : (
+                <div className="flex items-center gap-3">
+                  <input
+                    type="checkbox"
+                    id="transportOpted"
+                    name="transportOpted"
+                    checked={formData.transportOpted}
+                    onChange={handleChange}
+                    className="w-4 h-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  <label htmlFor="transportOpted" className="text-sm text-gray-700 font-medium">Transport Required</label>
+                </div>
+              )}
+              {!onRoutes && formData.transportOpted && (
                 <div>
                   <label className={labelClass}>Transport Fee (Rs.)</label>
                   <input
@@ -466,6 +593,21 @@ export function AddStudent({ onNavigate, studentId }: AddStudentProps) {
                   />
                 </div>
               )}
+              {isEditMode && existingStudentRef.current && (
+                parseFloat(formData.monthlyFee) !== existingStudentRef.current.monthlyFee ||
+                (parseFloat(formData.transportFee) || 0) !== existingStudentRef.current.transportFee
+              ) && (
+                <div>
+                  <label className={labelClass}>Fee Change Effective From</label>
+                  <input
+                    type="date"
+                    value={feeEffectiveFrom}
+                    onChange={(e) => setFeeEffectiveFrom(e.target.value)}
+                    className={inputClass}
+                  />
+                  <p className="text-xs text-gray-500 mt-1">Months before this keep the old fee.</p>
+                </div>
+              )}
             </div>
           </Card>
 
@@ -487,16 +629,16 @@ export function AddStudent({ onNavigate, studentId }: AddStudentProps) {
                 <span className={isEditMode ? 'text-amber-700' : 'text-blue-700'}>Monthly Fee</span>
                 <span className={`font-medium ${isEditMode ? 'text-amber-900' : 'text-blue-900'}`}>Rs. {parseFloat(formData.monthlyFee) || 0}</span>
               </div>
-              {formData.transportOpted && (
+              {(onRoutes ? !!transport : formData.transportOpted) && (
                 <div className="flex justify-between">
                   <span className={isEditMode ? 'text-amber-700' : 'text-blue-700'}>Transport Fee</span>
-                  <span className={`font-medium ${isEditMode ? 'text-amber-900' : 'text-blue-900'}`}>Rs. {parseFloat(formData.transportFee) || 0}</span>
+                  <span className={`font-medium ${isEditMode ? 'text-amber-900' : 'text-blue-900'}`}>Rs. {transportAmount}</span>
                 </div>
               )}
               <div className={`border-t pt-2 flex justify-between ${isEditMode ? 'border-amber-200' : 'border-blue-200'}`}>
                 <span className={`font-semibold ${isEditMode ? 'text-amber-800' : 'text-blue-800'}`}>Total Monthly</span>
                 <span className={`font-bold ${isEditMode ? 'text-amber-900' : 'text-blue-900'}`}>
-                  Rs. {(parseFloat(formData.monthlyFee) || 0) + (formData.transportOpted ? parseFloat(formData.transportFee) || 0 : 0)}
+                  Rs. {(parseFloat(formData.monthlyFee) || 0) + transportAmount}
                 </span>
               </div>
             </div>
@@ -6,7 +6,8 @@ import { Input, Select } from '@/components/ui/Input';
 import { Badge } from '@/components/ui/Badge';
 import { Modal } from '@/components/ui/Modal';
 import { useToast } from '@/components/ui/Toast';
-import { getStudents, getClasses, deleteStudent } from '@/store';
+import { deleteStudent } from '@/store';
+import { useStudents, useClasses } from '@/hooks/useStore';
 import type { Student } from '@/types';
 
 interface StudentsListProps {
@@ -21,8 +22,8 @@ export function StudentsList({ onNavigate }: StudentsListProps) {
   const [deleteModal, setDeleteModal] = useState<Student | null>(null);
   const [viewModal, setViewModal] = useState<Student | null>(null);
 
-  const students = getStudents();
-  const classes = getClasses();
+  const { data: students } = useStudents();
+  const { data: classes } = useClasses();
 
   const filteredStudents = students.filter(student => {
     const matchesSearch = 
@@ -41,10 +42,14 @@ export function StudentsList({ onNavigate }: StudentsListProps) {
     return classes.find(c => c.id === classId)?.className || 'N/A';
   };
 
-  const handleDelete = () => {
+  const handleDelete = async () => {
     if (deleteModal) {
-      deleteStudent(deleteModal.id);
-      showToast('success', 'Student deleted successfully');
+      try {
+        await deleteStudent(deleteModal.id);
+        showToast('success', 'Student deleted successfully');
+      } catch (error) {
+        showToast('error', error instanceof Error ? error.message : 'Failed to delete student');
+      }
       setDeleteModal(null);
     }
   };
@@ -6,7 +6,6 @@ import {
   getTeachers, 
   getSalaryPayments, 
   saveSalaryPayment, 
-  generatePaymentId,
   getCurrentUser 
 } from '@/store';
 import type { Teacher, SalaryPayment } from '@/types';
@@ -70,7 +69,7 @@ export function PaySalary({ onNavigate }: PaySalaryProps) {
     const currentUser = getCurrentUser();
     const payment: SalaryPayment = {
       id: salaryPayments.length + 1,
-      paymentId: generatePaymentId(),
+      paymentId: '',
       teacherId: selectedTeacher.id,
       month: paymentData.month,
       year: paymentData.year,
@@ -6,7 +6,8 @@ import {
 import { Card } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
 import { Badge } from '@/components/ui/Badge';
-import { getTeachers, deleteTeacher } from '@/store';
+import { deleteTeacher } from '@/store';
+import { useTeachers } from '@/hooks/useStore';
 import type { Teacher } from '@/types';
 
 interface TeachersListProps {
@@ -16,7 +17,7 @@ interface TeachersListProps {
 export function TeachersList({ onNavigate }: TeachersListProps) {
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState<string>('all');
-  const [teachers, setTeachers] = useState<Teacher[]>(getTeachers());
+  const { data: teachers } = useTeachers();
   const [showDeleteModal, setShowDeleteModal] = useState<number | null>(null);
 
   const filteredTeachers = teachers.filter(teacher => {
@@ -32,9 +33,12 @@ export function TeachersList({ onNavigate }: TeachersListProps) {
     return matchesSearch && matchesStatus;
   });
 
-  const handleDelete = (teacherId: number) => {
-    deleteTeacher(teacherId);
-    setTeachers(getTeachers());
+  const handleDelete = async (teacherId: number) => {
+    try {
+      await deleteTeacher(teacherId);
+    } catch (error) {
+      console.error('Failed to delete teacher:', error);
+    }
     setShowDeleteModal(null);
   };
 
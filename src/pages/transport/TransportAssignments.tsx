@@ -0,0 +1,286 @@
+import { useState } from 'react';
+import { Search, MapPin, History } from 'lucide-react';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Input, Select } from '@/components/ui/Input';
+import { Badge } from '@/components/ui/Badge';
+import { Modal } from '@/components/ui/Modal';
+import { useToast } from '@/components/ui/Toast';
+import {
+  assignTransportStop, getCurrentUser, getLocalDateString, formatCurrency
+} from '@/store';
+import {
+  useClasses, useStudents, useTransportAssignments, useTransportRoutes, useTransportStops, useUsers
+} from '@/hooks/useStore';
+import { getAssignmentHistory, getAssignmentInForce } from '@/utils/transport';
+import type { Student } from '@/types';
+
+const months = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December'
+];
+
+export function TransportAssignments() {
+  const { showToast } = useToast();
+  const [search, setSearch] = useState('');
+  const [classFilter, setClassFilter] = useState('');
+  const [routeFilter, setRouteFilter] = useState('');
+  const [selected, setSelected] = useState<number[]>([]);
+  const [showAssign, setShowAssign] = useState(false);
+  const [stopId, setStopId] = useState('');
+  const [effectiveMonth, setEffectiveMonth] = useState(getLocalDateString().slice(0, 7));
+  const [historyStudent, setHistoryStudent] = useState<Student | null>(null);
+
+  const role = getCurrentUser()?.role;
+  const canManage = role === 'admin' || role === 'accountant';
+  const today = getLocalDateString();
+  const period = { month: Number(today.slice(5, 7)), year: Number(today.slice(0, 4)) };
+
+  const { data: students } = useStudents({ status: 'active' });
+  const { data: classes } = useClasses();
+  const { data: routes } = useTransportRoutes();
+  const { data: stops } = useTransportStops();
+  const { data: assignments } = useTransportAssignments();
+  const { data: users } = useUsers();
+
+  const describeStop = (id: number | null | undefined) => {
+    const stop = stops.find(s => s.id === id);
+    const route = routes.find(r => r.id === stop?.routeId);
+    return stop && route ? `${route.routeCode} / ${stop.stopName}` : 'No transport';
+  };
+
+  const rows = students
+    .map(student => {
+      const current = getAssignmentInForce(assignments, student.id, period);
+      const stop = stops.find(s => s.id === current?.stopId);
+      const upcoming = getAssignmentHistory(assignments, student.id)
+        .filter(a => a.effectiveFrom.slice(0, 7) > today.slice(0, 7))
+        .pop();
+      return { student, current, stop, upcoming };
+    })
+    .filter(({ student, stop }) => {
+      const term = search.toLowerCase();
+      return (!term ||
+        `${student.firstName} ${student.lastName || ''}`.toLowerCase().includes(term) ||
+        student.studentId.toLowerCase().includes(term)) &&
+        (!classFilter || student.classId === Number(classFilter)) &&
+        (!routeFilter || (routeFilter === 'none' ? !stop : stop?.routeId === Number(routeFilter)));
+    });
+
+  const stopOptions = routes
+    .filter(r => r.isActive)
+    .flatMap(route => stops
+      .filter(s => s.routeId === route.id && s.isActive)
+      .sort((a, b) => a.displayOrder - b.displayOrder)
+      .map(s => ({ value: String(s.id), label: `${route.routeCode} / ${s.stopName} (${formatCurrency(s.monthlyFee)})` })));
+
+  const toggleSelected = (id: number) => {
+    setSelected(prev => prev.includes(id) ? prev.filter(s => s !== id) : [...prev, id]);
+  };
+
+  const handleAssign = () => {
+    try {
+      const added = assignTransportStop(selected, stopId === 'none' ? null : Number(stopId), `${effectiveMonth}-01`);
+      showToast('success', `${added.length} student${added.length === 1 ? '' : 's'} assigned to ${describeStop(added[0]?.stopId)}`);
+      setShowAssign(false);
+      setSelected([]);
+      setStopId('');
+    } catch (error) {
+      showToast('error', error instanceof Error ? error.message : 'Failed to assign transport');
+    }
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      {/* Filters */}
+      <Card>
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="flex-1 min-w-[200px]">
+            <Input
+              label="Search"
+              placeholder="Name or student ID"
+              icon={<Search className="w-4 h-4" />}
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+            />
+          </div>
+          <div className="w-44">
+            <Select
+              label="Class"
+              value={classFilter}
+              onChange={(e) => setClassFilter(e.target.value)}
+              options={[{ value: '', label: 'All Classes' }, ...classes.map(c => ({ value: String(c.id), label: c.className }))]}
+            />
+          </div>
+          <div className="w-48">
+            <Select
+              label="Route"
+              value={routeFilter}
+              onChange={(e) => setRouteFilter(e.target.value)}
+              options={[
+                { value: '', label: 'All Students' },
+                { value: 'none', label: 'No transport' },
+                ...routes.map(r => ({ value: String(r.id), label: `${r.routeCode} - ${r.routeName}` })),
+              ]}
+            />
+          </div>
+          {canManage && (
+            <Button
+              icon={<MapPin className="w-4 h-4" />}
+              disabled={selected.length === 0}
+              onClick={() => setShowAssign(true)}
+            >
+              Assign Stop{selected.length > 0 ? ` (${selected.length})` : ''}
+            </Button>
+          )}
+        </div>
+      </Card>
+
+      {/* Students */}
+      <Card padding="none">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                {canManage && (
+                  <th className="py-3 px-4 w-10">
+                    <input
+                      type="checkbox"
+                      checked={rows.length > 0 && rows.every(r => selected.includes(r.student.id))}
+                      onChange={(e) => setSelected(e.target.checked ? rows.map(r => r.student.id) : [])}
+                      className="w-4 h-4 rounded border-gray-300 text-blue-600"
+                    />
+                  </th>
+                )}
+                <th className="text-left py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Student</th>
+                <th className="text-left py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Class</th>
+                <th className="text-left py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Route / Stop</th>
+                <th className="text-right py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Monthly Fee</th>
+                <th className="text-left py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Upcoming</th>
+                <th className="text-right py-3 px-4 text-xs font-semibold text-gray-600 uppercase">History</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {rows.map(({ student, current, stop, upcoming }) => (
+                <tr key={student.id} className="hover:bg-gray-50">
+                  {canManage && (
+                    <td className="py-3 px-4">
+                      <input
+                        type="checkbox"
+                        checked={selected.includes(student.id)}
+                        onChange={() => toggleSelected(student.id)}
+                        className="w-4 h-4 rounded border-gray-300 text-blue-600"
+                      />
+                    </td>
+                  )}
+                  <td className="py-3 px-4">
+                    <p className="text-sm font-medium text-gray-900">{student.firstName} {student.lastName}</p>
+                    <p className="text-xs text-gray-500">{student.studentId}</p>
+                  </td>
+                  <td className="py-3 px-4 text-sm text-gray-600">{classes.find(c => c.id === student.classId)?.className || 'N/A'}</td>
+                  <td className="py-3 px-4 text-sm text-gray-900">
+                    {current ? describeStop(current.stopId) : student.transportOpted ? (
+                      <Badge variant="warning">Own fee, no stop</Badge>
+                    ) : 'No transport'}
+                  </td>
+                  <td className="py-3 px-4 text-right text-sm font-semibold text-gray-900">
+                    {stop ? formatCurrency(stop.monthlyFee) : !current && student.transportOpted ? formatCurrency(student.transportFee) : '-'}
+                  </td>
+                  <td className="py-3 px-4 text-sm text-gray-600">
+                    {upcoming ? (
+                      <>
+                        {describeStop(upcoming.stopId)}
+                        <span className="block text-xs text-gray-400">
+                          from {months[Number(upcoming.effectiveFrom.slice(5, 7)) - 1]} {upcoming.effectiveFrom.slice(0, 4)}
+                        </span>
+                      </>
+                    ) : '-'}
+                  </td>
+                  <td className="py-3 px-4 text-right">
+                    <button onClick={() => setHistoryStudent(student)} className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg">
+                      <History className="w-4 h-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+              {rows.length === 0 && (
+                <tr>
+                  <td colSpan={7} className="py-12 text-center text-gray-500">No students found</td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </Card>
+
+      {/* Assign Modal */}
+      <Modal isOpen={showAssign} onClose={() => setShowAssign(false)} title="Assign Stop">
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600">
+            {selected.length} student{selected.length === 1 ? '' : 's'} selected. The transport charge follows the stop
+            from the effective month; earlier months are not changed.
+          </p>
+          <Select
+            label="Stop *"
+            value={stopId}
+            onChange={(e) => setStopId(e.target.value)}
+            options={[
+              { value: '', label: 'Select stop' },
+              ...stopOptions,
+              { value: 'none', label: 'No transport (stop the charge)' },
+            ]}
+          />
+          <Input
+            label="Effective From Month *"
+            type="month"
+            value={effectiveMonth}
+            onChange={(e) => setEffectiveMonth(e.target.value)}
+          />
+          <div className="flex gap-3 pt-2">
+            <Button className="flex-1" disabled={!stopId || !effectiveMonth} onClick={handleAssign}>
+              Assign
+            </Button>
+            <Button variant="secondary" className="flex-1" onClick={() => setShowAssign(false)}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      </Modal>
+
+      {/* History Modal */}
+      <Modal
+        isOpen={!!historyStudent}
+        onClose={() => setHistoryStudent(null)}
+        title={`Transport History - ${historyStudent?.firstName || ''} ${historyStudent?.lastName || ''}`}
+      >
+        {historyStudent && (
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="text-left py-2 px-4 text-xs font-semibold text-gray-600 uppercase">From</th>
+                <th className="text-left py-2 px-4 text-xs font-semibold text-gray-600 uppercase">Route / Stop</th>
+                <th className="text-left py-2 px-4 text-xs font-semibold text-gray-600 uppercase">By</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {getAssignmentHistory(assignments, historyStudent.id).reverse().map(a => (
+                <tr key={a.id}>
+                  <td className="py-2 px-4 text-sm text-gray-900">
+                    {months[Number(a.effectiveFrom.slice(5, 7)) - 1]} {a.effectiveFrom.slice(0, 4)}
+                  </td>
+                  <td className="py-2 px-4 text-sm text-gray-900">{describeStop(a.stopId)}</td>
+                  <td className="py-2 px-4 text-sm text-gray-600">{users.find(u => u.id === a.createdBy)?.fullName || '-'}</td>
+                </tr>
+              ))}
+              {getAssignmentHistory(assignments, historyStudent.id).length === 0 && (
+                <tr>
+                  <td colSpan={3} className="py-6 text-center text-gray-500">Never assigned to a stop</td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        )}
+      </Modal>
+    </div>
+  );
+}
@@ -0,0 +1,414 @@
+import { useState } from 'react';
+import { Plus, Edit2, Bus, MapPin, Route } from 'lucide-react';
+import { Card, StatCard } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Input, Select } from '@/components/ui/Input';
+import { Badge } from '@/components/ui/Badge';
+import { Modal } from '@/components/ui/Modal';
+import { useToast } from '@/components/ui/Toast';
+import {
+  saveVehicle, saveTransportRoute, saveTransportStop, getCurrentUser, getLocalDateString, formatCurrency
+} from '@/store';
+import {
+  useStudents, useTransportAssignments, useTransportRoutes, useTransportStops, useVehicles
+} from '@/hooks/useStore';
+import { getRouteRoster } from '@/utils/transport';
+import type { Vehicle, TransportRoute, TransportStop } from '@/types';
+
+const now = () => new Date().toISOString();
+
+export function TransportSetup() {
+  const { showToast } = useToast();
+  const { data: vehicles } = useVehicles();
+  const { data: routes } = useTransportRoutes();
+  const { data: stops } = useTransportStops();
+
+  const [vehicleForm, setVehicleForm] = useState<Vehicle | null>(null);
+  const [routeForm, setRouteForm] = useState<TransportRoute | null>(null);
+  const [stopForm, setStopForm] = useState<TransportStop | null>(null);
+  const [feeEffectiveFrom, setFeeEffectiveFrom] = useState(getLocalDateString());
+
+  const role = getCurrentUser()?.role;
+  const canManage = role === 'admin' || role === 'accountant';
+  const today = new Date();
+  const { data: assignments } = useTransportAssignments();
+  const { data: students } = useStudents();
+
+  const ridersOn = (routeId: number) =>
+    getRouteRoster(routeId, stops, students, assignments, today.getMonth() + 1, today.getFullYear());
+  const savedStop = stopForm ? stops.find(s => s.id === stopForm.id) : undefined;
+  const feeChanged = !!savedStop && savedStop.monthlyFee !== stopForm?.monthlyFee;
+
+  const handleSaveVehicle = () => {
+    if (!vehicleForm) return;
+    try {
+      saveVehicle(vehicleForm);
+      setVehicleForm(null);
+      showToast('success', 'Vehicle saved');
+    } catch (error) {
+      showToast('error', error instanceof Error ? error.message : 'Failed to save vehicle');
+    }
+  };
+
+  const handleSaveRoute = () => {
+    if (!routeForm) return;
+    try {
+      saveTransportRoute(routeForm);
+      setRouteForm(null);
+      showToast('success', 'Route saved');
+    } catch (error) {
+      showToast('error', error instanceof Error ? error.message : 'Failed to save route');
+    }
+  };
+
+  const handleSaveStop = () => {
+    if (!stopForm) return;
+    try {
+      saveTransportStop(stopForm, feeEffectiveFrom);
+      setStopForm(null);
+      showToast('success', 'Stop saved');
+    } catch (error) {
+      showToast('error', error instanceof Error ? error.message : 'Failed to save stop');
+    }
+  };
+
+  const openStop = (routeId: number, stop?: TransportStop) => {
+    setFeeEffectiveFrom(getLocalDateString());
+    setStopForm(stop || {
+      id: 0,
+      routeId,
+      stopName: '',
+      pickupTime: '',
+      monthlyFee: 0,
+      displayOrder: stops.filter(s => s.routeId === routeId).length + 1,
+      isActive: true,
+      createdAt: now(),
+      updatedAt: now(),
+    });
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      {/* Summary Cards */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <StatCard
+          title="Routes"
+          value={routes.filter(r => r.isActive).length.toString()}
+          icon={<Route className="w-6 h-6 text-blue-600" />}
+          iconBg="bg-blue-100"
+        />
+        <StatCard
+          title="Stops"
+          value={stops.filter(s => s.isActive).length.toString()}
+          icon={<MapPin className="w-6 h-6 text-green-600" />}
+          iconBg="bg-green-100"
+        />
+        <StatCard
+          title="Vehicles"
+          value={vehicles.filter(v => v.isActive).length.toString()}
+          icon={<Bus className="w-6 h-6 text-amber-600" />}
+          iconBg="bg-amber-100"
+        />
+      </div>
+
+      {/* Vehicles */}
+      <Card>
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold text-gray-900">Vehicles</h3>
+          {canManage && (
+            <Button
+              size="sm"
+              icon={<Plus className="w-4 h-4" />}
+              onClick={() => setVehicleForm({
+                id: 0, registrationNumber: '', vehicleType: 'Bus', capacity: 30, driverName: '', driverPhone: '',
+                isActive: true, createdAt: now(), updatedAt: now(),
+              })}
+            >
+              Add Vehicle
+            </Button>
+          )}
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="text-left py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Registration</th>
+                <th className="text-left py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Type</th>
+                <th className="text-right py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Seats</th>
+                <th className="text-left py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Driver</th>
+                <th className="text-left py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Status</th>
+                {canManage && <th className="text-right py-3 px-4 text-xs font-semibold text-gray-600 uppercase">Actions</th>}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {vehicles.map(vehicle => (
+                <tr key={vehicle.id} className="hover:bg-gray-50">
+                  <td className="py-3 px-4 font-mono text-sm font-medium text-gray-900">{vehicle.registrationNumber}</td>
+                  <td className="py-3 px-4 text-sm text-gray-600">{vehicle.vehicleType || '-'}</td>
+                  <td className="py-3 px-4 text-right text-sm text-gray-900">{vehicle.capacity}</td>
+                  <td className="py-3 px-4 text-sm text-gray-900">
+                    {vehicle.driverName}
+                    {vehicle.driverPhone && <span className="block text-xs text-gray-500">{vehicle.driverPhone}</span>}
+                  </td>
+                  <td className="py-3 px-4">
+                    <Badge variant={vehicle.isActive ? 'success' : 'default'}>{vehicle.isActive ? 'Active' : 'Inactive'}</Badge>
+                  </td>
+                  {canManage && (
+                    <td className="py-3 px-4 text-right">
+                      <button onClick={() => setVehicleForm(vehicle)} className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg">
+                        <Edit2 className="w-4 h-4" />
+                      </button>
+                    </td>
+                  )}
+                </tr>
+              ))}
+              {vehicles.length === 0 && (
+                <tr>
+                  <td colSpan={6} className="py-8 text-center text-gray-500">No vehicles added yet</td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </Card>
+
+      {/* Routes and their stops */}
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-gray-900">Routes</h3>
+        {canManage && (
+          <Button
+            icon={<Plus className="w-4 h-4" />}
+            onClick={() => setRouteForm({
+              id: 0, routeCode: '', routeName: '', vehicleId: null, isActive: true, createdAt: now(), updatedAt: now(),
+            })}
+          >
+            Add Route
+          </Button>
+        )}
+      </div>
+
+      {routes.map(route => {
+        const vehicle = vehicles.find(v => v.id === route.vehicleId);
+        const riders = ridersOn(route.id);
+        const routeStops = stops.filter(s => s.routeId === route.id).sort((a, b) => a.displayOrder - b.displayOrder);
+        return (
+          <Card key={route.id}>
+            <div className="flex items-start justify-between mb-4">
+              <div>
+                <div className="flex items-center gap-2">
+                  <h4 className="text-base font-semibold text-gray-900">{route.routeCode} - {route.routeName}</h4>
+                  {!route.isActive && <Badge>Inactive</Badge>}
+                </div>
+                <p className="text-sm text-gray-500">
+                  {vehicle ? `${vehicle.registrationNumber} • ${vehicle.driverName}` : 'No vehicle'} •{' '}
+                  {riders.length}{vehicle ? `/${vehicle.capacity}` : ''} students
+                </p>
+              </div>
+              {canManage && (
+                <div className="flex gap-2">
+                  <Button size="sm" variant="secondary" icon={<Edit2 className="w-4 h-4" />} onClick={() => setRouteForm(route)}>
+                    Edit
+                  </Button>
+                  <Button size="sm" icon={<Plus className="w-4 h-4" />} onClick={() => openStop(route.id)}>
+                    Add Stop
+                  </Button>
+                </div>
+              )}
+            </div>
+            <table className="w-full">
+              <thead className="bg-gray-50 border-b border-gray-200">
+                <tr>
+                  <th className="text-left py-2 px-4 text-xs font-semibold text-gray-600 uppercase">#</th>
+                  <th className="text-left py-2 px-4 text-xs font-semibold text-gray-600 uppercase">Stop</th>
+                  <th className="text-left py-2 px-4 text-xs font-semibold text-gray-600 uppercase">Pickup</th>
+                  <th className="text-right py-2 px-4 text-xs font-semibold text-gray-600 uppercase">Monthly Fee</th>
+                  <th className="text-right py-2 px-4 text-xs font-semibold text-gray-600 uppercase">Students</th>
+                  {canManage && <th className="text-right py-2 px-4 text-xs font-semibold text-gray-600 uppercase">Actions</th>}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {routeStops.map(stop => (
+                  <tr key={stop.id} className={stop.isActive ? '' : 'opacity-50'}>
+                    <td className="py-2 px-4 text-sm text-gray-500">{stop.displayOrder}</td>
+                    <td className="py-2 px-4 text-sm font-medium text-gray-900">{stop.stopName}</td>
+                    <td className="py-2 px-4 text-sm text-gray-600">{stop.pickupTime || '-'}</td>
+                    <td className="py-2 px-4 text-right text-sm font-semibold text-gray-900">{formatCurrency(stop.monthlyFee)}</td>
+                    <td className="py-2 px-4 text-right text-sm text-gray-600">{riders.filter(r => r.stop.id === stop.id).length}</td>
+                    {canManage && (
+                      <td className="py-2 px-4 text-right">
+                        <button onClick={() => openStop(route.id, stop)} className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg">
+                          <Edit2 className="w-4 h-4" />
+                        </button>
+                      </td>
+                    )}
+                  </tr>
+                ))}
+                {routeStops.length === 0 && (
+                  <tr>
+                    <td colSpan={6} className="py-6 text-center text-gray-500">No stops on this route yet</td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </Card>
+        );
+      })}
+      {routes.length === 0 && (
+        <Card>
+          <p className="py-6 text-center text-gray-500">No routes set up yet</p>
+        </Card>
+      )}
+
+      {/* Vehicle Modal */}
+      <Modal isOpen={!!vehicleForm} onClose={() => setVehicleForm(null)} title={vehicleForm?.id ? 'Edit Vehicle' : 'Add Vehicle'}>
+        {vehicleForm && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <Input
+                label="Registration Number *"
+                value={vehicleForm.registrationNumber}
+                onChange={(e) => setVehicleForm({ ...vehicleForm, registrationNumber: e.target.value.toUpperCase() })}
+              />
+              <Input
+                label="Type"
+                placeholder="e.g., Bus, Van"
+                value={vehicleForm.vehicleType || ''}
+                onChange={(e) => setVehicleForm({ ...vehicleForm, vehicleType: e.target.value })}
+              />
+              <Input
+                label="Seats *"
+                type="number"
+                min="1"
+                value={vehicleForm.capacity}
+                onChange={(e) => setVehicleForm({ ...vehicleForm, capacity: Number(e.target.value) })}
+              />
+              <Select
+                label="Status"
+                value={vehicleForm.isActive ? 'active' : 'inactive'}
+                onChange={(e) => setVehicleForm({ ...vehicleForm, isActive: e.target.value === 'active' })}
+                options={[{ value: 'active', label: 'Active' }, { value: 'inactive', label: 'Inactive' }]}
+              />
+              <Input
+                label="Driver Name *"
+                value={vehicleForm.driverName}
+                onChange={(e) => setVehicleForm({ ...vehicleForm, driverName: e.target.value })}
+              />
+              <Input
+                label="Driver Phone"
+                value={vehicleForm.driverPhone || ''}
+                onChange={(e) => setVehicleForm({ ...vehicleForm, driverPhone: e.target.value })}
+              />
+            </div>
+            <div className="flex gap-3 pt-2">
+              <Button className="flex-1" onClick={handleSaveVehicle}>Save Vehicle</Button>
+              <Button variant="secondary" className="flex-1" onClick={() => setVehicleForm(null)}>Cancel</Button>
+            </div>
+          </div>
+        )}
+      </Modal>
+
+      {/* Route Modal */}
+      <Modal isOpen={!!routeForm} onClose={() => setRouteForm(null)} title={routeForm?.id ? 'Edit Route' : 'Add Route'}>
+        {routeForm && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <Input
+                label="Route Code *"
+                placeholder="e.g., R1"
+                value={routeForm.routeCode}
+                onChange={(e) => setRouteForm({ ...routeForm, routeCode: e.target.value.toUpperCase() })}
+              />
+              <Input
+                label="Route Name *"
+                placeholder="e.g., City Centre"
+                value={routeForm.routeName}
+                onChange={(e) => setRouteForm({ ...routeForm, routeName: e.target.value })}
+              />
+              <Select
+                label="Vehicle"
+                value={routeForm.vehicleId !== null ? String(routeForm.vehicleId) : ''}
+                onChange={(e) => setRouteForm({ ...routeForm, vehicleId: e.target.value ? Number(e.target.value) : null })}
+                options={[
+                  { value: '', label: 'No vehicle' },
+                  ...vehicles
+                    .filter(v => v.isActive || v.id === routeForm.vehicleId)
+                    .map(v => ({ value: String(v.id), label: `${v.registrationNumber} (${v.capacity} seats)` })),
+                ]}
+              />
+              <Select
+                label="Status"
+                value={routeForm.isActive ? 'active' : 'inactive'}
+                onChange={(e) => setRouteForm({ ...routeForm, isActive: e.target.value === 'active' })}
+                options={[{ value: 'active', label: 'Active' }, { value: 'inactive', label: 'Inactive' }]}
+              />
+            </div>
+            <div className="flex gap-3 pt-2">
+              <Button className="flex-1" onClick={handleSaveRoute}>Save Route</Button>
+              <Button variant="secondary" className="flex-1" onClick={() => setRouteForm(null)}>Cancel</Button>
+            </div>
+          </div>
+        )}
+      </Modal>
+
+      {/* Stop Modal */}
+      <Modal isOpen={!!stopForm} onClose={() => setStopForm(null)} title={stopForm?.id ? 'Edit Stop' : 'Add Stop'}>
+        {stopForm && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <Input
+                label="Stop Name *"
+                value={stopForm.stopName}
+                onChange={(e) => setStopForm({ ...stopForm, stopName: e.target.value })}
+              />
+              <Input
+                label="Pickup Time"
+                type="time"
+                value={stopForm.pickupTime || ''}
+                onChange={(e) => setStopForm({ ...stopForm, pickupTime: e.target.value })}
+              />
+              <Input
+                label="Monthly Fee (Rs.) *"
+                type="number"
+                min="0"
+                value={stopForm.monthlyFee}
+                onChange={(e) => setStopForm({ ...stopForm, monthlyFee: Number(e.target.value) })}
+              />
+              <Input
+                label="Order on Route"
+                type="number"
+                min="1"
+                value={stopForm.displayOrder}
+                onChange={(e) => setStopForm({ ...stopForm, displayOrder: Number(e.target.value) })}
+              />
+              {stopForm.id > 0 && (
+                <Select
+                  label="Status"
+                  value={stopForm.isActive ? 'active' : 'inactive'}
+                  onChange={(e) => setStopForm({ ...stopForm, isActive: e.target.value === 'active' })}
+                  options={[{ value: 'active', label: 'Active' }, { value: 'inactive', label: 'Inactive' }]}
+                />
+              )}
+              {feeChanged && (
+                <Input
+                  label="Fee Change Effective From"
+                  type="date"
+                  value={feeEffectiveFrom}
+                  onChange={(e) => setFeeEffectiveFrom(e.target.value)}
+                />
+              )}
+            </div>
+            {feeChanged && (
+              <p className="text-xs text-amber-700">
+                Months before the effective month stay at {formatCurrency(savedStop?.monthlyFee || 0)}.
+              </p>
+            )}
+            <div className="flex gap-3 pt-2">
+              <Button className="flex-1" onClick={handleSaveStop}>Save Stop</Button>
+              <Button variant="secondary" className="flex-1" onClick={() => setStopForm(null)}>Cancel</Button>
+            </div>
+          </div>
+        )}
+      </Modal>
+    </div>
+  );
+}
@@ -0,0 +1,31 @@
+// Change notifications for School Fee Manager Pro
+// Keys are the store keys ('students', 'fee_records', 'classes', ...);
+// every write emits its key so subscribed hooks can re-query.
+type Listener = () => void;
+
+const listeners = new Map<string, Set<Listener>>();
+
+export const subscribe = (key: string, listener: Listener): (() => void) => {
+  if (!listeners.has(key)) listeners.set(key, new Set());
+  listeners.get(key)!.add(listener);
+  return () => {
+    listeners.get(key)?.delete(listener);
+  };
+};
+
+export const emitChange = (key: string): void => {
+  listeners.get(key)?.forEach(listener => {
+    try {
+      listener();
+    } catch (error) {
+      console.error(`Error in change listener for "${key}":`, error);
+    }
+  });
+};
+
+// Writes made in another browser tab/window arrive as storage events
+if (typeof window !== 'undefined') {
+  window.addEventListener('storage', (event) => {
+    if (event.key) emitChange(event.key);
+  });
+}
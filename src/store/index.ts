@@ -2,9 +2,40 @@
 // All critical bugs fixed - Version 2.0
 import type { 
   SchoolInfo, User, AcademicYear, ClassInfo, 
-  FeeHead, Student, FeeRecord, GoogleApiConfig,
-  Teacher, SalaryPayment
+  FeeHead, FeeStructure, Student, FeeRecord, GoogleApiConfig,
+  Teacher, SalaryPayment, StudentFilter, FeeRecordQuery, FeePayment,
+  LateFeeSettings, ConcessionRule, FeeLineItem, Family, FamilyFeePayment, FeePaymentMonth,
+  InstallmentPlan, AdditionalCharge, ChequeSettings, FeeRevision, BankStatementLine, BankColumnMapping,
+  DayClosing, DocumentType, NumberingSettings, Vehicle, TransportRoute, TransportStop, TransportAssignment,
+  Hostel, HostelRoom, BedAllocation, Sponsor, ScholarshipProgram, ScholarshipAward, SponsorPayment, FeeWaiver, WaiverLine
 } from '../types';
+import { createRepository, replaceEntities } from './repository';
+import { emitChange } from './events';
+import { getMonthCharges, getSessionStartMonth, sumLines, type FeeContext } from '../utils/feeCalculator';
+import { allocateOldestFirst, getLedgerBalance, getReversedIds } from '../utils/allocation';
+import { applyConcessions, sumConcessions } from '../utils/concessions';
+import { findSiblingMatches, type SiblingMatch } from '../utils/family';
+import { calculateStudentDues, type DuesContext, type StudentDues } from '../utils/dues';
+import { isPlanLocked } from '../utils/installments';
+import { getChargeMonth } from '../utils/charges';
+import {
+  getAmountInForce, getIncreasedAmount, type FeeIncrease, type RevisionTarget
+} from '../utils/revisions';
+import { matchStatementCredit, type StatementCredit } from '../utils/bankStatement';
+import { getAssignmentHistory, getAssignmentInForce, getRouteRoster } from '../utils/transport';
+import { allocationsOverlap, getAllocationEnd, isAllocationActive } from '../utils/boarding';
+import {
+  applySponsorship, awardsOverlap, getExpiringAwards, isAwardInForce, sumSponsored, type SponsorCharge
+} from '../utils/scholarships';
+import { applyWaivers, getWaivedForMonth, isSameHead, sumWaived, WAIVER_TYPE_LABELS } from '../utils/waivers';
+import {
+  DEFAULT_NUMBERING, DOCUMENT_LABELS, getNumberBase, getCounterKey, formatDocumentNumber, getHighestSequence,
+  findDuplicateNumbers, getDocumentKey, validateNumberingScheme
+} from '../utils/numbering';
+import {
+  calculateLateFee, getLateFeeTerms, allocateLateFee, getDueDate,
+  DEFAULT_LATE_FEE_SETTINGS, type LateFeeResult
+} from '../utils/lateFee';
 
 // Helper functions with error handling for quota
 const getItem = <T>(key: string, defaultValue: T): T => {
@@ -28,6 +59,7 @@ const setItem = <T>(key: string, value: T): void => {
     }
 
     localStorage.setItem(key, jsonString);
+    emitChange(key);
   } catch (error: any) {
     if (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED') {
       const storageInfo = getStorageInfo();
@@ -46,6 +78,25 @@ const setItem = <T>(key: string, value: T): void => {
   }
 };
 
+export { subscribe } from './events';
+
+// Entity tables - SQLite on desktop, localStorage in the browser
+const localBackend = { read: getItem, write: setItem };
+const studentRepository = createRepository<Student>('students', 'students', localBackend);
+const teacherRepository = createRepository<Teacher>('teachers', 'teachers', localBackend);
+const feeRecordRepository = createRepository<FeeRecord>('fee_records', 'feeRecords', localBackend);
+const salaryPaymentRepository = createRepository<SalaryPayment>('salary_payments', 'salaryPayments', localBackend);
+const auditLogRepository = createRepository<AuditLog>('audit_logs', 'auditLogs', localBackend, { prepend: true, retain: 1000 });
+
+// Load entity tables before first render (parents before children for foreign keys)
+export const initializeStore = async (): Promise<void> => {
+  await studentRepository.hydrate();
+  await teacherRepository.hydrate();
+  await feeRecordRepository.hydrate();
+  await salaryPaymentRepository.hydrate();
+  await auditLogRepository.hydrate();
+};
+
 // FIXED: Storage Health Monitoring
 export const getStorageInfo = () => {
   let used = 0;
@@ -77,14 +128,19 @@ export const saveSchoolInfo = (info: SchoolInfo): void => {
 };
 
 // FIXED: ID Generation with Persistent Counter (Issue #1)
-const getNextId = (entity: string): number => {
+// `floor` is the highest id already in use, for tables that predate the counter
+const getNextId = (entity: string, floor = 0): number => {
   const key = `last_${entity}_id`;
-  const lastId = getItem<number>(key, 0);
+  const lastId = Math.max(getItem<number>(key, 0), floor);
   const nextId = lastId + 1;
   setItem(key, nextId);
   return nextId;
 };
 
+const getMaxId = (records: { id: number }[]): number => {
+  return records.reduce((max, r) => Math.max(max, r.id), 0);
+};
+
 // User Management
 export const getUsers = (): User[] => {
   return getItem<User[]>('users', []);
@@ -308,51 +364,1509 @@ export const saveFeeHead = (feeHead: FeeHead): void => {
   setItem('fee_heads', feeHeads);
 };
 
-// Students
-export const getStudents = (): Student[] => {
-  return getItem<Student[]>('students', []);
+// Fee Structures (class × fee head, per academic year)
+export const getFeeStructures = (): FeeStructure[] => {
+  return getItem<FeeStructure[]>('fee_structures', []);
+};
+
+// Saves a batch of matrix cells at once; new cells come in with id 0.
+// Changed amounts are recorded as revisions from `effectiveFrom`, so
+// earlier months keep their old price.
+export const saveFeeStructures = (structures: FeeStructure[], effectiveFrom: string = getLocalDateString()): void => {
+  const problems: string[] = [];
+  structures.forEach(s => {
+    if (!Number.isFinite(s.amount) || s.amount < 0) problems.push('Fee amounts cannot be negative');
+    if (!Number.isInteger(s.dueDay) || s.dueDay < 1 || s.dueDay > 28) problems.push('Due day must be between 1 and 28');
+    if (s.lateFeePerDay < 0 || s.maxLateFee < 0) problems.push('Late fee settings cannot be negative');
+  });
+  if (problems.length > 0) {
+    throw new Error(Array.from(new Set(problems)).join('\n'));
+  }
+
+  const existing = getFeeStructures();
+  recordFeeRevisions(structures
+    .map(structure => ({ structure, saved: existing.find(s => s.id === structure.id) }))
+    .filter(({ structure, saved }) => saved !== undefined && saved.amount !== structure.amount)
+    .map(({ structure, saved }) => ({
+      target: { feeStructureId: structure.id },
+      current: saved?.amount || 0,
+      amount: structure.amount,
+    })), effectiveFrom);
+
+  const floor = getMaxId(existing);
+  structures.forEach(structure => {
+    const record = structure.id > 0 ? structure : { ...structure, id: getNextId('fee_structure', floor) };
+    const existingIndex = existing.findIndex(s => s.id === record.id);
+    if (existingIndex >= 0) {
+      existing[existingIndex] = record;
+    } else {
+      existing.push(record);
+    }
+  });
+  setItem('fee_structures', existing);
+  logAuditAction('UPDATE', 'FeeStructure', 0, `Updated fee structure: ${structures.length} entries`);
+};
+
+// Fee Revisions
+export const getFeeRevisions = (): FeeRevision[] => {
+  return getItem<FeeRevision[]>('fee_revisions', []);
+};
+
+// Appends one revision per changed amount. `current` is the amount saved
+// before the change, the price of every month before the first revision.
+const recordFeeRevisions = (
+  changes: { target: RevisionTarget; current: number; amount: number }[],
+  effectiveFrom: string,
+  reason?: string
+): FeeRevision[] => {
+  if (changes.length === 0) return [];
+
+  const revisions = getFeeRevisions();
+  const month = Number(effectiveFrom.slice(5, 7));
+  const year = Number(effectiveFrom.slice(0, 4));
+  const now = new Date().toISOString();
+  const createdBy = getCurrentUser()?.id;
+  const added: FeeRevision[] = changes.map(({ target, current, amount }) => ({
+    id: getNextId('fee_revision', getMaxId(revisions)),
+    ...target,
+    previousAmount: getAmountInForce(revisions, target, current, month, year),
+    amount,
+    effectiveFrom,
+    reason: reason?.trim() || undefined,
+    createdBy,
+    createdAt: now,
+  }));
+  setItem('fee_revisions', [...revisions, ...added]);
+  return added;
+};
+
+export interface FeeIncreaseOptions {
+  classIds: number[];
+  feeHeadIds: number[];
+  includeStudentFees: boolean;     // students' own monthly fee, in classes with no fee structure
+  increase: FeeIncrease;
+  effectiveFrom: string;           // YYYY-MM-DD
+}
+
+export interface FeeIncreaseRow {
+  target: RevisionTarget;
+  classId: number;
+  label: string;                   // fee head, or the student for their own fee
+  currentAmount: number;           // in force in the effective month
+  newAmount: number;
+}
+
+// Amounts a bulk increase would change, priced as of its effective month.
+// Amounts the increase leaves as they are (after rounding) are left out.
+export const previewFeeIncrease = (options: FeeIncreaseOptions): FeeIncreaseRow[] => {
+  const revisions = getFeeRevisions();
+  const month = Number(options.effectiveFrom.slice(5, 7));
+  const year = Number(options.effectiveFrom.slice(0, 4));
+  const academicYear = getCurrentAcademicYear();
+  const structures = getFeeStructures().filter(s => s.academicYearId === academicYear?.id && s.isActive);
+  const feeHeads = getFeeHeads();
+  const rows: FeeIncreaseRow[] = [];
+
+  options.classIds.forEach(classId => {
+    const classStructures = structures.filter(s => s.classId === classId);
+    classStructures
+      .filter(s => options.feeHeadIds.includes(s.feeHeadId))
+      .forEach(structure => {
+        const target = { feeStructureId: structure.id };
+        const currentAmount = getAmountInForce(revisions, target, structure.amount, month, year);
+        rows.push({
+          target,
+          classId,
+          label: feeHeads.find(h => h.id === structure.feeHeadId)?.headName || 'Fee',
+          currentAmount,
+          newAmount: getIncreasedAmount(currentAmount, options.increase),
+        });
+      });
+
+    if (options.includeStudentFees && classStructures.length === 0) {
+      getStudents()
+        .filter(s => s.classId === classId && s.status === 'active')
+        .forEach(student => {
+          const target = { studentId: student.id, field: 'monthlyFee' as const };
+          const currentAmount = getAmountInForce(revisions, target, student.monthlyFee, month, year);
+          rows.push({
+            target,
+            classId,
+            label: `${student.firstName} ${student.lastName || ''}`.trim(),
+            currentAmount,
+            newAmount: getIncreasedAmount(currentAmount, options.increase),
+          });
+        });
+    }
+  });
+
+  return rows.filter(row => row.newAmount !== row.currentAmount);
 };
 
-export const saveStudent = (student: Student): void => {
+// Apply a bulk increase: every amount in the preview is revised from the
+// effective month and saved as the amount going forward. Admin only.
+export const applyFeeIncrease = async (options: FeeIncreaseOptions, reason: string): Promise<FeeRevision[]> => {
+  const problems: string[] = [];
+  if (getCurrentUser()?.role !== 'admin') problems.push('Only an administrator can revise fees');
+  if (options.classIds.length === 0) problems.push('Select at least one class');
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(options.effectiveFrom)) problems.push('An effective date is required');
+  if (!Number.isFinite(options.increase.value) || options.increase.value === 0) {
+    problems.push('Enter the increase as a non-zero amount or percentage');
+  }
+  const rows = problems.length === 0 ? previewFeeIncrease(options) : [];
+  if (problems.length === 0 && rows.length === 0) problems.push('The revision does not change any fee');
+  if (problems.length > 0) {
+    throw new Error(problems.join('\n'));
+  }
+
+  const structures = getFeeStructures();
   const students = getStudents();
-  const existingIndex = students.findIndex(s => s.id === student.id);
+  const revisions = recordFeeRevisions(rows.map(row => ({
+    target: row.target,
+    current: 'feeStructureId' in row.target
+      ? structures.find(s => 'feeStructureId' in row.target && s.id === row.target.feeStructureId)?.amount || 0
+      : students.find(s => 'studentId' in row.target && s.id === row.target.studentId)?.monthlyFee || 0,
+    amount: row.newAmount,
+  })), options.effectiveFrom, reason);
+
+  setItem('fee_structures', structures.map(s => {
+    const row = rows.find(r => 'feeStructureId' in r.target && r.target.feeStructureId === s.id);
+    return row ? { ...s, amount: row.newAmount } : s;
+  }));
+  const now = new Date().toISOString();
+  await studentRepository.saveMany(students
+    .map(s => ({ student: s, row: rows.find(r => 'studentId' in r.target && r.target.studentId === s.id) }))
+    .filter(({ row }) => row !== undefined)
+    .map(({ student, row }) => ({ ...student, monthlyFee: row?.newAmount || 0, updatedAt: now })));
+
+  const { type, value } = options.increase;
+  logAuditAction('UPDATE', 'FeeRevision', revisions[0]?.id || 0,
+    `Revised ${rows.length} fee amount${rows.length === 1 ? '' : 's'} by ${type === 'percent' ? `${value}%` : `Rs. ${value}`} ` +
+    `from ${options.effectiveFrom}${reason.trim() ? `. Reason: ${reason.trim()}` : ''}`);
+  return revisions;
+};
+
+// Everything utils/feeCalculator needs to price a student, this session or an earlier one
+export const getFeeContext = (): FeeContext => {
+  return {
+    feeHeads: getFeeHeads(),
+    feeStructures: getFeeStructures(),
+    academicYear: getCurrentAcademicYear(),
+    installmentPlans: getInstallmentPlans(),
+    additionalCharges: getAdditionalCharges(),
+    feeRevisions: getFeeRevisions(),
+    transportStops: getTransportStops(),
+    transportAssignments: getTransportAssignments(),
+    hostels: getHostels(),
+    hostelRooms: getHostelRooms(),
+    bedAllocations: getBedAllocations(),
+    academicYears: getAcademicYears(),
+  };
+};
+
+// Outstanding Dues
+export const getDuesContext = (): DuesContext => {
+  const starts = getAcademicYears().map(y => y.startDate).filter(Boolean).sort();
+  return {
+    ...getFeeContext(),
+    concessionRules: getConcessionRules(),
+    scholarshipAwards: getScholarshipAwards(),
+    scholarshipPrograms: getScholarshipPrograms(),
+    feeWaivers: getFeeWaivers(),
+    billingStart: starts[0],
+  };
+};
+
+// Dues for a list of students, reading settings once
+export const getStudentsDues = (
+  students: Student[],
+  records: FeeRecord[] = getFeeRecords(),
+  asOf: string = getLocalDateString()
+): StudentDues[] => {
+  const context = getDuesContext();
+  return students.map(student => calculateStudentDues(student, records, context, asOf));
+};
+
+// Late Fees
+export const getLateFeeSettings = (): LateFeeSettings => {
+  return { ...DEFAULT_LATE_FEE_SETTINGS, ...getItem<Partial<LateFeeSettings>>('late_fee_settings', {}) };
+};
+
+export const saveLateFeeSettings = (settings: LateFeeSettings): void => {
+  if (!Number.isInteger(settings.graceDays) || settings.graceDays < 0) {
+    throw new Error('Grace days must be a whole number of days');
+  }
+  const holidays = Array.from(new Set(settings.holidays)).sort();
+  setItem('late_fee_settings', { ...settings, holidays });
+  logAuditAction('UPDATE', 'LateFeeSettings', 0,
+    `Late fee rules: ${settings.graceDays} grace days, ${holidays.length} holidays`);
+};
+
+// Invoices for classes without a fee structure fall due on the 10th
+const DEFAULT_DUE_DAY = 10;
+
+export const getLateFee = (
+  student: Student,
+  feeMonth: number,
+  feeYear: number,
+  paymentDate: string = getLocalDateString()
+): LateFeeResult => {
+  return calculateLateFee(feeMonth, feeYear, paymentDate,
+    getLateFeeTerms(student, getFeeContext()), getLateFeeSettings());
+};
+
+// Concession Rules
+export const getConcessionRules = (): ConcessionRule[] => {
+  return getItem<ConcessionRule[]>('concession_rules', []);
+};
+
+export const saveConcessionRule = (rule: ConcessionRule): ConcessionRule => {
+  const problems: string[] = [];
+  if (!rule.name.trim()) problems.push('Rule name is required');
+  if (rule.studentId === undefined && !rule.feeCategory) problems.push('Choose a fee category or a student');
+  if (!(rule.value > 0)) problems.push('Discount must be greater than zero');
+  if (rule.type === 'percentage' && rule.value > 100) problems.push('Percentage cannot exceed 100');
+  if (!rule.effectiveFrom) problems.push('Effective from date is required');
+  if (rule.effectiveTo && rule.effectiveTo < rule.effectiveFrom) problems.push('Effective to date is before the start date');
+  if (problems.length > 0) {
+    throw new Error(problems.join('\n'));
+  }
+
+  const rules = getConcessionRules();
+  const saved = rule.id > 0 ? rule : { ...rule, id: getNextId('concession_rule', getMaxId(rules)) };
+  const existingIndex = rules.findIndex(r => r.id === saved.id);
   if (existingIndex >= 0) {
-    students[existingIndex] = { ...student, updatedAt: new Date().toISOString() };
-    logAuditAction('UPDATE', 'Student', student.id, `Updated student: ${student.firstName}`);
+    rules[existingIndex] = saved;
   } else {
-    students.push(student);
-    logAuditAction('CREATE', 'Student', student.id, `Admitted student: ${student.firstName}`);
+    rules.push(saved);
+  }
+  setItem('concession_rules', rules);
+  logAuditAction(existingIndex >= 0 ? 'UPDATE' : 'CREATE', 'ConcessionRule', saved.id,
+    `${existingIndex >= 0 ? 'Updated' : 'Created'} concession: ${saved.name} (${saved.type === 'percentage' ? `${saved.value}%` : `Rs. ${saved.value}`})`);
+  return saved;
+};
+
+// Charge lines with the student's concessions on `date` applied and, for a
+// fee month, the share their scholarship sponsor pays and approved waivers
+export const getConcessions = (
+  student: Student,
+  items: FeeLineItem[],
+  date: string = getLocalDateString(),
+  period?: { month: number; year: number }
+): FeeLineItem[] => {
+  const discounted = applyConcessions(student, items, getConcessionRules(), date);
+  if (!period) return discounted;
+  const sponsored = applySponsorship(student.id, discounted, getScholarshipAwards(), getScholarshipPrograms(), period.month, period.year);
+  return applyWaivers(student.id, sponsored, getFeeWaivers(), period.month, period.year);
+};
+
+// Installment Plans
+export const getInstallmentPlans = (): InstallmentPlan[] => {
+  return getItem<InstallmentPlan[]>('installment_plans', []);
+};
+
+export const getStudentInstallmentPlans = (studentId: number): InstallmentPlan[] => {
+  return getInstallmentPlans().filter(p => p.studentId === studentId);
+};
+
+export const isInstallmentPlanLocked = (plan: InstallmentPlan): boolean => {
+  return isPlanLocked(plan, getLiveFeeRecords());
+};
+
+// Charges in the student's current session that can still be split:
+// their month is not billed yet and they are not in a plan already.
+// Charges a sponsor pays part of or partly waived are billed whole.
+export const getSplittableCharges = (student: Student): { feeMonth: number; feeYear: number; line: FeeLineItem }[] => {
+  const context = getFeeContext();
+  const live = getLiveFeeRecords().filter(r => r.studentId === student.id);
+  const startMonth = getSessionStartMonth(context.academicYear);
+  const today = new Date();
+  const startYear = context.academicYear?.startDate
+    ? Number(context.academicYear.startDate.slice(0, 4))
+    : today.getMonth() + 1 >= startMonth ? today.getFullYear() : today.getFullYear() - 1;
+
+  return Array.from({ length: 12 }, (_, offset) => ({
+    feeMonth: ((startMonth - 1 + offset) % 12) + 1,
+    feeYear: startYear + Math.floor((startMonth - 1 + offset) / 12),
+  }))
+    .filter(({ feeMonth, feeYear }) => !live.some(r => r.feeMonth === feeMonth && r.feeYear === feeYear))
+    .flatMap(({ feeMonth, feeYear }) =>
+      getConcessions(student, getMonthCharges(student, feeMonth, feeYear, context, live), getLocalDateString(),
+        { month: feeMonth, year: feeYear })
+        .filter(line => line.installmentPlanId === undefined && !line.sponsored && !line.waived &&
+          line.amount - (line.concession || 0) > 0)
+        .map(line => ({ feeMonth, feeYear, line })));
+};
+
+// Split a charge into dated installments. Admin only; the plan can be
+// changed until a payment is received against it, and installments already
+// on an issued invoice must stay as they are.
+export const saveInstallmentPlan = (plan: InstallmentPlan): InstallmentPlan => {
+  const problems: string[] = [];
+  if (getCurrentUser()?.role !== 'admin') problems.push('Only an administrator can set up installment plans');
+
+  const plans = getInstallmentPlans();
+  const existing = plans.find(p => p.id === plan.id);
+  const live = getLiveFeeRecords().filter(r => r.studentId === plan.studentId);
+  const isBilled = (feeMonth: number, feeYear: number) =>
+    live.some(r => r.feeMonth === feeMonth && r.feeYear === feeYear);
+
+  if (existing && isPlanLocked(existing, live)) {
+    problems.push('Installments cannot be changed once a payment has been received');
+  }
+  if (!existing && isBilled(plan.feeMonth, plan.feeYear)) {
+    problems.push('The charge has already been billed for its month');
+  }
+  if (plans.some(p => p.id !== plan.id && p.studentId === plan.studentId && p.feeHeadId === plan.feeHeadId &&
+    p.headName === plan.headName && p.feeMonth === plan.feeMonth && p.feeYear === plan.feeYear)) {
+    problems.push(`${plan.headName} is already in an installment plan`);
+  }
+  if (plan.installments.length < 2) problems.push('A plan needs at least two installments');
+
+  plan.installments.forEach((installment, index) => {
+    const label = `Installment ${index + 1}`;
+    if (!installment.dueDate) {
+      problems.push(`${label}: due date is required`);
+      return;
+    }
+    if (!(installment.amount > 0)) problems.push(`${label}: amount must be greater than zero`);
+    const unchanged = existing?.installments[index]?.dueDate === installment.dueDate &&
+      existing?.installments[index]?.amount === installment.amount;
+    if (!unchanged && isBilled(Number(installment.dueDate.slice(5, 7)), Number(installment.dueDate.slice(0, 4)))) {
+      problems.push(`${label}: ${installment.dueDate.slice(0, 7)} is already billed`);
+    }
+  });
+  const dates = plan.installments.map(i => i.dueDate);
+  if (dates.some((date, index) => index > 0 && date <= dates[index - 1])) {
+    problems.push('Installment dates must be in order');
+  }
+  const total = plan.installments.reduce((sum, i) => sum + i.amount, 0);
+  if (total !== plan.totalAmount) {
+    problems.push(`Installments add up to Rs. ${total}, not Rs. ${plan.totalAmount}`);
+  }
+  if (problems.length > 0) {
+    throw new Error(problems.join('\n'));
   }
-  setItem('students', students);
+
+  const now = new Date().toISOString();
+  const saved: InstallmentPlan = existing
+    ? { ...plan, updatedAt: now }
+    : { ...plan, id: getNextId('installment_plan', getMaxId(plans)), createdBy: getCurrentUser()?.id, createdAt: now, updatedAt: now };
+  setItem('installment_plans', existing ? plans.map(p => p.id === saved.id ? saved : p) : [...plans, saved]);
+  logAuditAction(existing ? 'UPDATE' : 'CREATE', 'InstallmentPlan', saved.id,
+    `${existing ? 'Updated' : 'Created'} installment plan: ${saved.headName} Rs. ${saved.totalAmount} in ${saved.installments.length} installments`);
+  return saved;
+};
+
+// The charge goes back on its own month's bill
+export const deleteInstallmentPlan = (id: number): void => {
+  const plan = getInstallmentPlans().find(p => p.id === id);
+  if (!plan) return;
+
+  const problems: string[] = [];
+  if (getCurrentUser()?.role !== 'admin') problems.push('Only an administrator can remove installment plans');
+  const live = getLiveFeeRecords().filter(r => r.studentId === plan.studentId);
+  if (live.some(r => (r.items || []).some(item => item.installmentPlanId === id))) {
+    problems.push('Installments of this plan have already been billed');
+  }
+  if (live.some(r => r.feeMonth === plan.feeMonth && r.feeYear === plan.feeYear)) {
+    problems.push('The month the charge was due in has been billed without it');
+  }
+  if (problems.length > 0) {
+    throw new Error(problems.join('\n'));
+  }
+
+  setItem('installment_plans', getInstallmentPlans().filter(p => p.id !== id));
+  logAuditAction('DELETE', 'InstallmentPlan', id, `Removed installment plan: ${plan.headName}`);
+};
+
+// Students
+export const getStudents = (): Student[] => {
+  return studentRepository.getAll();
+};
+
+// A changed monthly or transport fee is recorded as a revision from
+// `effectiveFrom`, so earlier months keep their old price
+export const saveStudent = (student: Student, effectiveFrom: string = getLocalDateString()): Promise<void> => {
+  const existing = getStudentById(student.id);
+  if (existing) {
+    recordFeeRevisions((['monthlyFee', 'transportFee'] as const)
+      .filter(field => existing[field] !== student[field])
+      .map(field => ({ target: { studentId: student.id, field }, current: existing[field], amount: student[field] })),
+      effectiveFrom);
+    logAuditAction('UPDATE', 'Student', student.id, `Updated student: ${student.firstName}`);
+    return studentRepository.save({ ...student, updatedAt: new Date().toISOString() });
+  }
+  logAuditAction('CREATE', 'Student', student.id, `Admitted student: ${student.firstName}`);
+  return studentRepository.save(student);
 };
 
 // FIXED: Soft delete students (Issue #10)
-export const deleteStudent = (studentId: number): void => {
+export const deleteStudent = (studentId: number): Promise<void> => {
   const student = getStudents().find(s => s.id === studentId);
-  if (!student) return;
+  if (!student) return Promise.resolve();
   
   // Soft delete - change status instead of removing
   const updatedStudent = { 
     ...student, 
     status: 'left' as const,
+    leavingDate: getLocalDateString(),
     updatedAt: new Date().toISOString() 
   };
-  saveStudent(updatedStudent);
+  const saved = saveStudent(updatedStudent);
   
   logAuditAction('DELETE_SOFT', 'Student', studentId, 
     `Marked student as left: ${student.firstName} ${student.lastName} (${student.studentId})`);
+  return saved;
+};
+
+// Async queries - used by the data hooks so pages don't depend on sync storage
+export const queryStudents = async (filter: StudentFilter = {}): Promise<Student[]> => {
+  const search = filter.search?.toLowerCase();
+  return getStudents().filter(s =>
+    (!filter.status || s.status === filter.status) &&
+    (!filter.classId || s.classId === filter.classId) &&
+    (!search ||
+      s.firstName.toLowerCase().includes(search) ||
+      s.lastName?.toLowerCase().includes(search) ||
+      s.studentId.toLowerCase().includes(search) ||
+      s.admissionNumber.toLowerCase().includes(search) ||
+      s.fatherPhone?.includes(search))
+  );
 };
 
 export const getStudentById = (id: number): Student | undefined => {
   return getStudents().find(s => s.id === id);
 };
 
-// FIXED: Unique receipt number generation (Issue #8)
-export const generateReceiptNumber = (): string => {
-  const year = new Date().getFullYear();
-  const timestamp = Date.now();
-  const nextSeq = getNextId('receipt');
-  return `FEE-${year}-${String(nextSeq).padStart(5, '0')}-${timestamp}`;
+// Families
+export const getFamilies = (): Family[] => {
+  return getItem<Family[]>('families', []);
+};
+
+export const getFamilyById = (id: number): Family | undefined => {
+  return getFamilies().find(f => f.id === id);
+};
+
+export const getFamilyMembers = (familyId: number): Student[] => {
+  return getStudents().filter(s => s.familyId === familyId);
+};
+
+export const getSiblingSuggestions = (candidate: Partial<Student>): SiblingMatch[] => {
+  return findSiblingMatches(candidate, getStudents());
+};
+
+// Put students in one family. If some already belong to families, the
+// oldest of those is kept and the others' members move into it.
+export const linkSiblings = async (studentIds: number[]): Promise<Family> => {
+  const students = studentIds
+    .map(id => getStudentById(id))
+    .filter((s): s is Student => !!s);
+  if (students.length < 2) {
+    throw new Error('Select at least two students to link as a family');
+  }
+
+  const families = getFamilies();
+  const familyIds = Array.from(new Set(students.map(s => s.familyId).filter((id): id is number => !!id)));
+  const now = new Date().toISOString();
+  let family = families
+    .filter(f => familyIds.includes(f.id))
+    .sort((a, b) => a.id - b.id)[0];
+
+  if (!family) {
+    const id = getNextId('family', getMaxId(families));
+    const head = students[0];
+    family = {
+      id,
+      familyCode: `FAM-${String(id).padStart(4, '0')}`,
+      familyName: `${head.fatherName} Family`,
+      primaryPhone: head.fatherPhone,
+      createdAt: now,
+      updatedAt: now,
+    };
+    setItem('families', [...families, family]);
+  }
+
+  const familyId = family.id;
+  const mergedIds = familyIds.filter(id => id !== familyId);
+  const changed = getStudents()
+    .filter(s => studentIds.includes(s.id) || (s.familyId !== undefined && mergedIds.includes(s.familyId)))
+    .filter(s => s.familyId !== familyId)
+    .map(s => ({ ...s, familyId, updatedAt: now }));
+  if (mergedIds.length > 0) {
+    setItem('families', getFamilies().filter(f => !mergedIds.includes(f.id)));
+  }
+
+  await studentRepository.saveMany(changed);
+  logAuditAction('UPDATE', 'Family', familyId,
+    `Linked ${changed.length} student${changed.length === 1 ? '' : 's'} to ${family.familyCode}`);
+  return family;
+};
+
+export const unlinkFromFamily = async (studentId: number): Promise<void> => {
+  const student = getStudentById(studentId);
+  if (!student?.familyId) return;
+
+  const familyId = student.familyId;
+  await studentRepository.save({ ...student, familyId: undefined, updatedAt: new Date().toISOString() });
+
+  // A family of one is no family: release the last member too
+  const remaining = getFamilyMembers(familyId);
+  if (remaining.length === 1) {
+    await studentRepository.save({ ...remaining[0], familyId: undefined, updatedAt: new Date().toISOString() });
+  }
+  if (remaining.length <= 1) {
+    setItem('families', getFamilies().filter(f => f.id !== familyId));
+  }
+  logAuditAction('UPDATE', 'Family', familyId, `Removed ${student.firstName} from family`);
+};
+
+// Transport
+export const getVehicles = (): Vehicle[] => {
+  return getItem<Vehicle[]>('vehicles', []);
+};
+
+export const getTransportRoutes = (): TransportRoute[] => {
+  return getItem<TransportRoute[]>('transport_routes', []);
+};
+
+export const getTransportStops = (): TransportStop[] => {
+  return getItem<TransportStop[]>('transport_stops', []);
+};
+
+export const getTransportAssignments = (): TransportAssignment[] => {
+  return getItem<TransportAssignment[]>('transport_assignments', []);
+};
+
+const canManageTransport = (): boolean => {
+  const role = getCurrentUser()?.role;
+  return role === 'admin' || role === 'accountant';
+};
+
+// Students on any of the stops this month or from a later month
+const getStopRiders = (stopIds: number[]): Student[] => {
+  const today = getLocalDateString();
+  const month = Number(today.slice(5, 7));
+  const year = Number(today.slice(0, 4));
+  const assignments = getTransportAssignments();
+  return getStudents().filter(student => student.status === 'active' && [
+    getAssignmentInForce(assignments, student.id, { month, year }),
+    ...getAssignmentHistory(assignments, student.id).filter(a => a.effectiveFrom.slice(0, 7) > today.slice(0, 7)),
+  ].some(a => a !== undefined && a.stopId !== null && stopIds.includes(a.stopId)));
+};
+
+export const saveVehicle = (vehicle: Vehicle): Vehicle => {
+  const vehicles = getVehicles();
+  const problems: string[] = [];
+  if (!canManageTransport()) problems.push('Only an administrator or accountant can manage transport');
+  if (!vehicle.registrationNumber.trim()) problems.push('Registration number is required');
+  if (vehicles.some(v => v.id !== vehicle.id &&
+    v.registrationNumber.trim().toUpperCase() === vehicle.registrationNumber.trim().toUpperCase())) {
+    problems.push(`Vehicle ${vehicle.registrationNumber.trim()} already exists`);
+  }
+  if (!Number.isInteger(vehicle.capacity) || vehicle.capacity < 1) problems.push('Capacity must be at least one seat');
+  if (!vehicle.driverName.trim()) problems.push('Driver name is required');
+  if (problems.length > 0) {
+    throw new Error(problems.join('\n'));
+  }
+
+  const now = new Date().toISOString();
+  const saved = vehicle.id > 0
+    ? { ...vehicle, updatedAt: now }
+    : { ...vehicle, id: getNextId('vehicle', getMaxId(vehicles)), createdAt: now, updatedAt: now };
+  const existingIndex = vehicles.findIndex(v => v.id === saved.id);
+  if (existingIndex >= 0) {
+    vehicles[existingIndex] = saved;
+  } else {
+    vehicles.push(saved);
+  }
+  setItem('vehicles', vehicles);
+  logAuditAction(existingIndex >= 0 ? 'UPDATE' : 'CREATE', 'Vehicle', saved.id,
+    `${existingIndex >= 0 ? 'Updated' : 'Added'} vehicle: ${saved.registrationNumber} (${saved.capacity} seats)`);
+  return saved;
+};
+
+export const saveTransportRoute = (route: TransportRoute): TransportRoute => {
+  const routes = getTransportRoutes();
+  const problems: string[] = [];
+  if (!canManageTransport()) problems.push('Only an administrator or accountant can manage transport');
+  if (!route.routeCode.trim()) problems.push('Route code is required');
+  if (!route.routeName.trim()) problems.push('Route name is required');
+  if (routes.some(r => r.id !== route.id && r.routeCode.trim().toUpperCase() === route.routeCode.trim().toUpperCase())) {
+    problems.push(`Route code ${route.routeCode.trim()} is already in use`);
+  }
+  if (route.vehicleId !== null && !getVehicles().some(v => v.id === route.vehicleId)) problems.push('Vehicle not found');
+  if (!route.isActive) {
+    const riders = getStopRiders(getTransportStops().filter(s => s.routeId === route.id).map(s => s.id));
+    if (riders.length > 0) problems.push(`${riders.length} student${riders.length === 1 ? ' is' : 's are'} still assigned to this route`);
+  }
+  if (problems.length > 0) {
+    throw new Error(problems.join('\n'));
+  }
+
+  const now = new Date().toISOString();
+  const saved = route.id > 0
+    ? { ...route, updatedAt: now }
+    : { ...route, id: getNextId('transport_route', getMaxId(routes)), createdAt: now, updatedAt: now };
+  const existingIndex = routes.findIndex(r => r.id === saved.id);
+  if (existingIndex >= 0) {
+    routes[existingIndex] = saved;
+  } else {
+    routes.push(saved);
+  }
+  setItem('transport_routes', routes);
+  logAuditAction(existingIndex >= 0 ? 'UPDATE' : 'CREATE', 'TransportRoute', saved.id,
+    `${existingIndex >= 0 ? 'Updated' : 'Created'} route: ${saved.routeCode} - ${saved.routeName}`);
+  return saved;
+};
+
+// A changed stop fee is recorded as a revision from `effectiveFrom`, so
+// earlier months keep their old price
+export const saveTransportStop = (stop: TransportStop, effectiveFrom: string = getLocalDateString()): TransportStop => {
+  const stops = getTransportStops();
+  const existing = stops.find(s => s.id === stop.id);
+  const problems: string[] = [];
+  if (!canManageTransport()) problems.push('Only an administrator or accountant can manage transport');
+  if (!stop.stopName.trim()) problems.push('Stop name is required');
+  if (!getTransportRoutes().some(r => r.id === stop.routeId)) problems.push('Route not found');
+  if (!Number.isFinite(stop.monthlyFee) || stop.monthlyFee < 0) problems.push('Stop fee cannot be negative');
+  if (existing && !stop.isActive) {
+    const riders = getStopRiders([stop.id]);
+    if (riders.length > 0) problems.push(`${riders.length} student${riders.length === 1 ? ' is' : 's are'} still assigned to this stop`);
+  }
+  if (problems.length > 0) {
+    throw new Error(problems.join('\n'));
+  }
+
+  if (existing && existing.monthlyFee !== stop.monthlyFee) {
+    recordFeeRevisions([{ target: { stopId: stop.id }, current: existing.monthlyFee, amount: stop.monthlyFee }], effectiveFrom);
+  }
+
+  const now = new Date().toISOString();
+  const saved = existing
+    ? { ...stop, stopName: stop.stopName.trim(), updatedAt: now }
+    : { ...stop, stopName: stop.stopName.trim(), id: getNextId('transport_stop', getMaxId(stops)), createdAt: now, updatedAt: now };
+  setItem('transport_stops', existing ? stops.map(s => s.id === saved.id ? saved : s) : [...stops, saved]);
+  logAuditAction(existing ? 'UPDATE' : 'CREATE', 'TransportStop', saved.id,
+    `${existing ? 'Updated' : 'Added'} stop: ${saved.stopName} - Rs. ${saved.monthlyFee}`);
+  return saved;
+};
+
+// A student's route and stop for a fee month (the latest without one).
+// Null when they have no stop, including before their first assignment.
+export const getStudentTransport = (studentId: number, period?: { month: number; year: number }) => {
+  const assignment = getAssignmentInForce(getTransportAssignments(), studentId, period);
+  const stop = getTransportStops().find(s => s.id === assignment?.stopId);
+  const route = getTransportRoutes().find(r => r.id === stop?.routeId);
+  return assignment && stop && route ? { assignment, stop, route } : null;
+};
+
+// Put students on a stop, or take them off transport with a null stop,
+// from the fee month of `effectiveFrom`. An assignment already made for
+// the same month is replaced.
+export const assignTransportStop = (
+  studentIds: number[],
+  stopId: number | null,
+  effectiveFrom: string
+): TransportAssignment[] => {
+  const stop = getTransportStops().find(s => s.id === stopId);
+  const route = getTransportRoutes().find(r => r.id === stop?.routeId);
+  const students = studentIds.map(id => getStudentById(id)).filter((s): s is Student => !!s);
+  const month = Number(effectiveFrom.slice(5, 7));
+  const year = Number(effectiveFrom.slice(0, 4));
+
+  const problems: string[] = [];
+  if (!canManageTransport()) problems.push('Only an administrator or accountant can assign transport');
+  if (students.length === 0) problems.push('Select at least one student');
+  if (!/^\d{4}-\d{2}/.test(effectiveFrom) || !(month >= 1 && month <= 12)) problems.push('Effective month is required');
+  if (stopId !== null && (!stop?.isActive || !route?.isActive)) problems.push('Choose an active stop');
+  const vehicle = getVehicles().find(v => v.id === route?.vehicleId);
+  if (route && vehicle && problems.length === 0) {
+    const riders = getRouteRoster(route.id, getTransportStops(), getStudents(), getTransportAssignments(), month, year)
+      .filter(entry => !studentIds.includes(entry.student.id));
+    if (riders.length + students.length > vehicle.capacity) {
+      problems.push(`${route.routeName} has ${vehicle.capacity - riders.length} free seat${vehicle.capacity - riders.length === 1 ? '' : 's'} ` +
+        `on ${vehicle.registrationNumber}`);
+    }
+  }
+  if (problems.length > 0) {
+    throw new Error(problems.join('\n'));
+  }
+
+  const monthStart = `${effectiveFrom.slice(0, 7)}-01`;
+  const assignments = getTransportAssignments();
+  const replaced = assignments.filter(a => a.effectiveFrom === monthStart && studentIds.includes(a.studentId));
+  const kept = assignments.filter(a => !replaced.includes(a));
+  const now = new Date().toISOString();
+  const floor = getMaxId(assignments);
+  const added: TransportAssignment[] = students.map(student => ({
+    id: getNextId('transport_assignment', floor),
+    studentId: student.id,
+    stopId,
+    effectiveFrom: monthStart,
+    createdBy: getCurrentUser()?.id,
+    createdAt: now,
+  }));
+  setItem('transport_assignments', [...kept, ...added]);
+
+  added.forEach(assignment => {
+    const student = students.find(s => s.id === assignment.studentId);
+    logAuditAction('UPDATE', 'TransportAssignment', assignment.id,
+      `${student?.firstName} ${student?.lastName || ''}: ${stop && route ? `${route.routeCode} / ${stop.stopName}` : 'no transport'} ` +
+      `from ${month}/${year}`);
+  });
+  return added;
+};
+
+// Boarding
+export const getHostels = (): Hostel[] => {
+  return getItem<Hostel[]>('hostels', []);
+};
+
+export const getHostelRooms = (): HostelRoom[] => {
+  return getItem<HostelRoom[]>('hostel_rooms', []);
+};
+
+export const getBedAllocations = (): BedAllocation[] => {
+  return getItem<BedAllocation[]>('bed_allocations', []);
+};
+
+const canManageBoarding = (): boolean => {
+  const role = getCurrentUser()?.role;
+  return role === 'admin' || role === 'accountant';
+};
+
+// Allocations in the rooms holding a bed today or from a later date
+const getRoomBoarders = (roomIds: number[]): BedAllocation[] => {
+  const today = getLocalDateString();
+  const years = getAcademicYears();
+  return getBedAllocations().filter(a => {
+    const end = getAllocationEnd(a, years);
+    return roomIds.includes(a.roomId) && (!end || end >= today);
+  });
+};
+
+// A changed boarding or mess fee is recorded as a revision from
+// `effectiveFrom`, so earlier months keep their old price
+export const saveHostel = (hostel: Hostel, effectiveFrom: string = getLocalDateString()): Hostel => {
+  const hostels = getHostels();
+  const existing = hostels.find(h => h.id === hostel.id);
+  const problems: string[] = [];
+  if (!canManageBoarding()) problems.push('Only an administrator or accountant can manage hostels');
+  if (!hostel.hostelCode.trim()) problems.push('Hostel code is required');
+  if (!hostel.hostelName.trim()) problems.push('Hostel name is required');
+  if (hostels.some(h => h.id !== hostel.id && h.hostelCode.trim().toUpperCase() === hostel.hostelCode.trim().toUpperCase())) {
+    problems.push(`Hostel code ${hostel.hostelCode.trim()} is already in use`);
+  }
+  if (!Number.isFinite(hostel.boardingFee) || hostel.boardingFee < 0) problems.push('Boarding fee cannot be negative');
+  if (!Number.isFinite(hostel.messFee) || hostel.messFee < 0) problems.push('Mess fee cannot be negative');
+  if (existing && !hostel.isActive) {
+    const boarders = getRoomBoarders(getHostelRooms().filter(r => r.hostelId === hostel.id).map(r => r.id));
+    if (boarders.length > 0) problems.push(`${boarders.length} boarder${boarders.length === 1 ? ' is' : 's are'} still in this hostel`);
+  }
+  if (problems.length > 0) {
+    throw new Error(problems.join('\n'));
+  }
+
+  if (existing) {
+    recordFeeRevisions((['boardingFee', 'messFee'] as const)
+      .filter(field => existing[field] !== hostel[field])
+      .map(field => ({ target: { hostelId: hostel.id, field }, current: existing[field], amount: hostel[field] })), effectiveFrom);
+  }
+
+  const now = new Date().toISOString();
+  const saved = existing
+    ? { ...hostel, hostelName: hostel.hostelName.trim(), updatedAt: now }
+    : { ...hostel, hostelName: hostel.hostelName.trim(), id: getNextId('hostel', getMaxId(hostels)), createdAt: now, updatedAt: now };
+  setItem('hostels', existing ? hostels.map(h => h.id === saved.id ? saved : h) : [...hostels, saved]);
+  logAuditAction(existing ? 'UPDATE' : 'CREATE', 'Hostel', saved.id,
+    `${existing ? 'Updated' : 'Added'} hostel: ${saved.hostelCode} - ${saved.hostelName} ` +
+    `(boarding Rs. ${saved.boardingFee}, mess Rs. ${saved.messFee})`);
+  return saved;
+};
+
+export const saveHostelRoom = (room: HostelRoom): HostelRoom => {
+  const rooms = getHostelRooms();
+  const existing = rooms.find(r => r.id === room.id);
+  const boarders = existing ? getRoomBoarders([room.id]) : [];
+  const problems: string[] = [];
+  if (!canManageBoarding()) problems.push('Only an administrator or accountant can manage hostels');
+  if (!room.roomNumber.trim()) problems.push('Room number is required');
+  if (!getHostels().some(h => h.id === room.hostelId)) problems.push('Hostel not found');
+  if (rooms.some(r => r.id !== room.id && r.hostelId === room.hostelId &&
+    r.roomNumber.trim().toUpperCase() === room.roomNumber.trim().toUpperCase())) {
+    problems.push(`Room ${room.roomNumber.trim()} already exists in this hostel`);
+  }
+  if (!Number.isInteger(room.beds) || room.beds < 1) {
+    problems.push('A room needs at least one bed');
+  } else if (boarders.some(a => a.bedNumber > room.beds)) {
+    problems.push(`Bed ${Math.max(...boarders.map(a => a.bedNumber))} is occupied; move its boarder before removing beds`);
+  }
+  if (!room.isActive && boarders.length > 0) {
+    problems.push(`${boarders.length} boarder${boarders.length === 1 ? ' is' : 's are'} still in this room`);
+  }
+  if (problems.length > 0) {
+    throw new Error(problems.join('\n'));
+  }
+
+  const now = new Date().toISOString();
+  const saved = existing
+    ? { ...room, roomNumber: room.roomNumber.trim(), updatedAt: now }
+    : { ...room, roomNumber: room.roomNumber.trim(), id: getNextId('hostel_room', getMaxId(rooms)), createdAt: now, updatedAt: now };
+  setItem('hostel_rooms', existing ? rooms.map(r => r.id === saved.id ? saved : r) : [...rooms, saved]);
+  logAuditAction(existing ? 'UPDATE' : 'CREATE', 'HostelRoom', saved.id,
+    `${existing ? 'Updated' : 'Added'} room ${saved.roomNumber} (${saved.beds} bed${saved.beds === 1 ? '' : 's'})`);
+  return saved;
+};
+
+// A student's allocation holding a bed on a date (today by default)
+export const getStudentBedAllocation = (studentId: number, date: string = getLocalDateString()) => {
+  const years = getAcademicYears();
+  const allocation = getBedAllocations().find(a => a.studentId === studentId && isAllocationActive(a, date, years));
+  const room = getHostelRooms().find(r => r.id === allocation?.roomId);
+  const hostel = getHostels().find(h => h.id === room?.hostelId);
+  return allocation && room && hostel ? { allocation, room, hostel } : null;
+};
+
+export interface BedAllocationInput {
+  studentId: number;
+  roomId: number;
+  bedNumber: number;
+  checkIn: string;
+  messOpted: boolean;
+  remarks?: string;
+}
+
+// Give a student a bed from `checkIn` to the end of that academic year or
+// their check-out. Neither the bed nor the student may be taken for any
+// of those days. A room change is a check-out followed by a new allocation.
+export const allocateBed = (input: BedAllocationInput): BedAllocation => {
+  const student = getStudentById(input.studentId);
+  const room = getHostelRooms().find(r => r.id === input.roomId);
+  const hostel = getHostels().find(h => h.id === room?.hostelId);
+  const years = getAcademicYears();
+  const academicYear = years.find(y => y.startDate <= input.checkIn && input.checkIn <= y.endDate);
+  const allocations = getBedAllocations();
+
+  const problems: string[] = [];
+  if (!canManageBoarding()) problems.push('Only an administrator or accountant can allocate beds');
+  if (student?.status !== 'active') problems.push('Choose an active student');
+  if (!room?.isActive || !hostel?.isActive) problems.push('Choose an active room');
+  if (student && hostel && hostel.gender !== 'Mixed' && student.gender !== hostel.gender) {
+    problems.push(`${hostel.hostelName} is for ${hostel.gender.toLowerCase()} students only`);
+  }
+  if (room && (!Number.isInteger(input.bedNumber) || input.bedNumber < 1 || input.bedNumber > room.beds)) {
+    problems.push(`Room ${room.roomNumber} has beds 1 to ${room.beds}`);
+  }
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(input.checkIn)) {
+    problems.push('Check-in date is required');
+  } else if (!academicYear) {
+    problems.push('Check-in date is not within any academic year');
+  }
+  if (academicYear && problems.length === 0) {
+    const stay = { checkIn: input.checkIn, end: academicYear.endDate };
+    const overlapping = allocations.filter(a => allocationsOverlap(stay, { checkIn: a.checkIn, end: getAllocationEnd(a, years) }));
+    if (overlapping.some(a => a.roomId === input.roomId && a.bedNumber === input.bedNumber)) {
+      problems.push(`Bed ${input.bedNumber} of room ${room?.roomNumber} is taken for some of these dates`);
+    }
+    if (overlapping.some(a => a.studentId === input.studentId)) {
+      problems.push(`${student?.firstName} already has a bed for some of these dates; check them out first`);
+    }
+  }
+  if (problems.length > 0) {
+    throw new Error(problems.join('\n'));
+  }
+
+  const now = new Date().toISOString();
+  const allocation: BedAllocation = {
+    id: getNextId('bed_allocation', getMaxId(allocations)),
+    studentId: input.studentId,
+    roomId: input.roomId,
+    bedNumber: input.bedNumber,
+    academicYearId: academicYear!.id,
+    checkIn: input.checkIn,
+    messOpted: input.messOpted,
+    remarks: input.remarks?.trim() || undefined,
+    createdBy: getCurrentUser()?.id,
+    createdAt: now,
+    updatedAt: now,
+  };
+  setItem('bed_allocations', [...allocations, allocation]);
+  logAuditAction('CREATE', 'BedAllocation', allocation.id,
+    `${student?.firstName} ${student?.lastName || ''}: ${hostel?.hostelCode} room ${room?.roomNumber} bed ${allocation.bedNumber} ` +
+    `from ${allocation.checkIn}${allocation.messOpted ? ' with mess' : ''}`);
+  return allocation;
+};
+
+// `checkOut` is the last night charged; months after it are no longer billed
+export const checkOutBed = (allocationId: number, checkOut: string): BedAllocation => {
+  const allocations = getBedAllocations();
+  const allocation = allocations.find(a => a.id === allocationId);
+  const academicYear = getAcademicYears().find(y => y.id === allocation?.academicYearId);
+  const problems: string[] = [];
+  if (!canManageBoarding()) problems.push('Only an administrator or accountant can check out boarders');
+  if (!allocation) {
+    problems.push('Allocation not found');
+  } else if (allocation.checkOut) {
+    problems.push(`Already checked out on ${allocation.checkOut}`);
+  }
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(checkOut)) {
+    problems.push('Check-out date is required');
+  } else if (allocation && checkOut < allocation.checkIn) {
+    problems.push('Check-out cannot be before check-in');
+  } else if (academicYear && checkOut > academicYear.endDate) {
+    problems.push(`Check-out cannot be after the end of ${academicYear.yearName}`);
+  }
+  if (problems.length > 0) {
+    throw new Error(problems.join('\n'));
+  }
+
+  const saved = { ...allocation!, checkOut, updatedAt: new Date().toISOString() };
+  setItem('bed_allocations', allocations.map(a => a.id === saved.id ? saved : a));
+  const student = getStudentById(saved.studentId);
+  logAuditAction('UPDATE', 'BedAllocation', saved.id,
+    `${student?.firstName} ${student?.lastName || ''}: checked out on ${checkOut}`);
+  return saved;
+};
+
+// Scholarships
+export const getSponsors = (): Sponsor[] => {
+  return getItem<Sponsor[]>('sponsors', []);
+};
+
+export const getScholarshipPrograms = (): ScholarshipProgram[] => {
+  return getItem<ScholarshipProgram[]>('scholarship_programs', []);
+};
+
+export const getScholarshipAwards = (): ScholarshipAward[] => {
+  return getItem<ScholarshipAward[]>('scholarship_awards', []);
+};
+
+export const getSponsorPayments = (): SponsorPayment[] => {
+  return getItem<SponsorPayment[]>('sponsor_payments', []);
+};
+
+const canManageScholarships = (): boolean => {
+  const role = getCurrentUser()?.role;
+  return role === 'admin' || role === 'accountant';
+};
+
+// Awards under the programs covering this month or a later one
+const getOpenAwards = (programIds: number[]): ScholarshipAward[] => {
+  const thisMonth = getLocalDateString().slice(0, 7);
+  return getScholarshipAwards().filter(a => programIds.includes(a.programId) && a.awardTo.slice(0, 7) >= thisMonth);
+};
+
+export const saveSponsor = (sponsor: Sponsor): Sponsor => {
+  const sponsors = getSponsors();
+  const existing = sponsors.find(s => s.id === sponsor.id);
+  const problems: string[] = [];
+  if (!canManageScholarships()) problems.push('Only an administrator or accountant can manage sponsors');
+  if (!sponsor.name.trim()) problems.push('Sponsor name is required');
+  if (sponsors.some(s => s.id !== sponsor.id && s.name.trim().toLowerCase() === sponsor.name.trim().toLowerCase())) {
+    problems.push(`Sponsor ${sponsor.name.trim()} already exists`);
+  }
+  if (sponsor.email?.trim() && !/^\S+@\S+\.\S+$/.test(sponsor.email.trim())) problems.push('Email address is not valid');
+  if (existing && !sponsor.isActive) {
+    const open = getOpenAwards(getScholarshipPrograms().filter(p => p.sponsorId === sponsor.id).map(p => p.id));
+    if (open.length > 0) problems.push(`${open.length} award${open.length === 1 ? ' is' : 's are'} still running for this sponsor`);
+  }
+  if (problems.length > 0) {
+    throw new Error(problems.join('\n'));
+  }
+
+  const now = new Date().toISOString();
+  const saved = existing
+    ? { ...sponsor, name: sponsor.name.trim(), updatedAt: now }
+    : { ...sponsor, name: sponsor.name.trim(), id: getNextId('sponsor', getMaxId(sponsors)), createdAt: now, updatedAt: now };
+  setItem('sponsors', existing ? sponsors.map(s => s.id === saved.id ? saved : s) : [...sponsors, saved]);
+  logAuditAction(existing ? 'UPDATE' : 'CREATE', 'Sponsor', saved.id, `${existing ? 'Updated' : 'Added'} sponsor: ${saved.name}`);
+  return saved;
+};
+
+export const saveScholarshipProgram = (program: ScholarshipProgram): ScholarshipProgram => {
+  const programs = getScholarshipPrograms();
+  const existing = programs.find(p => p.id === program.id);
+  const sponsor = getSponsors().find(s => s.id === program.sponsorId);
+  const problems: string[] = [];
+  if (!canManageScholarships()) problems.push('Only an administrator or accountant can manage scholarships');
+  if (!program.name.trim()) problems.push('Program name is required');
+  if (programs.some(p => p.id !== program.id && p.name.trim().toLowerCase() === program.name.trim().toLowerCase())) {
+    problems.push(`Program ${program.name.trim()} already exists`);
+  }
+  if (!sponsor) {
+    problems.push('Sponsor not found');
+  } else if (!sponsor.isActive && program.isActive) {
+    problems.push(`${sponsor.name} is inactive`);
+  }
+  if (!(program.value > 0)) problems.push('Coverage must be greater than zero');
+  if (program.coverageType === 'percentage' && program.value > 100) problems.push('Percentage cannot exceed 100');
+  if (program.feeHeadId !== null && !getFeeHeads().some(h => h.id === program.feeHeadId)) problems.push('Fee head not found');
+  if (existing && !program.isActive) {
+    const open = getOpenAwards([program.id]);
+    if (open.length > 0) problems.push(`${open.length} award${open.length === 1 ? ' is' : 's are'} still running under this program`);
+  }
+  if (problems.length > 0) {
+    throw new Error(problems.join('\n'));
+  }
+
+  const now = new Date().toISOString();
+  const saved = existing
+    ? { ...program, name: program.name.trim(), updatedAt: now }
+    : { ...program, name: program.name.trim(), id: getNextId('scholarship_program', getMaxId(programs)), createdAt: now, updatedAt: now };
+  setItem('scholarship_programs', existing ? programs.map(p => p.id === saved.id ? saved : p) : [...programs, saved]);
+  logAuditAction(existing ? 'UPDATE' : 'CREATE', 'ScholarshipProgram', saved.id,
+    `${existing ? 'Updated' : 'Created'} scholarship: ${saved.name} ` +
+    `(${saved.coverageType === 'percentage' ? `${saved.value}%` : `Rs. ${saved.value} a month`}, ${sponsor?.name})`);
+  return saved;
+};
+
+// Award a program to a student for a run of fee months. A student holds
+// one award at a time, and months already billed to the sponsor under an
+// award must stay within it.
+export const saveScholarshipAward = (award: ScholarshipAward): ScholarshipAward => {
+  const awards = getScholarshipAwards();
+  const existing = awards.find(a => a.id === award.id);
+  const student = getStudentById(award.studentId);
+  const program = getScholarshipPrograms().find(p => p.id === award.programId);
+  const sponsor = getSponsors().find(s => s.id === program?.sponsorId);
+  const awardFrom = `${award.awardFrom.slice(0, 7)}-01`;
+  const awardTo = `${award.awardTo.slice(0, 7)}-01`;
+
+  const problems: string[] = [];
+  if (!canManageScholarships()) problems.push('Only an administrator or accountant can award scholarships');
+  if (!existing && student?.status !== 'active') problems.push('Choose an active student');
+  if (!program?.isActive || !sponsor?.isActive) problems.push('Choose an active scholarship program');
+  if (!/^\d{4}-\d{2}/.test(award.awardFrom) || !/^\d{4}-\d{2}/.test(award.awardTo)) {
+    problems.push('Award period is required');
+  } else if (awardTo < awardFrom) {
+    problems.push('Award cannot end before it starts');
+  }
+  const clash = awards.find(a => a.id !== award.id && a.studentId === award.studentId && awardsOverlap(a, { awardFrom, awardTo }));
+  if (clash) {
+    problems.push(`${student?.firstName} already has an award from ${clash.awardFrom.slice(0, 7)} to ${clash.awardTo.slice(0, 7)}`);
+  }
+  if (existing) {
+    const outside = getLiveFeeRecords()
+      .filter(r => r.studentId === award.studentId && (r.items || []).some(item => item.awardId === award.id))
+      .filter(r => !isAwardInForce({ ...existing, awardFrom, awardTo }, r.feeMonth, r.feeYear));
+    if (outside.length > 0) {
+      problems.push(`${outside.map(r => `${r.feeMonth}/${r.feeYear}`).join(', ')} already billed to the sponsor under this award`);
+    }
+  }
+  if (problems.length > 0) {
+    throw new Error(problems.join('\n'));
+  }
+
+  const now = new Date().toISOString();
+  const saved: ScholarshipAward = existing
+    ? { ...award, awardFrom, awardTo, remarks: award.remarks?.trim() || undefined, updatedAt: now }
+    : {
+        ...award,
+        awardFrom,
+        awardTo,
+        remarks: award.remarks?.trim() || undefined,
+        id: getNextId('scholarship_award', getMaxId(awards)),
+        createdBy: getCurrentUser()?.id,
+        createdAt: now,
+        updatedAt: now,
+      };
+  setItem('scholarship_awards', existing ? awards.map(a => a.id === saved.id ? saved : a) : [...awards, saved]);
+  logAuditAction(existing ? 'UPDATE' : 'CREATE', 'ScholarshipAward', saved.id,
+    `${student?.firstName} ${student?.lastName || ''}: ${program?.name} ` +
+    `${existing ? 'changed to' : saved.renewedFrom ? 'renewed for' : 'awarded for'} ${saved.awardFrom.slice(0, 7)} to ${saved.awardTo.slice(0, 7)}`);
+  return saved;
+};
+
+// Continue an award from the month after it ends. Programs with renewal
+// criteria need a note of how the student met them.
+export const renewScholarshipAward = (awardId: number, awardTo: string, remarks: string): ScholarshipAward => {
+  const awards = getScholarshipAwards();
+  const award = awards.find(a => a.id === awardId);
+  const program = getScholarshipPrograms().find(p => p.id === award?.programId);
+  if (!award) {
+    throw new Error('Award not found');
+  }
+  if (awards.some(a => a.renewedFrom === award.id)) {
+    throw new Error('This award has already been renewed');
+  }
+  if (program?.renewalCriteria?.trim() && !remarks.trim()) {
+    throw new Error(`Record how the renewal criteria were met: ${program.renewalCriteria.trim()}`);
+  }
+
+  const next = new Date(Number(award.awardTo.slice(0, 4)), Number(award.awardTo.slice(5, 7)), 1);
+  return saveScholarshipAward({
+    id: 0,
+    programId: award.programId,
+    studentId: award.studentId,
+    awardFrom: `${next.getFullYear()}-${String(next.getMonth() + 1).padStart(2, '0')}-01`,
+    awardTo,
+    renewedFrom: award.id,
+    remarks,
+    createdAt: '',
+    updatedAt: '',
+  });
+};
+
+// What has been billed to a sponsor up to `asOf`: each beneficiary's
+// covered share, month by month, read from the same dues every screen uses
+export const getSponsorCharges = (sponsorId: number, asOf: string = getLocalDateString()): SponsorCharge[] => {
+  const programIds = getScholarshipPrograms().filter(p => p.sponsorId === sponsorId).map(p => p.id);
+  const awards = getScholarshipAwards().filter(a => programIds.includes(a.programId));
+  const awardIds = new Set(awards.map(a => a.id));
+  const students = getStudents().filter(s => awards.some(a => a.studentId === s.id));
+
+  return getStudentsDues(students, getFeeRecords(), asOf).flatMap(dues => dues.months.flatMap(month => {
+    const totals = new Map<number, number>();
+    month.heads
+      .filter(h => h.awardId !== undefined && awardIds.has(h.awardId))
+      .forEach(h => totals.set(h.awardId!, (totals.get(h.awardId!) || 0) + h.sponsored));
+    return Array.from(totals, ([awardId, amount]) => ({
+      awardId,
+      studentId: dues.studentId,
+      feeMonth: month.feeMonth,
+      feeYear: month.feeYear,
+      amount,
+    })).filter(charge => charge.amount !== 0);
+  }));
+};
+
+// Awards lapsing within this many days are flagged for renewal
+export const SCHOLARSHIP_ALERT_DAYS = 30;
+
+// Awards about to lapse without a renewal, with the student and sponsor to tell
+export const getExpiringScholarships = (days: number = SCHOLARSHIP_ALERT_DAYS) => {
+  const programs = getScholarshipPrograms();
+  const sponsors = getSponsors();
+  return getExpiringAwards(getScholarshipAwards(), getLocalDateString(), days).flatMap(award => {
+    const student = getStudentById(award.studentId);
+    const program = programs.find(p => p.id === award.programId);
+    const sponsor = sponsors.find(s => s.id === program?.sponsorId);
+    return student?.status === 'active' && program && sponsor ? [{ award, student, program, sponsor }] : [];
+  });
+};
+
+export const recordSponsorPayment = (payment: SponsorPayment): SponsorPayment => {
+  const payments = getSponsorPayments();
+  const sponsor = getSponsors().find(s => s.id === payment.sponsorId);
+  const problems: string[] = [];
+  if (!canManageScholarships()) problems.push('Only an administrator or accountant can record sponsor payments');
+  if (!sponsor) problems.push('Sponsor not found');
+  if (!(payment.amount > 0)) problems.push('Amount must be greater than zero');
+  if (!payment.paymentDate) {
+    problems.push('Payment date is required');
+  } else if (payment.paymentDate > getLocalDateString()) {
+    problems.push('Payment date cannot be in the future');
+  }
+  if (problems.length > 0) {
+    throw new Error(problems.join('\n'));
+  }
+
+  const saved: SponsorPayment = {
+    ...payment,
+    id: getNextId('sponsor_payment', getMaxId(payments)),
+    reference: payment.reference?.trim() || undefined,
+    remarks: payment.remarks?.trim() || undefined,
+    receivedBy: getCurrentUser()?.id || 1,
+    createdAt: new Date().toISOString(),
+  };
+  setItem('sponsor_payments', [...payments, saved]);
+  logAuditAction('CREATE', 'SponsorPayment', saved.id,
+    `Received Rs. ${saved.amount} from ${sponsor?.name} by ${saved.paymentMode}${saved.reference ? ` (${saved.reference})` : ''}`);
+  return saved;
+};
+
+// Fee Waivers
+export const getFeeWaivers = (): FeeWaiver[] => {
+  return getItem<FeeWaiver[]>('fee_waivers', []);
+};
+
+export const getPendingWaivers = (): FeeWaiver[] => {
+  return getFeeWaivers().filter(w => w.status === 'pending');
+};
+
+export interface FeeWaiverInput {
+  studentId: number;
+  waiverType: FeeWaiver['waiverType'];
+  lines: WaiverLine[];
+  reason: string;
+}
+
+// Waiver lines asking for more than is still owed on their head. Dues
+// already take approved waivers off, so approving twice is caught too.
+const getWaiverProblems = (studentId: number, lines: WaiverLine[]): string[] => {
+  const student = getStudentById(studentId);
+  if (!student) return ['Student not found'];
+  const dues = getStudentsDues([student])[0];
+  const problems: string[] = [];
+  lines.forEach((line, index) => {
+    const label = `${line.headName} ${line.feeMonth}/${line.feeYear}`;
+    const sameHead = (other: WaiverLine) =>
+      other.feeMonth === line.feeMonth && other.feeYear === line.feeYear && isSameHead(other, line);
+    if (lines.findIndex(sameHead) !== index) {
+      problems.push(`${label} is listed twice`);
+      return;
+    }
+    const outstanding = (dues?.months.find(m => m.feeMonth === line.feeMonth && m.feeYear === line.feeYear)?.heads || [])
+      .filter(h => isSameHead(h, line))
+      .reduce((sum, h) => sum + h.outstanding, 0);
+    if (!(line.amount > 0)) {
+      problems.push(`Enter the amount to waive for ${label}`);
+    } else if (line.amount > outstanding) {
+      problems.push(`${label}: only ${formatCurrency(Math.max(outstanding, 0))} is outstanding`);
+    }
+  });
+  return problems;
+};
+
+const describeWaiver = (waiver: Pick<FeeWaiver, 'studentId' | 'waiverType' | 'lines'>): string => {
+  const student = getStudentById(waiver.studentId);
+  const months = new Set(waiver.lines.map(line => `${line.feeMonth}/${line.feeYear}`));
+  const total = waiver.lines.reduce((sum, line) => sum + line.amount, 0);
+  return `${WAIVER_TYPE_LABELS[waiver.waiverType]} of Rs. ${total} for ${student?.firstName} ${student?.lastName || ''} ` +
+    `(${Array.from(months).join(', ')})`;
+};
+
+// Propose forgiving part of a student's dues. Nothing changes until an
+// administrator approves the request.
+export const requestFeeWaiver = (input: FeeWaiverInput): FeeWaiver => {
+  const currentUser = getCurrentUser();
+  const waivers = getFeeWaivers();
+  const problems: string[] = [];
+  if (!currentUser || currentUser.role === 'viewer') problems.push('You are not allowed to request waivers');
+  if (input.lines.length === 0) problems.push('Select at least one month and head to waive');
+  if (!input.reason.trim()) problems.push('A justification is required');
+  problems.push(...getWaiverProblems(input.studentId, input.lines));
+  const pending = waivers.filter(w => w.studentId === input.studentId && w.status === 'pending');
+  input.lines
+    .filter(line => pending.some(w => w.lines.some(other =>
+      other.feeMonth === line.feeMonth && other.feeYear === line.feeYear && isSameHead(other, line))))
+    .forEach(line => problems.push(`${line.headName} ${line.feeMonth}/${line.feeYear} is already awaiting approval`));
+  if (problems.length > 0) {
+    throw new Error(problems.join('\n'));
+  }
+
+  const now = new Date().toISOString();
+  const saved: FeeWaiver = {
+    id: getNextId('fee_waiver', getMaxId(waivers)),
+    studentId: input.studentId,
+    waiverType: input.waiverType,
+    lines: input.lines,
+    reason: input.reason.trim(),
+    status: 'pending',
+    requestedBy: currentUser?.id || 1,
+    requestedAt: now,
+    createdAt: now,
+    updatedAt: now,
+  };
+  setItem('fee_waivers', [...waivers, saved]);
+  logAuditAction('CREATE', 'FeeWaiver', saved.id, `Requested ${describeWaiver(saved)}: ${saved.reason}`);
+  return saved;
+};
+
+// Whether an active administrator other than this user could review their requests
+export const hasOtherAdministrator = (userId?: number): boolean => {
+  return getUsers().some(u => u.role === 'admin' && u.isActive && u.id !== userId);
+};
+
+// Checks shared by approval and rejection: only an administrator other
+// than the one who asked may decide a request, and only once. A school
+// with a single administrator lets them review their own requests, with
+// remarks, and the review is marked as such.
+const getReviewProblems = (waiver: FeeWaiver | undefined, remarks: string): string[] => {
+  const currentUser = getCurrentUser();
+  const problems: string[] = [];
+  if (currentUser?.role !== 'admin') problems.push('Only an administrator can approve or reject waivers');
+  if (!waiver) {
+    problems.push('Waiver request not found');
+  } else {
+    if (waiver.status !== 'pending') problems.push(`This request has already been ${waiver.status}`);
+    if (waiver.requestedBy === currentUser?.id) {
+      if (hasOtherAdministrator(currentUser.id)) {
+        problems.push('A request must be reviewed by someone other than who raised it');
+      } else if (!remarks.trim()) {
+        problems.push('Give remarks when reviewing your own request');
+      }
+    }
+  }
+  return problems;
+};
+
+// Approve a waiver. Open invoices for its months are reissued at the
+// waived amounts; months already receipted keep their receipt, and the
+// waiver comes off the student's balance instead (see getStudentBalance).
+export const approveFeeWaiver = async (waiverId: number, remarks: string = ''): Promise<FeeWaiver> => {
+  const waivers = getFeeWaivers();
+  const waiver = waivers.find(w => w.id === waiverId);
+  const problems = getReviewProblems(waiver, remarks);
+  if (waiver && problems.length === 0) problems.push(...getWaiverProblems(waiver.studentId, waiver.lines));
+  if (!waiver || problems.length > 0) {
+    throw new Error(problems.join('\n'));
+  }
+
+  const now = new Date().toISOString();
+  const reviewedBy = getCurrentUser()?.id;
+  const saved: FeeWaiver = {
+    ...waiver,
+    status: 'approved',
+    reviewedBy,
+    reviewedAt: now,
+    reviewRemarks: remarks.trim() || undefined,
+    selfReviewed: reviewedBy === waiver.requestedBy || undefined,
+    updatedAt: now,
+  };
+  const updated = waivers.map(w => w.id === saved.id ? saved : w);
+
+  const months = Array.from(new Map(waiver.lines.map(line => [`${line.feeMonth}/${line.feeYear}`, line])).values());
+  const invoices = months.flatMap(({ feeMonth, feeYear }) => {
+    const invoice = getOpenInvoice(waiver.studentId, feeMonth, feeYear);
+    if (!invoice?.items) return [];
+    const items = applyWaivers(waiver.studentId, invoice.items, updated, feeMonth, feeYear);
+    const waivedAmount = sumWaived(items);
+    const net = invoice.totalFee - invoice.concessionAmount - (invoice.sponsoredAmount || 0) - waivedAmount;
+    return [{ ...invoice, items, waivedAmount: waivedAmount || undefined, netPayable: net, balanceDue: net }];
+  });
+  if (invoices.length > 0) await feeRecordRepository.saveMany(invoices);
+  setItem('fee_waivers', updated);
+  logAuditAction('UPDATE', 'FeeWaiver', saved.id,
+    `${saved.selfReviewed ? 'Self-approved' : 'Approved'} ${describeWaiver(saved)}${saved.reviewRemarks ? `: ${saved.reviewRemarks}` : ''}`);
+  return saved;
+};
+
+export const rejectFeeWaiver = (waiverId: number, remarks: string): FeeWaiver => {
+  const waivers = getFeeWaivers();
+  const waiver = waivers.find(w => w.id === waiverId);
+  const problems = getReviewProblems(waiver, remarks);
+  if (!remarks.trim()) problems.push('Give a reason for rejecting the request');
+  if (!waiver || problems.length > 0) {
+    throw new Error(problems.join('\n'));
+  }
+
+  const now = new Date().toISOString();
+  const reviewedBy = getCurrentUser()?.id;
+  const saved: FeeWaiver = {
+    ...waiver,
+    status: 'rejected',
+    reviewedBy,
+    reviewedAt: now,
+    reviewRemarks: remarks.trim(),
+    selfReviewed: reviewedBy === waiver.requestedBy || undefined,
+    updatedAt: now,
+  };
+  setItem('fee_waivers', waivers.map(w => w.id === saved.id ? saved : w));
+  logAuditAction('UPDATE', 'FeeWaiver', saved.id, `${saved.selfReviewed ? 'Self-rejected' : 'Rejected'} ${describeWaiver(saved)}: ${saved.reviewRemarks}`);
+  return saved;
+};
+
+// Document Numbering
+// Counters used before numbering schemes; a scheme that never resets
+// carries on from them
+const LEGACY_COUNTERS: Record<DocumentType, string> = {
+  receipt: 'last_receipt_id',
+  invoice: 'last_invoice_id',
+  salary_slip: 'last_salary_payment_id',
+  credit_note: 'last_credit_note_id',
+};
+
+export const getNumberingSettings = (): NumberingSettings => {
+  return { ...DEFAULT_NUMBERING, ...getItem<Partial<NumberingSettings>>('numbering_settings', {}) };
+};
+
+export const saveNumberingSettings = (settings: NumberingSettings): void => {
+  const problems: string[] = [];
+  if (getCurrentUser()?.role !== 'admin') problems.push('Only an administrator can change document numbering');
+  const types = Object.keys(DOCUMENT_LABELS) as DocumentType[];
+  types.forEach(type => {
+    validateNumberingScheme(settings[type]).forEach(problem => problems.push(`${DOCUMENT_LABELS[type]}: ${problem}`));
+  });
+  // Receipts and credit notes share a column; every type needs its own prefix to tell them apart
+  const prefixes = types.map(type => settings[type].prefix.trim().toUpperCase());
+  if (new Set(prefixes).size !== prefixes.length) problems.push('Each document type needs a different prefix');
+  if (problems.length > 0) {
+    throw new Error(problems.join('\n'));
+  }
+
+  const cleaned = Object.fromEntries(types.map(type => [type, { ...settings[type], prefix: settings[type].prefix.trim() }]));
+  setItem('numbering_settings', cleaned);
+  logAuditAction('UPDATE', 'NumberingSettings', 0,
+    `Document numbering: ${types.map(type => `${DOCUMENT_LABELS[type]} ${getNextDocumentNumber(type)}`).join(', ')}`);
+};
+
+// Numbers already given out for a type of document
+const getIssuedNumbers = (type: DocumentType): string[] => {
+  if (type === 'salary_slip') return getSalaryPayments().map(p => p.paymentId);
+  if (type === 'invoice') return getFeeRecords().map(r => r.invoiceNumber || '');
+  return getFeeRecords().map(r => r.receiptNumber);
+};
+
+// Last sequence handed to documents that are still being saved, by counter key
+const pendingSequences = new Map<string, number>();
+
+// Where the next number of a type would start, without taking it
+const getDocumentSequence = (type: DocumentType, date: string) => {
+  const scheme = getNumberingSettings()[type];
+  const academicYears = getAcademicYears();
+  const base = getNumberBase(scheme, date, academicYears);
+  const key = getCounterKey(type, scheme, date, academicYears);
+  const counters = getItem<Record<string, number>>('document_counters', {});
+  const last = Math.max(
+    counters[key] || 0,
+    pendingSequences.get(key) || 0,
+    getHighestSequence(getIssuedNumbers(type), base),
+    scheme.reset === 'never' ? getItem<number>(LEGACY_COUNTERS[type], 0) : 0
+  );
+  return { scheme, base, key, last };
+};
+
+// The number the next document of a type dated `date` would get
+export const getNextDocumentNumber = (type: DocumentType, date: string = getLocalDateString()): string => {
+  const { scheme, base, last } = getDocumentSequence(type, date);
+  return formatDocumentNumber(base, last + 1, scheme.padding);
+};
+
+// Give the next `count` numbers of a type to documents and save them with
+// `save`. The counter also respects the highest number already in use, so
+// restored data is never numbered over. It only moves once `save` has
+// succeeded, so a failed save leaves no gap in the series.
+const withDocumentNumbers = async <T>(
+  type: DocumentType,
+  count: number,
+  date: string,
+  save: (numbers: string[]) => Promise<T>
+): Promise<T> => {
+  const { scheme, base, key, last } = getDocumentSequence(type, date);
+  const reserved = last + count;
+  pendingSequences.set(key, reserved);
+  try {
+    const result = await save(
+      Array.from({ length: count }, (_, index) => formatDocumentNumber(base, last + index + 1, scheme.padding))
+    );
+    const counters = getItem<Record<string, number>>('document_counters', {});
+    setItem('document_counters', { ...counters, [key]: Math.max(counters[key] || 0, reserved) });
+    return result;
+  } finally {
+    if (pendingSequences.get(key) === reserved) pendingSequences.delete(key);
+  }
+};
+
+// Numbers in use by more than one document, per type of document. The
+// records of one receipt share their createdAt; the records of one
+// invoice share the student and month.
+export const getDuplicateDocumentNumbers = (
+  feeRecords: FeeRecord[] = getFeeRecords(),
+  salaryPayments: SalaryPayment[] = getSalaryPayments()
+): Record<DocumentType, string[]> => {
+  return {
+    receipt: findDuplicateNumbers(feeRecords
+      .filter(r => r.status !== 'unpaid' && r.reversalOf === undefined)
+      .map(r => ({ number: r.receiptNumber, documentKey: r.createdAt }))),
+    invoice: findDuplicateNumbers(feeRecords
+      .map(r => ({ number: r.invoiceNumber || '', documentKey: `${r.studentId}|${r.feeMonth}|${r.feeYear}` }))),
+    salary_slip: findDuplicateNumbers(salaryPayments.map(p => ({ number: p.paymentId, documentKey: String(p.id) }))),
+    credit_note: findDuplicateNumbers(feeRecords
+      .filter(r => r.reversalOf !== undefined)
+      .map(r => ({ number: r.receiptNumber, documentKey: r.createdAt }))),
+  };
 };
 
 export const generateStudentId = (): string => {
@@ -363,41 +1877,981 @@ export const generateStudentId = (): string => {
 
 // Fee Records
 export const getFeeRecords = (): FeeRecord[] => {
-  return getItem<FeeRecord[]>('fee_records', []);
+  return feeRecordRepository.getAll();
+};
+
+export const queryFeeRecords = async (query: FeeRecordQuery = {}): Promise<FeeRecord[]> => {
+  return getFeeRecords().filter(r =>
+    (query.studentId === undefined || r.studentId === query.studentId) &&
+    (query.feeYear === undefined || r.feeYear === query.feeYear) &&
+    (query.feeMonth === undefined || r.feeMonth === query.feeMonth) &&
+    (!query.status || r.status === query.status)
+  );
+};
+
+// Records still in force: cancelled records and the receipts reversed by
+// them are left out
+export const getLiveFeeRecords = (): FeeRecord[] => {
+  const records = getFeeRecords();
+  const reversed = getReversedIds(records);
+  return records.filter(r => r.status !== 'cancelled' && !reversed.has(r.id));
+};
+
+// Approved waivers for billed months that no record carries: a month
+// receipted before its waiver was approved keeps its receipt as issued
+const getUnpostedWaivers = (studentId: number, records: FeeRecord[]): number => {
+  const reversed = getReversedIds(records);
+  const live = records.filter(r => r.status !== 'cancelled' && !reversed.has(r.id));
+  const waivers = getFeeWaivers();
+  const months = new Map(live.map(r => [`${r.feeMonth}/${r.feeYear}`, r]));
+  return Array.from(months.values()).reduce((sum, { feeMonth, feeYear }) => {
+    const posted = live
+      .filter(r => r.feeMonth === feeMonth && r.feeYear === feeYear)
+      .reduce((total, r) => total + (r.waivedAmount || 0), 0);
+    return sum + Math.max(getWaivedForMonth(waivers, studentId, feeMonth, feeYear) - posted, 0);
+  }, 0);
+};
+
+// Arrears (positive) or advance credit (negative) carried by a student,
+// less approved waivers. Open invoices for the months in `settling` are
+// left out, since the collection that settles them bills those months itself.
+export const getStudentBalance = (
+  studentId: number,
+  settling: { feeMonth: number; feeYear: number }[] = []
+): number => {
+  const records = getFeeRecords().filter(r =>
+    r.studentId === studentId &&
+    !(r.status === 'unpaid' && settling.some(m => m.feeMonth === r.feeMonth && m.feeYear === r.feeYear))
+  );
+  return getLedgerBalance(records) - getUnpostedWaivers(studentId, records);
+};
+
+// Billing Run
+export const getOpenInvoice = (studentId: number, feeMonth: number, feeYear: number): FeeRecord | undefined => {
+  return getFeeRecords().find(r =>
+    r.studentId === studentId &&
+    r.feeMonth === feeMonth &&
+    r.feeYear === feeYear &&
+    r.status === 'unpaid'
+  );
+};
+
+// Charges to collect for a month: the issued invoice if there is one,
+// otherwise the fee structure with today's concessions and sponsorship
+export const getMonthBill = (student: Student, feeMonth: number, feeYear: number): FeeLineItem[] => {
+  const invoice = getOpenInvoice(student.id, feeMonth, feeYear);
+  if (invoice?.items) return invoice.items;
+  return getConcessions(student, getMonthCharges(student, feeMonth, feeYear, getFeeContext(), getLiveFeeRecords()),
+    getLocalDateString(), { month: feeMonth, year: feeYear });
+};
+
+// Issue an unpaid invoice to every active student for one fee month.
+// Students already billed or paid for the month are skipped, so the run
+// can be repeated safely after new admissions.
+export const runMonthlyBilling = async (feeMonth: number, feeYear: number): Promise<FeeRecord[]> => {
+  const live = getLiveFeeRecords();
+  const existing = live.filter(r => r.feeMonth === feeMonth && r.feeYear === feeYear);
+  const invoiceDate = getLocalDateString();
+  const createdAt = new Date().toISOString();
+  const context = getFeeContext();
+  const floor = getMaxId(getFeeRecords());
+
+  const invoices: FeeRecord[] = [];
+  getStudents()
+    .filter(s => s.status === 'active' && !existing.some(r => r.studentId === s.id))
+    .forEach(student => {
+      const items = getConcessions(student, getMonthCharges(student, feeMonth, feeYear, context, live), invoiceDate,
+        { month: feeMonth, year: feeYear });
+      const totalFee = sumLines(items);
+      if (totalFee <= 0) return;
+
+      const concessionAmount = sumConcessions(items);
+      const sponsoredAmount = sumSponsored(items);
+      const waivedAmount = sumWaived(items);
+      const dueDay = getLateFeeTerms(student, context)?.dueDay ?? DEFAULT_DUE_DAY;
+      invoices.push({
+        id: getNextId('fee_record', floor),
+        receiptNumber: '',
+        invoiceDate,
+        dueDate: getDueDate(feeMonth, feeYear, dueDay),
+        studentId: student.id,
+        academicYearId: context.academicYear?.id || student.academicYearId,
+        feeMonth,
+        feeYear,
+        totalFee,
+        concessionAmount,
+        sponsoredAmount: sponsoredAmount || undefined,
+        waivedAmount: waivedAmount || undefined,
+        lateFee: 0,
+        previousDue: 0,
+        netPayable: totalFee - concessionAmount - sponsoredAmount - waivedAmount,
+        amountPaid: 0,
+        balanceDue: totalFee - concessionAmount - sponsoredAmount - waivedAmount,
+        paymentDate: '',
+        paymentMode: 'cash',
+        status: 'unpaid',
+        collectedBy: getCurrentUser()?.id || 1,
+        createdAt,
+        items,
+      });
+    });
+
+  if (invoices.length === 0) return [];
+
+  await withDocumentNumbers('invoice', invoices.length, invoiceDate, async (invoiceNumbers) => {
+    invoices.forEach((invoice, index) => {
+      invoice.invoiceNumber = invoiceNumbers[index];
+    });
+    await feeRecordRepository.saveMany(invoices);
+  });
+  logAuditAction('CREATE', 'FeeRecord', invoices[0].id,
+    `Billing run for ${feeMonth}/${feeYear}: ${invoices.length} invoice${invoices.length === 1 ? '' : 's'} issued`);
+  return invoices;
 };
 
 // FIXED: Check for duplicate fee collection (Issue #3)
+// A partially paid month is billed too: its remainder is collected as arrears
 export const checkDuplicateFee = (
   studentId: number, 
   feeMonth: number, 
   feeYear: number
 ): FeeRecord | undefined => {
-  return getFeeRecords().find(r => 
+  return getLiveFeeRecords().find(r => 
     r.studentId === studentId &&
     r.feeMonth === feeMonth &&
     r.feeYear === feeYear &&
-    r.status === 'paid'
+    (r.status === 'paid' || r.status === 'partial')
   );
 };
 
-export const saveFeeRecord = (record: FeeRecord): void => {
-  const records = getFeeRecords();
-  
+export const saveFeeRecord = (record: FeeRecord): Promise<void> => {
   // Check for duplicate
   const duplicate = checkDuplicateFee(record.studentId, record.feeMonth, record.feeYear);
   if (duplicate && record.id !== duplicate.id) {
     throw new Error(`Fee already collected for this month: ${duplicate.receiptNumber}`);
   }
   
-  const existingIndex = records.findIndex(r => r.id === record.id);
-  if (existingIndex >= 0) {
-    records[existingIndex] = record;
-  } else {
-    records.push(record);
-  }
-  setItem('fee_records', records);
+  const saved = feeRecordRepository.save(record);
   logAuditAction('CREATE', 'FeeRecord', record.id, 
     `Collected fee: ${record.receiptNumber} - Rs. ${record.amountPaid}`);
+  return saved;
+};
+
+// Collect one or more months in a single all-or-nothing write.
+// Every month is validated before anything is saved; ids come from the
+// persistent counter and all records share one receipt number series.
+// The amount received settles arrears first, then months oldest first
+// (heads in order, late fee last); advance credit is used before cash and
+// any overpayment stays on the ledger as new credit.
+export const collectFees = (payment: FeePayment): Promise<FeeRecord[]> => {
+  const { studentId, months, ...options } = payment;
+  return collectForStudents([{ studentId, months }], options);
+};
+
+// Several children of one family on a single receipt
+export const collectFamilyFees = (payment: FamilyFeePayment): Promise<FeeRecord[]> => {
+  const family = getFamilyById(payment.familyId);
+  if (!family) {
+    throw new Error('Family not found');
+  }
+  const outsiders = payment.students.filter(entry => getStudentById(entry.studentId)?.familyId !== family.id);
+  if (outsiders.length > 0) {
+    throw new Error('Every student must belong to the selected family');
+  }
+  const { familyId, students, ...options } = payment;
+  return collectForStudents(students, { ...options, familyId });
+};
+
+type CollectionOptions = Omit<FeePayment, 'studentId' | 'months'> & { familyId?: number };
+
+const collectForStudents = async (
+  entries: { studentId: number; months: FeePaymentMonth[] }[],
+  options: CollectionOptions
+): Promise<FeeRecord[]> => {
+  const selected = entries
+    .filter(entry => entry.months.length > 0)
+    .map(entry => {
+      const student = getStudentById(entry.studentId);
+      if (!student) {
+        throw new Error('Student not found');
+      }
+      return {
+        student,
+        months: [...entry.months].sort((a, b) => (a.feeYear - b.feeYear) || (a.feeMonth - b.feeMonth)),
+      };
+    });
+  if (selected.length === 0) {
+    throw new Error('Select at least one month');
+  }
+
+  const problems: string[] = [];
+  const context = getFeeContext();
+  const live = getLiveFeeRecords();
+  selected.forEach(({ student, months }) => {
+    const seen = new Set<string>();
+    months.forEach(({ feeMonth, feeYear, amount, items }) => {
+      const label = selected.length > 1 ? `${student.firstName} ${feeMonth}/${feeYear}` : `${feeMonth}/${feeYear}`;
+      if (seen.has(label)) problems.push(`Month ${label} selected twice`);
+      seen.add(label);
+
+      if (!(amount > 0)) problems.push(`Invalid amount for ${label}`);
+      if (items && items.reduce((sum, item) => sum + item.amount, 0) !== amount) {
+        problems.push(`Fee breakdown for ${label} does not add up to ${amount}`);
+      }
+
+      const duplicate = checkDuplicateFee(student.id, feeMonth, feeYear);
+      if (duplicate) problems.push(`Fee for ${label} already collected: ${duplicate.receiptNumber}`);
+
+      // Quarterly, annual and one-time heads only on the month they are scheduled for, once
+      if (items && !getOpenInvoice(student.id, feeMonth, feeYear)) {
+        const scheduled = getMonthCharges(student, feeMonth, feeYear, context, live);
+        items
+          .filter(item => (item.feeHeadId !== null && item.frequency !== 'monthly') || item.chargeId !== undefined)
+          .filter(item => !scheduled.some(line =>
+            line.feeHeadId === item.feeHeadId &&
+            line.installmentPlanId === item.installmentPlanId &&
+            line.installmentNo === item.installmentNo &&
+            line.chargeId === item.chargeId))
+          .forEach(item => problems.push(`${item.headName} is not due for ${label} or has already been charged`));
+      }
+    });
+  });
+
+  const currentUser = getCurrentUser();
+  const override = options.lateFeeOverride;
+  if (override) {
+    if (currentUser?.role !== 'admin') problems.push('Only an administrator can override the late fee');
+    if (!override.reason.trim()) problems.push('A reason is required to override the late fee');
+    if (!(override.amount >= 0)) problems.push('Late fee cannot be negative');
+  }
+  if (!Number.isFinite(options.amountReceived) || options.amountReceived < 0) {
+    problems.push('Amount received cannot be negative');
+  }
+  if (options.paymentDate && options.paymentDate > getLocalDateString()) {
+    problems.push('Payment date cannot be in the future');
+  }
+  const dayClosed = getDayClosedProblem(options.paymentDate || getLocalDateString(), currentUser?.id || 1, options.paymentMode);
+  if (dayClosed) problems.push(dayClosed);
+  if (options.paymentMode === 'cheque') {
+    if (!options.chequeNumber?.trim()) problems.push('Cheque number is required');
+    if (!options.bankName?.trim()) problems.push('Bank name is required for a cheque');
+  }
+  if (problems.length > 0) {
+    throw new Error(problems.join('\n'));
+  }
+
+  const paymentDate = options.paymentDate || getLocalDateString();
+  const createdAt = new Date().toISOString();
+  const floor = getMaxId(getFeeRecords());
+
+  // One slot per student-month. Concessions, sponsorship and late fees are worked
+  // out here, never taken from the caller; arrears ride on each student's first month.
+  // A month with an open invoice is settled on that invoice, at the amounts it was issued for.
+  const slots = selected.flatMap(({ student, months }) => {
+    const balance = getStudentBalance(student.id, months);
+    return months.map(({ feeMonth, feeYear, amount, items }, index) => {
+      const invoice = getOpenInvoice(student.id, feeMonth, feeYear);
+      const discountedItems = invoice
+        ? invoice.items
+        : items ? getConcessions(student, items, paymentDate, { month: feeMonth, year: feeYear }) : undefined;
+      return {
+        student: student,
+        invoice,
+        feeMonth,
+        feeYear,
+        amount: invoice ? invoice.totalFee : amount,
+        items: discountedItems,
+        concession: invoice ? invoice.concessionAmount : discountedItems ? sumConcessions(discountedItems) : 0,
+        sponsored: invoice ? invoice.sponsoredAmount || 0 : discountedItems ? sumSponsored(discountedItems) : 0,
+        waived: invoice ? invoice.waivedAmount || 0 : discountedItems ? sumWaived(discountedItems) : 0,
+        computedLateFee: getLateFee(student, feeMonth, feeYear, paymentDate).amount,
+        lateFee: 0,
+        previousDue: index === 0 ? Math.max(balance, 0) : 0,
+        due: 0,
+        credit: 0,
+        cash: 0,
+      };
+    });
+  });
+
+  const computedLateFees = slots.map(slot => slot.computedLateFee);
+  const lateFees = override ? allocateLateFee(computedLateFees, override.amount) : computedLateFees;
+  slots.forEach((slot, index) => {
+    slot.lateFee = lateFees[index];
+    slot.due = slot.previousDue + slot.amount - slot.concession - slot.sponsored - slot.waived + slot.lateFee;
+  });
+
+  // A student's advance credit only pays for their own months
+  selected.forEach(({ student }) => {
+    const own = slots.filter(slot => slot.student.id === student.id);
+    const credit = Math.max(-getStudentBalance(student.id, own), 0);
+    allocateOldestFirst(own.map(slot => slot.due), credit).forEach((applied, index) => {
+      own[index].credit = applied;
+    });
+  });
+
+  // Cash settles the oldest months first, across all students
+  const order = slots
+    .map((_, index) => index)
+    .sort((a, b) => (slots[a].feeYear - slots[b].feeYear) || (slots[a].feeMonth - slots[b].feeMonth) || (a - b));
+  allocateOldestFirst(order.map(index => slots[index].due - slots[index].credit), options.amountReceived)
+    .forEach((applied, position) => {
+      slots[order[position]].cash = applied;
+    });
+  const excess = options.amountReceived - slots.reduce((sum, slot) => sum + slot.cash, 0);
+  const lastIndex = slots.length - 1;
+
+  const records: FeeRecord[] = slots.map((slot, index) => {
+    const { student, items, invoice } = slot;
+    const settled = slot.credit + slot.cash;
+    // Within a month: carried arrears, then each head, then the late fee
+    const headFunds = Math.max(0, settled - slot.previousDue);
+    const headPaid = items
+      ? allocateOldestFirst(
+          items.map(item => item.amount - (item.concession || 0) - (item.sponsored || 0) - (item.waived || 0)), headFunds
+        )
+      : [];
+    const balanceDue = slot.due - settled;
+
+    return {
+      id: invoice ? invoice.id : getNextId('fee_record', floor),
+      receiptNumber: '',
+      invoiceNumber: invoice?.invoiceNumber,
+      invoiceDate: invoice?.invoiceDate,
+      dueDate: invoice?.dueDate,
+      studentId: student.id,
+      academicYearId: getCurrentAcademicYear()?.id || student.academicYearId,
+      feeMonth: slot.feeMonth,
+      feeYear: slot.feeYear,
+      totalFee: slot.amount,
+      concessionAmount: slot.concession,
+      sponsoredAmount: slot.sponsored || undefined,
+      waivedAmount: slot.waived || undefined,
+      lateFee: slot.lateFee,
+      previousDue: slot.previousDue,
+      netPayable: slot.due,
+      amountPaid: slot.cash + (index === lastIndex ? excess : 0),
+      balanceDue,
+      paymentDate,
+      paymentMode: options.paymentMode,
+      paymentReference: options.paymentReference,
+      ...(options.paymentMode === 'cheque' ? {
+        chequeNumber: options.chequeNumber?.trim(),
+        bankName: options.bankName?.trim(),
+        chequeDate: options.chequeDate || paymentDate,
+        chequeStatus: 'received' as const,
+        chequeStatusDate: paymentDate,
+      } : {}),
+      status: balanceDue > 0 ? 'partial' : 'paid',
+      remarks: options.remarks,
+      collectedBy: currentUser?.id || 1,
+      createdAt,
+      items: items?.map((item, itemIndex) => ({ ...item, paid: headPaid[itemIndex] })),
+      advanceAdjusted: slot.credit || undefined,
+      advanceCredit: index === lastIndex && excess > 0 ? excess : undefined,
+      familyId: options.familyId,
+    };
+  });
+
+  await withDocumentNumbers('receipt', 1, paymentDate, async ([number]) => {
+    records.forEach(record => {
+      record.receiptNumber = number;
+    });
+    await feeRecordRepository.saveMany(records);
+  });
+
+  const { receiptNumber } = records[0];
+  const total = records.reduce((sum, r) => sum + r.amountPaid, 0);
+  const family = options.familyId ? getFamilyById(options.familyId) : undefined;
+  logAuditAction('CREATE', 'FeeRecord', records[0].id,
+    `Collected fee: ${receiptNumber} - Rs. ${total} (${records.length} month${records.length > 1 ? 's' : ''}` +
+    `${family ? `, family ${family.familyCode}` : ''})`);
+  if (override) {
+    const computedTotal = computedLateFees.reduce((sum, fee) => sum + fee, 0);
+    logAuditAction('OVERRIDE', 'FeeRecord', records[0].id,
+      `Late fee on ${receiptNumber} changed from Rs. ${computedTotal} to Rs. ${override.amount}. Reason: ${override.reason.trim()}`);
+  }
+  return records;
+};
+
+// Receipt Cancellation
+// Every record of the receipt `record` is on; a receipt covering several
+// months (or several children) is cancelled as a whole.
+export const getReceiptRecords = (record: FeeRecord): FeeRecord[] => {
+  const documentKey = getDocumentKey(record.receiptNumber);
+  return getFeeRecords().filter(r =>
+    getDocumentKey(r.receiptNumber) === documentKey &&
+    (r.status === 'paid' || r.status === 'partial') &&
+    r.reversalOf === undefined
+  );
+};
+
+// Reversal entries for every record of a receipt, dated today, on credit
+// note `creditNote`, plus the invoices reissued as unpaid for months that
+// had been billed by invoice. Nothing is saved here.
+const buildReceiptReversal = (record: FeeRecord, reason: string, creditNote: string) => {
+  const currentUser = getCurrentUser();
+  const originals = getReceiptRecords(record);
+  const paymentDate = getLocalDateString();
+  const createdAt = new Date().toISOString();
+  const floor = getMaxId(getFeeRecords());
+
+  const reversals: FeeRecord[] = originals.map(original => ({
+    ...original,
+    id: getNextId('fee_record', floor),
+    receiptNumber: creditNote,
+    totalFee: -original.totalFee,
+    concessionAmount: -original.concessionAmount,
+    sponsoredAmount: original.sponsoredAmount ? -original.sponsoredAmount : undefined,
+    waivedAmount: original.waivedAmount ? -original.waivedAmount : undefined,
+    lateFee: -original.lateFee,
+    previousDue: -original.previousDue,
+    netPayable: -original.netPayable,
+    amountPaid: -original.amountPaid,
+    balanceDue: -original.balanceDue,
+    paymentDate,
+    status: 'cancelled',
+    remarks: reason.trim(),
+    collectedBy: currentUser?.id || 1,
+    createdAt,
+    items: original.items?.map(item => ({
+      ...item,
+      amount: -item.amount,
+      concession: item.concession ? -item.concession : undefined,
+      sponsored: item.sponsored ? -item.sponsored : undefined,
+      waived: item.waived ? -item.waived : undefined,
+      paid: item.paid !== undefined ? -item.paid : undefined,
+    })),
+    advanceAdjusted: undefined,
+    advanceCredit: undefined,
+    reversalOf: original.id,
+    reversalReason: reason.trim(),
+  }));
+
+  const reissued: FeeRecord[] = originals
+    .filter(original => original.invoiceNumber)
+    .map(original => ({
+      id: getNextId('fee_record', floor),
+      receiptNumber: '',
+      invoiceNumber: original.invoiceNumber,
+      invoiceDate: original.invoiceDate,
+      dueDate: original.dueDate,
+      studentId: original.studentId,
+      academicYearId: original.academicYearId,
+      feeMonth: original.feeMonth,
+      feeYear: original.feeYear,
+      totalFee: original.totalFee,
+      concessionAmount: original.concessionAmount,
+      sponsoredAmount: original.sponsoredAmount,
+      waivedAmount: original.waivedAmount,
+      lateFee: 0,
+      previousDue: 0,
+      netPayable: original.totalFee - original.concessionAmount - (original.sponsoredAmount || 0) - (original.waivedAmount || 0),
+      amountPaid: 0,
+      balanceDue: original.totalFee - original.concessionAmount - (original.sponsoredAmount || 0) - (original.waivedAmount || 0),
+      paymentDate: '',
+      paymentMode: 'cash',
+      status: 'unpaid',
+      collectedBy: currentUser?.id || 1,
+      createdAt,
+      items: original.items?.map(item => ({ ...item, paid: undefined })),
+    }));
+
+  return { originals, reversals, reissued };
+};
+
+// Cancel a receipt and refund what was paid on it. The original records
+// stay untouched: each gets a reversal entry with negated amounts, dated
+// today, so collection reports show the refund on the day it was made.
+// The months fall due again; months billed by invoice get the invoice
+// reissued as unpaid.
+export const cancelReceipt = async (recordId: number, reason: string): Promise<FeeRecord[]> => {
+  const record = getFeeRecords().find(r => r.id === recordId);
+  if (!record) {
+    throw new Error('Receipt not found');
+  }
+
+  const problems: string[] = [];
+  if (getCurrentUser()?.role !== 'admin') problems.push('Only an administrator can cancel a receipt');
+  if (!reason.trim()) problems.push('A reason is required to cancel a receipt');
+  if (record.status !== 'paid' && record.status !== 'partial') {
+    problems.push('Only paid or partly paid receipts can be cancelled');
+  }
+  if (getReversedIds(getFeeRecords()).has(record.id)) {
+    problems.push(`Receipt ${record.receiptNumber} is already cancelled`);
+  }
+  const dayClosed = getDayClosedProblem(getLocalDateString(), getCurrentUser()?.id || 1, record.paymentMode);
+  if (dayClosed) problems.push(dayClosed);
+  if (problems.length > 0) {
+    throw new Error(problems.join('\n'));
+  }
+
+  const { originals, reversals } = await withDocumentNumbers('credit_note', 1, getLocalDateString(), async ([creditNote]) => {
+    const reversal = buildReceiptReversal(record, reason, creditNote);
+    await feeRecordRepository.saveMany([...reversal.reversals, ...reversal.reissued]);
+    return reversal;
+  });
+  const creditNote = reversals[0].receiptNumber;
+
+  const refund = originals.reduce((sum, r) => sum + r.amountPaid, 0);
+  logAuditAction('CANCEL', 'FeeRecord', record.id,
+    `Cancelled receipt ${record.receiptNumber} (${originals.length} month${originals.length === 1 ? '' : 's'}), ` +
+    `refunded Rs. ${refund} on credit note ${creditNote}. Reason: ${reason.trim()}`);
+  return reversals;
+};
+
+// Cheques
+// One record per cheque receipt (the first month of each); older cheque
+// records without a status are taken as cleared. Receipts cancelled for
+// any reason other than a bounce are left out.
+export const getChequeReceipts = (): FeeRecord[] => {
+  const records = getFeeRecords();
+  const reversed = getReversedIds(records);
+  const seen = new Set<string>();
+  return records
+    .filter(r => r.paymentMode === 'cheque' && r.reversalOf === undefined && (r.status === 'paid' || r.status === 'partial'))
+    .filter(r => !reversed.has(r.id) || r.chequeStatus === 'bounced')
+    .filter(r => {
+      const key = getDocumentKey(r.receiptNumber);
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .map(r => ({ ...r, chequeStatus: r.chequeStatus || 'cleared' }));
+};
+
+export const getChequeSettings = (): ChequeSettings => {
+  return { bouncePenalty: 0, ...getItem<Partial<ChequeSettings>>('cheque_settings', {}) };
+};
+
+export const saveChequeSettings = (settings: ChequeSettings): void => {
+  if (!(settings.bouncePenalty >= 0)) {
+    throw new Error('Bounce penalty cannot be negative');
+  }
+  setItem('cheque_settings', settings);
+  logAuditAction('UPDATE', 'ChequeSettings', 0, `Cheque bounce penalty: Rs. ${settings.bouncePenalty}`);
+};
+
+const CHEQUE_STEPS: Record<'deposited' | 'cleared', FeeRecord['chequeStatus']> = {
+  deposited: 'received',
+  cleared: 'deposited',
+};
+
+// Mark cheques deposited or cleared in bulk. Each id may be any record of
+// a cheque receipt; the whole receipt moves together.
+export const updateChequeStatus = async (
+  recordIds: number[],
+  status: 'deposited' | 'cleared',
+  date: string = getLocalDateString()
+): Promise<number> => {
+  const currentUser = getCurrentUser();
+  const problems: string[] = [];
+  if (currentUser?.role !== 'admin' && currentUser?.role !== 'accountant') {
+    problems.push('Only an administrator or accountant can update cheques');
+  }
+  if (!date) problems.push('A date is required');
+
+  const reversed = getReversedIds(getFeeRecords());
+  const receipts = recordIds.map(id => getFeeRecords().find(r => r.id === id));
+  receipts.forEach((record, index) => {
+    if (!record || record.paymentMode !== 'cheque') {
+      problems.push(`Record ${recordIds[index]} is not a cheque payment`);
+    } else if (reversed.has(record.id)) {
+      problems.push(`Cheque ${record.chequeNumber} on ${record.receiptNumber} has been reversed`);
+    } else if (record.chequeStatus !== CHEQUE_STEPS[status]) {
+      problems.push(`Cheque ${record.chequeNumber} is ${record.chequeStatus || 'cleared'}, not ${CHEQUE_STEPS[status]}`);
+    }
+  });
+  if (problems.length > 0) {
+    throw new Error(problems.join('\n'));
+  }
+
+  const updated = receipts
+    .filter((record): record is FeeRecord => record !== undefined)
+    .flatMap(getReceiptRecords)
+    .map(r => ({ ...r, chequeStatus: status, chequeStatusDate: date }));
+  await feeRecordRepository.saveMany(updated);
+  logAuditAction('UPDATE', 'FeeRecord', updated[0]?.id || 0,
+    `Marked ${receipts.length} cheque${receipts.length === 1 ? '' : 's'} ${status} on ${date}`);
+  return receipts.length;
+};
+
+// A bounced cheque pays for nothing: the receipt is reversed (its months
+// fall due again) and the bounce penalty, if one is set, is charged with
+// the first month the cheque had paid for.
+export const bounceCheque = async (recordId: number, reason: string): Promise<FeeRecord[]> => {
+  const record = getFeeRecords().find(r => r.id === recordId);
+  if (!record) {
+    throw new Error('Cheque payment not found');
+  }
+
+  const currentUser = getCurrentUser();
+  const problems: string[] = [];
+  if (currentUser?.role !== 'admin' && currentUser?.role !== 'accountant') {
+    problems.push('Only an administrator or accountant can record a bounced cheque');
+  }
+  if (!reason.trim()) problems.push('A reason is required for a bounced cheque');
+  if (record.paymentMode !== 'cheque') problems.push('This payment was not made by cheque');
+  if (record.chequeStatus !== 'received' && record.chequeStatus !== 'deposited') {
+    problems.push(`Cheque ${record.chequeNumber || ''} is ${record.chequeStatus || 'cleared'} and cannot bounce`);
+  }
+  if (getReversedIds(getFeeRecords()).has(record.id)) {
+    problems.push(`Receipt ${record.receiptNumber} has already been reversed`);
+  }
+  const dayClosed = getDayClosedProblem(getLocalDateString(), currentUser?.id || 1, record.paymentMode);
+  if (dayClosed) problems.push(dayClosed);
+  if (problems.length > 0) {
+    throw new Error(problems.join('\n'));
+  }
+
+  const today = getLocalDateString();
+  const { originals, reversals } = await withDocumentNumbers('credit_note', 1, today, async ([creditNote]) => {
+    const reversal = buildReceiptReversal(record, `Cheque ${record.chequeNumber} bounced: ${reason.trim()}`, creditNote);
+    const bounced = reversal.originals.map(r => ({ ...r, chequeStatus: 'bounced' as const, chequeStatusDate: today }));
+    await feeRecordRepository.saveMany([...bounced, ...reversal.reversals, ...reversal.reissued]);
+    return reversal;
+  });
+
+  const { bouncePenalty } = getChequeSettings();
+  if (bouncePenalty > 0) {
+    const first = originals[0];
+    const charges = getAdditionalCharges();
+    const penalty: AdditionalCharge = {
+      id: getNextId('additional_charge', getMaxId(charges)),
+      studentId: first.studentId,
+      feeHeadId: null,
+      headName: 'Cheque Bounce Charge',
+      amount: bouncePenalty,
+      feeMonth: first.feeMonth,
+      feeYear: first.feeYear,
+      dueDate: today,
+      reason: `Cheque ${record.chequeNumber} (${record.bankName || 'bank not recorded'}) bounced`,
+      sourceRecordId: first.id,
+      createdBy: currentUser?.id,
+      createdAt: new Date().toISOString(),
+    };
+    setItem('additional_charges', [...charges, penalty]);
+  }
+
+  const amount = originals.reduce((sum, r) => sum + r.amountPaid, 0);
+  logAuditAction('CANCEL', 'FeeRecord', record.id,
+    `Cheque ${record.chequeNumber} on ${record.receiptNumber} bounced (Rs. ${amount})` +
+    `${bouncePenalty > 0 ? `, penalty Rs. ${bouncePenalty}` : ''}. Reason: ${reason.trim()}`);
+  return reversals;
+};
+
+// Additional Charges
+export const getAdditionalCharges = (): AdditionalCharge[] => {
+  return getItem<AdditionalCharge[]>('additional_charges', []);
+};
+
+export const getStudentAdditionalCharges = (studentId: number): AdditionalCharge[] => {
+  return getAdditionalCharges().filter(c => c.studentId === studentId);
+};
+
+// A charge can be removed until a receipt or invoice carries it
+export const isAdditionalChargeBilled = (charge: AdditionalCharge): boolean => {
+  return getChargeMonth(charge, getLiveFeeRecords()) === null;
+};
+
+// Post the same one-off charge (a fine, trip fee, re-exam fee) to each of
+// the students. It is billed with its due date's month, or the first month
+// after it the student has not been billed for yet.
+export const postAdditionalCharges = (
+  studentIds: number[],
+  charge: Pick<AdditionalCharge, 'feeHeadId' | 'headName' | 'amount' | 'dueDate' | 'reason'>
+): AdditionalCharge[] => {
+  const currentUser = getCurrentUser();
+  const problems: string[] = [];
+  if (currentUser?.role !== 'admin' && currentUser?.role !== 'accountant') {
+    problems.push('Only an administrator or accountant can post charges');
+  }
+  if (studentIds.length === 0) problems.push('Select at least one student');
+  if (!charge.headName.trim()) problems.push('A charge name is required');
+  if (!(charge.amount > 0)) problems.push('Amount must be greater than zero');
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(charge.dueDate)) problems.push('A due date is required');
+  const students = getStudents();
+  studentIds.forEach(id => {
+    if (!students.some(s => s.id === id && s.status === 'active')) {
+      problems.push(`Student #${id} is not an active student`);
+    }
+  });
+  if (problems.length > 0) {
+    throw new Error(problems.join('\n'));
+  }
+
+  const charges = getAdditionalCharges();
+  const now = new Date().toISOString();
+  const posted: AdditionalCharge[] = studentIds.map(studentId => ({
+    id: getNextId('additional_charge', getMaxId(charges)),
+    studentId,
+    feeHeadId: charge.feeHeadId,
+    headName: charge.headName.trim(),
+    amount: charge.amount,
+    feeMonth: Number(charge.dueDate.slice(5, 7)),
+    feeYear: Number(charge.dueDate.slice(0, 4)),
+    dueDate: charge.dueDate,
+    reason: charge.reason?.trim() || undefined,
+    createdBy: currentUser?.id,
+    createdAt: now,
+  }));
+  setItem('additional_charges', [...charges, ...posted]);
+  posted.forEach(c => logAuditAction('CREATE', 'AdditionalCharge', c.id,
+    `Charged ${c.headName} Rs. ${c.amount} to student #${c.studentId}, due ${c.dueDate}` +
+    `${c.reason ? `. Reason: ${c.reason}` : ''}`));
+  return posted;
+};
+
+export const deleteAdditionalCharge = (id: number): void => {
+  const charge = getAdditionalCharges().find(c => c.id === id);
+  if (!charge) return;
+
+  const problems: string[] = [];
+  if (getCurrentUser()?.role !== 'admin') problems.push('Only an administrator can remove charges');
+  if (isAdditionalChargeBilled(charge)) {
+    problems.push(`${charge.headName} has already been billed; cancel the receipt or invoice first`);
+  }
+  if (problems.length > 0) {
+    throw new Error(problems.join('\n'));
+  }
+
+  setItem('additional_charges', getAdditionalCharges().filter(c => c.id !== id));
+  logAuditAction('DELETE', 'AdditionalCharge', id,
+    `Removed charge: ${charge.headName} Rs. ${charge.amount} for student #${charge.studentId}`);
+};
+
+// Bank Reconciliation
+export const getBankStatementLines = (): BankStatementLine[] => {
+  return getItem<BankStatementLine[]>('bank_statement_lines', []);
+};
+
+export const getBankColumnMapping = (): BankColumnMapping | null => {
+  return getItem<BankColumnMapping | null>('bank_column_mapping', null);
+};
+
+export const saveBankColumnMapping = (mapping: BankColumnMapping): void => {
+  setItem('bank_column_mapping', mapping);
+};
+
+// Adds the statement's credits for review, each with the student it most
+// likely came from. Lines imported before (same key) are skipped.
+export const importBankStatement = (
+  credits: StatementCredit[]
+): { imported: BankStatementLine[]; duplicates: number } => {
+  const currentUser = getCurrentUser();
+  if (currentUser?.role !== 'admin' && currentUser?.role !== 'accountant') {
+    throw new Error('Only an administrator or accountant can import bank statements');
+  }
+
+  const lines = getBankStatementLines();
+  const keys = new Set(lines.map(l => l.lineKey));
+  const fresh = credits.filter(c => !keys.has(c.lineKey));
+
+  const students = getStudents().filter(s => s.status === 'active');
+  const invoices = getFeeRecords().filter(r => r.status === 'unpaid' && r.invoiceNumber);
+  const dues = fresh.length > 0 ? getStudentsDues(students) : [];
+  const importedAt = new Date().toISOString();
+  const floor = getMaxId(lines);
+  const imported: BankStatementLine[] = fresh.map(credit => {
+    const match = matchStatementCredit(credit, students, invoices, dues);
+    return {
+      id: getNextId('bank_statement_line', floor),
+      ...credit,
+      status: 'pending',
+      suggestedStudentId: match?.studentId,
+      matchedBy: match?.matchedBy,
+      importedBy: currentUser.id,
+      importedAt,
+    };
+  });
+
+  if (imported.length > 0) {
+    setItem('bank_statement_lines', [...lines, ...imported]);
+    logAuditAction('CREATE', 'BankStatementLine', imported[0].id,
+      `Imported ${imported.length} bank statement line${imported.length === 1 ? '' : 's'}` +
+      ` (${imported.filter(l => l.suggestedStudentId).length} matched, ${credits.length - fresh.length} already imported)`);
+  }
+  return { imported, duplicates: credits.length - fresh.length };
+};
+
+// Months a bank credit pays for: open invoices and unbilled months up to
+// the credit's month, oldest first, until the amount (after arrears) is covered
+const getMonthsToSettle = (student: Student, amount: number, date: string): FeePaymentMonth[] => {
+  const dues = getStudentsDues([student], getFeeRecords(), date)[0];
+  const upTo = Number(date.slice(0, 4)) * 12 + Number(date.slice(5, 7)) - 1;
+  const payable = dues.dueMonths.filter(m =>
+    m.feeYear * 12 + m.feeMonth - 1 <= upTo &&
+    (!m.billed || getOpenInvoice(student.id, m.feeMonth, m.feeYear)));
+  let covered = dues.dueMonths
+    .filter(m => !payable.includes(m))
+    .reduce((sum, m) => sum + m.outstanding, 0);
+
+  const months: FeePaymentMonth[] = [];
+  for (const month of payable) {
+    if (covered >= amount) break;
+    const items = getMonthBill(student, month.feeMonth, month.feeYear);
+    months.push({ feeMonth: month.feeMonth, feeYear: month.feeYear, amount: sumLines(items), items });
+    covered += month.outstanding;
+  }
+  return months;
+};
+
+// Post a reviewed statement line as a fee collection dated on the bank's
+// value date. A line can only be posted once.
+export const postBankStatementLine = async (
+  lineId: number,
+  studentId: number,
+  paymentMode: 'bank_transfer' | 'online'
+): Promise<FeeRecord[]> => {
+  const line = getBankStatementLines().find(l => l.id === lineId);
+  if (!line) {
+    throw new Error('Statement line not found');
+  }
+  if (line.status !== 'pending') {
+    throw new Error(`This line has already been ${line.status}${line.receiptNumber ? ` (${line.receiptNumber})` : ''}`);
+  }
+  const student = getStudentById(studentId);
+  if (!student) {
+    throw new Error('Student not found');
+  }
+  const months = getMonthsToSettle(student, line.amount, line.transactionDate);
+  if (months.length === 0) {
+    throw new Error(`Nothing is due from ${student.firstName} to post this against; collect it from Collect Fee instead`);
+  }
+
+  const records = await collectFees({
+    studentId,
+    months,
+    paymentMode,
+    amountReceived: line.amount,
+    paymentDate: line.transactionDate,
+    paymentReference: line.reference || line.description,
+    remarks: `Bank statement credit of ${line.transactionDate}`,
+  });
+
+  setItem('bank_statement_lines', getBankStatementLines().map(l => l.id === lineId ? {
+    ...l,
+    status: 'posted' as const,
+    studentId,
+    receiptNumber: records[0].receiptNumber,
+    resolvedAt: new Date().toISOString(),
+  } : l));
+  return records;
+};
+
+// Credits that are not fees (a refund, a donation) stay off the books
+export const setBankStatementLineIgnored = (lineId: number, ignored: boolean): void => {
+  const line = getBankStatementLines().find(l => l.id === lineId);
+  if (!line) return;
+  if (line.status === 'posted') {
+    throw new Error(`This line has already been posted as ${line.receiptNumber}`);
+  }
+
+  setItem('bank_statement_lines', getBankStatementLines().map(l => l.id === lineId ? {
+    ...l,
+    status: ignored ? 'ignored' as const : 'pending' as const,
+    resolvedAt: ignored ? new Date().toISOString() : undefined,
+  } : l));
+  logAuditAction('UPDATE', 'BankStatementLine', lineId,
+    `${ignored ? 'Ignored' : 'Reopened'} bank credit of Rs. ${line.amount} on ${line.transactionDate}`);
+};
+
+// Day Closing
+export const CASH_DENOMINATIONS = [5000, 1000, 500, 100, 50, 20, 10, 5, 2, 1];
+
+export const getDayClosings = (): DayClosing[] => {
+  return getItem<DayClosing[]>('day_closings', []);
+};
+
+export const getDayClosing = (date: string, collectorId: number): DayClosing | undefined => {
+  return getDayClosings().find(c => c.closingDate === date && c.collectorId === collectorId);
+};
+
+// Why a receipt cannot be recorded in a collector's name on a date, if it can't.
+// The closing settles the cash in hand, so only cash receipts and refunds are
+// locked; bank credits and cheques, usually posted for days already closed, are not.
+const getDayClosedProblem = (date: string, collectorId: number, paymentMode: FeeRecord['paymentMode']): string | null => {
+  if (paymentMode !== 'cash') return null;
+  const closing = getDayClosing(date, collectorId);
+  if (!closing) return null;
+  const collector = getUsers().find(u => u.id === collectorId);
+  return `${date} has been closed for ${collector?.fullName || 'this collector'}; no cash receipts can be recorded on it`;
+};
+
+// Users with receipts or refunds on a date
+export const getDayCollectors = (date: string): number[] => {
+  return Array.from(new Set(getFeeRecords()
+    .filter(r => r.paymentDate === date && r.status !== 'unpaid')
+    .map(r => r.collectedBy)));
+};
+
+// A collector's receipts and reversal entries for a date, in every mode
+export const getCollectorDayRecords = (date: string, collectorId: number): FeeRecord[] => {
+  return getFeeRecords().filter(r =>
+    r.paymentDate === date &&
+    r.collectedBy === collectorId &&
+    r.status !== 'unpaid'
+  );
+};
+
+// Cash the collector should be holding: cash received less cash refunded
+export const getExpectedCash = (date: string, collectorId: number): number => {
+  return getCollectorDayRecords(date, collectorId)
+    .filter(r => r.paymentMode === 'cash')
+    .reduce((sum, r) => sum + r.amountPaid, 0);
+};
+
+// Record the cash a collector hands over for a day and lock their cash receipts
+// for it. Collectors close their own day; an administrator or accountant
+// can close it for them.
+export const closeDay = (
+  closingDate: string,
+  collectorId: number,
+  denominations: { value: number; count: number }[],
+  remarks?: string
+): DayClosing => {
+  const currentUser = getCurrentUser();
+  const problems: string[] = [];
+  if (!currentUser || (currentUser.id !== collectorId && currentUser.role !== 'admin' && currentUser.role !== 'accountant')) {
+    problems.push('Only the collector, an administrator or an accountant can close this day');
+  }
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(closingDate) || closingDate > getLocalDateString()) {
+    problems.push('Closing date cannot be in the future');
+  }
+  if (getDayClosing(closingDate, collectorId)) problems.push(`${closingDate} is already closed for this collector`);
+  if (denominations.some(d => !Number.isInteger(d.count) || d.count < 0)) {
+    problems.push('Note and coin counts must be whole numbers');
+  }
+  if (problems.length > 0) {
+    throw new Error(problems.join('\n'));
+  }
+
+  const closings = getDayClosings();
+  const counted = denominations.filter(d => d.count > 0);
+  const declaredCash = counted.reduce((sum, d) => sum + d.value * d.count, 0);
+  const expectedCash = getExpectedCash(closingDate, collectorId);
+  const closing: DayClosing = {
+    id: getNextId('day_closing', getMaxId(closings)),
+    closingDate,
+    collectorId,
+    denominations: counted,
+    declaredCash,
+    expectedCash,
+    difference: declaredCash - expectedCash,
+    // Records of one receipt share its number (see getReceiptRecords)
+    receiptCount: new Set(getCollectorDayRecords(closingDate, collectorId).map(r => getDocumentKey(r.receiptNumber))).size,
+    remarks: remarks?.trim() || undefined,
+    closedBy: currentUser?.id || 1,
+    closedAt: new Date().toISOString(),
+  };
+  setItem('day_closings', [...closings, closing]);
+
+  const collector = getUsers().find(u => u.id === collectorId);
+  logAuditAction('CREATE', 'DayClosing', closing.id,
+    `Closed ${closingDate} for ${collector?.fullName || `user #${collectorId}`}: declared Rs. ${declaredCash}, ` +
+    `expected Rs. ${expectedCash}` +
+    `${closing.difference < 0 ? `, short Rs. ${-closing.difference}` : closing.difference > 0 ? `, excess Rs. ${closing.difference}` : ''}`);
+  return closing;
 };
 
 // FIXED: Get local date without timezone issues (Issue #9)
@@ -411,26 +2865,23 @@ export const getLocalDateString = (): string => {
 
 // Teacher Management
 export const getTeachers = (): Teacher[] => {
-  return getItem<Teacher[]>('teachers', []);
+  return teacherRepository.getAll();
 };
 
-export const saveTeacher = (teacher: Teacher): void => {
-  const teachers = getTeachers();
-  const existingIndex = teachers.findIndex(t => t.id === teacher.id);
-  if (existingIndex >= 0) {
-    teachers[existingIndex] = { ...teacher, updatedAt: new Date().toISOString() };
+export const saveTeacher = (teacher: Teacher): Promise<void> => {
+  const existing = getTeacherById(teacher.id);
+  if (existing) {
     logAuditAction('UPDATE', 'Teacher', teacher.id, `Updated teacher: ${teacher.firstName}`);
-  } else {
-    teachers.push(teacher);
-    logAuditAction('CREATE', 'Teacher', teacher.id, `Appointed teacher: ${teacher.firstName}`);
+    return teacherRepository.save({ ...teacher, updatedAt: new Date().toISOString() });
   }
-  setItem('teachers', teachers);
+  logAuditAction('CREATE', 'Teacher', teacher.id, `Appointed teacher: ${teacher.firstName}`);
+  return teacherRepository.save(teacher);
 };
 
 // FIXED: Soft delete teachers (Issue #10)
-export const deleteTeacher = (teacherId: number): void => {
+export const deleteTeacher = (teacherId: number): Promise<void> => {
   const teacher = getTeachers().find(t => t.id === teacherId);
-  if (!teacher) return;
+  if (!teacher) return Promise.resolve();
   
   // Soft delete - change status
   const updatedTeacher = { 
@@ -438,10 +2889,11 @@ export const deleteTeacher = (teacherId: number): void => {
     status: 'resigned' as const,
     updatedAt: new Date().toISOString() 
   };
-  saveTeacher(updatedTeacher);
+  const saved = saveTeacher(updatedTeacher);
   
   logAuditAction('DELETE_SOFT', 'Teacher', teacherId, 
     `Marked teacher as resigned: ${teacher.firstName} ${teacher.lastName}`);
+  return saved;
 };
 
 export const getTeacherById = (id: number): Teacher | undefined => {
@@ -456,26 +2908,23 @@ export const generateTeacherId = (): string => {
 
 // Salary Payments
 export const getSalaryPayments = (): SalaryPayment[] => {
-  return getItem<SalaryPayment[]>('salary_payments', []);
+  return salaryPaymentRepository.getAll();
 };
 
-export const saveSalaryPayment = (payment: SalaryPayment): void => {
-  const payments = getSalaryPayments();
-  const existingIndex = payments.findIndex(p => p.id === payment.id);
-  if (existingIndex >= 0) {
-    payments[existingIndex] = payment;
-  } else {
-    payments.push(payment);
-  }
-  setItem('salary_payments', payments);
-  logAuditAction('CREATE', 'SalaryPayment', payment.id, 
-    `Paid salary: ${payment.paymentId} - Rs. ${payment.netSalary}`);
+// A payment without a paymentId gets the next salary slip number as it is saved
+export const saveSalaryPayment = (payment: SalaryPayment): Promise<void> => {
+  const save = async (paymentId: string) => {
+    await salaryPaymentRepository.save({ ...payment, paymentId });
+    logAuditAction('CREATE', 'SalaryPayment', payment.id, 
+      `Paid salary: ${paymentId} - Rs. ${payment.netSalary}`);
+  };
+  if (payment.paymentId) return save(payment.paymentId);
+  return withDocumentNumbers('salary_slip', 1, payment.paymentDate, ([paymentId]) => save(paymentId));
 };
 
+// The number the next salary payment will get
 export const generatePaymentId = (): string => {
-  const year = new Date().getFullYear();
-  const nextSeq = getNextId('salary_payment');
-  return `SAL-${year}-${String(nextSeq).padStart(4, '0')}`;
+  return getNextDocumentNumber('salary_slip');
 };
 
 export const getTeacherSalaryPayments = (teacherId: number): SalaryPayment[] => {
@@ -493,7 +2942,7 @@ export const formatCurrency = (amount: number, compact = false): string => {
 };
 
 // FIXED: Student Promotion with proper class validation (Issue #4)
-export const promoteStudents = (
+export const promoteStudents = async (
   promotionData: { studentId: number; action: 'promote' | 'same' | 'passed_out' }[]
 ) => {
   const students = getStudents();
@@ -523,6 +2972,7 @@ export const promoteStudents = (
         return { 
           ...student, 
           status: 'passed_out' as const, 
+          leavingDate: getLocalDateString(),
           updatedAt: new Date().toISOString() 
         };
       } else {
@@ -538,6 +2988,7 @@ export const promoteStudents = (
       return { 
         ...student, 
         status: 'passed_out' as const, 
+        leavingDate: getLocalDateString(),
         updatedAt: new Date().toISOString() 
       };
     } else {
@@ -546,7 +2997,8 @@ export const promoteStudents = (
     }
   });
 
-  setItem('students', updatedStudents);
+  // Only rows that actually changed are written back
+  await studentRepository.saveMany(updatedStudents.filter((s, index) => s !== students[index]));
   logAuditAction('PROMOTION', 'Student', 0, 
     `Processed promotion: ${promotedCount} promoted, ${detainedCount} detained, ${passedOutCount} passed out`);
   
@@ -566,14 +3018,14 @@ export interface AuditLog {
   userId: number;
   userName: string;
   action: 'CREATE' | 'UPDATE' | 'DELETE' | 'LOGIN' | 'LOGOUT' | 'IMPORT' | 
-          'DELETE_SOFT' | 'DELETE_HARD' | 'PROMOTION';
+          'DELETE_SOFT' | 'DELETE_HARD' | 'PROMOTION' | 'OVERRIDE' | 'CANCEL';
   entity: string;
   entityId: number;
   details: string;
 }
 
 export const getAuditLogs = (): AuditLog[] => {
-  return getItem<AuditLog[]>('audit_logs', []);
+  return auditLogRepository.getAll();
 };
 
 export const logAuditAction = (
@@ -583,9 +3035,10 @@ export const logAuditAction = (
   details: string
 ): void => {
   const currentUser = getCurrentUser();
-  const logs = getAuditLogs();
+  const lastLog = getAuditLogs()[0];
   const newLog: AuditLog = {
-    id: Date.now(),
+    // Unique even when several actions are logged in the same millisecond
+    id: Math.max(Date.now(), (lastLog?.id || 0) + 1),
     timestamp: new Date().toISOString(),
     userId: currentUser?.id || 0,
     userName: currentUser?.fullName || 'System',
@@ -594,10 +3047,9 @@ export const logAuditAction = (
     entityId,
     details
   };
-  logs.unshift(newLog);
-  // Keep only last 1000 logs
-  if (logs.length > 1000) logs.splice(1000);
-  setItem('audit_logs', logs);
+  auditLogRepository.save(newLog).catch(error => {
+    console.error('Failed to write audit log:', error);
+  });
 };
 
 // Setup & Configuration
@@ -658,6 +3110,30 @@ export const exportAllData = (): string => {
     salaryRecords: getSalaryPayments(),
     classes: getClasses(),
     feeHeads: getFeeHeads(),
+    feeStructures: getFeeStructures(),
+    lateFeeSettings: getLateFeeSettings(),
+    concessionRules: getConcessionRules(),
+    families: getFamilies(),
+    installmentPlans: getInstallmentPlans(),
+    additionalCharges: getAdditionalCharges(),
+    chequeSettings: getChequeSettings(),
+    feeRevisions: getFeeRevisions(),
+    bankStatementLines: getBankStatementLines(),
+    bankColumnMapping: getBankColumnMapping(),
+    dayClosings: getDayClosings(),
+    numberingSettings: getNumberingSettings(),
+    vehicles: getVehicles(),
+    transportRoutes: getTransportRoutes(),
+    transportStops: getTransportStops(),
+    transportAssignments: getTransportAssignments(),
+    hostels: getHostels(),
+    hostelRooms: getHostelRooms(),
+    bedAllocations: getBedAllocations(),
+    sponsors: getSponsors(),
+    scholarshipPrograms: getScholarshipPrograms(),
+    scholarshipAwards: getScholarshipAwards(),
+    sponsorPayments: getSponsorPayments(),
+    feeWaivers: getFeeWaivers(),
     academicYears: getAcademicYears(),
     users: getUsers().map(u => ({ ...u, passwordHash: '***HIDDEN***' })),
   };
@@ -666,19 +3142,73 @@ export const exportAllData = (): string => {
   return json;
 };
 
-export const importAllData = (jsonData: string): { success: boolean; message: string } => {
+// Tables and settings present in the backup replace the current ones
+export const importAllData = async (jsonData: string): Promise<{ success: boolean; message: string }> => {
   try {
     const data = JSON.parse(jsonData);
     if (!data.version || !data.exportDate) {
       return { success: false, message: 'Invalid backup file format' };
     }
+
+    // Document numbers must be unique in the restored data
+    const duplicates = getDuplicateDocumentNumbers(
+      data.feeRecords || getFeeRecords(),
+      data.salaryRecords || getSalaryPayments()
+    );
+    const clashes = (Object.keys(duplicates) as DocumentType[])
+      .filter(type => duplicates[type].length > 0)
+      .map(type => `${DOCUMENT_LABELS[type]}: ${duplicates[type].slice(0, 5).join(', ')}` +
+        `${duplicates[type].length > 5 ? ` and ${duplicates[type].length - 5} more` : ''}`);
+    if (clashes.length > 0) {
+      return {
+        success: false,
+        message: `Backup not imported: these numbers would belong to more than one document. ${clashes.join('; ')}`,
+      };
+    }
+
+    // Entity tables in the backup replace the current ones, so records
+    // added or changed since the backup was taken do not survive it
+    const tables: Record<string, Array<{ id: number }> | undefined> = {
+      students: data.students,
+      teachers: data.teachers,
+      fee_records: data.feeRecords,
+      salary_payments: data.salaryRecords,
+    };
+    await replaceEntities(Object.fromEntries(
+      Object.entries(tables).filter((entry): entry is [string, Array<{ id: number }>] => Array.isArray(entry[1]))
+    ));
+    if (data.students) studentRepository.reset(data.students);
+    if (data.teachers) teacherRepository.reset(data.teachers);
+    if (data.feeRecords) feeRecordRepository.reset(data.feeRecords);
+    if (data.salaryRecords) salaryPaymentRepository.reset(data.salaryRecords);
+
     if (data.schoolInfo) setItem('school_info', data.schoolInfo);
-    if (data.students) setItem('students', data.students);
-    if (data.teachers) setItem('teachers', data.teachers);
-    if (data.feeRecords) setItem('fee_records', data.feeRecords);
-    if (data.salaryRecords) setItem('salary_payments', data.salaryRecords);
     if (data.classes) setItem('classes', data.classes);
     if (data.feeHeads) setItem('fee_heads', data.feeHeads);
+    if (data.feeStructures) setItem('fee_structures', data.feeStructures);
+    if (data.lateFeeSettings) setItem('late_fee_settings', data.lateFeeSettings);
+    if (data.concessionRules) setItem('concession_rules', data.concessionRules);
+    if (data.families) setItem('families', data.families);
+    if (data.installmentPlans) setItem('installment_plans', data.installmentPlans);
+    if (data.additionalCharges) setItem('additional_charges', data.additionalCharges);
+    if (data.chequeSettings) setItem('cheque_settings', data.chequeSettings);
+    if (data.feeRevisions) setItem('fee_revisions', data.feeRevisions);
+    if (data.bankStatementLines) setItem('bank_statement_lines', data.bankStatementLines);
+    if (data.bankColumnMapping) setItem('bank_column_mapping', data.bankColumnMapping);
+    if (data.dayClosings) setItem('day_closings', data.dayClosings);
+    if (data.numberingSettings) setItem('numbering_settings', data.numberingSettings);
+    if (data.vehicles) setItem('vehicles', data.vehicles);
+    if (data.transportRoutes) setItem('transport_routes', data.transportRoutes);
+    if (data.transportStops) setItem('transport_stops', data.transportStops);
+    if (data.transportAssignments) setItem('transport_assignments', data.transportAssignments);
+    if (data.hostels) setItem('hostels', data.hostels);
+    if (data.hostelRooms) setItem('hostel_rooms', data.hostelRooms);
+    if (data.bedAllocations) setItem('bed_allocations', data.bedAllocations);
+    if (data.sponsors) setItem('sponsors', data.sponsors);
+    if (data.scholarshipPrograms) setItem('scholarship_programs', data.scholarshipPrograms);
+    if (data.scholarshipAwards) setItem('scholarship_awards', data.scholarshipAwards);
+    if (data.sponsorPayments) setItem('sponsor_payments', data.sponsorPayments);
+    if (data.feeWaivers) setItem('fee_waivers', data.feeWaivers);
     if (data.academicYears) setItem('academic_years', data.academicYears);
     
     logAuditAction('IMPORT', 'System', 0, 'Full database restore from backup');
@@ -724,6 +3254,7 @@ export const getAllDataForSync = () => {
     salaryRecords: getSalaryPayments(),
     classes: getClasses(),
     feeHeads: getFeeHeads(),
+    feeStructures: getFeeStructures(),
     academicYears: getAcademicYears(),
   };
 };
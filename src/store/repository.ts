@@ -0,0 +1,133 @@
+// Entity repositories for School Fee Manager Pro
+// Desktop: rows live in the Electron SQLite tables, mirrored in an in-memory cache
+// Browser: the original localStorage JSON arrays
+import { isElectron } from '../utils/electronStorage';
+import { emitChange } from './events';
+import type { EntityApi, EntityChannel } from '../types/electron';
+
+export interface LocalBackend {
+  read: <T>(key: string, defaultValue: T) => T;
+  write: <T>(key: string, value: T) => void;
+}
+
+export interface RepositoryOptions {
+  // Newest records first (audit trail) instead of appending
+  prepend?: boolean;
+  // Keep only this many records in memory / localStorage
+  retain?: number;
+}
+
+export interface Repository<T extends { id: number }> {
+  getAll: () => T[];
+  save: (record: T) => Promise<void>;
+  saveMany: (records: T[]) => Promise<void>;
+  hydrate: () => Promise<void>;
+  // Take `records` as the whole table once replaceEntities has stored them
+  reset: (records: T[]) => void;
+}
+
+/**
+ * Replace the full contents of several entity tables, as a backup restore
+ * does. On desktop the tables are cleared and refilled in one transaction;
+ * each repository's `reset` then brings its cache in line.
+ */
+export const replaceEntities = async (tables: Record<string, Array<{ id: number }>>): Promise<void> => {
+  if (!isElectron()) return;
+  await window.electronAPI!.db.replaceEntities(tables);
+};
+
+/**
+ * Create a repository for one entity table.
+ *
+ * Reads stay synchronous so render code can keep calling getStudents() etc.
+ * Writes update the cache immediately and resolve once the row is on disk;
+ * if SQLite rejects a write the cache is reloaded from the database.
+ */
+export const createRepository = <T extends { id: number }>(
+  entity: string,
+  channel: EntityChannel,
+  local: LocalBackend,
+  options: RepositoryOptions = {}
+): Repository<T> => {
+  let cache: T[] | null = null;
+  const remote = () => window.electronAPI![channel] as unknown as EntityApi<T>;
+
+  const merge = (list: T[], records: T[]): T[] => {
+    let next = [...list];
+    records.forEach(record => {
+      const existingIndex = next.findIndex(r => r.id === record.id);
+      if (existingIndex >= 0) {
+        next[existingIndex] = record;
+      } else {
+        next = options.prepend ? [record, ...next] : [...next, record];
+      }
+    });
+    return options.retain ? next.slice(0, options.retain) : next;
+  };
+
+  const getAll = (): T[] => {
+    if (!isElectron()) {
+      return local.read<T[]>(entity, []);
+    }
+    if (!cache) {
+      console.warn(`Repository "${entity}" read before initializeStore()`);
+      return [];
+    }
+    return [...cache];
+  };
+
+  const hydrate = async (): Promise<void> => {
+    if (!isElectron()) return;
+
+    const rows = await remote().list();
+
+    // First desktop run: move the legacy localStorage array into SQLite
+    if (rows.length === 0) {
+      const legacy = local.read<T[]>(entity, []);
+      if (legacy.length > 0) {
+        await remote().saveMany(legacy);
+        localStorage.removeItem(entity);
+        console.log(`Migrated ${legacy.length} ${entity} records to SQLite`);
+        cache = options.retain ? legacy.slice(0, options.retain) : legacy;
+        emitChange(entity);
+        return;
+      }
+    }
+
+    cache = rows;
+    emitChange(entity);
+  };
+
+  const persist = (records: T[], write: () => Promise<void>): Promise<void> => {
+    if (!isElectron()) {
+      local.write(entity, merge(getAll(), records));
+      return Promise.resolve();
+    }
+
+    cache = merge(cache || [], records);
+    emitChange(entity);
+    return write().catch(async (error) => {
+      console.error(`Error saving ${entity} to database:`, error);
+      await hydrate();
+      throw error;
+    });
+  };
+
+  const reset = (records: T[]): void => {
+    const kept = options.retain ? records.slice(0, options.retain) : records;
+    if (!isElectron()) {
+      local.write(entity, kept);
+      return;
+    }
+    cache = kept;
+    emitChange(entity);
+  };
+
+  return {
+    getAll,
+    hydrate,
+    reset,
+    save: (record) => persist([record], () => remote().save(record)),
+    saveMany: (records) => persist(records, () => remote().saveMany(records))
+  };
+};
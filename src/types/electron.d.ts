@@ -0,0 +1,94 @@
+// Shared typing for the preload bridge (electron/preload.js)
+// Keep in sync with the IPC handlers in electron/main.js
+import type { Student, StudentFilter, Teacher, FeeRecord, SalaryPayment } from './index';
+import type { AuditLog } from '../store';
+
+export interface DesktopStorageInfo {
+  dbSizeMB: string;
+  freeSpaceGB: string;
+  totalRecords: number;
+  students: number;
+  teachers: number;
+  feeRecords: number;
+  salaryRecords: number;
+  appData: number;
+  schemaVersion?: number;
+  unlimited: boolean;
+  dbPath?: string;
+  error?: string;
+}
+
+export interface DesktopBackupResult {
+  success: boolean;
+  filepath: string;
+  filename: string;
+  sizeMB: string;
+  timestamp: string;
+}
+
+export interface DesktopAppInfo {
+  version: string;
+  name: string;
+  platform: string;
+  arch: string;
+  dbPath: string;
+  backupDir: string;
+  userDataPath: string;
+  documentsPath: string;
+}
+
+export interface FileDialogOptions {
+  title?: string;
+  defaultPath?: string;
+  filters?: { name: string; extensions: string[] }[];
+  properties?: string[];
+}
+
+export interface EntityApi<T> {
+  list: () => Promise<T[]>;
+  save: (record: T) => Promise<void>;
+  saveMany: (records: T[]) => Promise<void>;
+}
+
+export interface ElectronAPI {
+  db: {
+    get: <T>(key: string, defaultValue: T) => Promise<T>;
+    set: <T>(key: string, value: T) => Promise<void>;
+    remove: (key: string) => Promise<void>;
+    getStorageInfo: () => Promise<DesktopStorageInfo>;
+    backup: (directory?: string) => Promise<DesktopBackupResult>;
+    export: () => Promise<string>;
+    import: (jsonData: string) => Promise<{ success: boolean; message: string }>;
+    // Clears each named entity table and refills it, all in one transaction
+    replaceEntities: (tables: Record<string, Array<{ id: number }>>) => Promise<void>;
+  };
+  students: Omit<EntityApi<Student>, 'list'> & {
+    list: (filter?: StudentFilter) => Promise<Student[]>;
+  };
+  teachers: EntityApi<Teacher>;
+  feeRecords: EntityApi<FeeRecord>;
+  salaryPayments: EntityApi<SalaryPayment>;
+  auditLogs: EntityApi<AuditLog>;
+  app: {
+    getInfo: () => Promise<DesktopAppInfo>;
+  };
+  dialog: {
+    showSaveDialog: (options: FileDialogOptions) => Promise<{ canceled: boolean; filePath?: string }>;
+    showOpenDialog: (options: FileDialogOptions) => Promise<{ canceled: boolean; filePaths: string[] }>;
+  };
+  shell: {
+    showItemInFolder: (filepath: string) => Promise<void>;
+    openExternal: (url: string) => Promise<void>;
+  };
+  platform: string;
+  isElectron: boolean;
+}
+
+// Entity namespaces the repository layer can bind to
+export type EntityChannel = 'students' | 'teachers' | 'feeRecords' | 'salaryPayments' | 'auditLogs';
+
+declare global {
+  interface Window {
+    electronAPI?: ElectronAPI;
+  }
+}
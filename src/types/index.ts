@@ -109,6 +109,7 @@ export interface FeeHead {
   description?: string;
   isRecurring: boolean;
   frequency: 'monthly' | 'quarterly' | 'annually' | 'one-time';
+  dueMonths?: number[];      // months (1-12) a quarterly or annual head falls due; follows the session when empty
   isMandatory: boolean;
   displayOrder: number;
   isActive: boolean;
@@ -126,6 +127,65 @@ export interface FeeStructure {
   isActive: boolean;
 }
 
+// School-wide late fee rules; per-class rates live on FeeStructure
+export interface LateFeeSettings {
+  graceDays: number;
+  holidays: string[];        // YYYY-MM-DD, never counted as late days
+  excludeSundays: boolean;
+}
+
+export interface ChequeSettings {
+  bouncePenalty: number;     // charged to the student when a cheque bounces; 0 = none
+}
+
+export type DocumentType = 'receipt' | 'invoice' | 'salary_slip' | 'credit_note';
+
+// How one type of document is numbered, e.g. RCP-2026-00042 (see utils/numbering)
+export interface NumberingScheme {
+  prefix: string;
+  yearToken: 'none' | 'year' | 'academic_year';
+  padding: number;           // digits in the sequence, zero padded
+  reset: 'never' | 'yearly'; // yearly restarts at 1 each calendar or academic year, following yearToken
+}
+
+export type NumberingSettings = Record<DocumentType, NumberingScheme>;
+
+// One charge on a student's bill (see utils/feeCalculator).
+// feeHeadId is null for charges taken from the student record itself
+// (monthlyFee / transportFee) rather than from the fee structure.
+export interface FeeLineItem {
+  feeHeadId: number | null;
+  headName: string;
+  frequency: FeeHead['frequency'];
+  amount: number;
+  concession?: number;       // discount on `amount` from a concession rule
+  sponsored?: number;        // share after concession billed to a scholarship sponsor
+  awardId?: number;          // scholarship award the sponsored share is billed under
+  waived?: number;           // share forgiven under approved fee waivers
+  paid?: number;             // portion of `amount` settled by the record it is on
+  installmentPlanId?: number; // set on installment lines (see utils/installments)
+  installmentNo?: number;
+  dueDate?: string;          // YYYY-MM-DD, installment and additional charge lines
+  chargeId?: number;         // set on additional charge lines (see utils/charges)
+}
+
+// Discount applied automatically at collection (see utils/concessions).
+// A rule targets either a fee category or one student; rules set for a
+// student replace the category rules for that student.
+export interface ConcessionRule {
+  id: number;
+  name: string;
+  feeCategory?: Student['feeCategory'];
+  studentId?: number;
+  feeHeadId: number | null;  // null = every head
+  type: 'percentage' | 'fixed';
+  value: number;
+  effectiveFrom: string;     // YYYY-MM-DD
+  effectiveTo?: string;      // YYYY-MM-DD, open-ended when missing
+  isActive: boolean;
+  createdAt: string;
+}
+
 export interface Student {
   id: number;
   studentId: string;
@@ -157,7 +217,256 @@ export interface Student {
   state?: string;
   pincode?: string;
   status: 'active' | 'left' | 'passed_out' | 'transferred';
+  leavingDate?: string;      // set when the student stops being active; billing ends that month
+  remarks?: string;
+  familyId?: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Siblings billed together; members point at it through Student.familyId
+export interface Family {
+  id: number;
+  familyCode: string;
+  familyName: string;
+  primaryPhone?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// A charge split into dated installments. The charge is left off the bill
+// of its own month and each installment is billed in the month it falls due.
+export interface InstallmentPlan {
+  id: number;
+  studentId: number;
+  feeHeadId: number | null;
+  headName: string;
+  feeMonth: number;          // month the charge was due in
+  feeYear: number;
+  totalAmount: number;       // the charge after concession
+  installments: Installment[];
+  createdBy?: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface Installment {
+  dueDate: string;           // YYYY-MM-DD
+  amount: number;
+}
+
+// One-off amount billed to a student outside the fee structure, such as a
+// cheque bounce penalty. Billed with feeMonth/feeYear, or with the next
+// month not billed yet when that month already is (see utils/charges).
+export interface AdditionalCharge {
+  id: number;
+  studentId: number;
+  feeHeadId: number | null;
+  headName: string;
+  amount: number;
+  feeMonth: number;
+  feeYear: number;
+  dueDate: string;           // YYYY-MM-DD
+  reason?: string;
+  sourceRecordId?: number;   // bounced cheque record the penalty was charged for
+  createdBy?: number;
+  createdAt: string;
+}
+
+// A change to a fee amount, kept so months before `effectiveFrom` are
+// still priced at the old amount. Targets a class's fee structure cell,
+// a transport stop's fee, a hostel's boarding or mess fee, or a student's
+// own monthly or transport fee.
+export interface FeeRevision {
+  id: number;
+  feeStructureId?: number;
+  stopId?: number;
+  hostelId?: number;
+  studentId?: number;
+  field?: 'monthlyFee' | 'transportFee' | 'boardingFee' | 'messFee';
+  previousAmount: number;
+  amount: number;
+  effectiveFrom: string;     // YYYY-MM-DD; applies from this date's fee month
+  reason?: string;
+  createdBy?: number;
+  createdAt: string;
+}
+
+// Transport
+export interface Vehicle {
+  id: number;
+  registrationNumber: string;
+  vehicleType?: string;      // bus, van...
+  capacity: number;          // seats
+  driverName: string;
+  driverPhone?: string;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface TransportRoute {
+  id: number;
+  routeCode: string;
+  routeName: string;
+  vehicleId: number | null;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface TransportStop {
+  id: number;
+  routeId: number;
+  stopName: string;
+  pickupTime?: string;       // HH:MM
+  monthlyFee: number;
+  displayOrder: number;      // position along the route
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// A student's stop from a fee month on. The latest assignment effective
+// by a month sets the transport charge for it; a null stop ends transport.
+// Months before a student's first assignment use Student.transportFee.
+export interface TransportAssignment {
+  id: number;
+  studentId: number;
+  stopId: number | null;
+  effectiveFrom: string;     // YYYY-MM-01
+  createdBy?: number;
+  createdAt: string;
+}
+
+// Boarding
+export interface Hostel {
+  id: number;
+  hostelCode: string;
+  hostelName: string;
+  gender: 'Male' | 'Female' | 'Mixed';
+  wardenName?: string;
+  wardenPhone?: string;
+  boardingFee: number;       // per month
+  messFee: number;           // per month, for boarders who take meals
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface HostelRoom {
+  id: number;
+  hostelId: number;
+  roomNumber: string;
+  beds: number;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// A bed held by a boarder within one academic year. Boarding and mess are
+// charged for the days from check-in to check-out (or the end of the
+// academic year), so part months are prorated (see utils/boarding).
+export interface BedAllocation {
+  id: number;
+  studentId: number;
+  roomId: number;
+  bedNumber: number;         // 1..room beds
+  academicYearId: number;
+  checkIn: string;           // YYYY-MM-DD
+  checkOut?: string;         // YYYY-MM-DD, last night charged
+  messOpted: boolean;
   remarks?: string;
+  createdBy?: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Scholarships
+export interface Sponsor {
+  id: number;
+  name: string;
+  sponsorType: 'trust' | 'individual' | 'government';
+  contactPerson?: string;
+  phone?: string;
+  email?: string;
+  address?: string;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// What a sponsor pays for each beneficiary: a percentage of the fee after
+// concession, or a fixed amount per month, on one head or every head
+export interface ScholarshipProgram {
+  id: number;
+  name: string;
+  sponsorId: number;
+  coverageType: 'percentage' | 'fixed';
+  value: number;
+  feeHeadId: number | null;  // null = every head
+  renewalCriteria?: string;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// A program awarded to a student for a run of fee months. A renewal is a
+// new award continuing from the month after the one it renews.
+export interface ScholarshipAward {
+  id: number;
+  programId: number;
+  studentId: number;
+  awardFrom: string;         // YYYY-MM-01, first fee month covered
+  awardTo: string;           // YYYY-MM-01, last fee month covered
+  renewedFrom?: number;      // award this one renews
+  remarks?: string;
+  createdBy?: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Money received from a sponsor against what has been billed to them
+export interface SponsorPayment {
+  id: number;
+  sponsorId: number;
+  amount: number;
+  paymentDate: string;
+  paymentMode: FeeRecord['paymentMode'];
+  reference?: string;
+  remarks?: string;
+  receivedBy: number;
+  createdAt: string;
+}
+
+// Fee Waivers
+// Dues forgiven on request, once an administrator approves. A waiver
+// forgives a fee as a concession; a write-off gives up arrears that cannot
+// be collected.
+export interface WaiverLine {
+  feeMonth: number;
+  feeYear: number;
+  feeHeadId: number | null;
+  headName: string;
+  installmentPlanId?: number;
+  installmentNo?: number;
+  chargeId?: number;
+  amount: number;
+}
+
+export interface FeeWaiver {
+  id: number;
+  studentId: number;
+  waiverType: 'waiver' | 'write_off';
+  lines: WaiverLine[];
+  reason: string;
+  status: 'pending' | 'approved' | 'rejected';
+  requestedBy: number;
+  requestedAt: string;
+  reviewedBy?: number;
+  reviewedAt?: string;
+  reviewRemarks?: string;
+  selfReviewed?: boolean;    // decided by the administrator who raised it, the school having no other
   createdAt: string;
   updatedAt: string;
 }
@@ -171,6 +480,8 @@ export interface FeeRecord {
   feeYear: number;
   totalFee: number;
   concessionAmount: number;
+  sponsoredAmount?: number;  // billed to scholarship sponsors, not the student
+  waivedAmount?: number;     // forgiven under approved fee waivers
   lateFee: number;
   previousDue: number;
   netPayable: number;
@@ -181,10 +492,110 @@ export interface FeeRecord {
   paymentReference?: string;
   bankName?: string;
   chequeNumber?: string;
+  chequeDate?: string;
+  chequeStatus?: 'received' | 'deposited' | 'cleared' | 'bounced'; // older cheque records count as cleared
+  chequeStatusDate?: string;
   status: 'paid' | 'partial' | 'unpaid' | 'cancelled';
   remarks?: string;
   collectedBy: number;
   createdAt: string;
+  items?: FeeLineItem[];
+  advanceAdjusted?: number;  // earlier advance credit used towards this record
+  advanceCredit?: number;    // overpayment held as credit for the next collection
+  familyId?: number;         // set when collected on a combined family receipt
+  invoiceNumber?: string;    // set when the month was billed by a billing run
+  invoiceDate?: string;
+  dueDate?: string;
+  reversalOf?: number;       // on a reversal entry: id of the record it cancels
+  reversalReason?: string;
+}
+
+export interface FeePaymentMonth {
+  feeMonth: number;
+  feeYear: number;
+  amount: number;
+  items?: FeeLineItem[];
+}
+
+// One payment covering one or more fee months (see collectFees)
+export interface FeePayment {
+  studentId: number;
+  months: FeePaymentMonth[];
+  paymentMode: FeeRecord['paymentMode'];
+  amountReceived: number;    // cash actually handed over; may be short or over
+  paymentDate?: string;      // YYYY-MM-DD, defaults to today; a bank credit's value date
+  paymentReference?: string;
+  chequeNumber?: string;     // required when paymentMode is 'cheque'
+  bankName?: string;
+  chequeDate?: string;
+  remarks?: string;
+  // Admin-only replacement for the computed late fee of the whole payment
+  lateFeeOverride?: { amount: number; reason: string };
+}
+
+// A credit line read from a bank statement. Each line is imported once;
+// `lineKey` identifies it across repeated imports of the same statement.
+export interface BankStatementLine {
+  id: number;
+  lineKey: string;
+  transactionDate: string;   // YYYY-MM-DD
+  description: string;
+  reference?: string;
+  amount: number;
+  status: 'pending' | 'posted' | 'ignored';
+  suggestedStudentId?: number;
+  matchedBy?: 'invoice' | 'reference' | 'amount';
+  studentId?: number;        // set once posted
+  receiptNumber?: string;
+  importedBy?: number;
+  importedAt: string;
+  resolvedAt?: string;
+}
+
+// Columns (0-based) of a bank's CSV export, remembered between imports
+export interface BankColumnMapping {
+  hasHeader: boolean;
+  dateColumn: number;
+  dateFormat: 'YYYY-MM-DD' | 'DD/MM/YYYY' | 'MM/DD/YYYY';
+  descriptionColumn: number;
+  referenceColumn: number | null;
+  creditColumn: number;
+}
+
+// Cash a collector hands over at day end, counted by note and coin. Once
+// closed, no cash receipt can be added or reversed in the collector's name that day.
+export interface DayClosing {
+  id: number;
+  closingDate: string;       // YYYY-MM-DD
+  collectorId: number;       // user who collected (FeeRecord.collectedBy)
+  denominations: { value: number; count: number }[];
+  declaredCash: number;
+  expectedCash: number;      // cash receipts less cash refunds recorded that day
+  difference: number;        // declared - expected; negative is a shortage
+  receiptCount: number;
+  remarks?: string;
+  closedBy: number;
+  closedAt: string;
+}
+
+// One payment for several children of a family (see collectFamilyFees)
+export interface FamilyFeePayment extends Omit<FeePayment, 'studentId' | 'months'> {
+  familyId: number;
+  students: { studentId: number; months: FeePaymentMonth[] }[];
+}
+
+// Query filters (every field optional)
+export interface StudentFilter {
+  status?: Student['status'];
+  classId?: number;
+  search?: string;
+}
+
+export interface FeeRecordQuery {
+  studentId?: number;
+  feeYear?: number;
+  feeMonth?: number;
+  status?: FeeRecord['status'];
 }
 
 export interface GoogleApiConfig {
@@ -0,0 +1,39 @@
+// Payment Allocation for School Fee Manager Pro
+// Pure functions that spread money over dues, oldest first.
+
+/**
+ * Pay `dues` in order until `funds` run out; returns the amount applied to each
+ */
+export const allocateOldestFirst = (dues: number[], funds: number): number[] => {
+  let remaining = Math.max(0, funds);
+  return dues.map(due => {
+    const applied = Math.min(Math.max(0, due), remaining);
+    remaining -= applied;
+    return applied;
+  });
+};
+
+/**
+ * Ids of records cancelled by a reversal entry
+ */
+export const getReversedIds = (records: { reversalOf?: number }[]): Set<number> => {
+  return new Set(records.map(r => r.reversalOf).filter((id): id is number => id !== undefined));
+};
+
+/**
+ * Student ledger balance from their fee records:
+ * positive = arrears still owed, negative = advance credit held.
+ * Cancelled records and the receipts reversed by them are ignored.
+ */
+export const getLedgerBalance = (
+  records: {
+    id: number; totalFee: number; lateFee: number; concessionAmount: number; sponsoredAmount?: number;
+    waivedAmount?: number; amountPaid: number; status: string; reversalOf?: number;
+  }[]
+): number => {
+  const reversed = getReversedIds(records);
+  return records
+    .filter(r => r.status !== 'cancelled' && !reversed.has(r.id))
+    .reduce((balance, r) =>
+      balance + r.totalFee + r.lateFee - r.concessionAmount - (r.sponsoredAmount || 0) - (r.waivedAmount || 0) - r.amountPaid, 0);
+};
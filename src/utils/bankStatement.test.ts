@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import type { BankColumnMapping } from '../types';
+import { parseStatementAmount, readStatementCredits } from './bankStatement';
+
+describe('parseStatementAmount', () => {
+  it('reads plain amounts and thousands separators', () => {
+    expect(parseStatementAmount('1500')).toBe(1500);
+    expect(parseStatementAmount('1,500.50')).toBe(1500.5);
+    expect(parseStatementAmount('-250')).toBe(-250);
+  });
+
+  it('ignores currency labels around the number', () => {
+    expect(parseStatementAmount('Rs. 1,500')).toBe(1500);
+    expect(parseStatementAmount('Rs. 1,500.00')).toBe(1500);
+    expect(parseStatementAmount('Rs.1500')).toBe(1500);
+    expect(parseStatementAmount('PKR 2,000')).toBe(2000);
+    expect(parseStatementAmount('1,500.00 Rs.')).toBe(1500);
+    expect(parseStatementAmount('1,500 CR')).toBe(1500);
+  });
+
+  it('reads bracketed and DR amounts as debits', () => {
+    expect(parseStatementAmount('(500)')).toBe(-500);
+    expect(parseStatementAmount('Rs. 500 DR')).toBe(-500);
+  });
+
+  it('reads empty and non-numeric cells as zero', () => {
+    expect(parseStatementAmount('')).toBe(0);
+    expect(parseStatementAmount('Rs.')).toBe(0);
+    expect(parseStatementAmount('-')).toBe(0);
+  });
+});
+
+describe('readStatementCredits', () => {
+  const mapping: BankColumnMapping = {
+    hasHeader: true,
+    dateColumn: 0,
+    dateFormat: 'DD/MM/YYYY',
+    descriptionColumn: 1,
+    referenceColumn: null,
+    creditColumn: 2,
+  };
+
+  it('keeps credits written with the currency label', () => {
+    const credits = readStatementCredits([
+      ['Date', 'Description', 'Credit'],
+      ['05/01/2026', 'IBFT STU-0001', 'Rs. 1,500.00'],
+      ['06/01/2026', 'Charges', '(25)'],
+    ], mapping);
+    expect(credits.map(c => [c.transactionDate, c.amount])).toEqual([['2026-01-05', 1500]]);
+  });
+});
@@ -0,0 +1,138 @@
+// Bank Statement Import for School Fee Manager Pro
+// Pure functions: the store supplies students, open invoices and dues.
+import type { BankColumnMapping, BankStatementLine, FeeRecord, Student } from '../types';
+import type { StudentDues } from './dues';
+
+export type StatementCredit = Pick<BankStatementLine, 'lineKey' | 'transactionDate' | 'description' | 'reference' | 'amount'>;
+
+export interface StatementMatch {
+  studentId: number;
+  matchedBy: NonNullable<BankStatementLine['matchedBy']>;
+}
+
+/**
+ * Split CSV text into rows of cells. Handles quoted cells, doubled quotes
+ * and both line ending styles; blank lines are dropped.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell.trim());
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell.trim());
+      if (row.some(value => value !== '')) rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  row.push(cell.trim());
+  if (row.some(value => value !== '')) rows.push(row);
+  return rows;
+};
+
+/**
+ * Statement date as YYYY-MM-DD, or null when it does not read as a date
+ */
+export const parseStatementDate = (value: string, format: BankColumnMapping['dateFormat']): string | null => {
+  const parts = value.trim().split(/[-/.\s]/).map(Number);
+  if (parts.length < 3 || parts.some(part => !Number.isInteger(part))) return null;
+
+  const [year, month, day] = format === 'YYYY-MM-DD'
+    ? [parts[0], parts[1], parts[2]]
+    : format === 'DD/MM/YYYY'
+      ? [parts[2], parts[1], parts[0]]
+      : [parts[2], parts[0], parts[1]];
+  const date = new Date(year, month - 1, day);
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) return null;
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+};
+
+/**
+ * Amount in a statement cell; currency labels such as "Rs." around the
+ * number and thousands separators are ignored, and "(500)" or "500 DR"
+ * read as a debit
+ */
+export const parseStatementAmount = (value: string): number => {
+  const debit = /^\(.*\)$/.test(value.trim()) || /\bdr\b/i.test(value);
+  const number = value.match(/-?\d[\d,]*(?:\.\d+)?/);
+  const amount = number ? Number(number[0].replace(/,/g, '')) : NaN;
+  if (!Number.isFinite(amount)) return 0;
+  return debit ? -Math.abs(amount) : amount;
+};
+
+/**
+ * Credits on a statement, using the column mapping. Debits, zero amounts
+ * and rows without a readable date are skipped. Identical lines are told
+ * apart by how many came before them, so importing the same file twice
+ * gives the same keys.
+ */
+export const readStatementCredits = (rows: string[][], mapping: BankColumnMapping): StatementCredit[] => {
+  const seen = new Map<string, number>();
+  return (mapping.hasHeader ? rows.slice(1) : rows).flatMap(row => {
+    const transactionDate = parseStatementDate(row[mapping.dateColumn] || '', mapping.dateFormat);
+    const amount = parseStatementAmount(row[mapping.creditColumn] || '');
+    if (!transactionDate || !(amount > 0)) return [];
+
+    const description = row[mapping.descriptionColumn] || '';
+    const reference = mapping.referenceColumn !== null ? row[mapping.referenceColumn] || undefined : undefined;
+    const base = [transactionDate, amount, reference || '', description].join('|');
+    const occurrence = (seen.get(base) || 0) + 1;
+    seen.set(base, occurrence);
+    return [{ lineKey: `${base}#${occurrence}`, transactionDate, description, reference, amount }];
+  });
+};
+
+const normalise = (value: string): string => value.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+/**
+ * The student a bank credit is most likely from, or null. In order of
+ * trust: an open invoice (challan) number in the reference or description,
+ * then the student's ID or admission number, then the amount when exactly
+ * one student owes exactly that much.
+ */
+export const matchStatementCredit = (
+  credit: StatementCredit,
+  students: Student[],
+  invoices: FeeRecord[],
+  dues: StudentDues[]
+): StatementMatch | null => {
+  const text = normalise(`${credit.reference || ''} ${credit.description}`);
+
+  const invoice = invoices.find(r => r.invoiceNumber && text.includes(normalise(r.invoiceNumber)));
+  if (invoice) return { studentId: invoice.studentId, matchedBy: 'invoice' };
+
+  // STU1 also appears inside STU10; only the longest ID found counts
+  const found = students.flatMap(s => [s.studentId, s.admissionNumber]
+    .map(id => normalise(id || ''))
+    .filter(id => id.length >= 3 && text.includes(id))
+    .map(id => ({ student: s, id })));
+  const byId = found.filter(f => !found.some(other => other.id.length > f.id.length && other.id.includes(f.id)));
+  const matchedIds = new Set(byId.map(f => f.student.id));
+  if (matchedIds.size === 1) return { studentId: byId[0].student.id, matchedBy: 'reference' };
+
+  const byAmount = dues.filter(d => d.totalOutstanding === credit.amount);
+  if (byAmount.length === 1) return { studentId: byAmount[0].studentId, matchedBy: 'amount' };
+
+  return null;
+};
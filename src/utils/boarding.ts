@@ -0,0 +1,107 @@
+// Boarding for School Fee Manager Pro
+// Pure functions: the store supplies hostels, rooms, allocations and
+// academic years.
+import type { AcademicYear, BedAllocation, FeeLineItem, Hostel, HostelRoom } from '../types';
+
+export interface BedStatus {
+  room: HostelRoom;
+  bedNumber: number;
+  allocation?: BedAllocation;
+}
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+/**
+ * Last day an allocation is charged for: its check-out, else the end of
+ * its academic year; null when neither is known
+ */
+export const getAllocationEnd = (allocation: BedAllocation, academicYears: AcademicYear[]): string | null => {
+  return allocation.checkOut || academicYears.find(y => y.id === allocation.academicYearId)?.endDate || null;
+};
+
+/**
+ * Whether the boarder holds the bed on a date
+ */
+export const isAllocationActive = (allocation: BedAllocation, date: string, academicYears: AcademicYear[]): boolean => {
+  const end = getAllocationEnd(allocation, academicYears);
+  return allocation.checkIn <= date && (!end || date <= end);
+};
+
+/**
+ * Whether two allocations hold their beds on at least one common day
+ */
+export const allocationsOverlap = (
+  a: Pick<BedAllocation, 'checkIn'> & { end: string | null },
+  b: Pick<BedAllocation, 'checkIn'> & { end: string | null }
+): boolean => {
+  return (!a.end || b.checkIn <= a.end) && (!b.end || a.checkIn <= b.end);
+};
+
+/**
+ * Days of a month an allocation is charged for, and the days in the month
+ */
+export const getBoardingDays = (
+  allocation: BedAllocation,
+  month: number,
+  year: number,
+  academicYears: AcademicYear[]
+): { days: number; daysInMonth: number } => {
+  const daysInMonth = new Date(year, month, 0).getDate();
+  const first = `${year}-${pad(month)}-01`;
+  const last = `${year}-${pad(month)}-${pad(daysInMonth)}`;
+  const end = getAllocationEnd(allocation, academicYears);
+  const from = allocation.checkIn > first ? allocation.checkIn : first;
+  const to = end && end < last ? end : last;
+  if (from > to) return { days: 0, daysInMonth };
+  return { days: Number(to.slice(8, 10)) - Number(from.slice(8, 10)) + 1, daysInMonth };
+};
+
+/**
+ * Boarding and mess lines for a fee month. A boarder who checks in or out
+ * during the month pays for the days they held a bed; a room change within
+ * the month adds up the days in each hostel. Without a period, the full
+ * monthly amounts of beds not checked out. `amountOf` gives a hostel fee
+ * in force for the month (see utils/revisions).
+ */
+export const getBoardingLines = (
+  allocations: BedAllocation[],
+  rooms: HostelRoom[],
+  hostels: Hostel[],
+  academicYears: AcademicYear[],
+  period: { month: number; year: number } | undefined,
+  amountOf: (hostel: Hostel, field: 'boardingFee' | 'messFee') => number
+): FeeLineItem[] => {
+  let boarding = 0;
+  let mess = 0;
+  allocations.forEach(allocation => {
+    const hostel = hostels.find(h => h.id === rooms.find(r => r.id === allocation.roomId)?.hostelId);
+    const { days, daysInMonth } = period
+      ? getBoardingDays(allocation, period.month, period.year, academicYears)
+      : { days: allocation.checkOut ? 0 : 1, daysInMonth: 1 };
+    if (!hostel || days === 0) return;
+    boarding += Math.round(amountOf(hostel, 'boardingFee') * days / daysInMonth);
+    if (allocation.messOpted) mess += Math.round(amountOf(hostel, 'messFee') * days / daysInMonth);
+  });
+
+  const lines: FeeLineItem[] = [];
+  if (boarding > 0) lines.push({ feeHeadId: null, headName: 'Boarding Fee', frequency: 'monthly', amount: boarding });
+  if (mess > 0) lines.push({ feeHeadId: null, headName: 'Mess Fee', frequency: 'monthly', amount: mess });
+  return lines;
+};
+
+/**
+ * Every bed of the rooms with the allocation holding it on a date
+ */
+export const getBedStatuses = (
+  rooms: HostelRoom[],
+  allocations: BedAllocation[],
+  date: string,
+  academicYears: AcademicYear[]
+): BedStatus[] => {
+  const active = allocations.filter(a => isAllocationActive(a, date, academicYears));
+  return rooms.flatMap(room => Array.from({ length: room.beds }, (_, index) => ({
+    room,
+    bedNumber: index + 1,
+    allocation: active.find(a => a.roomId === room.id && a.bedNumber === index + 1),
+  })));
+};
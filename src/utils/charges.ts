@@ -0,0 +1,75 @@
+// Additional Charges for School Fee Manager Pro
+// Pure functions: the store supplies the saved charges and fee records.
+import type { AdditionalCharge, FeeLineItem, FeeRecord } from '../types';
+import type { StudentDues } from './dues';
+
+export interface ChargeStatus {
+  billedIn: { feeMonth: number; feeYear: number } | null;   // null once a record carries it
+  paid: number;
+  outstanding: number;
+  status: 'paid' | 'due' | 'upcoming';
+}
+
+/**
+ * Month a charge is billed in: its own month, or the first month after it
+ * the student has not been billed for yet. Null once a record carries it.
+ * `records` are the student's live fee records.
+ */
+export const getChargeMonth = (
+  charge: AdditionalCharge,
+  records: FeeRecord[]
+): { feeMonth: number; feeYear: number } | null => {
+  const own = records.filter(r => r.studentId === charge.studentId);
+  if (own.some(r => (r.items || []).some(item => item.chargeId === charge.id))) {
+    return null;
+  }
+
+  let index = charge.feeYear * 12 + charge.feeMonth - 1;
+  const isBilled = (i: number) =>
+    own.some(r => r.feeYear === Math.floor(i / 12) && r.feeMonth === (i % 12) + 1);
+  while (isBilled(index)) index++;
+  return { feeMonth: (index % 12) + 1, feeYear: Math.floor(index / 12) };
+};
+
+/**
+ * The student's charges billed in a month, as bill lines
+ */
+export const getChargeLines = (
+  charges: AdditionalCharge[],
+  records: FeeRecord[],
+  studentId: number,
+  month: number,
+  year: number
+): FeeLineItem[] => {
+  return charges
+    .filter(charge => charge.studentId === studentId)
+    .filter(charge => {
+      const billedIn = getChargeMonth(charge, records);
+      return billedIn?.feeMonth === month && billedIn.feeYear === year;
+    })
+    .map(charge => ({
+      feeHeadId: charge.feeHeadId,
+      headName: charge.headName,
+      frequency: 'one-time' as const,
+      amount: charge.amount,
+      dueDate: charge.dueDate,
+      chargeId: charge.id,
+    }));
+};
+
+/**
+ * Where a charge stands on `asOf` (YYYY-MM-DD). Payments come from the
+ * student's dues, the same way installments are tracked.
+ */
+export const getChargeStatus = (
+  charge: AdditionalCharge,
+  records: FeeRecord[],
+  dues: StudentDues,
+  asOf: string
+): ChargeStatus => {
+  const head = dues.months.flatMap(m => m.heads).find(h => h.chargeId === charge.id);
+  const paid = head ? head.paid : 0;
+  const outstanding = charge.amount - paid;
+  const status = outstanding <= 0 ? 'paid' : charge.dueDate <= asOf ? 'due' : 'upcoming';
+  return { billedIn: getChargeMonth(charge, records), paid, outstanding, status };
+};
@@ -0,0 +1,80 @@
+// Concession Rules Engine for School Fee Manager Pro
+// Pure functions: the store supplies the saved rules.
+import type { ConcessionRule, FeeLineItem, Student } from '../types';
+
+/**
+ * Whether a rule is switched on and in force on `date` (YYYY-MM-DD)
+ */
+export const isRuleEffective = (rule: ConcessionRule, date: string): boolean => {
+  return rule.isActive &&
+    rule.effectiveFrom <= date &&
+    (!rule.effectiveTo || date <= rule.effectiveTo);
+};
+
+/**
+ * Rules that apply to a student on a date. Rules set for the student
+ * replace the rules of their fee category.
+ */
+export const getApplicableRules = (
+  student: Student,
+  rules: ConcessionRule[],
+  date: string
+): ConcessionRule[] => {
+  const effective = rules.filter(rule => isRuleEffective(rule, date));
+  const studentRules = effective.filter(rule => rule.studentId === student.id);
+  if (studentRules.length > 0) return studentRules;
+  return effective.filter(rule => rule.studentId === undefined && rule.feeCategory === student.feeCategory);
+};
+
+/**
+ * Set `concession` on each charge line.
+ *
+ * A line uses the rules for its own head if there are any, otherwise the
+ * all-heads rules, and gets the largest discount among them. A fixed
+ * all-heads rule is an amount per bill, spread over the lines in order.
+ * Installment lines split a charge that was already discounted, and
+ * additional charges are never discounted; both are left as they are.
+ */
+export const applyConcessions = (
+  student: Student,
+  items: FeeLineItem[],
+  rules: ConcessionRule[],
+  date: string
+): FeeLineItem[] => {
+  const applicable = getApplicableRules(student, rules, date);
+  const fixedRemaining = new Map<number, number>();
+
+  return items.map(item => {
+    if (item.installmentPlanId !== undefined || item.chargeId !== undefined) return { ...item };
+
+    const headRules = applicable.filter(rule => rule.feeHeadId !== null && rule.feeHeadId === item.feeHeadId);
+    const candidates = headRules.length > 0 ? headRules : applicable.filter(rule => rule.feeHeadId === null);
+
+    let best = 0;
+    let bestRule: ConcessionRule | undefined;
+    candidates.forEach(rule => {
+      let discount: number;
+      if (rule.type === 'percentage') {
+        discount = Math.round(item.amount * Math.min(rule.value, 100) / 100);
+      } else if (rule.feeHeadId === null) {
+        discount = Math.min(fixedRemaining.get(rule.id) ?? rule.value, item.amount);
+      } else {
+        discount = Math.min(rule.value, item.amount);
+      }
+      if (discount > best) {
+        best = discount;
+        bestRule = rule;
+      }
+    });
+
+    if (bestRule && bestRule.type === 'fixed' && bestRule.feeHeadId === null) {
+      fixedRemaining.set(bestRule.id, (fixedRemaining.get(bestRule.id) ?? bestRule.value) - best);
+    }
+
+    return { ...item, concession: best > 0 ? best : undefined };
+  });
+};
+
+export const sumConcessions = (items: FeeLineItem[]): number => {
+  return items.reduce((sum, item) => sum + (item.concession || 0), 0);
+};
@@ -0,0 +1,189 @@
+import { describe, expect, it } from 'vitest';
+import type { AcademicYear, FeeRecord, Student } from '../types';
+import { calculateStudentDues, getBillableMonths, type DuesContext } from './dues';
+
+// Tuition of Rs. 2000 a month from the student record; no fee structure
+const student = (overrides: Partial<Student> = {}): Student => ({
+  id: 1,
+  studentId: 'STU-0001',
+  admissionNumber: 'ADM-0001',
+  firstName: 'Asha',
+  fatherName: 'Ravi',
+  gender: 'Female',
+  academicYearId: 1,
+  classId: 1,
+  admissionDate: '2025-10-01',
+  monthlyFee: 2000,
+  feeCategory: 'regular',
+  transportOpted: false,
+  transportFee: 0,
+  status: 'active',
+  createdAt: '2025-10-01T09:00:00.000Z',
+  updatedAt: '2025-10-01T09:00:00.000Z',
+  ...overrides,
+});
+
+let nextId = 1;
+
+const record = (overrides: Partial<FeeRecord>): FeeRecord => ({
+  id: nextId++,
+  receiptNumber: `FEE-2026-${nextId}`,
+  studentId: 1,
+  academicYearId: 1,
+  feeMonth: 1,
+  feeYear: 2026,
+  totalFee: 2000,
+  concessionAmount: 0,
+  lateFee: 0,
+  previousDue: 0,
+  netPayable: 2000,
+  amountPaid: 2000,
+  balanceDue: 0,
+  paymentDate: '2026-01-10',
+  paymentMode: 'cash',
+  status: 'paid',
+  collectedBy: 1,
+  createdAt: '2026-01-10T09:00:00.000Z',
+  ...overrides,
+});
+
+const context: DuesContext = { feeHeads: [], feeStructures: [], concessionRules: [] };
+
+const months = (list: { feeMonth: number; feeYear: number }[]) => list.map(m => `${m.feeYear}-${m.feeMonth}`);
+
+describe('getBillableMonths', () => {
+  it('bills the admission month for a mid-month admission', () => {
+    const admitted = student({ admissionDate: '2025-11-15' });
+    expect(months(getBillableMonths(admitted, '2026-01-20'))).toEqual(['2025-11', '2025-12', '2026-1']);
+  });
+
+  it('runs from December into January', () => {
+    const admitted = student({ admissionDate: '2025-12-01' });
+    expect(months(getBillableMonths(admitted, '2026-01-05'))).toEqual(['2025-12', '2026-1']);
+  });
+
+  it('never bills before billingStart', () => {
+    expect(months(getBillableMonths(student(), '2026-01-20', '2025-12-01'))).toEqual(['2025-12', '2026-1']);
+  });
+
+  it('stops at the leaving month for a student who left mid-session', () => {
+    const left = student({ status: 'left', leavingDate: '2025-12-18', updatedAt: '2026-01-02T09:00:00.000Z' });
+    expect(months(getBillableMonths(left, '2026-03-01'))).toEqual(['2025-10', '2025-11', '2025-12']);
+  });
+
+  it('falls back to the last update for inactive students without a leaving date', () => {
+    const left = student({ status: 'transferred', updatedAt: '2025-11-30T09:00:00.000Z' });
+    expect(months(getBillableMonths(left, '2026-03-01'))).toEqual(['2025-10', '2025-11']);
+  });
+});
+
+describe('calculateStudentDues', () => {
+  it('charges the full admission month for a mid-month admission', () => {
+    const dues = calculateStudentDues(student({ admissionDate: '2026-01-15' }), [], context, '2026-01-20');
+    expect(dues.months).toHaveLength(1);
+    expect(dues.months[0]).toMatchObject({ feeMonth: 1, feeYear: 2026, billed: false, charged: 2000, outstanding: 2000 });
+    expect(dues.totalOutstanding).toBe(2000);
+  });
+
+  it('leaves the unpaid part of a partial payment outstanding on its month', () => {
+    const admitted = student({ admissionDate: '2026-01-01' });
+    const records = [record({ amountPaid: 1200, balanceDue: 800, status: 'partial' })];
+    const dues = calculateStudentDues(admitted, records, context, '2026-01-20');
+    expect(dues.months[0]).toMatchObject({ billed: true, charged: 2000, paid: 1200, outstanding: 800 });
+    expect(dues.totalOutstanding).toBe(800);
+    expect(dues.credit).toBe(0);
+    expect(dues.lastPaymentDate).toBe('2026-01-10');
+  });
+
+  it('applies December arrears paid in January to December first', () => {
+    const admitted = student({ admissionDate: '2025-12-01' });
+    const records = [
+      record({
+        feeMonth: 12, feeYear: 2025, amountPaid: 500, balanceDue: 1500, status: 'partial',
+        paymentDate: '2025-12-10', createdAt: '2025-12-10T09:00:00.000Z',
+      }),
+      record({ previousDue: 1500, netPayable: 3500, amountPaid: 3000, balanceDue: 500, status: 'partial' }),
+    ];
+    const dues = calculateStudentDues(admitted, records, context, '2026-01-20');
+    expect(dues.months.map(m => [m.feeMonth, m.paid, m.outstanding])).toEqual([[12, 2000, 0], [1, 1500, 500]]);
+    expect(dues.dueMonths.map(m => m.feeMonth)).toEqual([1]);
+    expect(dues.totalOutstanding).toBe(500);
+  });
+
+  it('carries unbilled December into the January total', () => {
+    const admitted = student({ admissionDate: '2025-12-01' });
+    const dues = calculateStudentDues(admitted, [], context, '2026-01-05');
+    expect(dues.dueMonths.map(m => `${m.feeYear}-${m.feeMonth}`)).toEqual(['2025-12', '2026-1']);
+    expect(dues.totalOutstanding).toBe(4000);
+  });
+
+  it('prices unbilled months of an earlier session at that session\'s rates', () => {
+    const years: AcademicYear[] = [
+      { id: 1, yearName: '2025-26', startDate: '2025-04-01', endDate: '2026-03-31', isCurrent: false, isActive: true },
+      { id: 2, yearName: '2026-27', startDate: '2026-04-01', endDate: '2027-03-31', isCurrent: true, isActive: true },
+    ];
+    const structured: DuesContext = {
+      ...context,
+      feeHeads: [{
+        id: 1, headName: 'Tuition Fee', headCode: 'TUI', isRecurring: true, frequency: 'monthly',
+        isMandatory: true, displayOrder: 1, isActive: true,
+      }],
+      feeStructures: [
+        { id: 1, academicYearId: 1, classId: 1, feeHeadId: 1, amount: 1800, dueDay: 10, lateFeePerDay: 0, maxLateFee: 0, isActive: true },
+        { id: 2, academicYearId: 2, classId: 1, feeHeadId: 1, amount: 2100, dueDay: 10, lateFeePerDay: 0, maxLateFee: 0, isActive: true },
+      ],
+      academicYear: years[1],
+      academicYears: years,
+    };
+    const dues = calculateStudentDues(student({ admissionDate: '2026-02-01' }), [], structured, '2026-04-15');
+    expect(dues.months.map(m => [m.feeMonth, m.charged])).toEqual([[2, 1800], [3, 1800], [4, 2100]]);
+    expect(dues.totalOutstanding).toBe(5700);
+  });
+
+  it('charges a one-time head in the admission month west of UTC', () => {
+    const zone = process.env.TZ;
+    process.env.TZ = 'America/New_York';
+    try {
+      const structured: DuesContext = {
+        ...context,
+        feeHeads: [{
+          id: 1, headName: 'Admission Fee', headCode: 'ADM', isRecurring: false, frequency: 'one-time',
+          isMandatory: true, displayOrder: 1, isActive: true,
+        }],
+        feeStructures: [
+          { id: 1, academicYearId: 1, classId: 1, feeHeadId: 1, amount: 5000, dueDay: 10, lateFeePerDay: 0, maxLateFee: 0, isActive: true },
+        ],
+        academicYear: { id: 1, yearName: '2025-26', startDate: '2025-04-01', endDate: '2026-03-31', isCurrent: true, isActive: true },
+      };
+      const dues = calculateStudentDues(student({ admissionDate: '2026-01-01' }), [], structured, '2026-01-20');
+      expect(dues.months[0].heads.map(h => [h.headName, h.charged])).toEqual([['Admission Fee', 5000]]);
+    } finally {
+      if (zone === undefined) delete process.env.TZ;
+      else process.env.TZ = zone;
+    }
+  });
+
+  it('stops charging after a mid-session leaving date', () => {
+    const left = student({ status: 'left', leavingDate: '2025-12-18' });
+    const records = [record({ feeMonth: 10, feeYear: 2025, paymentDate: '2025-10-05' })];
+    const dues = calculateStudentDues(left, records, context, '2026-03-01');
+    expect(dues.months.map(m => m.feeMonth)).toEqual([10, 11, 12]);
+    expect(dues.totalOutstanding).toBe(4000);
+  });
+
+  it('holds an overpayment as credit', () => {
+    const admitted = student({ admissionDate: '2026-01-01' });
+    const records = [record({ amountPaid: 2500, advanceCredit: 500 })];
+    const dues = calculateStudentDues(admitted, records, context, '2026-01-20');
+    expect(dues.totalOutstanding).toBe(0);
+    expect(dues.credit).toBe(500);
+  });
+
+  it('ignores cancelled records and receipts reversed by them', () => {
+    const admitted = student({ admissionDate: '2026-01-01' });
+    const paid = record({});
+    const reversal = record({ amountPaid: -2000, totalFee: -2000, status: 'cancelled', reversalOf: paid.id });
+    const dues = calculateStudentDues(admitted, [paid, reversal], context, '2026-01-20');
+    expect(dues.months[0]).toMatchObject({ billed: false, paid: 0, outstanding: 2000 });
+  });
+});
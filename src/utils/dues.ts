@@ -0,0 +1,226 @@
+// Outstanding Dues Calculator for School Fee Manager Pro
+// Pure functions: the store supplies the student's fee records, fee structure,
+// concession rules, scholarship awards and fee waivers. Every screen that shows dues goes through here.
+import type {
+  ConcessionRule, FeeLineItem, FeeRecord, FeeWaiver, ScholarshipAward, ScholarshipProgram, Student
+} from '../types';
+import { getMonthCharges, type FeeContext } from './feeCalculator';
+import { applyConcessions } from './concessions';
+import { applySponsorship } from './scholarships';
+import { applyWaivers } from './waivers';
+import { allocateOldestFirst, getReversedIds } from './allocation';
+import { getChargeMonth } from './charges';
+
+export interface DuesContext extends FeeContext {
+  concessionRules: ConcessionRule[];
+  scholarshipAwards?: ScholarshipAward[];
+  scholarshipPrograms?: ScholarshipProgram[];
+  feeWaivers?: FeeWaiver[];
+  // Dues are not counted before this date (YYYY-MM-DD), typically the start
+  // of the first academic year kept in the system
+  billingStart?: string;
+}
+
+export interface HeadDue {
+  feeHeadId: number | null;
+  headName: string;
+  installmentPlanId?: number;
+  installmentNo?: number;
+  chargeId?: number;
+  dueDate?: string;
+  awardId?: number;
+  charged: number;      // after concession, sponsorship and waivers
+  concession: number;
+  sponsored: number;    // billed to a scholarship sponsor
+  waived: number;       // forgiven under approved waivers
+  paid: number;
+  outstanding: number;
+}
+
+export interface MonthDue {
+  feeMonth: number;
+  feeYear: number;
+  billed: boolean;      // a receipt or invoice exists for the month
+  charged: number;
+  concession: number;
+  sponsored: number;
+  waived: number;
+  paid: number;
+  outstanding: number;
+  heads: HeadDue[];
+}
+
+export interface StudentDues {
+  studentId: number;
+  months: MonthDue[];
+  dueMonths: MonthDue[];
+  totalOutstanding: number;
+  overdueInstallments: HeadDue[];
+  credit: number;
+  lastPaymentDate: string | null;
+}
+
+const monthIndex = (feeMonth: number, feeYear: number): number => feeYear * 12 + feeMonth - 1;
+
+const fromIndex = (index: number) => ({ feeMonth: (index % 12) + 1, feeYear: Math.floor(index / 12) });
+
+const parseMonth = (date: string) => ({ feeMonth: Number(date.slice(5, 7)), feeYear: Number(date.slice(0, 4)) });
+
+/**
+ * Months a student is billed for up to `asOf` (YYYY-MM-DD).
+ *
+ * Billing starts in the admission month, even for a mid-month admission,
+ * and never before `billingStart`. A student who is no longer active is
+ * billed up to and including the month they left (`leavingDate`, or the
+ * last update to their record for older data).
+ */
+export const getBillableMonths = (
+  student: Student,
+  asOf: string,
+  billingStart?: string
+): { feeMonth: number; feeYear: number }[] => {
+  const admitted = parseMonth(student.admissionDate);
+  let first = monthIndex(admitted.feeMonth, admitted.feeYear);
+  if (billingStart) {
+    const floor = parseMonth(billingStart);
+    first = Math.max(first, monthIndex(floor.feeMonth, floor.feeYear));
+  }
+
+  const current = parseMonth(asOf);
+  let last = monthIndex(current.feeMonth, current.feeYear);
+  if (student.status !== 'active') {
+    const left = parseMonth(student.leavingDate || student.updatedAt);
+    last = Math.min(last, monthIndex(left.feeMonth, left.feeYear));
+  }
+
+  const months: { feeMonth: number; feeYear: number }[] = [];
+  for (let index = first; index <= last; index++) {
+    months.push(fromIndex(index));
+  }
+  return months;
+};
+
+// Charge lines of a receipt or invoice; older records have no items
+const getRecordLines = (record: FeeRecord): FeeLineItem[] => {
+  const lines: FeeLineItem[] = record.items
+    ? record.items.map(item => ({ ...item }))
+    : [{
+        feeHeadId: null,
+        headName: 'Tuition Fee',
+        frequency: 'monthly',
+        amount: record.totalFee,
+        concession: record.concessionAmount || undefined,
+      }];
+  if (record.lateFee > 0) {
+    lines.push({ feeHeadId: null, headName: 'Late Fee', frequency: 'one-time', amount: record.lateFee });
+  }
+  return lines;
+};
+
+/**
+ * Outstanding dues of one student on `asOf` (YYYY-MM-DD), by month and head.
+ *
+ * Billed months are charged what their receipt or invoice says; months in
+ * the billable range with no record are charged from the fee structure with
+ * concessions in force on `asOf`, less what a scholarship sponsor pays.
+ * Approved waivers then come off either kind of month. Everything the student has paid is then
+ * applied oldest month first (heads in order, late fee last), the same way
+ * a collection allocates money, so partial payments and arrears carried onto
+ * later receipts land on the months they actually settled. Money left over
+ * is advance credit.
+ *
+ * Cancelled records and receipts reversed by them are ignored.
+ */
+export const calculateStudentDues = (
+  student: Student,
+  records: FeeRecord[],
+  context: DuesContext,
+  asOf: string
+): StudentDues => {
+  const own = records.filter(r => r.studentId === student.id);
+  const reversed = getReversedIds(own);
+  const live = own.filter(r => r.status !== 'cancelled' && !reversed.has(r.id));
+
+  const billable = new Set(getBillableMonths(student, asOf, context.billingStart)
+    .map(m => monthIndex(m.feeMonth, m.feeYear)));
+  const indexes = new Set(billable);
+  live.forEach(r => indexes.add(monthIndex(r.feeMonth, r.feeYear)));
+  // Additional charges already due count even when they will be billed
+  // with a later month; only the charge is due in such a month
+  (context.additionalCharges || [])
+    .filter(charge => charge.studentId === student.id && charge.dueDate <= asOf)
+    .forEach(charge => {
+      const billedIn = getChargeMonth(charge, live);
+      if (billedIn) indexes.add(monthIndex(billedIn.feeMonth, billedIn.feeYear));
+    });
+
+  const months = Array.from(indexes).sort((a, b) => a - b).map(index => {
+    const { feeMonth, feeYear } = fromIndex(index);
+    const monthRecords = live.filter(r => r.feeMonth === feeMonth && r.feeYear === feeYear);
+    if (monthRecords.length > 0) {
+      const lines = applyWaivers(student.id, monthRecords.flatMap(getRecordLines), context.feeWaivers || [], feeMonth, feeYear);
+      return { feeMonth, feeYear, billed: true, lines };
+    }
+    const charges = getMonthCharges(student, feeMonth, feeYear, context, live)
+      .filter(line => billable.has(index) || (line.chargeId !== undefined && (line.dueDate || '') <= asOf));
+    const sponsored = applySponsorship(student.id, applyConcessions(student, charges, context.concessionRules, asOf),
+      context.scholarshipAwards || [], context.scholarshipPrograms || [], feeMonth, feeYear);
+    const lines = applyWaivers(student.id, sponsored, context.feeWaivers || [], feeMonth, feeYear);
+    return { feeMonth, feeYear, billed: false, lines };
+  });
+
+  const allLines = months.flatMap(m => m.lines);
+  const payments = live.reduce((sum, r) => sum + r.amountPaid, 0);
+  const applied = allocateOldestFirst(
+    allLines.map(line => line.amount - (line.concession || 0) - (line.sponsored || 0) - (line.waived || 0)), payments
+  );
+  const credit = payments - applied.reduce((sum, amount) => sum + amount, 0);
+
+  let position = 0;
+  const monthDues: MonthDue[] = months.map(({ feeMonth, feeYear, billed, lines }) => {
+    const heads = lines.map(line => {
+      const charged = line.amount - (line.concession || 0) - (line.sponsored || 0) - (line.waived || 0);
+      const paid = applied[position++];
+      return {
+        feeHeadId: line.feeHeadId,
+        headName: line.headName,
+        installmentPlanId: line.installmentPlanId,
+        installmentNo: line.installmentNo,
+        chargeId: line.chargeId,
+        dueDate: line.dueDate,
+        awardId: line.awardId,
+        charged,
+        concession: line.concession || 0,
+        sponsored: line.sponsored || 0,
+        waived: line.waived || 0,
+        paid,
+        outstanding: charged - paid,
+      };
+    });
+    return {
+      feeMonth,
+      feeYear,
+      billed,
+      charged: heads.reduce((sum, h) => sum + h.charged, 0),
+      concession: heads.reduce((sum, h) => sum + h.concession, 0),
+      sponsored: heads.reduce((sum, h) => sum + h.sponsored, 0),
+      waived: heads.reduce((sum, h) => sum + h.waived, 0),
+      paid: heads.reduce((sum, h) => sum + h.paid, 0),
+      outstanding: heads.reduce((sum, h) => sum + h.outstanding, 0),
+      heads,
+    };
+  });
+
+  const paymentDates = live.filter(r => r.amountPaid > 0 && r.paymentDate).map(r => r.paymentDate).sort();
+
+  return {
+    studentId: student.id,
+    months: monthDues,
+    dueMonths: monthDues.filter(m => m.outstanding > 0),
+    totalOutstanding: monthDues.reduce((sum, m) => sum + m.outstanding, 0),
+    overdueInstallments: monthDues.flatMap(m => m.heads)
+      .filter(h => h.installmentPlanId !== undefined && h.dueDate !== undefined && h.dueDate < asOf && h.outstanding > 0),
+    credit,
+    lastPaymentDate: paymentDates.length > 0 ? paymentDates[paymentDates.length - 1] : null,
+  };
+};
@@ -14,35 +14,7 @@
  * Version: 3.0 Desktop Edition
  */
 
-declare global {
-  interface Window {
-    electronAPI?: {
-      db: {
-        get: <T>(key: string, defaultValue: T) => Promise<T>;
-        set: <T>(key: string, value: T) => Promise<void>;
-        remove: (key: string) => Promise<void>;
-        query: (sql: string, params?: any[]) => Promise<any[]>;
-        getStorageInfo: () => Promise<any>;
-        backup: (directory?: string) => Promise<any>;
-        export: () => Promise<string>;
-        import: (jsonData: string) => Promise<any>;
-      };
-      app: {
-        getInfo: () => Promise<any>;
-      };
-      dialog: {
-        showSaveDialog: (options: any) => Promise<any>;
-        showOpenDialog: (options: any) => Promise<any>;
-      };
-      shell: {
-        showItemInFolder: (filepath: string) => Promise<void>;
-        openExternal: (url: string) => Promise<void>;
-      };
-      platform: string;
-      isElectron: boolean;
-    };
-  }
-}
+import type { FileDialogOptions } from '@/types/electron';
 
 /**
  * Check if running in Electron
@@ -103,7 +75,7 @@ class UnifiedStorage {
         ...info,
         type: 'Desktop SQLite',
         unlimited: true,
-        isElectron: true
+        isElectron: true as const
       };
     } else {
       const { desktopStorage } = await import('./desktopStorage');
@@ -112,7 +84,7 @@ class UnifiedStorage {
         ...info,
         type: 'IndexedDB',
         unlimited: false,
-        isElectron: false
+        isElectron: false as const
       };
     }
   }
@@ -169,17 +141,6 @@ class UnifiedStorage {
       return desktopStorage.importAllData(jsonData);
     }
   }
-
-  /**
-   * Execute SQL query (Electron only)
-   */
-  async query(sql: string, params?: any[]): Promise<any[]> {
-    if (isElectron()) {
-      return window.electronAPI!.db.query(sql, params);
-    } else {
-      throw new Error('SQL queries are only available in desktop version');
-    }
-  }
 }
 
 // Create singleton instance
@@ -193,8 +154,7 @@ export const storageAdapter = {
   getStorageInfo: () => storage.getStorageInfo(),
   createBackup: (dir?: string) => storage.createBackup(dir),
   exportAllData: () => storage.exportAllData(),
-  importAllData: (data: string) => storage.importAllData(data),
-  query: (sql: string, params?: any[]) => storage.query(sql, params)
+  importAllData: (data: string) => storage.importAllData(data)
 };
 
 /**
@@ -216,7 +176,7 @@ export const getAppInfo = async () => {
 /**
  * Show save file dialog
  */
-export const showSaveDialog = async (options: any) => {
+export const showSaveDialog = async (options: FileDialogOptions) => {
   if (isElectron()) {
     return window.electronAPI!.dialog.showSaveDialog(options);
   } else {
@@ -228,7 +188,7 @@ export const showSaveDialog = async (options: any) => {
 /**
  * Show open file dialog
  */
-export const showOpenDialog = async (options: any) => {
+export const showOpenDialog = async (options: FileDialogOptions) => {
   if (isElectron()) {
     return window.electronAPI!.dialog.showOpenDialog(options);
   } else {
@@ -236,7 +196,7 @@ export const showOpenDialog = async (options: any) => {
     return new Promise((resolve) => {
       const input = document.createElement('input');
       input.type = 'file';
-      input.accept = options.filters?.map((f: any) => `.${f.extensions.join(',.')}`).join(',');
+      input.accept = options.filters?.map(f => `.${f.extensions.join(',.')}`).join(',') ?? '';
       input.onchange = (e: any) => {
         const files = e.target?.files;
         if (files && files.length > 0) {
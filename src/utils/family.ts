@@ -0,0 +1,54 @@
+// Sibling Matching for School Fee Manager Pro
+// Pure functions used to suggest family links while registering a student.
+import type { Student } from '../types';
+
+export interface SiblingMatch {
+  student: Student;
+  reasons: string[];
+}
+
+/**
+ * Compare phone numbers on their last 10 digits, so +92 300 1234567
+ * and 0300-1234567 are the same number
+ */
+export const normalizePhone = (phone?: string): string => {
+  return (phone || '').replace(/\D/g, '').slice(-10);
+};
+
+const normalizeName = (name?: string): string => {
+  return (name || '').trim().toLowerCase().replace(/\s+/g, ' ');
+};
+
+/**
+ * Existing students who look like siblings of `candidate`.
+ * A shared parent phone is enough on its own; a shared father's name only
+ * counts together with the same mother's name or address, since common
+ * names repeat across unrelated families.
+ */
+export const findSiblingMatches = (candidate: Partial<Student>, students: Student[]): SiblingMatch[] => {
+  const phones = [candidate.fatherPhone, candidate.motherPhone, candidate.guardianPhone]
+    .map(normalizePhone)
+    .filter(phone => phone.length >= 7);
+  const fatherName = normalizeName(candidate.fatherName);
+  const motherName = normalizeName(candidate.motherName);
+  const address = normalizeName(candidate.address);
+
+  return students
+    .filter(s => s.id !== candidate.id && s.status === 'active')
+    .map(student => {
+      const reasons: string[] = [];
+      const studentPhones = [student.fatherPhone, student.motherPhone, student.guardianPhone].map(normalizePhone);
+      if (phones.some(phone => studentPhones.includes(phone))) {
+        reasons.push('Same parent phone');
+      }
+      if (fatherName && normalizeName(student.fatherName) === fatherName) {
+        if (motherName && normalizeName(student.motherName) === motherName) {
+          reasons.push("Same parents' names");
+        } else if (address && normalizeName(student.address) === address) {
+          reasons.push("Same father's name and address");
+        }
+      }
+      return { student, reasons };
+    })
+    .filter(match => match.reasons.length > 0);
+};
@@ -0,0 +1,291 @@
+// Fee Structure Resolver for School Fee Manager Pro
+// Pure functions: callers pass in the fee heads / structures they loaded from the store.
+import type {
+  AcademicYear, AdditionalCharge, BedAllocation, FeeHead, FeeLineItem, FeeRecord, FeeRevision, FeeStructure, Hostel,
+  HostelRoom, InstallmentPlan, Student, TransportAssignment, TransportStop
+} from '../types';
+import { getInstallmentLines, isSplitCharge } from './installments';
+import { getChargeLines } from './charges';
+import { getAmountInForce, type RevisionTarget } from './revisions';
+import { getAssignmentInForce } from './transport';
+import { getBoardingLines } from './boarding';
+
+export interface FeeContext {
+  feeHeads: FeeHead[];
+  feeStructures: FeeStructure[];
+  academicYear?: AcademicYear;
+  installmentPlans?: InstallmentPlan[];
+  additionalCharges?: AdditionalCharge[];
+  feeRevisions?: FeeRevision[];
+  transportStops?: TransportStop[];
+  transportAssignments?: TransportAssignment[];
+  hostels?: Hostel[];
+  hostelRooms?: HostelRoom[];
+  bedAllocations?: BedAllocation[];
+  academicYears?: AcademicYear[];  // every year, to price earlier sessions' months and for boarders without a check-out date
+}
+
+// Sessions without a start date are assumed to begin in April
+const DEFAULT_SESSION_START_MONTH = 4;
+
+/**
+ * Month (1-12) the academic session starts in
+ */
+export const getSessionStartMonth = (academicYear?: AcademicYear): number => {
+  const month = academicYear ? Number(academicYear.startDate?.slice(5, 7)) : NaN;
+  return month >= 1 && month <= 12 ? month : DEFAULT_SESSION_START_MONTH;
+};
+
+/**
+ * Academic year a fee month belongs to: the year whose dates cover the
+ * month, the latest one when two sessions share it. Months outside every
+ * year (or callers that pass no years) use the current session.
+ */
+export const getFeeMonthYear = (context: FeeContext, month: number, year: number): AcademicYear | undefined => {
+  const key = `${year}-${String(month).padStart(2, '0')}`;
+  const covering = (context.academicYears || [])
+    .filter(y => y.startDate && y.endDate && y.startDate.slice(0, 7) <= key && key <= y.endDate.slice(0, 7))
+    .sort((a, b) => b.startDate.localeCompare(a.startDate));
+  return covering[0] || context.academicYear;
+};
+
+/**
+ * Structure rows configured for a class in an academic year
+ */
+export const getClassStructures = (
+  classId: number,
+  academicYearId: number | undefined,
+  feeStructures: FeeStructure[]
+): FeeStructure[] => {
+  return feeStructures.filter(s =>
+    s.classId === classId &&
+    s.academicYearId === academicYearId &&
+    s.isActive
+  );
+};
+
+/**
+ * Resolve every charge that applies to a student, whatever its frequency.
+ *
+ * Amounts come from the class's fee structure for the academic year:
+ * the current one, or given a fee `period` the year that month falls in,
+ * so arrears from an earlier session keep that session's rates.
+ * Classes with no structure yet fall back to the student's own monthlyFee,
+ * so schools that never configured the matrix keep billing as before.
+ * Transport is added on top in both cases: the fee of the student's stop
+ * once they are assigned to one (see utils/transport), their own
+ * transport fee before that. Boarders add boarding and mess for the
+ * days they held a bed (see utils/boarding).
+ *
+ * Given a fee `period`, amounts are the ones in force that month (see
+ * utils/revisions); otherwise the amounts saved now are used. A cell
+ * cleared since keeps pricing the months before it was cleared.
+ */
+export const resolveStudentFees = (
+  student: Student,
+  context: FeeContext,
+  period?: { month: number; year: number }
+): FeeLineItem[] => {
+  const revisions = period ? context.feeRevisions || [] : [];
+  const academicYear = period ? getFeeMonthYear(context, period.month, period.year) : context.academicYear;
+  const structures = context.feeStructures.filter(s =>
+    s.classId === student.classId &&
+    s.academicYearId === academicYear?.id &&
+    (s.isActive || revisions.some(r => r.feeStructureId === s.id))
+  );
+  const inForce = (target: RevisionTarget, current: number) =>
+    period ? getAmountInForce(revisions, target, current, period.month, period.year) : current;
+  const lines: FeeLineItem[] = [];
+
+  if (structures.length > 0) {
+    [...context.feeHeads]
+      .filter(head => head.isActive)
+      .sort((a, b) => a.displayOrder - b.displayOrder)
+      .forEach(head => {
+        const structure = structures.find(s => s.feeHeadId === head.id);
+        const amount = structure ? inForce({ feeStructureId: structure.id }, structure.amount) : 0;
+        if (!structure || amount <= 0) return;
+        lines.push({
+          feeHeadId: head.id,
+          headName: head.headName,
+          frequency: head.frequency,
+          amount,
+        });
+      });
+  } else {
+    const monthlyFee = inForce({ studentId: student.id, field: 'monthlyFee' }, student.monthlyFee);
+    if (monthlyFee > 0) {
+      lines.push({ feeHeadId: null, headName: 'Tuition Fee', frequency: 'monthly', amount: monthlyFee });
+    }
+  }
+
+  const assignment = getAssignmentInForce(context.transportAssignments || [], student.id, period);
+  const stop = context.transportStops?.find(s => s.id === assignment?.stopId);
+  const transportFee = assignment
+    ? stop ? inForce({ stopId: stop.id }, stop.monthlyFee) : 0
+    : student.transportOpted ? inForce({ studentId: student.id, field: 'transportFee' }, student.transportFee) : 0;
+  if (transportFee > 0) {
+    lines.push({ feeHeadId: null, headName: 'Transport Fee', frequency: 'monthly', amount: transportFee });
+  }
+
+  const allocations = (context.bedAllocations || []).filter(a => a.studentId === student.id);
+  if (allocations.length > 0) {
+    lines.push(...getBoardingLines(
+      allocations,
+      context.hostelRooms || [],
+      context.hostels || [],
+      context.academicYears || [],
+      period,
+      (hostel, field) => inForce({ hostelId: hostel.id, field }, hostel[field])
+    ));
+  }
+
+  return lines;
+};
+
+/**
+ * Months (1-12) a quarterly or annual head falls due. Heads with their own
+ * due months (an exam fee in September and March, say) use those; otherwise
+ * quarterly heads bill in the first month of each quarter of the session and
+ * annual heads in the session's first month.
+ */
+export const getHeadDueMonths = (
+  frequency: FeeHead['frequency'],
+  sessionStartMonth: number,
+  dueMonths?: number[]
+): number[] => {
+  if (dueMonths && dueMonths.length > 0) {
+    return [...dueMonths].sort((a, b) => a - b);
+  }
+  switch (frequency) {
+    case 'quarterly':
+      return [0, 3, 6, 9].map(offset => ((sessionStartMonth - 1 + offset) % 12) + 1).sort((a, b) => a - b);
+    case 'annually':
+      return [sessionStartMonth];
+    default:
+      return [];
+  }
+};
+
+/**
+ * Whether a charge of the given frequency falls due in a month.
+ * Monthly heads bill every month, one-time heads in the student's
+ * admission month, the rest on their due months (see getHeadDueMonths).
+ */
+export const isChargeDue = (
+  frequency: FeeHead['frequency'],
+  student: Student,
+  month: number,
+  year: number,
+  sessionStartMonth: number,
+  dueMonths?: number[]
+): boolean => {
+  switch (frequency) {
+    case 'monthly':
+      return true;
+    case 'one-time':
+      // Read from the string: new Date() parses YYYY-MM-DD as UTC, which is
+      // the previous month west of UTC for an admission on the 1st
+      return Number(student.admissionDate.slice(0, 4)) === year && Number(student.admissionDate.slice(5, 7)) === month;
+    default:
+      return getHeadDueMonths(frequency, sessionStartMonth, dueMonths).includes(month);
+  }
+};
+
+/**
+ * Billing period a non-monthly charge for a month belongs to; a head is
+ * charged at most once per period. One-time heads have a single period,
+ * annual heads one per session and quarterly heads one per quarter of the
+ * session. Heads with their own due months are charged once per due month.
+ */
+const getChargePeriod = (
+  frequency: FeeHead['frequency'],
+  month: number,
+  year: number,
+  sessionStartMonth: number,
+  dueMonths?: number[]
+): string => {
+  if (frequency === 'one-time') return 'once';
+  if (dueMonths && dueMonths.length > 0) return `${year}-${month}`;
+
+  const sessionYear = month >= sessionStartMonth ? year : year - 1;
+  if (frequency === 'annually') return `session ${sessionYear}`;
+  return `quarter ${sessionYear}-${Math.floor(((month - sessionStartMonth + 12) % 12) / 3)}`;
+};
+
+/**
+ * Itemized charges billed to a student for one fee month.
+ *
+ * Pass the student's fee records to keep a quarterly, annual or one-time
+ * head off the bill when a record for another month already charged it
+ * for the same period - after the admission date or the session start is
+ * corrected, for example. Cancelled and reversed records should be left
+ * out by the caller.
+ *
+ * A charge split into an installment plan is replaced by the plan's
+ * installments, each billed in the month it falls due. Additional charges
+ * are added in the month they are billed with (see getChargeMonth), which
+ * also depends on `records`.
+ */
+export const getMonthCharges = (
+  student: Student,
+  month: number,
+  year: number,
+  context: FeeContext,
+  records: FeeRecord[] = []
+): FeeLineItem[] => {
+  const sessionStartMonth = getSessionStartMonth(getFeeMonthYear(context, month, year));
+  const dueMonthsOf = (feeHeadId: number | null) =>
+    context.feeHeads.find(head => head.id === feeHeadId)?.dueMonths;
+
+  const charged = new Set<string>();
+  records
+    .filter(r => r.studentId === student.id && !(r.feeMonth === month && r.feeYear === year))
+    .forEach(r => (r.items || []).forEach(item => {
+      if (item.feeHeadId === null || item.frequency === 'monthly') return;
+      if (item.installmentPlanId !== undefined || item.chargeId !== undefined) return;
+      const period = getChargePeriod(item.frequency, r.feeMonth, r.feeYear, sessionStartMonth, dueMonthsOf(item.feeHeadId));
+      charged.add(`${item.feeHeadId}:${period}`);
+    }));
+
+  const plans = context.installmentPlans || [];
+  return [
+    ...resolveStudentFees(student, context, { month, year })
+      .filter(line => isChargeDue(line.frequency, student, month, year, sessionStartMonth, dueMonthsOf(line.feeHeadId)))
+      .filter(line => line.feeHeadId === null || line.frequency === 'monthly' ||
+        !charged.has(`${line.feeHeadId}:${getChargePeriod(line.frequency, month, year, sessionStartMonth, dueMonthsOf(line.feeHeadId))}`))
+      .filter(line => !isSplitCharge(plans, student.id, line, month, year)),
+    ...getInstallmentLines(plans, student.id, month, year),
+    ...getChargeLines(context.additionalCharges || [], records, student.id, month, year),
+  ];
+};
+
+/**
+ * Regular monthly amount (monthly heads only)
+ */
+export const getMonthlyTotal = (student: Student, context: FeeContext): number => {
+  return sumLines(resolveStudentFees(student, context).filter(line => line.frequency === 'monthly'));
+};
+
+export const sumLines = (lines: FeeLineItem[]): number => {
+  return lines.reduce((sum, line) => sum + line.amount, 0);
+};
+
+/**
+ * Combine lines from several months into one line per head
+ */
+export const groupLinesByHead = (lines: FeeLineItem[]): FeeLineItem[] => {
+  const grouped = new Map<string, FeeLineItem>();
+  lines.forEach(line => {
+    const key = `${line.feeHeadId ?? ''}:${line.headName}`;
+    const existing = grouped.get(key);
+    if (existing) {
+      existing.amount += line.amount;
+      if (line.concession) existing.concession = (existing.concession || 0) + line.concession;
+      if (line.paid !== undefined) existing.paid = (existing.paid || 0) + line.paid;
+    } else {
+      grouped.set(key, { ...line });
+    }
+  });
+  return Array.from(grouped.values());
+};
@@ -0,0 +1,97 @@
+// Installment Plans for School Fee Manager Pro
+// Pure functions: the store supplies the saved plans, fee records and dues.
+import type { FeeLineItem, FeeRecord, InstallmentPlan } from '../types';
+import type { StudentDues } from './dues';
+
+export interface InstallmentStatus {
+  installmentNo: number;
+  dueDate: string;
+  amount: number;
+  paid: number;
+  outstanding: number;
+  status: 'paid' | 'overdue' | 'due' | 'upcoming';
+}
+
+const isInMonth = (date: string, month: number, year: number): boolean =>
+  Number(date.slice(0, 4)) === year && Number(date.slice(5, 7)) === month;
+
+/**
+ * Whether a charge line of a month is replaced by one of the student's plans
+ */
+export const isSplitCharge = (
+  plans: InstallmentPlan[],
+  studentId: number,
+  line: FeeLineItem,
+  month: number,
+  year: number
+): boolean => {
+  return line.installmentPlanId === undefined && line.chargeId === undefined && plans.some(plan =>
+    plan.studentId === studentId &&
+    plan.feeMonth === month &&
+    plan.feeYear === year &&
+    plan.feeHeadId === line.feeHeadId &&
+    plan.headName === line.headName
+  );
+};
+
+/**
+ * Installments of the student's plans falling due in a month, as bill lines.
+ * Amounts are already after concession.
+ */
+export const getInstallmentLines = (
+  plans: InstallmentPlan[],
+  studentId: number,
+  month: number,
+  year: number
+): FeeLineItem[] => {
+  return plans
+    .filter(plan => plan.studentId === studentId)
+    .flatMap(plan => plan.installments
+      .map((installment, index) => ({ installment, installmentNo: index + 1 }))
+      .filter(({ installment }) => isInMonth(installment.dueDate, month, year))
+      .map(({ installment, installmentNo }) => ({
+        feeHeadId: plan.feeHeadId,
+        headName: `${plan.headName} (Installment ${installmentNo}/${plan.installments.length})`,
+        frequency: 'one-time' as const,
+        amount: installment.amount,
+        installmentPlanId: plan.id,
+        installmentNo,
+        dueDate: installment.dueDate,
+      })));
+};
+
+/**
+ * Where each installment of a plan stands on `asOf` (YYYY-MM-DD). Payments
+ * come from the student's dues, so arrears paid off on a later receipt count
+ * against the installment they settled.
+ */
+export const getInstallmentStatus = (
+  plan: InstallmentPlan,
+  dues: StudentDues,
+  asOf: string
+): InstallmentStatus[] => {
+  const heads = dues.months.flatMap(m => m.heads).filter(h => h.installmentPlanId === plan.id);
+
+  return plan.installments.map((installment, index) => {
+    const installmentNo = index + 1;
+    const head = heads.find(h => h.installmentNo === installmentNo);
+    const paid = head ? head.paid : 0;
+    const outstanding = installment.amount - paid;
+    const status = outstanding <= 0
+      ? 'paid'
+      : installment.dueDate < asOf
+        ? 'overdue'
+        : head ? 'due' : 'upcoming';
+    return { installmentNo, dueDate: installment.dueDate, amount: installment.amount, paid, outstanding, status };
+  });
+};
+
+/**
+ * A plan can be changed until money has been received against any of its installments
+ */
+export const isPlanLocked = (plan: InstallmentPlan, records: FeeRecord[]): boolean => {
+  return records.some(r =>
+    r.amountPaid > 0 &&
+    (r.items || []).some(item => item.installmentPlanId === plan.id)
+  );
+};
@@ -0,0 +1,97 @@
+// Late Fee Engine for School Fee Manager Pro
+// Pure functions: the store supplies the class terms and the school's late fee rules.
+import type { FeeStructure, LateFeeSettings, Student } from '../types';
+import { getClassStructures, type FeeContext } from './feeCalculator';
+
+export type LateFeeTerms = Pick<FeeStructure, 'dueDay' | 'lateFeePerDay' | 'maxLateFee'>;
+
+export interface LateFeeResult {
+  dueDate: string;          // YYYY-MM-DD, empty when the class has no terms
+  daysLate: number;         // late days after holidays are excluded
+  chargeableDays: number;   // late days beyond the grace period
+  amount: number;
+}
+
+export const DEFAULT_LATE_FEE_SETTINGS: LateFeeSettings = {
+  graceDays: 0,
+  holidays: [],
+  excludeSundays: false,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Dates are handled as UTC midnights so daylight saving never shifts a day
+const parseDate = (date: string): number => {
+  const [year, month, day] = date.split('-').map(Number);
+  return Date.UTC(year, month - 1, day);
+};
+
+const formatDate = (time: number): string => new Date(time).toISOString().slice(0, 10);
+
+/**
+ * Due date of a fee month, e.g. the 10th of that month
+ */
+export const getDueDate = (feeMonth: number, feeYear: number, dueDay: number): string => {
+  return formatDate(Date.UTC(feeYear, feeMonth - 1, dueDay));
+};
+
+/**
+ * Due-date terms for a student: every head of a class shares the same terms,
+ * so the first active structure row is used. Classes without a fee structure
+ * have no terms and are never fined.
+ */
+export const getLateFeeTerms = (student: Student, context: FeeContext): LateFeeTerms | undefined => {
+  return getClassStructures(student.classId, context.academicYear?.id, context.feeStructures)[0];
+};
+
+/**
+ * Late fee for one fee month paid on `paymentDate`.
+ *
+ * Every day after the due date counts as late except holidays (and Sundays
+ * when excluded). Nothing is charged within the grace period; after it, each
+ * day beyond the grace days costs `lateFeePerDay`, capped at `maxLateFee`
+ * (a cap of 0 means uncapped).
+ */
+export const calculateLateFee = (
+  feeMonth: number,
+  feeYear: number,
+  paymentDate: string,
+  terms: LateFeeTerms | undefined,
+  settings: LateFeeSettings = DEFAULT_LATE_FEE_SETTINGS
+): LateFeeResult => {
+  if (!terms) {
+    return { dueDate: '', daysLate: 0, chargeableDays: 0, amount: 0 };
+  }
+
+  const dueDate = getDueDate(feeMonth, feeYear, terms.dueDay);
+  const holidays = new Set(settings.holidays);
+  const paidOn = parseDate(paymentDate);
+
+  let daysLate = 0;
+  for (let day = parseDate(dueDate) + DAY_MS; day <= paidOn; day += DAY_MS) {
+    if (holidays.has(formatDate(day))) continue;
+    if (settings.excludeSundays && new Date(day).getUTCDay() === 0) continue;
+    daysLate++;
+  }
+
+  const chargeableDays = Math.max(0, daysLate - settings.graceDays);
+  let amount = chargeableDays * terms.lateFeePerDay;
+  if (terms.maxLateFee > 0) {
+    amount = Math.min(amount, terms.maxLateFee);
+  }
+
+  return { dueDate, daysLate, chargeableDays, amount };
+};
+
+/**
+ * Spread an overridden late fee total across the months of a payment:
+ * each month keeps at most its computed fee, the last month takes any remainder.
+ */
+export const allocateLateFee = (computed: number[], total: number): number[] => {
+  let remaining = total;
+  return computed.map((amount, index) => {
+    const share = index === computed.length - 1 ? remaining : Math.min(amount, remaining);
+    remaining -= share;
+    return share;
+  });
+};
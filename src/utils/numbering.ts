@@ -0,0 +1,122 @@
+// Document Numbering for School Fee Manager Pro
+// Pure functions: the store supplies the schemes, academic years and the
+// numbers already in use.
+import type { AcademicYear, DocumentType, NumberingScheme, NumberingSettings } from '../types';
+
+export const DEFAULT_NUMBERING: NumberingSettings = {
+  receipt: { prefix: 'FEE', yearToken: 'year', padding: 5, reset: 'never' },
+  invoice: { prefix: 'INV', yearToken: 'year', padding: 5, reset: 'never' },
+  salary_slip: { prefix: 'SAL', yearToken: 'year', padding: 4, reset: 'never' },
+  credit_note: { prefix: 'CN', yearToken: 'year', padding: 5, reset: 'never' },
+};
+
+export const DOCUMENT_LABELS: Record<DocumentType, string> = {
+  receipt: 'Fee Receipt',
+  invoice: 'Invoice',
+  salary_slip: 'Salary Slip',
+  credit_note: 'Credit Note',
+};
+
+/**
+ * Short label of the academic year a date falls in, e.g. "2025-26", or
+ * null when no academic year covers it
+ */
+export const getAcademicYearLabel = (date: string, academicYears: AcademicYear[]): string | null => {
+  const year = academicYears.find(y => y.startDate <= date && date <= y.endDate);
+  if (!year) return null;
+  return `${year.startDate.slice(0, 4)}-${year.endDate.slice(2, 4)}`;
+};
+
+/**
+ * The year part of a number dated `date`. Without an academic year
+ * covering the date the calendar year is used.
+ */
+const getYearPart = (scheme: NumberingScheme, date: string, academicYears: AcademicYear[]): string => {
+  if (scheme.yearToken === 'none') return '';
+  if (scheme.yearToken === 'academic_year') return getAcademicYearLabel(date, academicYears) || date.slice(0, 4);
+  return date.slice(0, 4);
+};
+
+/**
+ * Everything in a number before the sequence, e.g. "FEE-2026-"
+ */
+export const getNumberBase = (scheme: NumberingScheme, date: string, academicYears: AcademicYear[]): string => {
+  const yearPart = getYearPart(scheme, date, academicYears);
+  return [scheme.prefix.trim(), yearPart].filter(Boolean).map(part => `${part}-`).join('');
+};
+
+/**
+ * Key of the counter a number is drawn from. Yearly schemes count per
+ * year part; schemes that never reset share one counter across years.
+ */
+export const getCounterKey = (
+  type: DocumentType,
+  scheme: NumberingScheme,
+  date: string,
+  academicYears: AcademicYear[]
+): string => {
+  if (scheme.reset === 'never') return `${type}|${scheme.prefix.trim()}`;
+  return `${type}|${getNumberBase(scheme, date, academicYears)}`;
+};
+
+export const formatDocumentNumber = (base: string, sequence: number, padding: number): string => {
+  return `${base}${String(sequence).padStart(padding, '0')}`;
+};
+
+/**
+ * Highest sequence among numbers issued with this base. Numbers from
+ * older schemes ("FEE-2026-00012-1760000000000-2") count by their first
+ * run of digits, so a new scheme carries on from where they stopped.
+ */
+export const getHighestSequence = (numbers: string[], base: string): number => {
+  return numbers.reduce((max, number) => {
+    if (!number.startsWith(base)) return max;
+    const match = /^(\d+)(-\d+)*$/.exec(number.slice(base.length));
+    return match ? Math.max(max, Number(match[1])) : max;
+  }, 0);
+};
+
+/**
+ * The document a record's number belongs to. Older schemes gave the second
+ * and later records of a receipt or credit note their own "-2", "-3"
+ * suffix ("FEE-2026-00012-1760000000000-2", "CN-2026-00003-2"); current
+ * schemes give every record the document's number.
+ */
+export const getDocumentKey = (number: string): string => {
+  return number.replace(/^(FEE-\d{4}-\d+-\d{13}|CN-\d{4}-\d+)-\d+$/, '$1');
+};
+
+/**
+ * Numbers given to more than one document. Each entry pairs a number with
+ * a key identifying its document, so the several records of one receipt
+ * or invoice do not count as duplicates.
+ */
+export const findDuplicateNumbers = (entries: { number: string; documentKey: string }[]): string[] => {
+  const documents = new Map<string, Set<string>>();
+  entries.forEach(({ number, documentKey }) => {
+    if (!number) return;
+    if (!documents.has(number)) documents.set(number, new Set());
+    documents.get(number)!.add(documentKey);
+  });
+  return Array.from(documents.entries())
+    .filter(([, keys]) => keys.size > 1)
+    .map(([number]) => number);
+};
+
+/**
+ * Problems with a scheme, empty when it can be saved
+ */
+export const validateNumberingScheme = (scheme: NumberingScheme): string[] => {
+  const problems: string[] = [];
+  if (!/^[A-Za-z0-9]{1,8}$/.test(scheme.prefix.trim())) {
+    problems.push('Prefix must be 1 to 8 letters or digits');
+  }
+  if (!Number.isInteger(scheme.padding) || scheme.padding < 1 || scheme.padding > 8) {
+    problems.push('Padding must be between 1 and 8 digits');
+  }
+  // A yearly reset follows the year in the number; without one the counter would never restart
+  if (scheme.reset === 'yearly' && scheme.yearToken === 'none') {
+    problems.push('A yearly reset needs a year or academic year in the number');
+  }
+  return problems;
+};
@@ -9,8 +9,20 @@
  * - CSV export functionality
  */
 
-import type { FeeRecord, SalaryPayment, Student } from '../types';
-import { getSchoolInfo, getStudentById, getTeacherById, getClasses, formatCurrency } from '../store';
+import type { DayClosing, Family, FeeRecord, FeeWaiver, SalaryPayment, Sponsor, Student, TransportRoute } from '../types';
+import {
+  getSchoolInfo, getStudentById, getTeacherById, getClasses, getFeeRecords, getStudentsDues,
+  getStudentInstallmentPlans, getAdditionalCharges, getStudentAdditionalCharges, getLiveFeeRecords,
+  getCollectorDayRecords, getUsers, getStudents, getVehicles, getTransportStops, getTransportAssignments,
+  getScholarshipAwards, getScholarshipPrograms, getSponsorCharges, getSponsorPayments, getStudentBalance,
+  getLocalDateString, formatCurrency
+} from '../store';
+import { getReversedIds } from './allocation';
+import { getInstallmentStatus } from './installments';
+import { getChargeStatus } from './charges';
+import { getRouteRoster } from './transport';
+import { getSponsorLedger, type SponsorCharge } from './scholarships';
+import { WAIVER_TYPE_LABELS } from './waivers';
 
 /**
  * Get month name from month number (1-12)
@@ -56,13 +68,19 @@ export const generateFeeReceipt = (record: FeeRecord): void => {
     return;
   }
 
+  // Unpaid records are demand invoices from the billing run
+  const isInvoice = record.status === 'unpaid';
+  const documentNumber = isInvoice ? record.invoiceNumber || '' : record.receiptNumber;
+  // Fines and one-off charges print with the reason they were posted for
+  const charges = new Map(getAdditionalCharges().map(c => [c.id, c]));
+
   const html = `
 <!DOCTYPE html>
 <html lang="en">
 <head>
   <meta charset="UTF-8">
   <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <title>Fee Receipt - ${record.receiptNumber}</title>
+  <title>${isInvoice ? 'Fee Invoice' : 'Fee Receipt'} - ${documentNumber}</title>
   <style>
     * {
       margin: 0;
@@ -369,9 +387,9 @@ export const generateFeeReceipt = (record: FeeRecord): void => {
   </style>
 </head>
 <body>
-  <div class="watermark">PAID</div>
+  <div class="watermark">${isInvoice ? 'DUE' : 'PAID'}</div>
   
-  <button class="print-btn no-print" onclick="window.print()">🖨️ Print Receipt</button>
+  <button class="print-btn no-print" onclick="window.print()">🖨️ Print ${isInvoice ? 'Invoice' : 'Receipt'}</button>
   
   <div class="receipt-container">
     <div class="header">
@@ -381,17 +399,17 @@ export const generateFeeReceipt = (record: FeeRecord): void => {
     </div>
     
     <div class="receipt-title">
-      <h2>📄 Fee Receipt</h2>
+      <h2>${isInvoice ? '🧾 Fee Invoice' : '📄 Fee Receipt'}</h2>
     </div>
     
     <div class="receipt-info">
       <div>
-        <label>Receipt No</label>
-        <span>${record.receiptNumber}</span>
+        <label>${isInvoice ? 'Invoice No' : 'Receipt No'}</label>
+        <span>${documentNumber}</span>
       </div>
       <div>
-        <label>Receipt Date</label>
-        <span>${formatDate(record.paymentDate)}</span>
+        <label>${isInvoice ? 'Due Date' : 'Receipt Date'}</label>
+        <span>${formatDate(isInvoice ? record.dueDate || '' : record.paymentDate)}</span>
       </div>
       <div>
         <label>Fee Month</label>
@@ -440,6 +458,13 @@ export const generateFeeReceipt = (record: FeeRecord): void => {
             </tr>
           </thead>
           <tbody>
+            ${record.items ? record.items.map(item => `
+            <tr>
+              <td>${item.headName}${item.chargeId !== undefined && charges.get(item.chargeId)?.reason
+                ? ` <span style="color: #6b7280; font-size: 11px">(${charges.get(item.chargeId)?.reason})</span>` : ''}</td>
+              <td class="amount">${formatCurrency(item.amount)}</td>
+            </tr>
+            `).join('') : `
             <tr>
               <td>Monthly Tuition Fee</td>
               <td class="amount">${formatCurrency(student.monthlyFee)}</td>
@@ -449,7 +474,7 @@ export const generateFeeReceipt = (record: FeeRecord): void => {
               <td>Transport Fee</td>
               <td class="amount">${formatCurrency(student.transportFee)}</td>
             </tr>
-            ` : ''}
+            ` : ''}`}
             ${record.lateFee > 0 ? `
             <tr>
               <td>Late Fee <span class="addition">(+)</span></td>
@@ -468,6 +493,24 @@ export const generateFeeReceipt = (record: FeeRecord): void => {
               <td class="amount deduction">- ${formatCurrency(record.concessionAmount)}</td>
             </tr>
             ` : ''}
+            ${record.sponsoredAmount ? `
+            <tr>
+              <td>Paid by Scholarship Sponsor <span class="deduction">(-)</span></td>
+              <td class="amount deduction">- ${formatCurrency(record.sponsoredAmount)}</td>
+            </tr>
+            ` : ''}
+            ${record.waivedAmount ? `
+            <tr>
+              <td>Fee Waiver <span class="deduction">(-)</span></td>
+              <td class="amount deduction">- ${formatCurrency(record.waivedAmount)}</td>
+            </tr>
+            ` : ''}
+            ${record.advanceAdjusted ? `
+            <tr>
+              <td>Advance Adjusted <span class="deduction">(-)</span></td>
+              <td class="amount deduction">- ${formatCurrency(record.advanceAdjusted)}</td>
+            </tr>
+            ` : ''}
             <tr>
               <td><strong>Total Fee</strong></td>
               <td class="amount"><strong>${formatCurrency(record.totalFee)}</strong></td>
@@ -476,26 +519,39 @@ export const generateFeeReceipt = (record: FeeRecord): void => {
               <td><strong>Net Payable</strong></td>
               <td class="amount"><strong>${formatCurrency(record.netPayable)}</strong></td>
             </tr>
+            ${isInvoice ? `
+            <tr class="total-row">
+              <td>Amount Due by ${formatDate(record.dueDate || '')}</td>
+              <td class="amount">${formatCurrency(record.balanceDue)}</td>
+            </tr>
+            ` : `
             <tr class="total-row">
               <td>✓ Amount Paid</td>
               <td class="amount">${formatCurrency(record.amountPaid)}</td>
             </tr>
-            ${record.balanceDue > 0 ? `
+            `}
+            ${record.balanceDue > 0 && !isInvoice ? `
             <tr style="background: #fef2f2;">
               <td style="color: #dc2626;">Balance Due</td>
               <td class="amount" style="color: #dc2626;">${formatCurrency(record.balanceDue)}</td>
             </tr>
             ` : ''}
+            ${record.advanceCredit ? `
+            <tr style="background: #f0fdf4;">
+              <td style="color: #16a34a;">Held as Advance Credit</td>
+              <td class="amount" style="color: #16a34a;">${formatCurrency(record.advanceCredit)}</td>
+            </tr>
+            ` : ''}
           </tbody>
         </table>
       </div>
       
       <div class="amount-words">
         <label>Amount in Words</label>
-        <p>${numberToWords(record.amountPaid)} Rupees Only</p>
+        <p>${numberToWords(isInvoice ? record.balanceDue : record.amountPaid)} Rupees Only</p>
       </div>
       
-      <div class="payment-info">
+      ${isInvoice ? '' : `<div class="payment-info">
         <h4>✓ Payment Information</h4>
         <div class="payment-grid">
           <div class="info-row">
@@ -520,8 +576,17 @@ export const generateFeeReceipt = (record: FeeRecord): void => {
             <span>${record.bankName}</span>
           </div>
           ` : ''}
+          ${record.chequeNumber ? `
+          <div class="info-row">
+            <label>Cheque No:</label>
+            <span>${record.chequeNumber}${record.chequeDate ? ` (${formatDate(record.chequeDate)})` : ''}</span>
+          </div>
+          ` : ''}
         </div>
-      </div>
+        ${record.chequeStatus && record.chequeStatus !== 'cleared' ? `
+        <p style="margin-top: 8px; font-size: 11px; color: #666;">Payment by cheque is subject to realisation.</p>
+        ` : ''}
+      </div>`}
     </div>
     
     <div class="footer">
@@ -1072,6 +1137,7 @@ export const downloadInvoicesAsCSV = (invoices: FeeRecord[]): void => {
   // CSV Headers
   const headers = [
     'Receipt Number',
+    'Invoice Number',
     'Student ID',
     'Student Name',
     'Class',
@@ -1085,6 +1151,7 @@ export const downloadInvoicesAsCSV = (invoices: FeeRecord[]): void => {
     'Net Payable (PKR)',
     'Amount Paid (PKR)',
     'Balance Due (PKR)',
+    'Due Date',
     'Payment Date',
     'Payment Mode',
     'Payment Reference',
@@ -1097,6 +1164,7 @@ export const downloadInvoicesAsCSV = (invoices: FeeRecord[]): void => {
     const student = getStudentById(inv.studentId);
     return [
       inv.receiptNumber,
+      inv.invoiceNumber || '',
       student?.studentId || 'N/A',
       student ? `${student.firstName} ${student.lastName || ''}` : 'N/A',
       student ? getClassName(student.classId) : 'N/A',
@@ -1110,6 +1178,7 @@ export const downloadInvoicesAsCSV = (invoices: FeeRecord[]): void => {
       inv.netPayable,
       inv.amountPaid,
       inv.balanceDue,
+      inv.dueDate || '',
       inv.paymentDate,
       inv.paymentMode,
       inv.paymentReference || '',
@@ -1219,6 +1288,82 @@ export const downloadSalaryRecordsAsCSV = (records: SalaryPayment[]): void => {
   URL.revokeObjectURL(url);
 };
 
+/**
+ * Download the waiver register as CSV, one row per month and head waived
+ */
+export const downloadWaiverRegisterAsCSV = (waivers: FeeWaiver[]): void => {
+  if (waivers.length === 0) {
+    alert('No waivers to export!');
+    return;
+  }
+
+  const users = getUsers();
+  const userName = (userId?: number) => users.find(u => u.id === userId)?.fullName || '';
+
+  const headers = [
+    'Request #',
+    'Type',
+    'Status',
+    'Student ID',
+    'Student Name',
+    'Class',
+    'Month',
+    'Year',
+    'Fee Head',
+    'Amount (PKR)',
+    'Justification',
+    'Requested By',
+    'Requested On',
+    'Reviewed By',
+    'Reviewed On',
+    'Review Remarks'
+  ];
+
+  const rows = waivers.flatMap(waiver => {
+    const student = getStudentById(waiver.studentId);
+    return waiver.lines.map(line => [
+      waiver.id,
+      WAIVER_TYPE_LABELS[waiver.waiverType],
+      waiver.status,
+      student?.studentId || 'N/A',
+      student ? `${student.firstName} ${student.lastName || ''}` : 'N/A',
+      student ? getClassName(student.classId) : 'N/A',
+      getMonthName(line.feeMonth),
+      line.feeYear,
+      line.headName,
+      line.amount,
+      waiver.reason,
+      userName(waiver.requestedBy),
+      waiver.requestedAt.split('T')[0],
+      `${userName(waiver.reviewedBy)}${waiver.selfReviewed ? ' (own request)' : ''}`,
+      waiver.reviewedAt ? waiver.reviewedAt.split('T')[0] : '',
+      waiver.reviewRemarks || ''
+    ]);
+  });
+
+  const csvContent = [
+    headers.join(','),
+    ...rows.map(row => row.map(cell => {
+      const cellStr = String(cell);
+      if (cellStr.includes(',') || cellStr.includes('"') || cellStr.includes('\n')) {
+        return `"${cellStr.replace(/"/g, '""')}"`;
+      }
+      return cellStr;
+    }).join(','))
+  ].join('\n');
+
+  const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  const today = new Date().toISOString().split('T')[0];
+  link.href = url;
+  link.download = `waiver-register-${today}.csv`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
 /**
  * Convert number to words (for amount in words)
  */
@@ -1280,8 +1425,20 @@ export const generateStudentLedger = (student: Student, feeRecords: FeeRecord[])
   const schoolInfo = getSchoolInfo();
   const studentRecords = feeRecords.filter(r => r.studentId === student.id);
   
+  // Months due but not yet billed, with any quarterly, annual or one-time heads scheduled in them
+  const dues = getStudentsDues([student], feeRecords)[0];
+  const unbilled = dues.dueMonths.filter(m => !m.billed);
+  const installments = getStudentInstallmentPlans(student.id).flatMap(plan =>
+    getInstallmentStatus(plan, dues, getLocalDateString()).map(status => ({ plan, ...status })));
+  const liveRecords = getLiveFeeRecords();
+  const additionalCharges = getStudentAdditionalCharges(student.id).map(charge =>
+    ({ charge, ...getChargeStatus(charge, liveRecords, dues, getLocalDateString()) }));
+
   const totalPaid = studentRecords.reduce((sum, r) => sum + r.amountPaid, 0);
-  const totalDue = studentRecords.reduce((sum, r) => sum + r.balanceDue, 0);
+  // Record balances carry earlier arrears forward and include reversed receipts,
+  // so the total comes from the dues calculator
+  const totalDue = dues.totalOutstanding;
+  const totalConcession = studentRecords.reduce((sum, r) => sum + r.concessionAmount, 0);
 
   const html = `
 <!DOCTYPE html>
@@ -1355,6 +1512,7 @@ export const generateStudentLedger = (student: Student, feeRecords: FeeRecord[])
     }
     .summary-item.paid { background: #dcfce7; color: #16a34a; }
     .summary-item.due { background: #fee2e2; color: #dc2626; }
+    .summary-item.concession { background: #fef3c7; color: #b45309; }
     .summary-item label { font-size: 10px; display: block; }
     .summary-item span { font-size: 18px; font-weight: bold; }
     .footer {
@@ -1409,6 +1567,7 @@ export const generateStudentLedger = (student: Student, feeRecords: FeeRecord[])
           <th>Month</th>
           <th>Year</th>
           <th class="amount">Total Fee</th>
+          <th class="amount">Concession</th>
           <th class="amount">Paid</th>
           <th class="amount">Balance</th>
           <th>Date</th>
@@ -1417,29 +1576,106 @@ export const generateStudentLedger = (student: Student, feeRecords: FeeRecord[])
         </tr>
       </thead>
       <tbody>
-        ${studentRecords.length === 0 ? `
-        <tr><td colspan="9" style="text-align: center; padding: 20px; color: #999;">No fee records found</td></tr>
+        ${studentRecords.length === 0 && unbilled.length === 0 ? `
+        <tr><td colspan="10" style="text-align: center; padding: 20px; color: #999;">No fee records found</td></tr>
         ` : studentRecords.map(r => `
         <tr>
-          <td>${r.receiptNumber}</td>
+          <td>${r.receiptNumber || r.invoiceNumber}</td>
           <td>${getMonthName(r.feeMonth)}</td>
           <td>${r.feeYear}</td>
           <td class="amount">${formatCurrency(r.netPayable)}</td>
+          <td class="amount">${r.concessionAmount > 0 ? formatCurrency(r.concessionAmount) : '-'}</td>
           <td class="amount">${formatCurrency(r.amountPaid)}</td>
           <td class="amount">${formatCurrency(r.balanceDue)}</td>
-          <td>${formatDate(r.paymentDate)}</td>
+          <td>${r.paymentDate ? formatDate(r.paymentDate) : '-'}</td>
           <td>${r.paymentMode}</td>
           <td style="color: ${r.status === 'paid' ? '#16a34a' : '#f59e0b'}">${r.status.toUpperCase()}</td>
         </tr>
         `).join('')}
+        ${unbilled.map(m => `
+        <tr>
+          <td>Not billed<br><small style="color: #666;">${m.heads.map(h => h.headName).join(', ')}</small></td>
+          <td>${getMonthName(m.feeMonth)}</td>
+          <td>${m.feeYear}</td>
+          <td class="amount">${formatCurrency(m.charged)}</td>
+          <td class="amount">${m.concession > 0 ? formatCurrency(m.concession) : '-'}</td>
+          <td class="amount">${formatCurrency(m.paid)}</td>
+          <td class="amount">${formatCurrency(m.outstanding)}</td>
+          <td>-</td>
+          <td>-</td>
+          <td style="color: #dc2626">DUE</td>
+        </tr>
+        `).join('')}
+      </tbody>
+    </table>
+    
+    ${installments.length > 0 ? `
+    <table>
+      <thead>
+        <tr>
+          <th>Installment Plan</th>
+          <th>#</th>
+          <th>Due Date</th>
+          <th class="amount">Amount</th>
+          <th class="amount">Paid</th>
+          <th class="amount">Outstanding</th>
+          <th>Status</th>
+        </tr>
+      </thead>
+      <tbody>
+        ${installments.map(i => `
+        <tr>
+          <td>${i.plan.headName} (${getMonthName(i.plan.feeMonth)} ${i.plan.feeYear})</td>
+          <td>${i.installmentNo}/${i.plan.installments.length}</td>
+          <td>${formatDate(i.dueDate)}</td>
+          <td class="amount">${formatCurrency(i.amount)}</td>
+          <td class="amount">${formatCurrency(i.paid)}</td>
+          <td class="amount">${formatCurrency(i.outstanding)}</td>
+          <td style="color: ${i.status === 'paid' ? '#16a34a' : i.status === 'overdue' ? '#dc2626' : '#f59e0b'}">${i.status.toUpperCase()}</td>
+        </tr>
+        `).join('')}
+      </tbody>
+    </table>
+    ` : ''}
+    
+    ${additionalCharges.length > 0 ? `
+    <table>
+      <thead>
+        <tr>
+          <th>Additional Charge</th>
+          <th>Due Date</th>
+          <th>Billed With</th>
+          <th class="amount">Amount</th>
+          <th class="amount">Paid</th>
+          <th class="amount">Outstanding</th>
+          <th>Status</th>
+        </tr>
+      </thead>
+      <tbody>
+        ${additionalCharges.map(c => `
+        <tr>
+          <td>${c.charge.headName}${c.charge.reason ? ` (${c.charge.reason})` : ''}</td>
+          <td>${formatDate(c.charge.dueDate)}</td>
+          <td>${c.billedIn ? `${getMonthName(c.billedIn.feeMonth)} ${c.billedIn.feeYear}` : 'Billed'}</td>
+          <td class="amount">${formatCurrency(c.charge.amount)}</td>
+          <td class="amount">${formatCurrency(c.paid)}</td>
+          <td class="amount">${formatCurrency(c.outstanding)}</td>
+          <td style="color: ${c.status === 'paid' ? '#16a34a' : c.status === 'due' ? '#dc2626' : '#f59e0b'}">${c.status.toUpperCase()}</td>
+        </tr>
+        `).join('')}
       </tbody>
     </table>
+    ` : ''}
     
     <div class="summary">
       <div class="summary-item paid">
         <label>Total Paid</label>
         <span>${formatCurrency(totalPaid)}</span>
       </div>
+      <div class="summary-item concession">
+        <label>Total Concession</label>
+        <span>${formatCurrency(totalConcession)}</span>
+      </div>
       <div class="summary-item due">
         <label>Total Due</label>
         <span>${formatCurrency(totalDue)}</span>
@@ -1462,3 +1698,1023 @@ export const generateStudentLedger = (student: Student, feeRecords: FeeRecord[])
     alert('Please allow pop-ups to view the ledger');
   }
 };
+
+/**
+ * Generate a combined fee statement for every child in a family
+ */
+export const generateFamilyStatement = (family: Family, students: Student[], feeRecords: FeeRecord[]): void => {
+  const schoolInfo = getSchoolInfo();
+  const children = students.map(student => {
+    const all = feeRecords.filter(r => r.studentId === student.id);
+    const reversed = getReversedIds(all);
+    const records = all.filter(r => r.status !== 'cancelled' && !reversed.has(r.id));
+    return { student, records, balance: getStudentBalance(student.id) };
+  });
+
+  const totalPaid = children.reduce((sum, c) => sum + c.records.reduce((s, r) => s + r.amountPaid, 0), 0);
+  const totalConcession = children.reduce((sum, c) => sum + c.records.reduce((s, r) => s + r.concessionAmount, 0), 0);
+  const familyBalance = children.reduce((sum, c) => sum + c.balance, 0);
+
+  const html = `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Family Statement - ${family.familyCode}</title>
+  <style>
+    * { margin: 0; padding: 0; box-sizing: border-box; }
+    body {
+      font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif;
+      font-size: 12px;
+      line-height: 1.4;
+      color: #333;
+      padding: 20px;
+      background: #f5f5f5;
+    }
+    .container {
+      max-width: 900px;
+      margin: 0 auto;
+      background: white;
+      padding: 30px;
+      border: 1px solid #ddd;
+      box-shadow: 0 2px 4px rgba(0,0,0,0.1);
+    }
+    .header {
+      text-align: center;
+      margin-bottom: 20px;
+      padding-bottom: 15px;
+      border-bottom: 2px solid #1e40af;
+    }
+    .header h1 { font-size: 20px; color: #1e40af; }
+    .header p { font-size: 11px; color: #666; }
+    .title {
+      text-align: center;
+      font-size: 16px;
+      font-weight: bold;
+      color: #1e40af;
+      margin: 15px 0;
+      text-transform: uppercase;
+    }
+    .family-info {
+      display: grid;
+      grid-template-columns: 1fr 1fr;
+      gap: 10px;
+      background: #f9fafb;
+      padding: 15px;
+      border-radius: 8px;
+      margin-bottom: 20px;
+    }
+    .info-item { display: flex; }
+    .info-item label { width: 100px; color: #666; font-size: 11px; }
+    .info-item span { font-weight: 500; }
+    .child-title { font-size: 13px; font-weight: 600; margin-top: 20px; color: #1e40af; }
+    table { width: 100%; border-collapse: collapse; margin: 8px 0 10px; }
+    th, td { padding: 8px; border: 1px solid #e5e7eb; text-align: left; font-size: 11px; }
+    th { background: #f3f4f6; font-weight: 600; text-transform: uppercase; }
+    .amount { text-align: right; }
+    .child-balance { text-align: right; font-weight: 600; }
+    .summary {
+      display: flex;
+      justify-content: flex-end;
+      gap: 20px;
+      margin-top: 20px;
+      padding-top: 15px;
+      border-top: 2px solid #e5e7eb;
+    }
+    .summary-item {
+      text-align: center;
+      padding: 10px 20px;
+      border-radius: 8px;
+    }
+    .summary-item.paid { background: #dcfce7; color: #16a34a; }
+    .summary-item.due { background: #fee2e2; color: #dc2626; }
+    .summary-item.concession { background: #fef3c7; color: #b45309; }
+    .summary-item label { font-size: 10px; display: block; }
+    .summary-item span { font-size: 18px; font-weight: bold; }
+    .footer {
+      text-align: center;
+      margin-top: 30px;
+      padding-top: 15px;
+      border-top: 1px solid #e5e7eb;
+      font-size: 10px;
+      color: #999;
+    }
+    .print-btn {
+      display: block;
+      margin: 20px auto;
+      padding: 10px 30px;
+      background: #1e40af;
+      color: white;
+      border: none;
+      border-radius: 6px;
+      cursor: pointer;
+    }
+    @media print {
+      .no-print { display: none !important; }
+      body { background: white; padding: 0; }
+      .container { box-shadow: none; border: none; }
+    }
+  </style>
+</head>
+<body>
+  <button class="print-btn no-print" onclick="window.print()">🖨️ Print Statement</button>
+
+  <div class="container">
+    <div class="header">
+      <h1>${schoolInfo?.schoolName || 'School Name'}</h1>
+      <p>${schoolInfo?.address || ''} | Phone: ${schoolInfo?.phonePrimary || 'N/A'}</p>
+    </div>
+
+    <div class="title">👪 Family Fee Statement</div>
+
+    <div class="family-info">
+      <div class="info-item"><label>Family Code:</label><span>${family.familyCode}</span></div>
+      <div class="info-item"><label>Family:</label><span>${family.familyName}</span></div>
+      <div class="info-item"><label>Phone:</label><span>${family.primaryPhone || 'N/A'}</span></div>
+      <div class="info-item"><label>Children:</label><span>${students.length}</span></div>
+    </div>
+
+    ${children.map(({ student, records, balance }) => `
+    <div class="child-title">${student.firstName} ${student.lastName || ''} (${student.studentId}) - ${getClassName(student.classId)}</div>
+    <table>
+      <thead>
+        <tr>
+          <th>Receipt #</th>
+          <th>Month</th>
+          <th class="amount">Total Fee</th>
+          <th class="amount">Concession</th>
+          <th class="amount">Late Fee</th>
+          <th class="amount">Paid</th>
+          <th>Date</th>
+          <th>Status</th>
+        </tr>
+      </thead>
+      <tbody>
+        ${records.length === 0 ? `
+        <tr><td colspan="8" style="text-align: center; padding: 12px; color: #999;">No fee records found</td></tr>
+        ` : records.map(r => `
+        <tr>
+          <td>${r.receiptNumber || r.invoiceNumber}</td>
+          <td>${getMonthName(r.feeMonth)} ${r.feeYear}</td>
+          <td class="amount">${formatCurrency(r.totalFee)}</td>
+          <td class="amount">${r.concessionAmount > 0 ? formatCurrency(r.concessionAmount) : '-'}</td>
+          <td class="amount">${r.lateFee > 0 ? formatCurrency(r.lateFee) : '-'}</td>
+          <td class="amount">${formatCurrency(r.amountPaid)}</td>
+          <td>${r.paymentDate ? formatDate(r.paymentDate) : '-'}</td>
+          <td style="color: ${r.status === 'paid' ? '#16a34a' : '#f59e0b'}">${r.status.toUpperCase()}</td>
+        </tr>
+        `).join('')}
+      </tbody>
+    </table>
+    <div class="child-balance" style="color: ${balance > 0 ? '#dc2626' : '#16a34a'}">
+      ${balance >= 0 ? 'Balance Due' : 'Advance Credit'}: ${formatCurrency(Math.abs(balance))}
+    </div>
+    `).join('')}
+
+    <div class="summary">
+      <div class="summary-item paid">
+        <label>Family Total Paid</label>
+        <span>${formatCurrency(totalPaid)}</span>
+      </div>
+      <div class="summary-item concession">
+        <label>Total Concession</label>
+        <span>${formatCurrency(totalConcession)}</span>
+      </div>
+      <div class="summary-item due">
+        <label>${familyBalance >= 0 ? 'Family Balance Due' : 'Family Advance Credit'}</label>
+        <span>${formatCurrency(Math.abs(familyBalance))}</span>
+      </div>
+    </div>
+
+    <div class="footer">
+      Generated on ${new Date().toLocaleDateString('en-PK')} | Developed by <strong>M.W.A</strong> | School Fee Manager Pro v1.0.0
+    </div>
+  </div>
+</body>
+</html>
+  `;
+
+  const printWindow = window.open('', '_blank');
+  if (printWindow) {
+    printWindow.document.write(html);
+    printWindow.document.close();
+  } else {
+    alert('Please allow pop-ups to view the statement');
+  }
+};
+
+/**
+ * Generate a credit note for a cancelled receipt from its reversal entries
+ */
+export const generateCreditNote = (reversals: FeeRecord[]): void => {
+  if (reversals.length === 0) return;
+
+  const schoolInfo = getSchoolInfo();
+  const records = getFeeRecords();
+  const first = reversals[0];
+  const original = records.find(r => r.id === first.reversalOf);
+  const refund = reversals.reduce((sum, r) => sum - r.amountPaid, 0);
+
+  const html = `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Credit Note - ${first.receiptNumber}</title>
+  <style>
+    * { margin: 0; padding: 0; box-sizing: border-box; }
+    body {
+      font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif;
+      font-size: 12px;
+      line-height: 1.4;
+      color: #333;
+      padding: 20px;
+      background: #f5f5f5;
+    }
+    .container {
+      max-width: 800px;
+      margin: 0 auto;
+      background: white;
+      padding: 30px;
+      border: 1px solid #ddd;
+      box-shadow: 0 2px 4px rgba(0,0,0,0.1);
+    }
+    .header {
+      text-align: center;
+      margin-bottom: 20px;
+      padding-bottom: 15px;
+      border-bottom: 2px solid #dc2626;
+    }
+    .header h1 { font-size: 20px; color: #1e40af; }
+    .header p { font-size: 11px; color: #666; }
+    .title {
+      text-align: center;
+      font-size: 16px;
+      font-weight: bold;
+      color: #dc2626;
+      margin: 15px 0;
+      text-transform: uppercase;
+    }
+    .note-info {
+      display: grid;
+      grid-template-columns: 1fr 1fr;
+      gap: 10px;
+      background: #fef2f2;
+      padding: 15px;
+      border-radius: 8px;
+      margin-bottom: 20px;
+    }
+    .info-item { display: flex; }
+    .info-item label { width: 120px; color: #666; font-size: 11px; }
+    .info-item span { font-weight: 500; }
+    table { width: 100%; border-collapse: collapse; margin: 20px 0; }
+    th, td { padding: 8px; border: 1px solid #e5e7eb; text-align: left; font-size: 11px; }
+    th { background: #f3f4f6; font-weight: 600; text-transform: uppercase; }
+    .amount { text-align: right; }
+    .total-row td { font-weight: bold; background: #fef2f2; color: #dc2626; }
+    .reason { padding: 12px 15px; background: #f9fafb; border-left: 3px solid #dc2626; margin-bottom: 15px; }
+    .reason label { display: block; font-size: 10px; color: #666; text-transform: uppercase; }
+    .footer {
+      text-align: center;
+      margin-top: 30px;
+      padding-top: 15px;
+      border-top: 1px solid #e5e7eb;
+      font-size: 10px;
+      color: #999;
+    }
+    .print-btn {
+      display: block;
+      margin: 20px auto;
+      padding: 10px 30px;
+      background: #1e40af;
+      color: white;
+      border: none;
+      border-radius: 6px;
+      cursor: pointer;
+    }
+    @media print {
+      .no-print { display: none !important; }
+      body { background: white; padding: 0; }
+      .container { box-shadow: none; border: none; }
+    }
+  </style>
+</head>
+<body>
+  <button class="print-btn no-print" onclick="window.print()">🖨️ Print Credit Note</button>
+
+  <div class="container">
+    <div class="header">
+      <h1>${schoolInfo?.schoolName || 'School Name'}</h1>
+      <p>${schoolInfo?.address || ''} | Phone: ${schoolInfo?.phonePrimary || 'N/A'}</p>
+    </div>
+
+    <div class="title">Credit Note</div>
+
+    <div class="note-info">
+      <div class="info-item"><label>Credit Note No:</label><span>${first.receiptNumber}</span></div>
+      <div class="info-item"><label>Date:</label><span>${formatDate(first.paymentDate)}</span></div>
+      <div class="info-item"><label>Cancelled Receipt:</label><span>${original?.receiptNumber || 'N/A'}</span></div>
+      <div class="info-item"><label>Receipt Date:</label><span>${original ? formatDate(original.paymentDate) : 'N/A'}</span></div>
+    </div>
+
+    <table>
+      <thead>
+        <tr>
+          <th>Student</th>
+          <th>Class</th>
+          <th>Fee Month</th>
+          <th class="amount">Fee Reversed</th>
+          <th class="amount">Refunded</th>
+        </tr>
+      </thead>
+      <tbody>
+        ${reversals.map(r => {
+          const student = getStudentById(r.studentId);
+          return `
+        <tr>
+          <td>${student ? `${student.firstName} ${student.lastName || ''} (${student.studentId})` : 'N/A'}</td>
+          <td>${student ? getClassName(student.classId) : 'N/A'}</td>
+          <td>${getMonthName(r.feeMonth)} ${r.feeYear}</td>
+          <td class="amount">${formatCurrency(-r.netPayable)}</td>
+          <td class="amount">${formatCurrency(-r.amountPaid)}</td>
+        </tr>`;
+        }).join('')}
+        <tr class="total-row">
+          <td colspan="4">Total Refund</td>
+          <td class="amount">${formatCurrency(refund)}</td>
+        </tr>
+      </tbody>
+    </table>
+
+    <div class="reason">
+      <label>Amount in Words</label>
+      ${numberToWords(refund)} Rupees Only
+    </div>
+    <div class="reason">
+      <label>Reason for Cancellation</label>
+      ${first.reversalReason || ''}
+    </div>
+
+    <div class="footer">
+      This is a computer generated credit note | Developed by <strong>M.W.A</strong> | School Fee Manager Pro v1.0.0
+    </div>
+  </div>
+</body>
+</html>
+  `;
+
+  const printWindow = window.open('', '_blank');
+  if (printWindow) {
+    printWindow.document.write(html);
+    printWindow.document.close();
+  } else {
+    alert('Please allow pop-ups to view the credit note');
+  }
+};
+
+/**
+ * Generate the day closing sheet for one collector, for signing
+ */
+export const generateDayClosingSheet = (closing: DayClosing): void => {
+  const schoolInfo = getSchoolInfo();
+  const users = getUsers();
+  const collector = users.find(u => u.id === closing.collectorId);
+  const closedBy = users.find(u => u.id === closing.closedBy);
+  const records = getCollectorDayRecords(closing.closingDate, closing.collectorId);
+
+  const modeTotals = records.reduce((acc, r) => {
+    acc[r.paymentMode] = (acc[r.paymentMode] || 0) + r.amountPaid;
+    return acc;
+  }, {} as Record<string, number>);
+  const differenceLabel = closing.difference < 0 ? 'Shortage' : closing.difference > 0 ? 'Excess' : 'Difference';
+
+  const html = `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Day Closing - ${closing.closingDate} - ${collector?.fullName || ''}</title>
+  <style>
+    * { margin: 0; padding: 0; box-sizing: border-box; }
+    body {
+      font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif;
+      font-size: 12px;
+      line-height: 1.4;
+      color: #333;
+      padding: 20px;
+      background: #f5f5f5;
+    }
+    .container {
+      max-width: 800px;
+      margin: 0 auto;
+      background: white;
+      padding: 30px;
+      border: 1px solid #ddd;
+      box-shadow: 0 2px 4px rgba(0,0,0,0.1);
+    }
+    .header {
+      text-align: center;
+      margin-bottom: 20px;
+      padding-bottom: 15px;
+      border-bottom: 2px solid #1e40af;
+    }
+    .header h1 { font-size: 20px; color: #1e40af; }
+    .header p { font-size: 11px; color: #666; }
+    .title {
+      text-align: center;
+      font-size: 16px;
+      font-weight: bold;
+      color: #1e40af;
+      margin: 15px 0;
+      text-transform: uppercase;
+    }
+    .sheet-info {
+      display: grid;
+      grid-template-columns: 1fr 1fr;
+      gap: 10px;
+      background: #eff6ff;
+      padding: 15px;
+      border-radius: 8px;
+      margin-bottom: 20px;
+    }
+    .info-item { display: flex; }
+    .info-item label { width: 120px; color: #666; font-size: 11px; }
+    .info-item span { font-weight: 500; }
+    .columns { display: grid; grid-template-columns: 1fr 1fr; gap: 20px; }
+    table { width: 100%; border-collapse: collapse; margin: 15px 0; }
+    th, td { padding: 6px 8px; border: 1px solid #e5e7eb; text-align: left; font-size: 11px; }
+    th { background: #f3f4f6; font-weight: 600; text-transform: uppercase; }
+    .amount { text-align: right; }
+    .total-row td { font-weight: bold; background: #eff6ff; }
+    .short td { color: #dc2626; font-weight: bold; }
+    .excess td { color: #16a34a; font-weight: bold; }
+    .remarks { padding: 12px 15px; background: #f9fafb; border-left: 3px solid #1e40af; margin-bottom: 15px; }
+    .remarks label { display: block; font-size: 10px; color: #666; text-transform: uppercase; }
+    .signatures {
+      display: flex;
+      justify-content: space-between;
+      padding: 30px 0 10px;
+      margin-top: 20px;
+    }
+    .signature-box { text-align: center; min-width: 180px; }
+    .signature-line {
+      border-top: 1px solid #333;
+      margin-top: 50px;
+      padding-top: 5px;
+      font-size: 12px;
+      color: #6b7280;
+    }
+    .footer {
+      text-align: center;
+      margin-top: 20px;
+      padding-top: 15px;
+      border-top: 1px solid #e5e7eb;
+      font-size: 10px;
+      color: #999;
+    }
+    .print-btn {
+      display: block;
+      margin: 20px auto;
+      padding: 10px 30px;
+      background: #1e40af;
+      color: white;
+      border: none;
+      border-radius: 6px;
+      cursor: pointer;
+    }
+    @media print {
+      .no-print { display: none !important; }
+      body { background: white; padding: 0; }
+      .container { box-shadow: none; border: none; }
+    }
+  </style>
+</head>
+<body>
+  <button class="print-btn no-print" onclick="window.print()">🖨️ Print Closing Sheet</button>
+
+  <div class="container">
+    <div class="header">
+      <h1>${schoolInfo?.schoolName || 'School Name'}</h1>
+      <p>${schoolInfo?.address || ''} | Phone: ${schoolInfo?.phonePrimary || 'N/A'}</p>
+    </div>
+
+    <div class="title">Day Closing Sheet</div>
+
+    <div class="sheet-info">
+      <div class="info-item"><label>Date:</label><span>${formatDate(closing.closingDate)}</span></div>
+      <div class="info-item"><label>Collector:</label><span>${collector?.fullName || 'N/A'}</span></div>
+      <div class="info-item"><label>Receipts:</label><span>${closing.receiptCount}</span></div>
+      <div class="info-item"><label>Closed By:</label><span>${closedBy?.fullName || 'N/A'} at ${new Date(closing.closedAt).toLocaleTimeString()}</span></div>
+    </div>
+
+    <div class="columns">
+      <table>
+        <thead>
+          <tr>
+            <th>Denomination</th>
+            <th class="amount">Count</th>
+            <th class="amount">Amount</th>
+          </tr>
+        </thead>
+        <tbody>
+          ${closing.denominations.map(d => `
+          <tr>
+            <td>Rs. ${d.value.toLocaleString()}</td>
+            <td class="amount">${d.count}</td>
+            <td class="amount">${formatCurrency(d.value * d.count)}</td>
+          </tr>
+          `).join('')}
+          <tr class="total-row">
+            <td colspan="2">Cash Declared</td>
+            <td class="amount">${formatCurrency(closing.declaredCash)}</td>
+          </tr>
+        </tbody>
+      </table>
+
+      <table>
+        <thead>
+          <tr>
+            <th>Summary</th>
+            <th class="amount">Amount</th>
+          </tr>
+        </thead>
+        <tbody>
+          ${Object.entries(modeTotals).map(([mode, amount]) => `
+          <tr>
+            <td>${mode.replace('_', ' ').toUpperCase()} receipts</td>
+            <td class="amount">${formatCurrency(amount)}</td>
+          </tr>
+          `).join('')}
+          <tr class="total-row">
+            <td>Cash Expected</td>
+            <td class="amount">${formatCurrency(closing.expectedCash)}</td>
+          </tr>
+          <tr class="total-row">
+            <td>Cash Declared</td>
+            <td class="amount">${formatCurrency(closing.declaredCash)}</td>
+          </tr>
+          <tr class="${closing.difference < 0 ? 'short' : closing.difference > 0 ? 'excess' : 'total-row'}">
+            <td>${differenceLabel}</td>
+            <td class="amount">${formatCurrency(Math.abs(closing.difference))}</td>
+          </tr>
+        </tbody>
+      </table>
+    </div>
+
+    <table>
+      <thead>
+        <tr>
+          <th>Receipt No.</th>
+          <th>Student</th>
+          <th>Fee Month</th>
+          <th>Mode</th>
+          <th class="amount">Amount</th>
+        </tr>
+      </thead>
+      <tbody>
+        ${records.map(r => {
+          const student = getStudentById(r.studentId);
+          return `
+        <tr>
+          <td>${r.receiptNumber}</td>
+          <td>${student ? `${student.firstName} ${student.lastName || ''}` : 'N/A'}</td>
+          <td>${getMonthName(r.feeMonth)} ${r.feeYear}</td>
+          <td>${r.paymentMode.replace('_', ' ').toUpperCase()}</td>
+          <td class="amount">${formatCurrency(r.amountPaid)}</td>
+        </tr>`;
+        }).join('')}
+      </tbody>
+    </table>
+
+    ${closing.remarks ? `
+    <div class="remarks">
+      <label>Remarks</label>
+      ${closing.remarks}
+    </div>
+    ` : ''}
+
+    <div class="signatures">
+      <div class="signature-box">
+        <div class="signature-line">Collector</div>
+      </div>
+      <div class="signature-box">
+        <div class="signature-line">Accountant</div>
+      </div>
+      <div class="signature-box">
+        <div class="signature-line">Principal</div>
+      </div>
+    </div>
+
+    <div class="footer">
+      This is a computer generated closing sheet | Developed by <strong>M.W.A</strong> | School Fee Manager Pro v1.0.0
+    </div>
+  </div>
+</body>
+</html>
+  `;
+
+  const printWindow = window.open('', '_blank');
+  if (printWindow) {
+    printWindow.document.write(html);
+    printWindow.document.close();
+  } else {
+    alert('Please allow pop-ups to view the closing sheet');
+  }
+};
+
+/**
+ * Generate a route's student roster for a month, for the driver
+ */
+export const generateRouteRoster = (route: TransportRoute, month: number, year: number): void => {
+  const schoolInfo = getSchoolInfo();
+  const vehicle = getVehicles().find(v => v.id === route.vehicleId);
+  const roster = getRouteRoster(route.id, getTransportStops(), getStudents(), getTransportAssignments(), month, year);
+
+  const html = `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Route Roster - ${route.routeCode} - ${getMonthName(month)} ${year}</title>
+  <style>
+    * { margin: 0; padding: 0; box-sizing: border-box; }
+    body {
+      font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif;
+      font-size: 12px;
+      line-height: 1.4;
+      color: #333;
+      padding: 20px;
+      background: #f5f5f5;
+    }
+    .container {
+      max-width: 800px;
+      margin: 0 auto;
+      background: white;
+      padding: 30px;
+      border: 1px solid #ddd;
+      box-shadow: 0 2px 4px rgba(0,0,0,0.1);
+    }
+    .header {
+      text-align: center;
+      margin-bottom: 20px;
+      padding-bottom: 15px;
+      border-bottom: 2px solid #1e40af;
+    }
+    .header h1 { font-size: 20px; color: #1e40af; }
+    .header p { font-size: 11px; color: #666; }
+    .title {
+      text-align: center;
+      font-size: 16px;
+      font-weight: bold;
+      color: #1e40af;
+      margin: 15px 0;
+      text-transform: uppercase;
+    }
+    .route-info {
+      display: grid;
+      grid-template-columns: 1fr 1fr;
+      gap: 10px;
+      background: #eff6ff;
+      padding: 15px;
+      border-radius: 8px;
+      margin-bottom: 20px;
+    }
+    .info-item { display: flex; }
+    .info-item label { width: 100px; color: #666; font-size: 11px; }
+    .info-item span { font-weight: 500; }
+    table { width: 100%; border-collapse: collapse; margin: 15px 0; }
+    th, td { padding: 6px 8px; border: 1px solid #e5e7eb; text-align: left; font-size: 11px; }
+    th { background: #f3f4f6; font-weight: 600; text-transform: uppercase; }
+    .check { width: 60px; }
+    .footer {
+      text-align: center;
+      margin-top: 20px;
+      padding-top: 15px;
+      border-top: 1px solid #e5e7eb;
+      font-size: 10px;
+      color: #999;
+    }
+    .print-btn {
+      display: block;
+      margin: 20px auto;
+      padding: 10px 30px;
+      background: #1e40af;
+      color: white;
+      border: none;
+      border-radius: 6px;
+      cursor: pointer;
+    }
+    @media print {
+      .no-print { display: none !important; }
+      body { background: white; padding: 0; }
+      .container { box-shadow: none; border: none; }
+    }
+  </style>
+</head>
+<body>
+  <button class="print-btn no-print" onclick="window.print()">🖨️ Print Roster</button>
+
+  <div class="container">
+    <div class="header">
+      <h1>${schoolInfo?.schoolName || 'School Name'}</h1>
+      <p>${schoolInfo?.address || ''} | Phone: ${schoolInfo?.phonePrimary || 'N/A'}</p>
+    </div>
+
+    <div class="title">Route Roster - ${getMonthName(month)} ${year}</div>
+
+    <div class="route-info">
+      <div class="info-item"><label>Route:</label><span>${route.routeCode} - ${route.routeName}</span></div>
+      <div class="info-item"><label>Vehicle:</label><span>${vehicle ? `${vehicle.registrationNumber} (${vehicle.capacity} seats)` : 'N/A'}</span></div>
+      <div class="info-item"><label>Driver:</label><span>${vehicle?.driverName || 'N/A'}${vehicle?.driverPhone ? ` - ${vehicle.driverPhone}` : ''}</span></div>
+      <div class="info-item"><label>Students:</label><span>${roster.length}</span></div>
+    </div>
+
+    <table>
+      <thead>
+        <tr>
+          <th>#</th>
+          <th>Stop</th>
+          <th>Pickup</th>
+          <th>Student</th>
+          <th>Class</th>
+          <th>Parent Contact</th>
+          <th class="check">Present</th>
+        </tr>
+      </thead>
+      <tbody>
+        ${roster.map(({ student, stop }, index) => `
+        <tr>
+          <td>${index + 1}</td>
+          <td>${stop.stopName}</td>
+          <td>${stop.pickupTime || '-'}</td>
+          <td>${student.firstName} ${student.lastName || ''}</td>
+          <td>${getClassName(student.classId)}</td>
+          <td>${student.fatherName}${student.fatherPhone ? ` - ${student.fatherPhone}` : ''}</td>
+          <td class="check"></td>
+        </tr>
+        `).join('')}
+      </tbody>
+    </table>
+
+    <div class="footer">
+      Printed on ${formatDate(getLocalDateString())} | Developed by <strong>M.W.A</strong> | School Fee Manager Pro v1.0.0
+    </div>
+  </div>
+</body>
+</html>
+  `;
+
+  const printWindow = window.open('', '_blank');
+  if (printWindow) {
+    printWindow.document.write(html);
+    printWindow.document.close();
+  } else {
+    alert('Please allow pop-ups to view the roster');
+  }
+};
+
+/**
+ * Generate a sponsor statement: what was billed to the sponsor for each
+ * beneficiary and what they paid between two dates
+ */
+export const generateSponsorStatement = (sponsor: Sponsor, fromDate: string, toDate: string): void => {
+  const schoolInfo = getSchoolInfo();
+  const programs = getScholarshipPrograms();
+  const awards = getScholarshipAwards();
+  const describeStudent = (studentId: number) => {
+    const student = getStudentById(studentId);
+    return student ? `${student.firstName} ${student.lastName || ''} (${student.studentId})` : 'Unknown student';
+  };
+  const ledger = getSponsorLedger(
+    getSponsorCharges(sponsor.id, toDate),
+    getSponsorPayments().filter(p => p.sponsorId === sponsor.id && p.paymentDate <= toDate),
+    charge => `${describeStudent(charge.studentId)} - ${getMonthName(charge.feeMonth)} ${charge.feeYear}`
+  );
+  const opening = ledger.filter(e => e.date < fromDate).pop()?.balance || 0;
+  const entries = ledger.filter(e => e.date >= fromDate);
+  const billed = entries.reduce((sum, e) => sum + e.debit, 0);
+  const received = entries.reduce((sum, e) => sum + e.credit, 0);
+  const closing = opening + billed - received;
+
+  // Billed per beneficiary and award over the period
+  const beneficiaries = [...entries.reduce((map, { charge }) => {
+    if (!charge) return map;
+    const row = map.get(charge.awardId) || { charge, months: 0, amount: 0 };
+    return map.set(charge.awardId, { ...row, months: row.months + 1, amount: row.amount + charge.amount });
+  }, new Map<number, { charge: SponsorCharge; months: number; amount: number }>()).values()];
+
+  const html = `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Sponsor Statement - ${sponsor.name}</title>
+  <style>
+    * { margin: 0; padding: 0; box-sizing: border-box; }
+    body {
+      font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif;
+      font-size: 12px;
+      line-height: 1.4;
+      color: #333;
+      padding: 20px;
+      background: #f5f5f5;
+    }
+    .container {
+      max-width: 900px;
+      margin: 0 auto;
+      background: white;
+      padding: 30px;
+      border: 1px solid #ddd;
+      box-shadow: 0 2px 4px rgba(0,0,0,0.1);
+    }
+    .header {
+      text-align: center;
+      margin-bottom: 20px;
+      padding-bottom: 15px;
+      border-bottom: 2px solid #1e40af;
+    }
+    .header h1 { font-size: 20px; color: #1e40af; }
+    .header p { font-size: 11px; color: #666; }
+    .title {
+      text-align: center;
+      font-size: 16px;
+      font-weight: bold;
+      color: #1e40af;
+      margin: 15px 0;
+      text-transform: uppercase;
+    }
+    .sponsor-info {
+      display: grid;
+      grid-template-columns: 1fr 1fr;
+      gap: 10px;
+      background: #f9fafb;
+      padding: 15px;
+      border-radius: 8px;
+      margin-bottom: 20px;
+    }
+    .info-item { display: flex; }
+    .info-item label { width: 100px; color: #666; font-size: 11px; }
+    .info-item span { font-weight: 500; }
+    .section-title { font-size: 13px; font-weight: 600; margin-top: 20px; color: #1e40af; }
+    table { width: 100%; border-collapse: collapse; margin: 8px 0 10px; }
+    th, td { padding: 8px; border: 1px solid #e5e7eb; text-align: left; font-size: 11px; }
+    th { background: #f3f4f6; font-weight: 600; text-transform: uppercase; }
+    .amount { text-align: right; }
+    .summary {
+      display: flex;
+      justify-content: flex-end;
+      gap: 20px;
+      margin-top: 20px;
+      padding-top: 15px;
+      border-top: 2px solid #e5e7eb;
+    }
+    .summary-item {
+      text-align: center;
+      padding: 10px 20px;
+      border-radius: 8px;
+    }
+    .summary-item.billed { background: #dbeafe; color: #1e40af; }
+    .summary-item.paid { background: #dcfce7; color: #16a34a; }
+    .summary-item.due { background: #fee2e2; color: #dc2626; }
+    .summary-item label { font-size: 10px; display: block; }
+    .summary-item span { font-size: 18px; font-weight: bold; }
+    .footer {
+      text-align: center;
+      margin-top: 30px;
+      padding-top: 15px;
+      border-top: 1px solid #e5e7eb;
+      font-size: 10px;
+      color: #999;
+    }
+    .print-btn {
+      display: block;
+      margin: 20px auto;
+      padding: 10px 30px;
+      background: #1e40af;
+      color: white;
+      border: none;
+      border-radius: 6px;
+      cursor: pointer;
+    }
+    @media print {
+      .no-print { display: none !important; }
+      body { background: white; padding: 0; }
+      .container { box-shadow: none; border: none; }
+    }
+  </style>
+</head>
+<body>
+  <button class="print-btn no-print" onclick="window.print()">🖨️ Print Statement</button>
+
+  <div class="container">
+    <div class="header">
+      <h1>${schoolInfo?.schoolName || 'School Name'}</h1>
+      <p>${schoolInfo?.address || ''} | Phone: ${schoolInfo?.phonePrimary || 'N/A'}</p>
+    </div>
+
+    <div class="title">Sponsor Statement</div>
+
+    <div class="sponsor-info">
+      <div class="info-item"><label>Sponsor:</label><span>${sponsor.name}</span></div>
+      <div class="info-item"><label>Period:</label><span>${formatDate(fromDate)} - ${formatDate(toDate)}</span></div>
+      <div class="info-item"><label>Contact:</label><span>${sponsor.contactPerson || 'N/A'}${sponsor.phone ? ` - ${sponsor.phone}` : ''}</span></div>
+      <div class="info-item"><label>Beneficiaries:</label><span>${beneficiaries.length}</span></div>
+    </div>
+
+    <div class="section-title">Beneficiaries</div>
+    <table>
+      <thead>
+        <tr>
+          <th>Student</th>
+          <th>Class</th>
+          <th>Program</th>
+          <th class="amount">Months</th>
+          <th class="amount">Amount</th>
+        </tr>
+      </thead>
+      <tbody>
+        ${beneficiaries.length === 0 ? `
+        <tr><td colspan="5" style="text-align: center; padding: 12px; color: #999;">Nothing billed in this period</td></tr>
+        ` : beneficiaries.map(({ charge, months, amount }) => {
+          const student = getStudentById(charge.studentId);
+          const program = programs.find(p => p.id === awards.find(a => a.id === charge.awardId)?.programId);
+          return `
+        <tr>
+          <td>${describeStudent(charge.studentId)}</td>
+          <td>${student ? getClassName(student.classId) : 'N/A'}</td>
+          <td>${program?.name || '-'}</td>
+          <td class="amount">${months}</td>
+          <td class="amount">${formatCurrency(amount)}</td>
+        </tr>
+        `;
+        }).join('')}
+      </tbody>
+    </table>
+
+    <div class="section-title">Account</div>
+    <table>
+      <thead>
+        <tr>
+          <th>Date</th>
+          <th>Description</th>
+          <th class="amount">Billed</th>
+          <th class="amount">Received</th>
+          <th class="amount">Balance</th>
+        </tr>
+      </thead>
+      <tbody>
+        <tr>
+          <td>${formatDate(fromDate)}</td>
+          <td>Opening balance</td>
+          <td class="amount">-</td>
+          <td class="amount">-</td>
+          <td class="amount">${formatCurrency(opening)}</td>
+        </tr>
+        ${entries.map(e => `
+        <tr>
+          <td>${formatDate(e.date)}</td>
+          <td>${e.description}</td>
+          <td class="amount">${e.debit ? formatCurrency(e.debit) : '-'}</td>
+          <td class="amount">${e.credit ? formatCurrency(e.credit) : '-'}</td>
+          <td class="amount">${formatCurrency(e.balance)}</td>
+        </tr>
+        `).join('')}
+      </tbody>
+    </table>
+
+    <div class="summary">
+      <div class="summary-item billed">
+        <label>Billed</label>
+        <span>${formatCurrency(billed)}</span>
+      </div>
+      <div class="summary-item paid">
+        <label>Received</label>
+        <span>${formatCurrency(received)}</span>
+      </div>
+      <div class="summary-item due">
+        <label>${closing >= 0 ? 'Balance Due' : 'Paid in Advance'}</label>
+        <span>${formatCurrency(Math.abs(closing))}</span>
+      </div>
+    </div>
+
+    <div class="footer">
+      Generated on ${new Date().toLocaleDateString('en-PK')} | Developed by <strong>M.W.A</strong> | School Fee Manager Pro v1.0.0
+    </div>
+  </div>
+</body>
+</html>
+  `;
+
+  const printWindow = window.open('', '_blank');
+  if (printWindow) {
+    printWindow.document.write(html);
+    printWindow.document.close();
+  } else {
+    alert('Please allow pop-ups to view the statement');
+  }
+};
@@ -0,0 +1,67 @@
+// Fee Revisions for School Fee Manager Pro
+// Pure functions: the store supplies the saved revisions.
+import type { FeeRevision } from '../types';
+
+export type RevisionTarget =
+  | { feeStructureId: number }
+  | { stopId: number }
+  | { hostelId: number; field: 'boardingFee' | 'messFee' }
+  | { studentId: number; field: 'monthlyFee' | 'transportFee' };
+
+export interface FeeIncrease {
+  type: 'percent' | 'flat';
+  value: number;
+  roundTo: number;           // round the new amount to a multiple of this; 1 keeps rupees
+}
+
+const monthIndex = (date: string): number => Number(date.slice(0, 4)) * 12 + Number(date.slice(5, 7)) - 1;
+
+const isFor = (revision: FeeRevision, target: RevisionTarget): boolean => {
+  if ('feeStructureId' in target) return revision.feeStructureId === target.feeStructureId;
+  if ('stopId' in target) return revision.stopId === target.stopId;
+  if ('hostelId' in target) return revision.hostelId === target.hostelId && revision.field === target.field;
+  return revision.studentId === target.studentId && revision.field === target.field;
+};
+
+/**
+ * Revisions of one fee amount, oldest effective month first; revisions
+ * for the same month stay in the order they were made
+ */
+export const getRevisionHistory = (revisions: FeeRevision[], target: RevisionTarget): FeeRevision[] => {
+  return revisions
+    .filter(r => isFor(r, target))
+    .sort((a, b) => monthIndex(a.effectiveFrom) - monthIndex(b.effectiveFrom) || a.id - b.id);
+};
+
+/**
+ * Amount of a fee in force for a fee month. `current` is the amount saved
+ * on the structure cell or student, used when the fee was never revised.
+ * Before the first revision the fee was that revision's previous amount;
+ * from then on it is the latest revision effective by the month.
+ */
+export const getAmountInForce = (
+  revisions: FeeRevision[],
+  target: RevisionTarget,
+  current: number,
+  month: number,
+  year: number
+): number => {
+  const history = getRevisionHistory(revisions, target);
+  if (history.length === 0) return current;
+
+  const index = year * 12 + month - 1;
+  const inForce = history.filter(r => monthIndex(r.effectiveFrom) <= index);
+  return inForce.length > 0 ? inForce[inForce.length - 1].amount : history[0].previousAmount;
+};
+
+/**
+ * New amount after a bulk increase (a negative value is a decrease).
+ * Never goes below zero.
+ */
+export const getIncreasedAmount = (amount: number, increase: FeeIncrease): number => {
+  const raised = increase.type === 'percent'
+    ? amount * (1 + increase.value / 100)
+    : amount + increase.value;
+  const roundTo = increase.roundTo > 0 ? increase.roundTo : 1;
+  return Math.max(0, Math.round(raised / roundTo) * roundTo);
+};
@@ -0,0 +1,162 @@
+// Scholarships for School Fee Manager Pro
+// Pure functions: the store supplies sponsors, programs, awards and
+// sponsor payments.
+import type { FeeLineItem, ScholarshipAward, ScholarshipProgram, Sponsor, SponsorPayment } from '../types';
+
+export const SPONSOR_TYPE_LABELS: Record<Sponsor['sponsorType'], string> = {
+  trust: 'Trust',
+  individual: 'Individual Donor',
+  government: 'Government Scheme',
+};
+
+// A sponsor's share of one beneficiary's fee month
+export interface SponsorCharge {
+  awardId: number;
+  studentId: number;
+  feeMonth: number;
+  feeYear: number;
+  amount: number;
+}
+
+export interface SponsorLedgerEntry {
+  date: string;              // YYYY-MM-DD; the first of the month for charges
+  description: string;
+  debit: number;
+  credit: number;
+  balance: number;           // owed by the sponsor after this entry
+  charge?: SponsorCharge;
+  payment?: SponsorPayment;
+}
+
+const monthIndex = (date: string): number => Number(date.slice(0, 4)) * 12 + Number(date.slice(5, 7)) - 1;
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+/**
+ * Whether an award covers a fee month
+ */
+export const isAwardInForce = (award: ScholarshipAward, month: number, year: number): boolean => {
+  const index = year * 12 + month - 1;
+  return monthIndex(award.awardFrom) <= index && index <= monthIndex(award.awardTo);
+};
+
+/**
+ * The student's award covering a fee month; a student holds one award at a time
+ */
+export const getAwardInForce = (
+  awards: ScholarshipAward[],
+  studentId: number,
+  month: number,
+  year: number
+): ScholarshipAward | undefined => {
+  return awards.find(a => a.studentId === studentId && isAwardInForce(a, month, year));
+};
+
+/**
+ * Last day of the last month an award covers
+ */
+export const getAwardEndDate = (award: ScholarshipAward): string => {
+  const year = Number(award.awardTo.slice(0, 4));
+  const month = Number(award.awardTo.slice(5, 7));
+  return `${year}-${pad(month)}-${pad(new Date(year, month, 0).getDate())}`;
+};
+
+/**
+ * Whether two awards cover at least one common fee month
+ */
+export const awardsOverlap = (
+  a: Pick<ScholarshipAward, 'awardFrom' | 'awardTo'>,
+  b: Pick<ScholarshipAward, 'awardFrom' | 'awardTo'>
+): boolean => {
+  return monthIndex(a.awardFrom) <= monthIndex(b.awardTo) && monthIndex(b.awardFrom) <= monthIndex(a.awardTo);
+};
+
+/**
+ * Set `sponsored` and `awardId` on each charge line of a fee month, after
+ * concessions. A percentage program pays that share of each covered line;
+ * a fixed program pays up to its amount per month, spread over the covered
+ * lines in order. Installment lines and additional charges are left to
+ * the student, like concessions.
+ */
+export const applySponsorship = (
+  studentId: number,
+  items: FeeLineItem[],
+  awards: ScholarshipAward[],
+  programs: ScholarshipProgram[],
+  month: number,
+  year: number
+): FeeLineItem[] => {
+  const award = getAwardInForce(awards, studentId, month, year);
+  const program = programs.find(p => p.id === award?.programId);
+  let fixedRemaining = program?.coverageType === 'fixed' ? program.value : 0;
+
+  return items.map(item => {
+    const line = { ...item, sponsored: undefined, awardId: undefined };
+    if (!award || !program) return line;
+    if (item.installmentPlanId !== undefined || item.chargeId !== undefined) return line;
+    if (program.feeHeadId !== null && program.feeHeadId !== item.feeHeadId) return line;
+
+    const net = item.amount - (item.concession || 0);
+    let sponsored: number;
+    if (program.coverageType === 'percentage') {
+      sponsored = Math.round(net * Math.min(program.value, 100) / 100);
+    } else {
+      sponsored = Math.min(fixedRemaining, net);
+      fixedRemaining -= sponsored;
+    }
+    return sponsored > 0 ? { ...line, sponsored, awardId: award.id } : line;
+  });
+};
+
+export const sumSponsored = (items: FeeLineItem[]): number => {
+  return items.reduce((sum, item) => sum + (item.sponsored || 0), 0);
+};
+
+/**
+ * Awards lapsing within `days` of `asOf` (YYYY-MM-DD) that have not been
+ * renewed, soonest first
+ */
+export const getExpiringAwards = (awards: ScholarshipAward[], asOf: string, days: number): ScholarshipAward[] => {
+  const limit = new Date(`${asOf}T00:00:00`);
+  limit.setDate(limit.getDate() + days);
+  const until = `${limit.getFullYear()}-${pad(limit.getMonth() + 1)}-${pad(limit.getDate())}`;
+  return awards
+    .filter(award => {
+      const end = getAwardEndDate(award);
+      return end >= asOf && end <= until && !awards.some(a => a.renewedFrom === award.id);
+    })
+    .sort((a, b) => a.awardTo.localeCompare(b.awardTo));
+};
+
+/**
+ * A sponsor's ledger: what was billed to them, month by month, and what
+ * they paid, oldest first with a running balance
+ */
+export const getSponsorLedger = (
+  charges: SponsorCharge[],
+  payments: SponsorPayment[],
+  describeCharge: (charge: SponsorCharge) => string
+): SponsorLedgerEntry[] => {
+  const entries = [
+    ...charges.map(charge => ({
+      date: `${charge.feeYear}-${pad(charge.feeMonth)}-01`,
+      description: describeCharge(charge),
+      debit: charge.amount,
+      credit: 0,
+      charge,
+    })),
+    ...payments.map(payment => ({
+      date: payment.paymentDate,
+      description: `Payment received${payment.reference ? ` (${payment.reference})` : ''}`,
+      debit: 0,
+      credit: payment.amount,
+      payment,
+    })),
+  ].sort((a, b) => a.date.localeCompare(b.date) || b.debit - a.debit);
+
+  let balance = 0;
+  return entries.map(entry => {
+    balance += entry.debit - entry.credit;
+    return { ...entry, balance };
+  });
+};
@@ -0,0 +1,61 @@
+// Transport for School Fee Manager Pro
+// Pure functions: the store supplies routes, stops, students and assignments.
+import type { Student, TransportAssignment, TransportStop } from '../types';
+
+export interface RosterEntry {
+  student: Student;
+  stop: TransportStop;
+}
+
+const monthIndex = (date: string): number => Number(date.slice(0, 4)) * 12 + Number(date.slice(5, 7)) - 1;
+
+/**
+ * A student's assignments, oldest effective month first; assignments for
+ * the same month stay in the order they were made
+ */
+export const getAssignmentHistory = (assignments: TransportAssignment[], studentId: number): TransportAssignment[] => {
+  return assignments
+    .filter(a => a.studentId === studentId)
+    .sort((a, b) => monthIndex(a.effectiveFrom) - monthIndex(b.effectiveFrom) || a.id - b.id);
+};
+
+/**
+ * The assignment in force for a fee month, or the latest one without a
+ * period. Undefined before the student's first assignment.
+ */
+export const getAssignmentInForce = (
+  assignments: TransportAssignment[],
+  studentId: number,
+  period?: { month: number; year: number }
+): TransportAssignment | undefined => {
+  const history = getAssignmentHistory(assignments, studentId);
+  const inForce = period
+    ? history.filter(a => monthIndex(a.effectiveFrom) <= period.year * 12 + period.month - 1)
+    : history;
+  return inForce[inForce.length - 1];
+};
+
+/**
+ * Students riding a route in a fee month, in stop order along the route
+ * and by name within a stop. Students who are no longer active are left
+ * out.
+ */
+export const getRouteRoster = (
+  routeId: number,
+  stops: TransportStop[],
+  students: Student[],
+  assignments: TransportAssignment[],
+  month: number,
+  year: number
+): RosterEntry[] => {
+  const routeStops = stops.filter(s => s.routeId === routeId);
+  return students
+    .filter(s => s.status === 'active')
+    .flatMap(student => {
+      const stopId = getAssignmentInForce(assignments, student.id, { month, year })?.stopId;
+      const stop = routeStops.find(s => s.id === stopId);
+      return stop ? [{ student, stop }] : [];
+    })
+    .sort((a, b) => a.stop.displayOrder - b.stop.displayOrder ||
+      `${a.student.firstName} ${a.student.lastName || ''}`.localeCompare(`${b.student.firstName} ${b.student.lastName || ''}`));
+};
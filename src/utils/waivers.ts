@@ -0,0 +1,73 @@
+// Fee Waivers for School Fee Manager Pro
+// Pure functions: the store supplies the waiver requests. Only approved
+// waivers take anything off a student's dues.
+import type { FeeLineItem, FeeWaiver, WaiverLine } from '../types';
+
+export const WAIVER_TYPE_LABELS: Record<FeeWaiver['waiverType'], string> = {
+  waiver: 'Waiver',
+  write_off: 'Write-off',
+};
+
+/**
+ * Whether a waiver line forgives this charge line
+ */
+export const isSameHead = (
+  line: Pick<FeeLineItem, 'feeHeadId' | 'headName' | 'installmentPlanId' | 'installmentNo' | 'chargeId'>,
+  target: Pick<WaiverLine, 'feeHeadId' | 'headName' | 'installmentPlanId' | 'installmentNo' | 'chargeId'>
+): boolean => {
+  return line.feeHeadId === target.feeHeadId &&
+    line.headName === target.headName &&
+    line.installmentPlanId === target.installmentPlanId &&
+    line.installmentNo === target.installmentNo &&
+    line.chargeId === target.chargeId;
+};
+
+export const getWaiverTotal = (waiver: FeeWaiver): number => {
+  return waiver.lines.reduce((sum, line) => sum + line.amount, 0);
+};
+
+/**
+ * Set `waived` on each charge line of a fee month from the student's
+ * approved waivers, after concessions and sponsorship. A line is never
+ * waived below zero.
+ */
+export const applyWaivers = (
+  studentId: number,
+  items: FeeLineItem[],
+  waivers: FeeWaiver[],
+  month: number,
+  year: number
+): FeeLineItem[] => {
+  const lines = items.map(item => ({ ...item, waived: undefined as number | undefined }));
+  waivers
+    .filter(w => w.studentId === studentId && w.status === 'approved')
+    .flatMap(w => w.lines)
+    .filter(target => target.feeMonth === month && target.feeYear === year)
+    .forEach(target => {
+      let remaining = target.amount;
+      lines.filter(line => isSameHead(line, target)).forEach(line => {
+        const open = line.amount - (line.concession || 0) - (line.sponsored || 0) - (line.waived || 0);
+        const waived = Math.min(Math.max(open, 0), remaining);
+        if (waived > 0) {
+          line.waived = (line.waived || 0) + waived;
+          remaining -= waived;
+        }
+      });
+    });
+  return lines;
+};
+
+export const sumWaived = (items: FeeLineItem[]): number => {
+  return items.reduce((sum, item) => sum + (item.waived || 0), 0);
+};
+
+/**
+ * Total a student's approved waivers forgive in one fee month
+ */
+export const getWaivedForMonth = (waivers: FeeWaiver[], studentId: number, month: number, year: number): number => {
+  return waivers
+    .filter(w => w.studentId === studentId && w.status === 'approved')
+    .flatMap(w => w.lines)
+    .filter(line => line.feeMonth === month && line.feeYear === year)
+    .reduce((sum, line) => sum + line.amount, 0);
+};